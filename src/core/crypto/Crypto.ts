@@ -21,6 +21,16 @@ import * as crypto from 'crypto';
 import * as CryptoJS from 'crypto-js';
 
 export class Crypto {
+    /**
+     * The size of the AES-GCM initialization vector.
+     */
+    public static readonly GCM_IV_SIZE = 12;
+
+    /**
+     * The size of the AES-GCM authentication tag.
+     */
+    public static readonly GCM_TAG_SIZE = 16;
+
     /**
      * Encrypt data
      * @param {string} data
@@ -175,6 +185,57 @@ export class Crypto {
         return decoded.toUpperCase();
     };
 
+    /**
+     * Derive the symmetric key shared by two accounts. Both sides of the pair get the same key.
+     *
+     * @param {string} privateKey - The private key of one account
+     * @param {string} publicKey - The public key of the other account
+     * @return {Uint8Array} - The 32 bytes shared key
+     */
+    public static deriveSharedKey = (privateKey: string, publicKey: string): Uint8Array => {
+        const keyPair = KeyPair.createKeyPairFromPrivateKeyString(privateKey);
+        return utility.catapult_crypto.deriveSharedKey(keyPair.privateKey, convert.hexToUint8(publicKey));
+    };
+
+    /**
+     * Encrypt data with AES-256-GCM and a random 12 bytes initialization vector
+     *
+     * @param {Uint8Array} key - The 32 bytes key
+     * @param {Uint8Array} data - The data to encrypt
+     * @param {Uint8Array} additionalData - Data authenticated but not encrypted (optional)
+     * @return {Uint8Array} - The iv (12 bytes), the authentication tag (16 bytes) and the encrypted data
+     */
+    public static encryptGcm = (key: Uint8Array, data: Uint8Array, additionalData?: Uint8Array): Uint8Array => {
+        const iv = Crypto.randomBytes(Crypto.GCM_IV_SIZE);
+        const cipher = crypto.createCipheriv('aes-256-gcm', Buffer.from(key), iv);
+        if (additionalData) {
+            cipher.setAAD(Buffer.from(additionalData));
+        }
+        const encrypted = Buffer.concat([cipher.update(Buffer.from(data)), cipher.final()]);
+        return new Uint8Array(Buffer.concat([iv, cipher.getAuthTag(), encrypted]));
+    };
+
+    /**
+     * Decrypt data encrypted with {@link Crypto.encryptGcm}
+     *
+     * @param {Uint8Array} key - The 32 bytes key
+     * @param {Uint8Array} payload - The iv, the authentication tag and the encrypted data
+     * @param {Uint8Array} additionalData - The authenticated data given when encrypting (optional)
+     * @return {Uint8Array} - The decrypted data. It throws when the key is wrong or the payload was altered.
+     */
+    public static decryptGcm = (key: Uint8Array, payload: Uint8Array, additionalData?: Uint8Array): Uint8Array => {
+        if (payload.length < Crypto.GCM_IV_SIZE + Crypto.GCM_TAG_SIZE) {
+            throw new Error('Invalid AES-GCM payload size');
+        }
+        const buffer = Buffer.from(payload);
+        const decipher = crypto.createDecipheriv('aes-256-gcm', Buffer.from(key), buffer.slice(0, Crypto.GCM_IV_SIZE));
+        decipher.setAuthTag(buffer.slice(Crypto.GCM_IV_SIZE, Crypto.GCM_IV_SIZE + Crypto.GCM_TAG_SIZE));
+        if (additionalData) {
+            decipher.setAAD(Buffer.from(additionalData));
+        }
+        return new Uint8Array(Buffer.concat([decipher.update(buffer.slice(Crypto.GCM_IV_SIZE + Crypto.GCM_TAG_SIZE)), decipher.final()]));
+    };
+
     /**
      * Generate random bytes by length
      * @param {number} length - The length of the random bytes
@@ -0,0 +1,103 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as crypto from 'crypto';
+import { Convert as convert } from '../format';
+import { KeyPair } from './KeyPair';
+
+/**
+ * Hierarchical deterministic ed25519 key following SLIP-10.
+ *
+ * ed25519 only supports hardened derivation, every child index is hardened automatically.
+ *
+ * @see https://github.com/satoshilabs/slips/blob/master/slip-0010.md
+ */
+export class ExtendedKey {
+    /**
+     * Offset added to child indexes to make them hardened.
+     */
+    public static readonly HARDENED_OFFSET = 0x80000000;
+
+    /**
+     * HMAC key used to derive the master node from a seed.
+     */
+    private static readonly CURVE_SEED = 'ed25519 seed';
+
+    /**
+     * @param privateKey - the 32 bytes private key of this node.
+     * @param chainCode - the 32 bytes chain code of this node.
+     */
+    private constructor(public readonly privateKey: Uint8Array, public readonly chainCode: Uint8Array) {}
+
+    /**
+     * Creates the master node from a seed (usually a BIP39 seed).
+     * @param seed - seed between 16 and 64 bytes
+     * @returns {ExtendedKey}
+     */
+    public static createFromSeed(seed: Uint8Array): ExtendedKey {
+        if (seed.length < 16 || seed.length > 64) {
+            throw new Error(`Seed has unexpected size: ${seed.length}`);
+        }
+        return ExtendedKey.createFromHmac(ExtendedKey.CURVE_SEED, seed);
+    }
+
+    /**
+     * Derives a hardened child node.
+     * @param index - the child index, the hardened offset is added when missing.
+     * @returns {ExtendedKey}
+     */
+    public derive(index: number): ExtendedKey {
+        if (!Number.isInteger(index) || index < 0 || index > 0xffffffff) {
+            throw new Error(`Invalid child index: ${index}`);
+        }
+        const hardenedIndex = index < ExtendedKey.HARDENED_OFFSET ? index + ExtendedKey.HARDENED_OFFSET : index;
+        const data = new Uint8Array(1 + 32 + 4);
+        data.set(this.privateKey, 1);
+        new DataView(data.buffer).setUint32(33, hardenedIndex, false);
+        return ExtendedKey.createFromHmac(this.chainCode, data);
+    }
+
+    /**
+     * Derives the node of the given path from this node.
+     * @param path - the path as a list of child indexes.
+     * @returns {ExtendedKey}
+     */
+    public derivePath(path: number[]): ExtendedKey {
+        return path.reduce((node: ExtendedKey, index) => node.derive(index), this);
+    }
+
+    /**
+     * The private key as a hex string.
+     * @returns {string}
+     */
+    public get privateKeyHex(): string {
+        return convert.uint8ToHex(this.privateKey);
+    }
+
+    /**
+     * The public key as a hex string.
+     * @returns {string}
+     */
+    public get publicKeyHex(): string {
+        return convert.uint8ToHex(KeyPair.createKeyPairFromPrivateKeyString(this.privateKeyHex).publicKey);
+    }
+
+    private static createFromHmac(key: string | Uint8Array, data: Uint8Array): ExtendedKey {
+        const hmacKey = typeof key === 'string' ? Buffer.from(key, 'utf8') : Buffer.from(key);
+        const hmac = crypto.createHmac('sha512', hmacKey).update(Buffer.from(data)).digest();
+        return new ExtendedKey(new Uint8Array(hmac.slice(0, 32)), new Uint8Array(hmac.slice(32, 64)));
+    }
+}
@@ -19,3 +19,4 @@ export * from './KeyPair';
 export * from './SHA3Hasher';
 export * from './nacl_catapult';
 export * from './MerkleHashBuilder';
+export * from './ExtendedKey';
@@ -0,0 +1,86 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { MosaicId } from '../../model/mosaic/MosaicId';
+import { NetworkConfiguration } from '../../model/network/NetworkConfiguration';
+import { UInt64 } from '../../model/UInt64';
+
+/**
+ * Parses the values of the network properties, like `1'024` or `30d`.
+ */
+export class NetworkPropertyParser {
+    /**
+     * Parses a number that may contain digit separators, like `1'024`.
+     * @param value - the property value
+     * @returns {number}
+     */
+    public static toNumber(value: string): number {
+        const result = Number(value.replace(/'/g, ''));
+        if (!value.length || isNaN(result)) {
+            throw new Error(`Number ${value} is not recognised.`);
+        }
+        return result;
+    }
+
+    /**
+     * Parses an amount that may contain digit separators and exceed the safe integer range, like `8'999'999'998'000'000`.
+     * @param value - the property value
+     * @returns {UInt64}
+     */
+    public static toUInt64(value: string): UInt64 {
+        const digits = value.replace(/'/g, '');
+        if (!UInt64.isLongNumericString(digits)) {
+            throw new Error(`Number ${value} is not recognised.`);
+        }
+        return UInt64.fromNumericString(digits);
+    }
+
+    /**
+     * Parses a mosaic id in hexadecimal notation, like `0x6BED'913F'A202'23F8`.
+     * @param value - the property value
+     * @returns {MosaicId}
+     */
+    public static toMosaicId(value: string): MosaicId {
+        const hex = value.replace(/'/g, '').replace(/^0x/i, '');
+        if (!/^[0-9A-Fa-f]{16}$/.test(hex)) {
+            throw new Error(`Mosaic id ${value} is not recognised.`);
+        }
+        return new MosaicId(hex);
+    }
+
+    /**
+     * @param properties - the network properties
+     * @returns {MosaicId | undefined} the mosaic paying the fees, undefined when the network doesn't define it.
+     */
+    public static getCurrencyMosaicId(properties: NetworkConfiguration): MosaicId | undefined {
+        const currencyMosaicId = properties.chain.currencyMosaicId;
+        return currencyMosaicId ? NetworkPropertyParser.toMosaicId(currencyMosaicId) : undefined;
+    }
+
+    /**
+     * Parses a time span like 15s, 500ms or 30d.
+     * @param timeSpan - the property value
+     * @returns {number} the time span in seconds
+     */
+    public static toSeconds(timeSpan: string): number {
+        const match = timeSpan.replace(/'/g, '').match(/^(\d+)(ms|s|m|h|d)$/);
+        if (!match) {
+            throw new Error(`Time span ${timeSpan} is not recognised.`);
+        }
+        const multipliers = { ms: 0.001, s: 1, m: 60, h: 3600, d: 86400 };
+        return parseInt(match[1], 10) * multipliers[match[2]];
+    }
+}
@@ -17,3 +17,4 @@
 export * from './TransactionMapping';
 export * from './DtoMapping';
 export * from './LockHashUtils';
+export * from './NetworkPropertyParser';
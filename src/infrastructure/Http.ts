@@ -21,6 +21,7 @@ import { NetworkType } from '../model/network/NetworkType';
 import { Page } from './Page';
 import { QueryParams } from './QueryParams';
 import { RepositoryCallError } from './RepositoryCallError';
+import { RepositoryError } from './RepositoryError';
 import fetch from 'node-fetch';
 
 /**
@@ -76,7 +77,7 @@ export abstract class Http {
                     statusMessage,
                     body,
                 };
-                return throwError(new Error(JSON.stringify(formattedError)));
+                return throwError(new RepositoryError(formattedError));
             }),
         );
     }
@@ -21,6 +21,7 @@ import { AggregateTransaction } from '../model/transaction/AggregateTransaction'
 import { CosignatureSignedTransaction } from '../model/transaction/CosignatureSignedTransaction';
 import { Transaction } from '../model/transaction/Transaction';
 import { TransactionStatusError } from '../model/transaction/TransactionStatusError';
+import { ListenerConnectionState } from './ListenerConnectionState';
 
 /**
  * Listener service
@@ -48,6 +49,14 @@ export interface IListener {
      */
     close(): void;
 
+    /**
+     * Returns an observable stream of the websocket connection state.
+     * It emits the current state on subscription and every time it changes.
+     *
+     * @return an observable stream of {@link ListenerConnectionState}
+     */
+    connectionState(): Observable<ListenerConnectionState>;
+
     /**
      * Returns an observable stream of BlockInfo.
      * Each time a new Block is added into the blockchain,
@@ -133,4 +142,12 @@ export interface IListener {
      * @return an observable stream of {@link CosignatureSignedTransaction}
      */
     cosignatureAdded(address: Address): Observable<CosignatureSignedTransaction>;
+
+    /**
+     * Returns the channels with active observers and their number of observers, e.g. `confirmedAdded/<address>`.
+     * A channel is subscribed when its first observer subscribes and unsubscribed when its last observer tears down.
+     *
+     * @return the number of observers by channel
+     */
+    getActiveChannels(): Map<string, number>;
 }
@@ -14,8 +14,8 @@
  * limitations under the License.
  */
 
-import { Observable, of, OperatorFunction, Subject } from 'rxjs';
-import { filter, flatMap, map, share } from 'rxjs/operators';
+import { BehaviorSubject, Observable, of, OperatorFunction, Subject } from 'rxjs';
+import { distinctUntilChanged, filter, flatMap, map, share } from 'rxjs/operators';
 import { BlockInfoDTO } from 'symbol-openapi-typescript-fetch-client';
 import * as WebSocket from 'ws';
 import { Address } from '../model/account/Address';
@@ -29,6 +29,9 @@ import { Transaction } from '../model/transaction/Transaction';
 import { TransactionStatusError } from '../model/transaction/TransactionStatusError';
 import { UInt64 } from '../model/UInt64';
 import { IListener } from './IListener';
+import { ListenerChannelSubscriptions } from './ListenerChannelSubscriptions';
+import { ListenerConnectionState } from './ListenerConnectionState';
+import { ListenerReconnectConfig } from './ListenerReconnectConfig';
 import { NamespaceRepository } from './NamespaceRepository';
 import { CreateTransactionFromDTO } from './transaction/CreateTransactionFromDTO';
 
@@ -68,12 +71,41 @@ export class Listener implements IListener {
      * id
      */
     private uid: string;
+    /**
+     * @internal
+     * The observers of each channel. The active channels are subscribed again when the websocket reconnects.
+     */
+    private readonly subscriptions = new ListenerChannelSubscriptions(
+        (channel) => this.subscribeChannel(channel),
+        (channel) => this.unsubscribeChannel(channel),
+    );
+    /**
+     * @internal
+     * Connection state subject
+     */
+    private readonly connectionStateSubject = new BehaviorSubject<ListenerConnectionState>(ListenerConnectionState.Closed);
+    /**
+     * @internal
+     * true when the client has closed the listener so it must not reconnect.
+     */
+    private closedByClient = false;
+    /**
+     * @internal
+     * Number of consecutive reconnection attempts.
+     */
+    private reconnectAttempts = 0;
+    /**
+     * @internal
+     * Pending reconnection timer.
+     */
+    private reconnectTimer: ReturnType<typeof setTimeout> | undefined;
 
     /**
      * Constructor
      * @param url - Listener websocket server url. default: rest-gateway's url with ''/ws'' suffix. (e.g. http://localhost:3000/ws).
      * @param namespaceRepository - NamespaceRepository interface for resolving alias.
      * @param websocketInjected - (Optional) WebSocket injected when using listeners in client.
+     * @param reconnectConfig - (Optional) Enables auto-reconnect when the websocket drops.
      */
     constructor(
         /**
@@ -88,6 +120,10 @@ export class Listener implements IListener {
          * WebSocket injected when using listeners in client.
          */
         private websocketInjected?: any,
+        /**
+         * Auto-reconnect configuration. The listener doesn't reconnect when not provided.
+         */
+        private reconnectConfig?: ListenerReconnectConfig,
     ) {
         this.url = url.replace(/\/$/, '');
         this.messageSubject = new Subject();
@@ -99,27 +135,87 @@ export class Listener implements IListener {
      */
     public open(): Promise<void> {
         return new Promise((resolve, reject) => {
+            this.clearReconnectTimer();
             if (this.webSocket === undefined || this.webSocket.readyState === WebSocket.CLOSED) {
-                if (this.websocketInjected) {
-                    this.webSocket = new this.websocketInjected(this.url);
-                } else {
-                    this.webSocket = new WebSocket(this.url);
-                }
-                // eslint-disable-next-line @typescript-eslint/no-empty-function
-                this.webSocket.onopen = (): void => {};
-                this.webSocket.onerror = (err: Error): void => {
-                    reject(err);
-                };
-                this.webSocket.onmessage = (msg: any): void => {
-                    const message = JSON.parse(msg.data as string);
-                    this.handleMessage(message, resolve);
-                };
+                this.closedByClient = false;
+                this.reconnectAttempts = 0;
+                this.connect(ListenerConnectionState.Connecting, resolve, reject);
             } else {
                 resolve();
             }
         });
     }
 
+    /**
+     * @internal
+     *
+     * Creates the websocket and wires its events.
+     *
+     * @param state the state to report while the websocket is being opened.
+     * @param resolve the method to notify when the uid has been resolved.
+     * @param reject the method to notify when the websocket fails.
+     */
+    private connect(state: ListenerConnectionState, resolve: () => void, reject: (err: Error) => void): void {
+        this.connectionStateSubject.next(state);
+        if (this.websocketInjected) {
+            this.webSocket = new this.websocketInjected(this.url);
+        } else {
+            this.webSocket = new WebSocket(this.url);
+        }
+        // eslint-disable-next-line @typescript-eslint/no-empty-function
+        this.webSocket.onopen = (): void => {};
+        this.webSocket.onerror = (err: Error): void => {
+            reject(err);
+        };
+        this.webSocket.onclose = (): void => {
+            this.handleClose();
+        };
+        this.webSocket.onmessage = (msg: any): void => {
+            const message = JSON.parse(msg.data as string);
+            this.handleMessage(message, resolve);
+        };
+    }
+
+    /**
+     * @internal
+     *
+     * Handles the websocket close event, scheduling a reconnection when enabled and the client didn't close the listener.
+     */
+    handleClose(): void {
+        if (this.closedByClient || !this.reconnectConfig) {
+            this.connectionStateSubject.next(ListenerConnectionState.Closed);
+            return;
+        }
+        const maxAttempts = this.reconnectConfig.maxAttempts;
+        if (maxAttempts !== undefined && this.reconnectAttempts >= maxAttempts) {
+            this.connectionStateSubject.next(ListenerConnectionState.Closed);
+            return;
+        }
+        const initialDelay = this.reconnectConfig.initialDelay !== undefined ? this.reconnectConfig.initialDelay : 1000;
+        const maxDelay = this.reconnectConfig.maxDelay !== undefined ? this.reconnectConfig.maxDelay : 30000;
+        const delay = Math.min(initialDelay * Math.pow(2, this.reconnectAttempts), maxDelay);
+        this.reconnectAttempts++;
+        this.connectionStateSubject.next(ListenerConnectionState.Reconnecting);
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = undefined;
+            // Nobody awaits a reconnection, errors are reported through the close event that follows them.
+            const ignore = (): void => undefined;
+            this.connect(ListenerConnectionState.Reconnecting, ignore, ignore);
+        }, delay);
+    }
+
+    /**
+     * @internal
+     *
+     * Cancels the pending reconnection, if any.
+     */
+    private clearReconnectTimer(): void {
+        if (this.reconnectTimer !== undefined) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = undefined;
+        }
+    }
+
     /**
      * @internal
      *
@@ -131,6 +227,9 @@ export class Listener implements IListener {
     handleMessage(message: any, resolve: any): void {
         if (message.uid) {
             this.uid = message.uid;
+            this.reconnectAttempts = 0;
+            this.subscriptions.getActiveChannels().forEach((_, channel) => this.sendSubscription(channel));
+            this.connectionStateSubject.next(ListenerConnectionState.Open);
             resolve();
         } else if (message.transaction) {
             this.messageSubject.next({
@@ -181,9 +280,22 @@ export class Listener implements IListener {
      * @returns void
      */
     public close(): void {
+        this.closedByClient = true;
+        this.clearReconnectTimer();
         if (this.webSocket && (this.webSocket.readyState === WebSocket.OPEN || this.webSocket.readyState === WebSocket.CONNECTING)) {
             this.webSocket.close();
         }
+        this.connectionStateSubject.next(ListenerConnectionState.Closed);
+    }
+
+    /**
+     * Returns an observable stream of the websocket connection state.
+     * It emits the current state on subscription and every time it changes.
+     *
+     * @return an observable stream of {@link ListenerConnectionState}
+     */
+    public connectionState(): Observable<ListenerConnectionState> {
+        return this.connectionStateSubject.asObservable().pipe(distinctUntilChanged());
     }
 
     /**
@@ -194,12 +306,14 @@ export class Listener implements IListener {
      * @return an observable stream of BlockInfo
      */
     public newBlock(): Observable<NewBlock> {
-        this.subscribeTo('block');
-        return this.messageSubject.asObservable().pipe(
-            share(),
-            filter((_) => _.channelName === ListenerChannelName.block),
-            filter((_) => _.message instanceof NewBlock),
-            map((_) => _.message as NewBlock),
+        return this.subscribeTo(
+            'block',
+            this.messageSubject.asObservable().pipe(
+                share(),
+                filter((_) => _.channelName === ListenerChannelName.block),
+                filter((_) => _.message instanceof NewBlock),
+                map((_) => _.message as NewBlock),
+            ),
         );
     }
 
@@ -254,13 +368,15 @@ export class Listener implements IListener {
         address: Address,
         transactionHash?: string,
     ): Observable<T> {
-        this.subscribeTo(`${channel}/${address.plain()}`);
-        return this.messageSubject.asObservable().pipe(
-            filter((listenerMessage) => listenerMessage.channelName === channel),
-            filter((listenerMessage) => listenerMessage.message instanceof Transaction),
-            map((listenerMessage) => listenerMessage.message as T),
-            filter((transaction) => this.filterHash(transaction, transactionHash)),
-            this.filterByNotifyAccount(address),
+        return this.subscribeTo(
+            `${channel}/${address.plain()}`,
+            this.messageSubject.asObservable().pipe(
+                filter((listenerMessage) => listenerMessage.channelName === channel),
+                filter((listenerMessage) => listenerMessage.message instanceof Transaction),
+                map((listenerMessage) => listenerMessage.message as T),
+                filter((transaction) => this.filterHash(transaction, transactionHash)),
+                this.filterByNotifyAccount(address),
+            ),
         );
     }
 
@@ -302,12 +418,14 @@ export class Listener implements IListener {
         address: Address,
         transactionHash: string | undefined,
     ): Observable<string> {
-        this.subscribeTo(`${channel}/${address.plain()}`);
-        return this.messageSubject.asObservable().pipe(
-            filter((_) => _.channelName === channel),
-            filter((_) => typeof _.message === 'string'),
-            map((_) => _.message as string),
-            filter((_) => !transactionHash || _.toUpperCase() == transactionHash.toUpperCase()),
+        return this.subscribeTo(
+            `${channel}/${address.plain()}`,
+            this.messageSubject.asObservable().pipe(
+                filter((_) => _.channelName === channel),
+                filter((_) => typeof _.message === 'string'),
+                map((_) => _.message as string),
+                filter((_) => !transactionHash || _.toUpperCase() == transactionHash.toUpperCase()),
+            ),
         );
     }
 
@@ -321,13 +439,15 @@ export class Listener implements IListener {
      * @return an observable stream of {@link TransactionStatusError}
      */
     public status(address: Address, transactionHash?: string): Observable<TransactionStatusError> {
-        this.subscribeTo(`status/${address.plain()}`);
-        return this.messageSubject.asObservable().pipe(
-            filter((_) => _.channelName === ListenerChannelName.status),
-            filter((_) => _.message instanceof TransactionStatusError),
-            map((_) => _.message as TransactionStatusError),
-            filter((_) => !transactionHash || _.hash.toUpperCase() == transactionHash.toUpperCase()),
-            filter((_) => address.equals(_.address)),
+        return this.subscribeTo(
+            `status/${address.plain()}`,
+            this.messageSubject.asObservable().pipe(
+                filter((_) => _.channelName === ListenerChannelName.status),
+                filter((_) => _.message instanceof TransactionStatusError),
+                map((_) => _.message as TransactionStatusError),
+                filter((_) => !transactionHash || _.hash.toUpperCase() == transactionHash.toUpperCase()),
+                filter((_) => address.equals(_.address)),
+            ),
         );
     }
 
@@ -387,23 +507,71 @@ export class Listener implements IListener {
      * @return an observable stream of {@link CosignatureSignedTransaction}
      */
     public cosignatureAdded(address: Address): Observable<CosignatureSignedTransaction> {
-        this.subscribeTo(`cosignature/${address.plain()}`);
-        return this.messageSubject.asObservable().pipe(
-            filter((_) => _.channelName.toUpperCase() === ListenerChannelName.cosignature.toUpperCase()),
-            filter((_) => _.message instanceof CosignatureSignedTransaction),
-            map((_) => _.message as CosignatureSignedTransaction),
+        return this.subscribeTo(
+            `cosignature/${address.plain()}`,
+            this.messageSubject.asObservable().pipe(
+                filter((_) => _.channelName.toUpperCase() === ListenerChannelName.cosignature.toUpperCase()),
+                filter((_) => _.message instanceof CosignatureSignedTransaction),
+                map((_) => _.message as CosignatureSignedTransaction),
+            ),
         );
     }
 
+    /**
+     * Returns the channels the websocket is subscribed to and their number of observers, e.g. `confirmedAdded/<address>`.
+     * A channel is subscribed when its first observer subscribes and unsubscribed when its last observer tears down.
+     *
+     * @return the number of observers by channel
+     */
+    public getActiveChannels(): Map<string, number> {
+        return this.subscriptions.getActiveChannels();
+    }
+
+    /**
+     * @internal
+     * Counts the observers of the channel stream, subscribing the channel on the first one.
+     * @param channel - Channel subscribed to.
+     * @param observable - The channel messages.
+     * @returns {Observable<T>}
+     */
+    private subscribeTo<T>(channel: string, observable: Observable<T>): Observable<T> {
+        return this.subscriptions.observe(channel, observable);
+    }
+
     /**
      * @internal
      * Subscribes to a channelName.
      * @param channel - Channel subscribed to.
      */
-    private subscribeTo(channel: string): void {
+    private subscribeChannel(channel: string): void {
+        // While reconnecting, the channel is subscribed once the new uid is received.
+        if (this.connectionStateSubject.value !== ListenerConnectionState.Reconnecting) {
+            this.sendSubscription(channel);
+        }
+    }
+
+    /**
+     * @internal
+     * Unsubscribes from a channelName once it has no observers.
+     * @param channel - Channel unsubscribed from.
+     */
+    private unsubscribeChannel(channel: string): void {
+        // A closed or reconnecting websocket has no subscriptions, the channel is just not subscribed again.
+        if (this.isOpen() && this.connectionStateSubject.value === ListenerConnectionState.Open) {
+            this.sendSubscription(channel, 'unsubscribe');
+        }
+    }
+
+    /**
+     * @internal
+     * Sends the subscription message of a channel.
+     * @param channel - Channel subscribed to.
+     * @param action - subscribe or unsubscribe.
+     */
+    private sendSubscription(channel: string, action: 'subscribe' | 'unsubscribe' = 'subscribe'): void {
         const subscriptionMessage = {
             uid: this.uid,
-            subscribe: channel,
+            [action]: channel,
         };
         this.webSocket.send(JSON.stringify(subscriptionMessage));
     }
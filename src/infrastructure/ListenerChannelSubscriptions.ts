@@ -0,0 +1,82 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { defer, Observable } from 'rxjs';
+import { finalize } from 'rxjs/operators';
+
+/**
+ * @internal
+ * Reference counts the observers of the listener channels. The first observer of a channel subscribes it and the last
+ * one to tear down unsubscribes it.
+ */
+export class ListenerChannelSubscriptions {
+    /**
+     * @internal
+     * The number of observers of each channel.
+     */
+    private readonly counts = new Map<string, number>();
+
+    /**
+     * @param onSubscribe - called when a channel gets its first observer.
+     * @param onUnsubscribe - called when the last observer of a channel tears down.
+     */
+    constructor(private readonly onSubscribe: (channel: string) => void, private readonly onUnsubscribe: (channel: string) => void) {}
+
+    /**
+     * Counts the observers of the observable as observers of the channel.
+     * @param channel - the channel, e.g. `confirmedAdded/<address>`.
+     * @param observable - the stream of the channel messages.
+     * @returns {Observable<T>}
+     */
+    public observe<T>(channel: string, observable: Observable<T>): Observable<T> {
+        return defer(() => {
+            this.add(channel);
+            return observable.pipe(finalize(() => this.remove(channel)));
+        });
+    }
+
+    /**
+     * The channels with observers and their number of observers.
+     * @returns {Map<string, number>}
+     */
+    public getActiveChannels(): Map<string, number> {
+        return new Map(this.counts);
+    }
+
+    /**
+     * @internal
+     */
+    private add(channel: string): void {
+        const count = this.counts.get(channel) || 0;
+        this.counts.set(channel, count + 1);
+        if (!count) {
+            this.onSubscribe(channel);
+        }
+    }
+
+    /**
+     * @internal
+     */
+    private remove(channel: string): void {
+        const count = this.counts.get(channel) || 0;
+        if (count > 1) {
+            this.counts.set(channel, count - 1);
+        } else if (count === 1) {
+            this.counts.delete(channel);
+            this.onUnsubscribe(channel);
+        }
+    }
+}
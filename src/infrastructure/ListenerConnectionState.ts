@@ -0,0 +1,37 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * The state of the listener's websocket connection.
+ */
+export enum ListenerConnectionState {
+    /**
+     * The websocket is being opened for the first time.
+     */
+    Connecting = 'connecting',
+    /**
+     * The websocket is open and the uid handshake has been completed.
+     */
+    Open = 'open',
+    /**
+     * The websocket dropped and the listener is trying to open it again.
+     */
+    Reconnecting = 'reconnecting',
+    /**
+     * The websocket has been closed and it won't be reopened automatically.
+     */
+    Closed = 'closed',
+}
@@ -0,0 +1,34 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Auto-reconnect configuration of a listener. When provided, the listener reopens the websocket with
+ * an exponential backoff when it drops and resubscribes to all the active channels.
+ */
+export interface ListenerReconnectConfig {
+    /**
+     * optional maximum number of consecutive reconnection attempts. Default: unlimited.
+     */
+    maxAttempts?: number;
+    /**
+     * optional delay in milliseconds before the first reconnection attempt. Default: 1000.
+     */
+    initialDelay?: number;
+    /**
+     * optional maximum delay in milliseconds between reconnection attempts. Default: 30000.
+     */
+    maxDelay?: number;
+}
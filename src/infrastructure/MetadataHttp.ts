@@ -24,9 +24,13 @@ import { MetadataType } from '../model/metadata/MetadataType';
 import { MosaicId } from '../model/mosaic/MosaicId';
 import { NamespaceId } from '../model/namespace/NamespaceId';
 import { UInt64 } from '../model/UInt64';
+import { DtoMapping } from '../core/utils/DtoMapping';
 import { Http } from './Http';
+import { MetadataSearchRoutesApi } from './metadata/MetadataSearchRoutesApi';
 import { MetadataRepository } from './MetadataRepository';
+import { Page } from './Page';
 import { QueryParams } from './QueryParams';
+import { MetadataSearchCriteria } from './searchCriteria/MetadataSearchCriteria';
 
 /**
  * Metadata http repository.
@@ -40,6 +44,12 @@ export class MetadataHttp extends Http implements MetadataRepository {
      */
     private readonly metadataRoutesApi: MetadataRoutesApi;
 
+    /**
+     * @internal
+     * Metadata search route
+     */
+    private readonly metadataSearchRoutesApi: MetadataSearchRoutesApi;
+
     /**
      * Constructor
      * @param url Base catapult-rest url
@@ -48,6 +58,7 @@ export class MetadataHttp extends Http implements MetadataRepository {
     constructor(url: string, fetchApi?: any) {
         super(url, fetchApi);
         this.metadataRoutesApi = new MetadataRoutesApi(this.config());
+        this.metadataSearchRoutesApi = new MetadataSearchRoutesApi(this.config());
     }
 
     /**
@@ -181,6 +192,28 @@ export class MetadataHttp extends Http implements MetadataRepository {
         );
     }
 
+    /**
+     * Returns a page of metadata entries matching the criteria.
+     * @param criteria - the metadata search criteria
+     * @returns Observable<Page<Metadata>>
+     */
+    public searchMetadata(criteria: MetadataSearchCriteria): Observable<Page<Metadata>> {
+        return this.call(
+            this.metadataSearchRoutesApi.searchMetadataEntries({
+                sourceAddress: criteria.sourceAddress?.plain(),
+                targetAddress: criteria.targetAddress?.plain(),
+                scopedMetadataKey: criteria.scopedMetadataKey,
+                targetId: criteria.targetId?.toHex(),
+                metadataType: DtoMapping.mapEnum(criteria.metadataType),
+                pageSize: criteria.pageSize,
+                pageNumber: criteria.pageNumber,
+                offset: criteria.offset,
+                order: DtoMapping.mapEnum(criteria.order),
+            }),
+            (body) => super.toPage(body.pagination, body.data, this.buildMetadata),
+        );
+    }
+
     /**
      * It maps MetadataDTO into a Metadata
      * @param metadata - the dto
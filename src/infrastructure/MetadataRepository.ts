@@ -19,7 +19,9 @@ import { Address } from '../model/account/Address';
 import { Metadata } from '../model/metadata/Metadata';
 import { MosaicId } from '../model/mosaic/MosaicId';
 import { NamespaceId } from '../model/namespace/NamespaceId';
+import { Page } from './Page';
 import { QueryParams } from './QueryParams';
+import { MetadataSearchCriteria } from './searchCriteria/MetadataSearchCriteria';
 
 /**
  * Metadata interface repository.
@@ -101,4 +103,12 @@ export interface MetadataRepository {
      * @returns Observable<Metadata>
      */
     getNamespaceMetadataByKeyAndSender(namespaceId: NamespaceId, key: string, sourceAddress: Address): Observable<Metadata>;
+
+    /**
+     * Returns a page of metadata entries matching the criteria.
+     * The criteria covers the lookups of the other methods of this repository in a single paginated search.
+     * @param criteria - the metadata search criteria
+     * @returns Observable<Page<Metadata>>
+     */
+    searchMetadata(criteria: MetadataSearchCriteria): Observable<Page<Metadata>>;
 }
@@ -0,0 +1,37 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { UInt64 } from '../model/UInt64';
+
+/**
+ * The health and chain height of one of the nodes of a multi node repository factory.
+ */
+export interface NodeRanking {
+    /**
+     * The node rest url.
+     */
+    readonly url: string;
+
+    /**
+     * true if the node api and database are up.
+     */
+    readonly healthy: boolean;
+
+    /**
+     * The chain height reported by the node, undefined if it couldn't be loaded.
+     */
+    readonly height?: UInt64;
+}
@@ -14,16 +14,27 @@
  * limitations under the License.
  */
 
-import { Observable } from 'rxjs';
+import { Observable, throwError } from 'rxjs';
 import { ReceiptRoutesApi } from 'symbol-openapi-typescript-fetch-client';
 import { DtoMapping } from '../core/utils/DtoMapping';
 import { MerklePathItem } from '../model/blockchain/MerklePathItem';
 import { MerkleProofInfo } from '../model/blockchain/MerkleProofInfo';
+import { ResolutionStatement } from '../model/receipt/ResolutionStatement';
+import { ResolutionType } from '../model/receipt/ResolutionType';
 import { Statement } from '../model/receipt/Statement';
+import { TransactionStatement } from '../model/receipt/TransactionStatement';
 import { UInt64 } from '../model/UInt64';
 import { Http } from './Http';
-import { CreateStatementFromDTO } from './receipt/CreateReceiptFromDTO';
+import { Page } from './Page';
+import {
+    CreateResolutionStatementFromDTO,
+    CreateStatementFromDTO,
+    CreateTransactionStatementFromDTO,
+} from './receipt/CreateReceiptFromDTO';
+import { ValidateResolutionStatementCriteria } from './receipt/ResolutionStatementCriteria';
+import { StatementRoutesApi, StatementSearchQuery } from './receipt/StatementRoutesApi';
 import { ReceiptRepository } from './ReceiptRepository';
+import { ReceiptSearchCriteria } from './searchCriteria/ReceiptSearchCriteria';
 
 /**
  * Receipt http repository.
@@ -37,6 +48,12 @@ export class ReceiptHttp extends Http implements ReceiptRepository {
      */
     private readonly receiptRoutesApi: ReceiptRoutesApi;
 
+    /**
+     * @internal
+     * Statement search routes
+     */
+    private readonly statementRoutesApi: StatementRoutesApi;
+
     /**
      * Constructor
      * @param url Base catapult-rest url
@@ -45,6 +62,7 @@ export class ReceiptHttp extends Http implements ReceiptRepository {
     constructor(url: string, fetchApi?: any) {
         super(url, fetchApi);
         this.receiptRoutesApi = new ReceiptRoutesApi(this.config());
+        this.statementRoutesApi = new StatementRoutesApi(this.config());
     }
 
     /**
@@ -76,4 +94,70 @@ export class ReceiptHttp extends Http implements ReceiptRepository {
     public getBlockReceipts(height: UInt64): Observable<Statement> {
         return this.call(this.receiptRoutesApi.getBlockReceipts(height.toString()), (body) => CreateStatementFromDTO(body));
     }
+
+    /**
+     * Returns a page of the transaction statements matching the criteria.
+     * @param criteria the receipt search criteria
+     * @return Observable<Page<TransactionStatement>>
+     */
+    public searchReceipts(criteria: ReceiptSearchCriteria): Observable<Page<TransactionStatement>> {
+        return this.call(
+            this.statementRoutesApi.searchReceipts({
+                ...this.statementQueryParams(criteria),
+                receiptType: criteria.receiptTypes?.map((type) => DtoMapping.mapEnum(type)),
+                recipientAddress: criteria.recipientAddress?.plain(),
+                senderAddress: criteria.senderAddress?.plain(),
+                targetAddress: criteria.targetAddress?.plain(),
+                artifactId: criteria.artifactId?.toHex(),
+            }),
+            (body) => super.toPage(body.pagination, body.data, (dto) => CreateTransactionStatementFromDTO(dto.statement)),
+        );
+    }
+
+    /**
+     * Returns a page of the address resolution statements matching the criteria.
+     * @param criteria the receipt search criteria
+     * @return Observable<Page<ResolutionStatement>>
+     */
+    public searchAddressResolutionStatements(criteria: ReceiptSearchCriteria): Observable<Page<ResolutionStatement>> {
+        const error = ValidateResolutionStatementCriteria(criteria, ResolutionType.Address);
+        if (error) {
+            return throwError(error);
+        }
+        return this.call(this.statementRoutesApi.searchAddressResolutionStatements(this.statementQueryParams(criteria)), (body) =>
+            super.toPage(body.pagination, body.data, (dto) => CreateResolutionStatementFromDTO(dto.statement, ResolutionType.Address)),
+        );
+    }
+
+    /**
+     * Returns a page of the mosaic resolution statements matching the criteria.
+     * @param criteria the receipt search criteria
+     * @return Observable<Page<ResolutionStatement>>
+     */
+    public searchMosaicResolutionStatements(criteria: ReceiptSearchCriteria): Observable<Page<ResolutionStatement>> {
+        const error = ValidateResolutionStatementCriteria(criteria, ResolutionType.Mosaic);
+        if (error) {
+            return throwError(error);
+        }
+        return this.call(this.statementRoutesApi.searchMosaicResolutionStatements(this.statementQueryParams(criteria)), (body) =>
+            super.toPage(body.pagination, body.data, (dto) => CreateResolutionStatementFromDTO(dto.statement, ResolutionType.Mosaic)),
+        );
+    }
+
+    /**
+     * @internal
+     * The height and pagination query params of a statement search.
+     * @param criteria the receipt search criteria
+     */
+    private statementQueryParams(criteria: ReceiptSearchCriteria): StatementSearchQuery {
+        return {
+            height: criteria.height?.toString(),
+            fromHeight: criteria.fromHeight?.toString(),
+            toHeight: criteria.toHeight?.toString(),
+            pageSize: criteria.pageSize,
+            pageNumber: criteria.pageNumber,
+            offset: criteria.offset,
+            order: DtoMapping.mapEnum(criteria.order),
+        };
+    }
 }
@@ -16,8 +16,12 @@
 
 import { Observable } from 'rxjs';
 import { MerkleProofInfo } from '../model/blockchain/MerkleProofInfo';
+import { ResolutionStatement } from '../model/receipt/ResolutionStatement';
 import { Statement } from '../model/receipt/Statement';
+import { TransactionStatement } from '../model/receipt/TransactionStatement';
 import { UInt64 } from '../model/UInt64';
+import { Page } from './Page';
+import { ReceiptSearchCriteria } from './searchCriteria/ReceiptSearchCriteria';
 
 /**
  * Receipt interface repository.
@@ -44,4 +48,27 @@ export interface ReceiptRepository {
      * @return Observable<MerkleProofInfo>
      */
     getMerkleReceipts(height: UInt64, hash: string): Observable<MerkleProofInfo>;
+
+    /**
+     * Returns a page of the transaction statements matching the criteria.
+     * @param criteria the receipt search criteria
+     * @return Observable<Page<TransactionStatement>>
+     */
+    searchReceipts(criteria: ReceiptSearchCriteria): Observable<Page<TransactionStatement>>;
+
+    /**
+     * Returns a page of the address resolution statements matching the criteria.
+     * Only the height and pagination criteria apply to resolution statements, the receipt criteria raise a 409 error.
+     * @param criteria the receipt search criteria
+     * @return Observable<Page<ResolutionStatement>>
+     */
+    searchAddressResolutionStatements(criteria: ReceiptSearchCriteria): Observable<Page<ResolutionStatement>>;
+
+    /**
+     * Returns a page of the mosaic resolution statements matching the criteria.
+     * Only the height and pagination criteria apply to resolution statements, the receipt criteria raise a 409 error.
+     * @param criteria the receipt search criteria
+     * @return Observable<Page<ResolutionStatement>>
+     */
+    searchMosaicResolutionStatements(criteria: ReceiptSearchCriteria): Observable<Page<ResolutionStatement>>;
 }
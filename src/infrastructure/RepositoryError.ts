@@ -0,0 +1,69 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { RepositoryCallError } from './RepositoryCallError';
+
+/**
+ * Error raised by the repositories when a rest call fails.
+ *
+ * The message is the {@link RepositoryCallError} as a json string, the format the repositories have always used,
+ * so the error handlers parsing it keep working.
+ */
+export class RepositoryError extends Error implements RepositoryCallError {
+    /**
+     * The http status code if known, otherwise 0.
+     */
+    public readonly statusCode: number;
+
+    /**
+     * The status message if known.
+     */
+    public readonly statusMessage: string;
+
+    /**
+     * The rest response body as text.
+     */
+    public readonly body: string;
+
+    /**
+     * The catapult-rest error code of the body, e.g. `ResourceNotFound`, if the body has one.
+     */
+    public readonly code?: string;
+
+    /**
+     * @param error - the failed call.
+     */
+    constructor(error: RepositoryCallError) {
+        super(JSON.stringify(error));
+        this.name = 'RepositoryError';
+        this.statusCode = error.statusCode;
+        this.statusMessage = error.statusMessage;
+        this.body = error.body;
+        try {
+            this.code = JSON.parse(error.body).code;
+        } catch {
+            this.code = undefined;
+        }
+    }
+
+    /**
+     * If the requested entity doesn't exist.
+     * @returns {boolean}
+     */
+    public isNotFound(): boolean {
+        return this.statusCode === 404;
+    }
+}
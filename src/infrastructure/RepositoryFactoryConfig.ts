@@ -15,6 +15,7 @@
  */
 
 import { NetworkType } from '../model/network/NetworkType';
+import { ListenerReconnectConfig } from './ListenerReconnectConfig';
 
 export interface RepositoryFactoryConfig {
     /**
@@ -33,6 +34,10 @@ export interface RepositoryFactoryConfig {
      * optional injected websocket instance when using listeners in client.
      */
     websocketInjected?: any;
+    /**
+     * optional listener auto-reconnect configuration. Listeners don't reconnect when not provided.
+     */
+    websocketReconnect?: ListenerReconnectConfig;
 
     /**
      * optional fetch function to be used when performing rest requests. The default value is:
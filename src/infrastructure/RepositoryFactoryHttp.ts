@@ -25,6 +25,7 @@ import { ChainHttp } from './ChainHttp';
 import { ChainRepository } from './ChainRepository';
 import { IListener } from './IListener';
 import { Listener } from './Listener';
+import { ListenerReconnectConfig } from './ListenerReconnectConfig';
 import { MetadataHttp } from './MetadataHttp';
 import { MetadataRepository } from './MetadataRepository';
 import { MosaicHttp } from './MosaicHttp';
@@ -59,6 +60,7 @@ export class RepositoryFactoryHttp implements RepositoryFactory {
     private readonly generationHash: Observable<string>;
     private readonly websocketUrl: string;
     private readonly websocketInjected?: any;
+    private readonly websocketReconnect?: ListenerReconnectConfig;
     private readonly fetchApi?: any;
 
     /**
@@ -80,6 +82,7 @@ export class RepositoryFactoryHttp implements RepositoryFactory {
                   .pipe(shareReplay(1));
         this.websocketUrl = configs?.websocketUrl ? configs?.websocketUrl : `${url.replace(/\/$/, '')}/ws`;
         this.websocketInjected = configs?.websocketInjected;
+        this.websocketReconnect = configs?.websocketReconnect;
     }
 
     createAccountRepository(): AccountRepository {
@@ -147,6 +150,6 @@ export class RepositoryFactoryHttp implements RepositoryFactory {
     }
 
     createListener(): IListener {
-        return new Listener(this.websocketUrl, this.createNamespaceRepository(), this.websocketInjected);
+        return new Listener(this.websocketUrl, this.createNamespaceRepository(), this.websocketInjected, this.websocketReconnect);
     }
 }
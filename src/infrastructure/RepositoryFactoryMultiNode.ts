@@ -0,0 +1,380 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { defer, forkJoin, Observable, of as observableOf, throwError } from 'rxjs';
+import { catchError, flatMap, map, shareReplay, timeout } from 'rxjs/operators';
+import { NodeStatusEnum } from 'symbol-openapi-typescript-fetch-client';
+import { NetworkType } from '../model/network/NetworkType';
+import { AccountRepository } from './AccountRepository';
+import { BlockRepository } from './BlockRepository';
+import { ChainRepository } from './ChainRepository';
+import { IListener } from './IListener';
+import { MetadataRepository } from './MetadataRepository';
+import { MosaicRepository } from './MosaicRepository';
+import { MultisigRepository } from './MultisigRepository';
+import { NamespaceRepository } from './NamespaceRepository';
+import { NetworkRepository } from './NetworkRepository';
+import { NodeRanking } from './NodeRanking';
+import { NodeRepository } from './NodeRepository';
+import { ReceiptRepository } from './ReceiptRepository';
+import { RepositoryError } from './RepositoryError';
+import { RepositoryFactory } from './RepositoryFactory';
+import { RepositoryFactoryConfig } from './RepositoryFactoryConfig';
+import { RepositoryFactoryHttp } from './RepositoryFactoryHttp';
+import { RepositoryFactoryMultiNodeConfig } from './RepositoryFactoryMultiNodeConfig';
+import { RestrictionAccountRepository } from './RestrictionAccountRepository';
+import { RestrictionMosaicRepository } from './RestrictionMosaicRepository';
+import { TransactionRepository } from './TransactionRepository';
+import { TransactionStatusRepository } from './TransactionStatusRepository';
+
+/**
+ * The methods of a repository, every one of them returns an observable.
+ */
+type RepositoryCalls<T> = { [K in keyof T]: (...args: any[]) => Observable<unknown> };
+
+/**
+ * The names of all the methods of a repository.
+ */
+type RepositoryMethods<T> = { [K in keyof T]-?: true };
+
+/**
+ * Repository factory that spreads the rest calls over a list of nodes.
+ *
+ * The nodes are ranked using their health and chain height, the calls go to the healthiest and most
+ * up-to-date node. When a call fails with a network error or a 5xx status code, the node is moved to
+ * the end of the ranking and the call is retried on the next node.
+ */
+export class RepositoryFactoryMultiNode implements RepositoryFactory {
+    private readonly factories: Map<string, RepositoryFactory>;
+    private readonly rankingInterval: number;
+    private readonly rankingTimeout: number;
+    private readonly networkType: Observable<NetworkType>;
+    private readonly generationHash: Observable<string>;
+    private ranking?: Observable<string[]>;
+    private rankingTime = 0;
+    private rankedUrls: string[];
+
+    /**
+     * Constructor
+     * @param urls the server urls.
+     * @param configs optional repository factory configs, they are used to create the repository factory of every node.
+     */
+    constructor(public readonly urls: string[], configs?: RepositoryFactoryMultiNodeConfig) {
+        if (!urls.length) {
+            throw new Error('At least one node url must be provided');
+        }
+        this.factories = new Map(urls.map((url) => [url, this.createNodeRepositoryFactory(url, configs)]));
+        this.rankedUrls = [...urls];
+        this.rankingInterval = configs?.rankingInterval !== undefined ? configs.rankingInterval : 60000;
+        this.rankingTimeout = configs?.rankingTimeout !== undefined ? configs.rankingTimeout : 5000;
+        this.networkType = configs?.networkType
+            ? observableOf(configs.networkType)
+            : defer(() => this.failover((factory) => factory.getNetworkType())).pipe(shareReplay(1));
+        this.generationHash = configs?.generationHash
+            ? observableOf(configs.generationHash)
+            : defer(() => this.failover((factory) => factory.getGenerationHash())).pipe(shareReplay(1));
+    }
+
+    /**
+     * Creates the repository factory of one node.
+     * @param url the node url.
+     * @param configs the repository factory configs.
+     */
+    protected createNodeRepositoryFactory(url: string, configs?: RepositoryFactoryConfig): RepositoryFactory {
+        return new RepositoryFactoryHttp(url, configs);
+    }
+
+    /**
+     * It loads the health and height of every node and ranks them. Healthy nodes go first, then the nodes with the
+     * highest chain height. The nodes that couldn't be reached go last.
+     *
+     * @returns the ranked nodes.
+     */
+    public rankNodes(): Observable<NodeRanking[]> {
+        const rankings = this.urls.map((url) => {
+            const factory = this.factories.get(url)!;
+            return forkJoin([factory.createNodeRepository().getNodeHealth(), factory.createChainRepository().getBlockchainHeight()]).pipe(
+                timeout(this.rankingTimeout),
+                map(
+                    ([health, height]): NodeRanking => ({
+                        url,
+                        healthy: health.apiNode === NodeStatusEnum.Up && health.db === NodeStatusEnum.Up,
+                        height,
+                    }),
+                ),
+                catchError(() => observableOf({ url, healthy: false } as NodeRanking)),
+            );
+        });
+        return forkJoin(rankings).pipe(
+            map((nodes) =>
+                nodes
+                    .map((node, index) => ({ node, index }))
+                    .sort((a, b) => RepositoryFactoryMultiNode.compareRankings(a.node, b.node) || a.index - b.index)
+                    .map((n) => n.node),
+            ),
+        );
+    }
+
+    /**
+     * @returns the node urls, from the best to the worst ranked, as known at the moment. Failed nodes are moved to the end.
+     */
+    public getRankedUrls(): string[] {
+        return [...this.rankedUrls];
+    }
+
+    getNetworkType(): Observable<NetworkType> {
+        return this.networkType;
+    }
+
+    getGenerationHash(): Observable<string> {
+        return this.generationHash;
+    }
+
+    createAccountRepository(): AccountRepository {
+        return this.createRepository((factory) => factory.createAccountRepository(), {
+            getAccountInfo: true,
+            getAccountsInfo: true,
+            search: true,
+        });
+    }
+
+    createBlockRepository(): BlockRepository {
+        return this.createRepository((factory) => factory.createBlockRepository(), {
+            getBlockByHeight: true,
+            getMerkleTransaction: true,
+            search: true,
+        });
+    }
+
+    createChainRepository(): ChainRepository {
+        return this.createRepository((factory) => factory.createChainRepository(), {
+            getBlockchainHeight: true,
+            getChainScore: true,
+        });
+    }
+
+    createMetadataRepository(): MetadataRepository {
+        return this.createRepository((factory) => factory.createMetadataRepository(), {
+            getAccountMetadata: true,
+            getAccountMetadataByKey: true,
+            getAccountMetadataByKeyAndSender: true,
+            getMosaicMetadata: true,
+            getMosaicMetadataByKey: true,
+            getMosaicMetadataByKeyAndSender: true,
+            getNamespaceMetadata: true,
+            getNamespaceMetadataByKey: true,
+            getNamespaceMetadataByKeyAndSender: true,
+            searchMetadata: true,
+        });
+    }
+
+    createMosaicRepository(): MosaicRepository {
+        return this.createRepository((factory) => factory.createMosaicRepository(), {
+            getMosaic: true,
+            getMosaics: true,
+            search: true,
+        });
+    }
+
+    createMultisigRepository(): MultisigRepository {
+        return this.createRepository((factory) => factory.createMultisigRepository(), {
+            getMultisigAccountInfo: true,
+            getMultisigAccountGraphInfo: true,
+        });
+    }
+
+    createNamespaceRepository(): NamespaceRepository {
+        return this.createRepository((factory) => factory.createNamespaceRepository(), {
+            getAccountsNames: true,
+            getMosaicsNames: true,
+            getNamespace: true,
+            getNamespacesNames: true,
+            getLinkedMosaicId: true,
+            getLinkedAddress: true,
+            search: true,
+        });
+    }
+
+    createNetworkRepository(): NetworkRepository {
+        return this.createRepository((factory) => factory.createNetworkRepository(), {
+            getNetworkName: true,
+            getNetworkProperties: true,
+            getNetworkType: true,
+            getRentalFees: true,
+            getTransactionFees: true,
+        });
+    }
+
+    createNodeRepository(): NodeRepository {
+        return this.createRepository((factory) => factory.createNodeRepository(), {
+            getNodeInfo: true,
+            getNodePeers: true,
+            getNodeTime: true,
+            getNodeHealth: true,
+            getStorageInfo: true,
+            getServerInfo: true,
+        });
+    }
+
+    createReceiptRepository(): ReceiptRepository {
+        return this.createRepository((factory) => factory.createReceiptRepository(), {
+            getBlockReceipts: true,
+            getMerkleReceipts: true,
+            searchReceipts: true,
+            searchAddressResolutionStatements: true,
+            searchMosaicResolutionStatements: true,
+        });
+    }
+
+    createRestrictionAccountRepository(): RestrictionAccountRepository {
+        return this.createRepository((factory) => factory.createRestrictionAccountRepository(), {
+            getAccountRestrictions: true,
+            getAccountRestrictionsFromAccounts: true,
+        });
+    }
+
+    createRestrictionMosaicRepository(): RestrictionMosaicRepository {
+        return this.createRepository((factory) => factory.createRestrictionMosaicRepository(), {
+            getMosaicAddressRestriction: true,
+            getMosaicAddressRestrictions: true,
+            getMosaicGlobalRestriction: true,
+            getMosaicGlobalRestrictions: true,
+        });
+    }
+
+    createTransactionRepository(): TransactionRepository {
+        return this.createRepository((factory) => factory.createTransactionRepository(), {
+            getTransaction: true,
+            getTransactionsById: true,
+            getTransactionEffectiveFee: true,
+            announce: true,
+            announceAggregateBonded: true,
+            announceAggregateBondedCosignature: true,
+            search: true,
+        });
+    }
+
+    createTransactionStatusRepository(): TransactionStatusRepository {
+        return this.createRepository((factory) => factory.createTransactionStatusRepository(), {
+            getTransactionStatus: true,
+            getTransactionStatuses: true,
+        });
+    }
+
+    /**
+     * The listener connects to the best ranked node known at the moment, it doesn't fail over to other nodes.
+     * If the node goes down, the listener reconnects to the same node when reconnection is configured,
+     * otherwise a new listener has to be created to connect to the next best ranked node.
+     */
+    createListener(): IListener {
+        return this.factories.get(this.rankedUrls[0])!.createListener();
+    }
+
+    /**
+     * The names of the errors raised by the fetch implementation when the request never reached the node.
+     */
+    private static readonly networkErrorNames = ['FetchError', 'AbortError'];
+
+    /**
+     * It returns true if the error is a network error or a 5xx server error, the call could succeed on another node.
+     * @param error the error raised by the repository.
+     */
+    public static isFailoverError(error: unknown): boolean {
+        if (error instanceof RepositoryError) {
+            // Status code 0 means the response never arrived.
+            return !error.statusCode || error.statusCode >= 500;
+        }
+        // node-fetch raises these when the node cannot be reached or the request is aborted.
+        return error instanceof Error && RepositoryFactoryMultiNode.networkErrorNames.includes(error.name);
+    }
+
+    /**
+     * It creates a repository whose methods are called on the best ranked node, failing over to the next ones.
+     * @param creator the function that creates the repository from a node's repository factory.
+     * @param methods the methods of the repository, all of them must be listed.
+     */
+    private createRepository<T extends RepositoryCalls<T>>(creator: (factory: RepositoryFactory) => T, methods: RepositoryMethods<T>): T {
+        const repositories = new Map<string, T>();
+        this.factories.forEach((factory, url) => repositories.set(url, creator(factory)));
+        const repository: Partial<T> = {};
+        (Object.keys(methods) as (keyof T)[]).forEach((method) => {
+            const call = (...args: unknown[]): Observable<unknown> =>
+                this.failover((factory, url) => repositories.get(url)![method](...args));
+            repository[method] = call as T[keyof T];
+        });
+        return repository as T;
+    }
+
+    /**
+     * It performs the call on the best ranked node, failing over to the next nodes.
+     * @param call the call to perform.
+     */
+    private failover<T>(call: (factory: RepositoryFactory, url: string) => Observable<T>): Observable<T> {
+        return this.getRanking().pipe(flatMap((urls) => this.callNode(urls, 0, call)));
+    }
+
+    private callNode<T>(urls: string[], position: number, call: (factory: RepositoryFactory, url: string) => Observable<T>): Observable<T> {
+        const url = urls[position];
+        return call(this.factories.get(url)!, url).pipe(
+            catchError((error) => {
+                if (!RepositoryFactoryMultiNode.isFailoverError(error)) {
+                    return throwError(error);
+                }
+                this.demote(url);
+                if (position + 1 >= urls.length) {
+                    return throwError(error);
+                }
+                return this.callNode(urls, position + 1, call);
+            }),
+        );
+    }
+
+    /**
+     * @returns the ranked urls, the nodes are ranked again once the ranking interval is over.
+     */
+    private getRanking(): Observable<string[]> {
+        if (!this.ranking || Date.now() - this.rankingTime > this.rankingInterval) {
+            this.rankingTime = Date.now();
+            this.ranking = this.rankNodes().pipe(
+                map((nodes) => {
+                    this.rankedUrls = nodes.map((node) => node.url);
+                    return this.rankedUrls;
+                }),
+                shareReplay(1),
+            );
+            return this.ranking;
+        }
+        return this.ranking.pipe(map(() => this.getRankedUrls()));
+    }
+
+    /**
+     * Moves a failed node to the end of the ranking.
+     * @param url the failed node url.
+     */
+    private demote(url: string): void {
+        this.rankedUrls = [...this.rankedUrls.filter((u) => u !== url), url];
+    }
+
+    private static compareRankings(a: NodeRanking, b: NodeRanking): number {
+        if (a.healthy !== b.healthy) {
+            return a.healthy ? -1 : 1;
+        }
+        if (a.height && b.height) {
+            return b.height.compare(a.height);
+        }
+        return a.height ? -1 : b.height ? 1 : 0;
+    }
+}
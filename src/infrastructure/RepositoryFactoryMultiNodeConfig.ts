@@ -0,0 +1,29 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { RepositoryFactoryConfig } from './RepositoryFactoryConfig';
+
+export interface RepositoryFactoryMultiNodeConfig extends RepositoryFactoryConfig {
+    /**
+     * optional time in milliseconds a node ranking is trusted before the nodes are ranked again. Default: 60000.
+     */
+    rankingInterval?: number;
+
+    /**
+     * optional time in milliseconds to wait for a node health and height when ranking the nodes. Default: 5000.
+     */
+    rankingTimeout?: number;
+}
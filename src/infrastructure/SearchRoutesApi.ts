@@ -0,0 +1,57 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { BaseAPI, HTTPQuery, Order, Pagination } from 'symbol-openapi-typescript-fetch-client';
+
+/**
+ * @internal
+ * A rest page of search results.
+ */
+export interface SearchPage<T> {
+    data: T[];
+    pagination: Pagination;
+}
+
+/**
+ * @internal
+ * The pagination query params of the rest search routes.
+ */
+export interface SearchQuery {
+    pageSize?: number;
+    pageNumber?: number;
+    offset?: string;
+    order?: Order;
+}
+
+/**
+ * @internal
+ * Base of the rest search routes not available in the generated open api client yet.
+ */
+export abstract class SearchRoutesApi extends BaseAPI {
+    /**
+     * Calls a search route, the undefined query params are not sent.
+     * @param path the route path
+     * @param query the query params
+     */
+    protected async search<T>(path: string, query: SearchQuery): Promise<SearchPage<T>> {
+        const definedQuery: HTTPQuery = {};
+        Object.entries(query)
+            .filter(([, value]) => value !== undefined)
+            .forEach(([key, value]) => (definedQuery[key] = value));
+        const response = await this.request({ path, method: 'GET', headers: {}, query: definedQuery });
+        return response.json();
+    }
+}
@@ -0,0 +1,60 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Observable, of as observableOf } from 'rxjs';
+import { AccountInfo } from '../../model/account/AccountInfo';
+import { Address } from '../../model/account/Address';
+import { UInt64 } from '../../model/UInt64';
+import { AccountRepository } from '../AccountRepository';
+import { Page } from '../Page';
+import { AccountOrderBy } from '../searchCriteria/AccountOrderBy';
+import { AccountSearchCriteria } from '../searchCriteria/AccountSearchCriteria';
+import { InMemory } from './InMemory';
+import { InMemoryStore } from './InMemoryStore';
+
+/**
+ * Account in memory repository.
+ */
+export class AccountInMemory extends InMemory implements AccountRepository {
+    constructor(store: InMemoryStore) {
+        super(store);
+    }
+
+    public getAccountInfo(address: Address): Observable<AccountInfo> {
+        return this.found(this.store.accounts.get(address.plain()), `Account ${address.plain()} not found`);
+    }
+
+    public getAccountsInfo(addresses: Address[]): Observable<AccountInfo[]> {
+        return observableOf(
+            addresses.map((address) => this.store.accounts.get(address.plain())).filter((a) => a !== undefined) as AccountInfo[],
+        );
+    }
+
+    public search(criteria: AccountSearchCriteria): Observable<Page<AccountInfo>> {
+        const balance = (accountInfo: AccountInfo): UInt64 => {
+            const mosaic = criteria.mosaicId && accountInfo.mosaics.find((m) => criteria.mosaicId!.equals(m.id));
+            return mosaic ? mosaic.amount : UInt64.fromUint(0);
+        };
+        let accounts = Array.from(this.store.accounts.values());
+        if (criteria.mosaicId) {
+            accounts = accounts.filter((accountInfo) => accountInfo.mosaics.some((m) => criteria.mosaicId!.equals(m.id)));
+        }
+        if (criteria.orderBy === AccountOrderBy.Balance) {
+            accounts = accounts.sort((a, b) => balance(a).compare(balance(b)));
+        }
+        return this.toPage(accounts, criteria);
+    }
+}
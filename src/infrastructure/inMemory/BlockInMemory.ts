@@ -0,0 +1,53 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Observable } from 'rxjs';
+import { BlockInfo } from '../../model/blockchain/BlockInfo';
+import { MerkleProofInfo } from '../../model/blockchain/MerkleProofInfo';
+import { UInt64 } from '../../model/UInt64';
+import { BlockRepository } from '../BlockRepository';
+import { Page } from '../Page';
+import { BlockSearchCriteria } from '../searchCriteria/BlockSearchCriteria';
+import { InMemory } from './InMemory';
+import { InMemoryStore } from './InMemoryStore';
+
+/**
+ * Block in memory repository.
+ */
+export class BlockInMemory extends InMemory implements BlockRepository {
+    constructor(store: InMemoryStore) {
+        super(store);
+    }
+
+    public getBlockByHeight(height: UInt64): Observable<BlockInfo> {
+        return this.found(this.store.blocks.get(height.toString()), `Block ${height.toString()} not found`);
+    }
+
+    /**
+     * Merkle proofs are not simulated, a not found error is raised.
+     */
+    public getMerkleTransaction(height: UInt64, hash: string): Observable<MerkleProofInfo> {
+        return this.notFound(`Merkle proof of transaction ${hash} at height ${height.toString()} not found`);
+    }
+
+    public search(criteria: BlockSearchCriteria): Observable<Page<BlockInfo>> {
+        const blocks = Array.from(this.store.blocks.values())
+            .filter((block) => !criteria.signerPublicKey || block.signer.publicKey === criteria.signerPublicKey.toUpperCase())
+            .filter((block) => !criteria.beneficiaryAddress || block.beneficiaryAddress?.plain() === criteria.beneficiaryAddress)
+            .sort((a, b) => a.height.compare(b.height));
+        return this.toPage(blocks, criteria);
+    }
+}
@@ -0,0 +1,39 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Observable, of as observableOf } from 'rxjs';
+import { BlockchainScore } from '../../model/blockchain/BlockchainScore';
+import { UInt64 } from '../../model/UInt64';
+import { ChainRepository } from '../ChainRepository';
+import { InMemory } from './InMemory';
+import { InMemoryStore } from './InMemoryStore';
+
+/**
+ * Chain in memory repository.
+ */
+export class ChainInMemory extends InMemory implements ChainRepository {
+    constructor(store: InMemoryStore) {
+        super(store);
+    }
+
+    public getBlockchainHeight(): Observable<UInt64> {
+        return observableOf(this.store.chainHeight);
+    }
+
+    public getChainScore(): Observable<BlockchainScore> {
+        return observableOf(this.store.chainScore);
+    }
+}
@@ -0,0 +1,71 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Observable, of as observableOf, throwError } from 'rxjs';
+import { Page } from '../Page';
+import { RepositoryCallError } from '../RepositoryCallError';
+import { RepositoryError } from '../RepositoryError';
+import { Order } from '../searchCriteria/Order';
+import { SearchCriteria } from '../searchCriteria/SearchCriteria';
+import { InMemoryStore } from './InMemoryStore';
+
+/**
+ * In memory repository extended by all in memory repositories.
+ *
+ * Errors are raised as the same {@link RepositoryError} the http repositories use.
+ */
+export abstract class InMemory {
+    /**
+     * Constructor
+     * @param store the in memory chain state.
+     */
+    protected constructor(protected readonly store: InMemoryStore) {}
+
+    /**
+     * It raises a 404 error like rest does when an entity is not found.
+     * @param message the error message
+     */
+    protected notFound<T>(message: string): Observable<T> {
+        const error: RepositoryCallError = {
+            statusCode: 404,
+            statusMessage: 'Not Found',
+            body: JSON.stringify({ code: 'ResourceNotFound', message }),
+        };
+        return throwError(new RepositoryError(error));
+    }
+
+    /**
+     * It returns the value or raises a 404 error when the value is undefined.
+     * @param value the value
+     * @param message the error message when not found
+     */
+    protected found<T>(value: T | undefined, message: string): Observable<T> {
+        return value === undefined ? this.notFound(message) : observableOf(value);
+    }
+
+    /**
+     * It pages the entities like rest does.
+     * @param entities the entities, in ascending order.
+     * @param criteria the search criteria
+     */
+    protected toPage<T>(entities: T[], criteria: SearchCriteria): Observable<Page<T>> {
+        const pageSize = criteria.pageSize || 10;
+        const pageNumber = criteria.pageNumber || 1;
+        const ordered = criteria.order === Order.Desc ? [...entities].reverse() : entities;
+        const data = ordered.slice((pageNumber - 1) * pageSize, pageNumber * pageSize);
+        return observableOf(new Page(data, pageNumber, pageSize, entities.length, Math.ceil(entities.length / pageSize)));
+    }
+}
@@ -0,0 +1,558 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Subject } from 'rxjs';
+import { NodeStatusEnum, TransactionGroupEnum, TransactionStatusEnum } from 'symbol-openapi-typescript-fetch-client';
+import { Crypto } from '../../core/crypto';
+import { Convert } from '../../core/format';
+import { DtoMapping } from '../../core/utils/DtoMapping';
+import { TransactionMapping } from '../../core/utils/TransactionMapping';
+import { AccountInfo } from '../../model/account/AccountInfo';
+import { AccountType } from '../../model/account/AccountType';
+import { Address } from '../../model/account/Address';
+import { MultisigAccountInfo } from '../../model/account/MultisigAccountInfo';
+import { PublicAccount } from '../../model/account/PublicAccount';
+import { SupplementalPublicKeys } from '../../model/account/SupplementalPublicKeys';
+import { UnresolvedAddress } from '../../model/account/UnresolvedAddress';
+import { BlockchainScore } from '../../model/blockchain/BlockchainScore';
+import { BlockInfo } from '../../model/blockchain/BlockInfo';
+import { NewBlock } from '../../model/blockchain/NewBlock';
+import { StorageInfo } from '../../model/blockchain/StorageInfo';
+import { Metadata } from '../../model/metadata/Metadata';
+import { Mosaic } from '../../model/mosaic/Mosaic';
+import { MosaicId } from '../../model/mosaic/MosaicId';
+import { MosaicInfo } from '../../model/mosaic/MosaicInfo';
+import { UnresolvedMosaicId } from '../../model/mosaic/UnresolvedMosaicId';
+import { AliasType } from '../../model/namespace/AliasType';
+import { NamespaceId } from '../../model/namespace/NamespaceId';
+import { NamespaceInfo } from '../../model/namespace/NamespaceInfo';
+import { NetworkConfiguration } from '../../model/network/NetworkConfiguration';
+import { NetworkName } from '../../model/network/NetworkName';
+import { NetworkType } from '../../model/network/NetworkType';
+import { RentalFees } from '../../model/network/RentalFees';
+import { TransactionFees } from '../../model/network/TransactionFees';
+import { NodeHealth } from '../../model/node/NodeHealth';
+import { NodeInfo } from '../../model/node/NodeInfo';
+import { NodeTime } from '../../model/node/NodeTime';
+import { ServerInfo } from '../../model/node/ServerInfo';
+import { Statement } from '../../model/receipt/Statement';
+import { AccountRestrictions } from '../../model/restriction/AccountRestrictions';
+import { MosaicAddressRestriction } from '../../model/restriction/MosaicAddressRestriction';
+import { MosaicGlobalRestriction } from '../../model/restriction/MosaicGlobalRestriction';
+import { AggregateTransaction } from '../../model/transaction/AggregateTransaction';
+import { AggregateTransactionCosignature } from '../../model/transaction/AggregateTransactionCosignature';
+import { AggregateTransactionInfo } from '../../model/transaction/AggregateTransactionInfo';
+import { CosignatureSignedTransaction } from '../../model/transaction/CosignatureSignedTransaction';
+import { Deadline } from '../../model/transaction/Deadline';
+import { SignedTransaction } from '../../model/transaction/SignedTransaction';
+import { Transaction } from '../../model/transaction/Transaction';
+import { TransactionInfo } from '../../model/transaction/TransactionInfo';
+import { TransactionStatus } from '../../model/transaction/TransactionStatus';
+import { TransactionStatusError } from '../../model/transaction/TransactionStatusError';
+import { TransactionType } from '../../model/transaction/TransactionType';
+import { TransferTransaction } from '../../model/transaction/TransferTransaction';
+import { UInt64 } from '../../model/UInt64';
+import { ListenerChannelName } from '../Listener';
+import { TransactionGroup } from '../TransactionGroup';
+
+/**
+ * An event published by the in memory store to its listeners.
+ */
+export interface InMemoryEvent {
+    readonly channelName: ListenerChannelName;
+    readonly message: Transaction | string | NewBlock | TransactionStatusError | CosignatureSignedTransaction;
+    /**
+     * The transaction the message refers to, used to know which addresses are notified.
+     */
+    readonly transaction?: Transaction;
+}
+
+/**
+ * The chain state shared by the in memory repositories and listeners.
+ *
+ * Tests seed it with the add methods. Announced transactions are decoded with {@link TransactionMapping.createFromPayload},
+ * added to the unconfirmed group and, when autoConfirm is enabled, confirmed in a new block right after. Confirming a
+ * transfer moves the mosaics between the accounts, a transfer without enough balance is rejected with
+ * Failure_Core_Insufficient_Balance. Fees are not charged and aggregate bonded transactions stay in the partial group.
+ */
+export class InMemoryStore {
+    /**
+     * Confirm the announced transactions automatically, otherwise {@link confirmTransactions} needs to be called.
+     */
+    public autoConfirm = true;
+    public readonly accounts = new Map<string, AccountInfo>();
+    public readonly mosaics = new Map<string, MosaicInfo>();
+    public readonly namespaces = new Map<string, { info: NamespaceInfo; name: string }>();
+    public readonly multisigAccounts = new Map<string, MultisigAccountInfo>();
+    public readonly blocks = new Map<string, BlockInfo>();
+    public readonly statements = new Map<string, Statement>();
+    public readonly metadata: Metadata[] = [];
+    public readonly accountRestrictions = new Map<string, AccountRestrictions>();
+    public readonly mosaicGlobalRestrictions = new Map<string, MosaicGlobalRestriction>();
+    public readonly mosaicAddressRestrictions: MosaicAddressRestriction[] = [];
+    public readonly transactions = new Map<TransactionGroup, Transaction[]>([
+        [TransactionGroup.Confirmed, []],
+        [TransactionGroup.Unconfirmed, []],
+        [TransactionGroup.Partial, []],
+    ]);
+    public readonly transactionStatuses = new Map<string, TransactionStatus>();
+    public chainHeight = UInt64.fromUint(1);
+    public chainScore = new BlockchainScore(UInt64.fromUint(0), UInt64.fromUint(0));
+    public nodeHealth = new NodeHealth(NodeStatusEnum.Up, NodeStatusEnum.Up);
+    public nodePeers: NodeInfo[] = [];
+    public nodeInfo?: NodeInfo;
+    public nodeTime?: NodeTime;
+    public storageInfo?: StorageInfo;
+    public serverInfo?: ServerInfo;
+    public networkName?: NetworkName;
+    public networkProperties?: NetworkConfiguration;
+    public rentalFees?: RentalFees;
+    public transactionFees?: TransactionFees;
+    /**
+     * The fee multiplier of the blocks created when confirming transactions.
+     */
+    public feeMultiplier = 0;
+
+    /**
+     * @internal
+     * The events published to the in memory listeners.
+     */
+    public readonly events = new Subject<InMemoryEvent>();
+
+    /**
+     * @internal
+     */
+    private transactionCounter = 0;
+
+    /**
+     * Constructor
+     * @param networkType the network type of the simulated chain.
+     * @param generationHash the generation hash of the simulated chain.
+     */
+    constructor(public readonly networkType: NetworkType, public readonly generationHash: string) {}
+
+    public addAccounts(...accountInfos: AccountInfo[]): InMemoryStore {
+        accountInfos.forEach((accountInfo) => this.accounts.set(accountInfo.address.plain(), accountInfo));
+        return this;
+    }
+
+    public addMosaics(...mosaicInfos: MosaicInfo[]): InMemoryStore {
+        mosaicInfos.forEach((mosaicInfo) => this.mosaics.set(mosaicInfo.id.toHex(), mosaicInfo));
+        return this;
+    }
+
+    /**
+     * Adds a namespace
+     * @param namespaceInfo the namespace
+     * @param fullName the full name of the namespace, e.g. cat.currency
+     */
+    public addNamespace(namespaceInfo: NamespaceInfo, fullName: string): InMemoryStore {
+        this.namespaces.set(namespaceInfo.id.toHex(), { info: namespaceInfo, name: fullName });
+        return this;
+    }
+
+    /**
+     * Adds the multisig entries. The multisig graphs are computed from them.
+     * @param multisigAccountInfos the multisig account entries.
+     */
+    public addMultisigAccounts(...multisigAccountInfos: MultisigAccountInfo[]): InMemoryStore {
+        multisigAccountInfos.forEach((info) => this.multisigAccounts.set(info.accountAddress.plain(), info));
+        return this;
+    }
+
+    public addBlocks(...blocks: BlockInfo[]): InMemoryStore {
+        blocks.forEach((block) => {
+            this.blocks.set(block.height.toString(), block);
+            if (block.height.compare(this.chainHeight) > 0) {
+                this.chainHeight = block.height;
+            }
+        });
+        return this;
+    }
+
+    public addStatement(height: UInt64, statement: Statement): InMemoryStore {
+        this.statements.set(height.toString(), statement);
+        return this;
+    }
+
+    public addMetadata(...metadata: Metadata[]): InMemoryStore {
+        this.metadata.push(...metadata);
+        return this;
+    }
+
+    public addAccountRestrictions(...accountRestrictions: AccountRestrictions[]): InMemoryStore {
+        accountRestrictions.forEach((restrictions) => this.accountRestrictions.set(restrictions.address.plain(), restrictions));
+        return this;
+    }
+
+    public addMosaicGlobalRestrictions(...restrictions: MosaicGlobalRestriction[]): InMemoryStore {
+        restrictions.forEach((restriction) => this.mosaicGlobalRestrictions.set(restriction.mosaicId.toHex(), restriction));
+        return this;
+    }
+
+    public addMosaicAddressRestrictions(...restrictions: MosaicAddressRestriction[]): InMemoryStore {
+        this.mosaicAddressRestrictions.push(...restrictions);
+        return this;
+    }
+
+    /**
+     * Adds transactions to a group. The transactions should include their transaction info.
+     * @param group the transaction group
+     * @param transactions the transactions
+     */
+    public addTransactions(group: TransactionGroup, ...transactions: Transaction[]): InMemoryStore {
+        this.transactions.get(group)!.push(...transactions);
+        return this;
+    }
+
+    /**
+     * Announces a transaction, it's added to the unconfirmed group.
+     * @param signedTransaction the signed transaction
+     */
+    public announce(signedTransaction: SignedTransaction): void {
+        const transaction = this.decode(signedTransaction);
+        this.setStatus(transaction, TransactionGroupEnum.Unconfirmed);
+        this.transactions.get(TransactionGroup.Unconfirmed)!.push(transaction);
+        this.publish(ListenerChannelName.unconfirmedAdded, transaction, transaction);
+        if (this.autoConfirm) {
+            setTimeout(() => this.confirmTransactions());
+        }
+    }
+
+    /**
+     * Announces an aggregate bonded transaction, it's added to the partial group.
+     * @param signedTransaction the signed aggregate bonded transaction
+     */
+    public announceAggregateBonded(signedTransaction: SignedTransaction): void {
+        const transaction = this.decode(signedTransaction);
+        this.setStatus(transaction, TransactionGroupEnum.Partial);
+        this.transactions.get(TransactionGroup.Partial)!.push(transaction);
+        this.publish(ListenerChannelName.partialAdded, transaction, transaction);
+    }
+
+    /**
+     * Adds a cosignature to a partial aggregate transaction.
+     * @param cosignature the cosignature
+     */
+    public addCosignature(cosignature: CosignatureSignedTransaction): void {
+        const partial = this.transactions.get(TransactionGroup.Partial)!;
+        const index = partial.findIndex((t) => t.transactionInfo?.hash?.toUpperCase() === cosignature.parentHash.toUpperCase());
+        if (index < 0) {
+            return;
+        }
+        const aggregate = partial[index] as AggregateTransaction;
+        partial[index] = DtoMapping.assign(aggregate, {
+            cosignatures: aggregate.cosignatures.concat(
+                new AggregateTransactionCosignature(
+                    cosignature.signature,
+                    PublicAccount.createFromPublicKey(cosignature.signerPublicKey, this.networkType),
+                    cosignature.version,
+                ),
+            ),
+        });
+        this.publish(ListenerChannelName.cosignature, cosignature, aggregate);
+    }
+
+    /**
+     * Confirms all the unconfirmed transactions in a new block.
+     * @returns the height of the new block.
+     */
+    public confirmTransactions(): UInt64 {
+        const unconfirmed = this.transactions.get(TransactionGroup.Unconfirmed)!.splice(0);
+        if (!unconfirmed.length) {
+            return this.chainHeight;
+        }
+        const height = this.chainHeight.add(UInt64.fromUint(1));
+        const confirmed: Transaction[] = [];
+        unconfirmed.forEach((transaction) => {
+            this.publish(ListenerChannelName.unconfirmedRemoved, transaction.transactionInfo!.hash!, transaction);
+            const accounts = new Map(this.accounts);
+            const failure = this.applyTransaction(transaction, accounts, height);
+            if (failure) {
+                this.failTransaction(transaction, failure);
+                return;
+            }
+            accounts.forEach((accountInfo, key) => this.accounts.set(key, accountInfo));
+            const info = transaction.transactionInfo!;
+            const transactionInfo = new TransactionInfo(height, confirmed.length, info.id, info.hash, info.merkleComponentHash);
+            confirmed.push(
+                transaction instanceof AggregateTransaction
+                    ? DtoMapping.assign(transaction, {
+                          transactionInfo,
+                          innerTransactions: transaction.innerTransactions.map((inner, index) =>
+                              DtoMapping.assign(inner, {
+                                  transactionInfo: new AggregateTransactionInfo(height, index, info.id!, info.hash!, info.id!),
+                              }),
+                          ),
+                      })
+                    : DtoMapping.assign(transaction, { transactionInfo }),
+            );
+        });
+        this.chainHeight = height;
+        const block = this.createBlock(height, confirmed);
+        this.blocks.set(height.toString(), block);
+        this.publish(ListenerChannelName.block, this.toNewBlock(block));
+        confirmed.forEach((transaction) => {
+            this.transactions.get(TransactionGroup.Confirmed)!.push(transaction);
+            this.setStatus(transaction, TransactionGroupEnum.Confirmed, undefined, height);
+            this.publish(ListenerChannelName.confirmedAdded, transaction, transaction);
+        });
+        return height;
+    }
+
+    /**
+     * Rejects an unconfirmed or partial transaction publishing the status error.
+     * @param hash the transaction hash
+     * @param code the status error code, e.g. Failure_Core_Insufficient_Balance
+     */
+    public rejectTransaction(hash: string, code: string): void {
+        [TransactionGroup.Unconfirmed, TransactionGroup.Partial].forEach((group) => {
+            const transactions = this.transactions.get(group)!;
+            const index = transactions.findIndex((t) => t.transactionInfo?.hash?.toUpperCase() === hash.toUpperCase());
+            if (index >= 0) {
+                const transaction = transactions.splice(index, 1)[0];
+                const channel =
+                    group === TransactionGroup.Partial ? ListenerChannelName.partialRemoved : ListenerChannelName.unconfirmedRemoved;
+                this.publish(channel, transaction.transactionInfo!.hash!, transaction);
+                this.failTransaction(transaction, code);
+            }
+        });
+    }
+
+    /**
+     * Resolves an address or an address alias.
+     * @param unresolvedAddress the address or namespace id
+     * @returns the address or undefined if the alias is not linked.
+     */
+    public resolveAddress(unresolvedAddress: UnresolvedAddress): Address | undefined {
+        if (unresolvedAddress instanceof Address) {
+            return unresolvedAddress;
+        }
+        const namespace = this.namespaces.get(unresolvedAddress.toHex());
+        return namespace && namespace.info.alias.type === AliasType.Address ? namespace.info.alias.address : undefined;
+    }
+
+    /**
+     * Resolves a mosaic id or a mosaic alias.
+     * @param unresolvedMosaicId the mosaic id or namespace id
+     * @returns the mosaic id or undefined if the alias is not linked.
+     */
+    public resolveMosaicId(unresolvedMosaicId: UnresolvedMosaicId): MosaicId | undefined {
+        if (unresolvedMosaicId instanceof MosaicId) {
+            return unresolvedMosaicId;
+        }
+        const namespace = this.namespaces.get(unresolvedMosaicId.toHex());
+        return namespace && namespace.info.alias.type === AliasType.Mosaic ? namespace.info.alias.mosaicId : undefined;
+    }
+
+    /**
+     * @param address the address
+     * @returns the namespaces linked to the address.
+     */
+    public getAddressAliases(address: Address): NamespaceId[] {
+        return Array.from(this.namespaces.values())
+            .filter((namespace) => namespace.info.alias.type === AliasType.Address && address.equals(namespace.info.alias.address))
+            .map((namespace) => namespace.info.id);
+    }
+
+    /**
+     * @param address the address
+     * @param transaction the transaction
+     * @returns true if the address signed, cosigned or is involved in the transaction.
+     */
+    public isNotified(address: Address, transaction: Transaction): boolean {
+        return transaction.isSigned(address) || transaction.shouldNotifyAccount(address, this.getAddressAliases(address));
+    }
+
+    /**
+     * @internal
+     */
+    private decode(signedTransaction: SignedTransaction): Transaction {
+        const transaction = TransactionMapping.createFromPayload(signedTransaction.payload);
+        this.transactionCounter++;
+        const id = this.transactionCounter.toString(16).padStart(24, '0').toUpperCase();
+        return DtoMapping.assign(transaction, {
+            transactionInfo: new TransactionInfo(UInt64.fromUint(0), 0, id, signedTransaction.hash, signedTransaction.hash),
+        });
+    }
+
+    /**
+     * @internal
+     */
+    private setStatus(transaction: Transaction, group: TransactionGroupEnum, code?: TransactionStatusEnum, height?: UInt64): void {
+        const hash = transaction.transactionInfo!.hash!.toUpperCase();
+        this.transactionStatuses.set(hash, new TransactionStatus(group, hash, transaction.deadline, code, height));
+    }
+
+    /**
+     * @internal
+     * Moves the transaction to the failed group publishing the status error.
+     */
+    private failTransaction(transaction: Transaction, code: string): void {
+        const hash = transaction.transactionInfo!.hash!.toUpperCase();
+        this.setStatus(transaction, TransactionGroupEnum.Failed, code as TransactionStatusEnum);
+        this.publish(ListenerChannelName.status, new TransactionStatusError(transaction.signer!.address, hash, code, transaction.deadline));
+    }
+
+    /**
+     * @internal
+     */
+    private publish(channelName: ListenerChannelName, message: InMemoryEvent['message'], transaction?: Transaction): void {
+        this.events.next({ channelName, message, transaction });
+    }
+
+    /**
+     * @internal
+     * Applies the balance changes of a transaction to the given accounts.
+     * @returns the status error code when an alias can't be resolved or an account doesn't have enough balance.
+     */
+    private applyTransaction(
+        transaction: Transaction,
+        accounts: Map<string, AccountInfo>,
+        height: UInt64,
+    ): TransactionStatusEnum | undefined {
+        if (transaction instanceof AggregateTransaction) {
+            for (const inner of transaction.innerTransactions) {
+                const failure = this.applyTransaction(inner, accounts, height);
+                if (failure) {
+                    return failure;
+                }
+            }
+            return undefined;
+        }
+        if (transaction.type !== TransactionType.TRANSFER) {
+            return undefined;
+        }
+        const transfer = transaction as TransferTransaction;
+        const recipient = this.resolveAddress(transfer.recipientAddress);
+        if (!recipient) {
+            return TransactionStatusEnum.FailureNamespaceUnknownAlias;
+        }
+        for (const mosaic of transfer.mosaics) {
+            const mosaicId = this.resolveMosaicId(mosaic.id);
+            if (!mosaicId) {
+                return TransactionStatusEnum.FailureNamespaceUnknownAlias;
+            }
+            if (
+                !this.changeBalance(accounts, transfer.signer!.address, mosaicId, mosaic.amount, false, height) ||
+                !this.changeBalance(accounts, recipient, mosaicId, mosaic.amount, true, height)
+            ) {
+                return TransactionStatusEnum.FailureCoreInsufficientBalance;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * @internal
+     */
+    private changeBalance(
+        accounts: Map<string, AccountInfo>,
+        address: Address,
+        mosaicId: MosaicId,
+        amount: UInt64,
+        credit: boolean,
+        height: UInt64,
+    ): boolean {
+        const accountInfo =
+            accounts.get(address.plain()) ||
+            new AccountInfo(
+                address,
+                height,
+                '0'.repeat(64),
+                UInt64.fromUint(0),
+                AccountType.Unlinked,
+                new SupplementalPublicKeys(),
+                [],
+                [],
+                UInt64.fromUint(0),
+                UInt64.fromUint(0),
+            );
+        const current = accountInfo.mosaics.find((m) => mosaicId.equals(m.id));
+        const balance = current ? current.amount : UInt64.fromUint(0);
+        if (!credit && balance.compare(amount) < 0) {
+            return false;
+        }
+        const newBalance = credit ? balance.add(amount) : balance.subtract(amount);
+        const mosaics = accountInfo.mosaics.filter((m) => !mosaicId.equals(m.id)).concat(new Mosaic(mosaicId, newBalance));
+        accounts.set(address.plain(), DtoMapping.assign(accountInfo, { mosaics }));
+        return true;
+    }
+
+    /**
+     * @internal
+     */
+    private createBlock(height: UInt64, transactions: Transaction[]): BlockInfo {
+        const previous = this.blocks.get(height.subtract(UInt64.fromUint(1)).toString());
+        const harvester = PublicAccount.createFromPublicKey('0'.repeat(64), this.networkType);
+        const randomHash = (): string => Convert.uint8ToHex(Crypto.randomBytes(32));
+        const totalFee = transactions.reduce((fee, t) => fee.add(UInt64.fromUint(t.size * this.feeMultiplier)), UInt64.fromUint(0));
+        return new BlockInfo(
+            height.toHex(),
+            0,
+            randomHash(),
+            randomHash(),
+            totalFee,
+            [],
+            transactions.length,
+            '0'.repeat(128),
+            harvester,
+            this.networkType,
+            1,
+            0x8143,
+            height,
+            UInt64.fromUint(Date.now() - Deadline.timestampNemesisBlock * 1000),
+            UInt64.fromUint(0),
+            this.feeMultiplier,
+            previous ? previous.hash : '0'.repeat(64),
+            '0'.repeat(64),
+            '0'.repeat(64),
+            '0'.repeat(64),
+            '0'.repeat(64),
+            '0'.repeat(64),
+            '0'.repeat(32),
+            harvester.address,
+            0,
+        );
+    }
+
+    /**
+     * @internal
+     */
+    private toNewBlock(block: BlockInfo): NewBlock {
+        return new NewBlock(
+            block.hash,
+            block.generationHash,
+            block.signature,
+            block.signer,
+            block.networkType,
+            block.version,
+            block.type,
+            block.height,
+            block.timestamp,
+            block.difficulty,
+            block.feeMultiplier,
+            block.previousBlockHash,
+            block.blockTransactionsHash,
+            block.blockReceiptsHash,
+            block.stateHash,
+            block.proofGamma,
+            block.proofScalar,
+            block.proofVerificationHash,
+            block.beneficiaryAddress,
+        );
+    }
+}
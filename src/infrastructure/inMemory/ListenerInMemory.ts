@@ -0,0 +1,160 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { BehaviorSubject, Observable } from 'rxjs';
+import { distinctUntilChanged, filter, map } from 'rxjs/operators';
+import { Address } from '../../model/account/Address';
+import { NewBlock } from '../../model/blockchain/NewBlock';
+import { AggregateTransaction } from '../../model/transaction/AggregateTransaction';
+import { CosignatureSignedTransaction } from '../../model/transaction/CosignatureSignedTransaction';
+import { Transaction } from '../../model/transaction/Transaction';
+import { TransactionStatusError } from '../../model/transaction/TransactionStatusError';
+import { IListener } from '../IListener';
+import { ListenerChannelName } from '../Listener';
+import { ListenerChannelSubscriptions } from '../ListenerChannelSubscriptions';
+import { ListenerConnectionState } from '../ListenerConnectionState';
+import { InMemoryEvent, InMemoryStore } from './InMemoryStore';
+
+/**
+ * Listener of the events published by an {@link InMemoryStore}.
+ */
+export class ListenerInMemory implements IListener {
+    public readonly url = 'memory://';
+
+    private readonly connectionStateSubject = new BehaviorSubject<ListenerConnectionState>(ListenerConnectionState.Closed);
+
+    private readonly subscriptions = new ListenerChannelSubscriptions(
+        () => undefined,
+        () => undefined,
+    );
+
+    /**
+     * Constructor
+     * @param store the in memory chain state.
+     */
+    constructor(private readonly store: InMemoryStore) {}
+
+    public open(): Promise<void> {
+        this.connectionStateSubject.next(ListenerConnectionState.Open);
+        return Promise.resolve();
+    }
+
+    public isOpen(): boolean {
+        return this.connectionStateSubject.value === ListenerConnectionState.Open;
+    }
+
+    public close(): void {
+        this.connectionStateSubject.next(ListenerConnectionState.Closed);
+    }
+
+    public connectionState(): Observable<ListenerConnectionState> {
+        return this.connectionStateSubject.asObservable().pipe(distinctUntilChanged());
+    }
+
+    public newBlock(): Observable<NewBlock> {
+        return this.subscriptions.observe(
+            ListenerChannelName.block,
+            this.events(ListenerChannelName.block).pipe(map((event) => event.message as NewBlock)),
+        );
+    }
+
+    public confirmed(address: Address, transactionHash?: string): Observable<Transaction> {
+        return this.transactionEvents(ListenerChannelName.confirmedAdded, address, transactionHash);
+    }
+
+    public unconfirmedAdded(address: Address, transactionHash?: string): Observable<Transaction> {
+        return this.transactionEvents(ListenerChannelName.unconfirmedAdded, address, transactionHash);
+    }
+
+    public unconfirmedRemoved(address: Address, transactionHash?: string): Observable<string> {
+        return this.hashEvents(ListenerChannelName.unconfirmedRemoved, address, transactionHash);
+    }
+
+    public aggregateBondedAdded(address: Address, transactionHash?: string): Observable<AggregateTransaction> {
+        return this.transactionEvents(ListenerChannelName.partialAdded, address, transactionHash) as Observable<AggregateTransaction>;
+    }
+
+    public aggregateBondedRemoved(address: Address, transactionHash?: string): Observable<string> {
+        return this.hashEvents(ListenerChannelName.partialRemoved, address, transactionHash);
+    }
+
+    public status(address: Address, transactionHash?: string): Observable<TransactionStatusError> {
+        return this.subscriptions.observe(
+            `${ListenerChannelName.status}/${address.plain()}`,
+            this.events(ListenerChannelName.status).pipe(
+                map((event) => event.message as TransactionStatusError),
+                filter((error) => address.equals(error.address)),
+                filter((error) => !transactionHash || error.hash.toUpperCase() === transactionHash.toUpperCase()),
+            ),
+        );
+    }
+
+    public cosignatureAdded(address: Address): Observable<CosignatureSignedTransaction> {
+        return this.subscriptions.observe(
+            `${ListenerChannelName.cosignature}/${address.plain()}`,
+            this.events(ListenerChannelName.cosignature).pipe(
+                filter((event) => !!event.transaction && this.store.isNotified(address, event.transaction)),
+                map((event) => event.message as CosignatureSignedTransaction),
+            ),
+        );
+    }
+
+    public getActiveChannels(): Map<string, number> {
+        return this.subscriptions.getActiveChannels();
+    }
+
+    /**
+     * @internal
+     */
+    private events(channelName: ListenerChannelName): Observable<InMemoryEvent> {
+        return this.store.events.pipe(filter((event) => event.channelName === channelName));
+    }
+
+    /**
+     * @internal
+     */
+    private transactionEvents(channelName: ListenerChannelName, address: Address, transactionHash?: string): Observable<Transaction> {
+        return this.subscriptions.observe(
+            `${channelName}/${address.plain()}`,
+            this.events(channelName).pipe(
+                map((event) => event.message as Transaction),
+                filter((transaction) => this.filterHash(transaction.transactionInfo!.hash!, transactionHash)),
+                filter((transaction) => this.store.isNotified(address, transaction)),
+            ),
+        );
+    }
+
+    /**
+     * @internal
+     */
+    private hashEvents(channelName: ListenerChannelName, address: Address, transactionHash?: string): Observable<string> {
+        return this.subscriptions.observe(
+            `${channelName}/${address.plain()}`,
+            this.events(channelName).pipe(
+                filter((event) => this.filterHash(event.message as string, transactionHash)),
+                filter((event) => !!event.transaction && this.store.isNotified(address, event.transaction)),
+                map((event) => event.message as string),
+            ),
+        );
+    }
+
+    /**
+     * @internal
+     */
+    private filterHash(hash: string, transactionHash?: string): boolean {
+        return !transactionHash || hash.toUpperCase() === transactionHash.toUpperCase();
+    }
+}
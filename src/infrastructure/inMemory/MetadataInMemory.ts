@@ -0,0 +1,110 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Observable, of as observableOf } from 'rxjs';
+import { Address } from '../../model/account/Address';
+import { Metadata } from '../../model/metadata/Metadata';
+import { MetadataType } from '../../model/metadata/MetadataType';
+import { MosaicId } from '../../model/mosaic/MosaicId';
+import { NamespaceId } from '../../model/namespace/NamespaceId';
+import { UInt64 } from '../../model/UInt64';
+import { MetadataRepository } from '../MetadataRepository';
+import { Page } from '../Page';
+import { QueryParams } from '../QueryParams';
+import { MetadataSearchCriteria } from '../searchCriteria/MetadataSearchCriteria';
+import { InMemory } from './InMemory';
+import { InMemoryStore } from './InMemoryStore';
+
+/**
+ * Metadata in memory repository.
+ */
+export class MetadataInMemory extends InMemory implements MetadataRepository {
+    constructor(store: InMemoryStore) {
+        super(store);
+    }
+
+    public getAccountMetadata(address: Address, queryParams?: QueryParams): Observable<Metadata[]> {
+        return observableOf(this.limit(this.filter(MetadataType.Account, address), queryParams));
+    }
+
+    public getAccountMetadataByKey(address: Address, key: string): Observable<Metadata[]> {
+        return observableOf(this.filter(MetadataType.Account, address, key));
+    }
+
+    public getAccountMetadataByKeyAndSender(address: Address, key: string, sourceAddress: Address): Observable<Metadata> {
+        return this.first(this.filter(MetadataType.Account, address, key, sourceAddress));
+    }
+
+    public getMosaicMetadata(mosaicId: MosaicId, queryParams?: QueryParams): Observable<Metadata[]> {
+        return observableOf(this.limit(this.filter(MetadataType.Mosaic, mosaicId), queryParams));
+    }
+
+    public getMosaicMetadataByKey(mosaicId: MosaicId, key: string): Observable<Metadata[]> {
+        return observableOf(this.filter(MetadataType.Mosaic, mosaicId, key));
+    }
+
+    public getMosaicMetadataByKeyAndSender(mosaicId: MosaicId, key: string, sourceAddress: Address): Observable<Metadata> {
+        return this.first(this.filter(MetadataType.Mosaic, mosaicId, key, sourceAddress));
+    }
+
+    public getNamespaceMetadata(namespaceId: NamespaceId, queryParams?: QueryParams): Observable<Metadata[]> {
+        return observableOf(this.limit(this.filter(MetadataType.Namespace, namespaceId), queryParams));
+    }
+
+    public getNamespaceMetadataByKey(namespaceId: NamespaceId, key: string): Observable<Metadata[]> {
+        return observableOf(this.filter(MetadataType.Namespace, namespaceId, key));
+    }
+
+    public getNamespaceMetadataByKeyAndSender(namespaceId: NamespaceId, key: string, sourceAddress: Address): Observable<Metadata> {
+        return this.first(this.filter(MetadataType.Namespace, namespaceId, key, sourceAddress));
+    }
+
+    public searchMetadata(criteria: MetadataSearchCriteria): Observable<Page<Metadata>> {
+        const metadata = this.store.metadata.filter((m) => {
+            const entry = m.metadataEntry;
+            return (
+                (!criteria.sourceAddress || entry.sourceAddress.equals(criteria.sourceAddress)) &&
+                (!criteria.targetAddress || entry.targetAddress.equals(criteria.targetAddress)) &&
+                (!criteria.scopedMetadataKey || entry.scopedMetadataKey.equals(UInt64.fromHex(criteria.scopedMetadataKey))) &&
+                (!criteria.targetId || (!!entry.targetId && entry.targetId.equals(criteria.targetId))) &&
+                (criteria.metadataType === undefined || entry.metadataType === criteria.metadataType)
+            );
+        });
+        return this.toPage(metadata, criteria);
+    }
+
+    private filter(type: MetadataType, target: Address | MosaicId | NamespaceId, key?: string, sourceAddress?: Address): Metadata[] {
+        return this.store.metadata.filter((metadata) => {
+            const entry = metadata.metadataEntry;
+            const targetMatches =
+                target instanceof Address ? entry.targetAddress.equals(target) : !!entry.targetId && entry.targetId.equals(target);
+            return (
+                entry.metadataType === type &&
+                targetMatches &&
+                (!key || entry.scopedMetadataKey.equals(UInt64.fromHex(key))) &&
+                (!sourceAddress || entry.sourceAddress.equals(sourceAddress))
+            );
+        });
+    }
+
+    private limit(metadata: Metadata[], queryParams?: QueryParams): Metadata[] {
+        return queryParams && queryParams.pageSize ? metadata.slice(0, queryParams.pageSize) : metadata;
+    }
+
+    private first(metadata: Metadata[]): Observable<Metadata> {
+        return this.found(metadata[0], 'Metadata not found');
+    }
+}
@@ -0,0 +1,50 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Observable, of as observableOf } from 'rxjs';
+import { MosaicId } from '../../model/mosaic/MosaicId';
+import { MosaicInfo } from '../../model/mosaic/MosaicInfo';
+import { MosaicRepository } from '../MosaicRepository';
+import { Page } from '../Page';
+import { MosaicSearchCriteria } from '../searchCriteria/MosaicSearchCriteria';
+import { InMemory } from './InMemory';
+import { InMemoryStore } from './InMemoryStore';
+
+/**
+ * Mosaic in memory repository.
+ */
+export class MosaicInMemory extends InMemory implements MosaicRepository {
+    constructor(store: InMemoryStore) {
+        super(store);
+    }
+
+    public getMosaic(mosaicId: MosaicId): Observable<MosaicInfo> {
+        return this.found(this.store.mosaics.get(mosaicId.toHex()), `Mosaic ${mosaicId.toHex()} not found`);
+    }
+
+    public getMosaics(mosaicIds: MosaicId[]): Observable<MosaicInfo[]> {
+        return observableOf(
+            mosaicIds.map((mosaicId) => this.store.mosaics.get(mosaicId.toHex())).filter((m) => m !== undefined) as MosaicInfo[],
+        );
+    }
+
+    public search(criteria: MosaicSearchCriteria): Observable<Page<MosaicInfo>> {
+        const mosaics = Array.from(this.store.mosaics.values()).filter(
+            (mosaic) => !criteria.ownerAddress || mosaic.ownerAddress.equals(criteria.ownerAddress),
+        );
+        return this.toPage(mosaics, criteria);
+    }
+}
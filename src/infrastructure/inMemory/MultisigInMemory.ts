@@ -0,0 +1,87 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Observable, of as observableOf } from 'rxjs';
+import { Address } from '../../model/account/Address';
+import { MultisigAccountGraphInfo } from '../../model/account/MultisigAccountGraphInfo';
+import { MultisigAccountInfo } from '../../model/account/MultisigAccountInfo';
+import { MultisigRepository } from '../MultisigRepository';
+import { InMemory } from './InMemory';
+import { InMemoryStore } from './InMemoryStore';
+
+/**
+ * Multisig in memory repository.
+ *
+ * The graphs are computed from the stored multisig entries like rest does: level 0 is the given account, positive
+ * levels go down to the cosignatories and negative levels go up to the multisig accounts.
+ */
+export class MultisigInMemory extends InMemory implements MultisigRepository {
+    constructor(store: InMemoryStore) {
+        super(store);
+    }
+
+    public getMultisigAccountInfo(address: Address): Observable<MultisigAccountInfo> {
+        return this.found(this.getEntry(address), `Multisig account ${address.plain()} not found`);
+    }
+
+    public getMultisigAccountGraphInfo(address: Address): Observable<MultisigAccountGraphInfo> {
+        const root = this.getEntry(address);
+        if (!root) {
+            return this.notFound(`Multisig account ${address.plain()} not found`);
+        }
+        const levels = new Map<number, MultisigAccountInfo[]>([[0, [root]]]);
+        const visited = new Set<string>([address.plain()]);
+        const walk = (entries: MultisigAccountInfo[], level: number, step: number): void => {
+            const next = ([] as Address[])
+                .concat(...entries.map((entry) => (step > 0 ? entry.cosignatoryAddresses : this.getMultisigAddresses(entry))))
+                .filter((a) => !visited.has(a.plain()) && visited.add(a.plain()))
+                .map((a) => this.getEntry(a))
+                .filter((entry) => entry !== undefined) as MultisigAccountInfo[];
+            if (next.length) {
+                levels.set(level + step, next);
+                walk(next, level + step, step);
+            }
+        };
+        walk([root], 0, 1);
+        walk([root], 0, -1);
+        return observableOf(new MultisigAccountGraphInfo(levels));
+    }
+
+    /**
+     * Returns the multisig accounts the entry cosigns for, including the ones that only list it as cosignatory.
+     */
+    private getMultisigAddresses(entry: MultisigAccountInfo): Address[] {
+        const cosigned = Array.from(this.store.multisigAccounts.values())
+            .filter((multisig) => multisig.hasCosigner(entry.accountAddress))
+            .map((multisig) => multisig.accountAddress);
+        return entry.multisigAddresses.concat(cosigned.filter((a) => !entry.multisigAddresses.some((m) => m.equals(a))));
+    }
+
+    /**
+     * Returns the stored entry or, for the cosignatories that are not multisig accounts, an entry listing the multisig
+     * accounts they cosign for.
+     */
+    private getEntry(address: Address): MultisigAccountInfo | undefined {
+        const stored = this.store.multisigAccounts.get(address.plain());
+        if (stored) {
+            return stored;
+        }
+        const multisigAddresses = Array.from(this.store.multisigAccounts.values())
+            .filter((entry) => entry.hasCosigner(address))
+            .map((entry) => entry.accountAddress);
+        return multisigAddresses.length ? new MultisigAccountInfo(address, 0, 0, [], multisigAddresses) : undefined;
+    }
+}
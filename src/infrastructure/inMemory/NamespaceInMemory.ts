@@ -0,0 +1,129 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Observable, of as observableOf, throwError } from 'rxjs';
+import { mergeMap } from 'rxjs/operators';
+import { AccountNames } from '../../model/account/AccountNames';
+import { Address } from '../../model/account/Address';
+import { MosaicId } from '../../model/mosaic/MosaicId';
+import { MosaicNames } from '../../model/mosaic/MosaicNames';
+import { AliasType } from '../../model/namespace/AliasType';
+import { NamespaceId } from '../../model/namespace/NamespaceId';
+import { NamespaceInfo } from '../../model/namespace/NamespaceInfo';
+import { NamespaceName } from '../../model/namespace/NamespaceName';
+import { NamespaceRegistrationType } from '../../model/namespace/NamespaceRegistrationType';
+import { NamespaceRepository } from '../NamespaceRepository';
+import { Page } from '../Page';
+import { NamespaceSearchCriteria } from '../searchCriteria/NamespaceSearchCriteria';
+import { InMemory } from './InMemory';
+import { InMemoryStore } from './InMemoryStore';
+
+/**
+ * Namespace in memory repository.
+ */
+export class NamespaceInMemory extends InMemory implements NamespaceRepository {
+    constructor(store: InMemoryStore) {
+        super(store);
+    }
+
+    public getAccountsNames(addresses: Address[]): Observable<AccountNames[]> {
+        return observableOf(
+            addresses.map(
+                (address) =>
+                    new AccountNames(
+                        address,
+                        this.getNames((namespace) => namespace.alias.type === AliasType.Address && address.equals(namespace.alias.address)),
+                    ),
+            ),
+        );
+    }
+
+    public getMosaicsNames(mosaicIds: MosaicId[]): Observable<MosaicNames[]> {
+        return observableOf(
+            mosaicIds.map(
+                (mosaicId) =>
+                    new MosaicNames(
+                        mosaicId,
+                        this.getNames(
+                            (namespace) => namespace.alias.type === AliasType.Mosaic && mosaicId.equals(namespace.alias.mosaicId),
+                        ),
+                    ),
+            ),
+        );
+    }
+
+    public getNamespace(namespaceId: NamespaceId): Observable<NamespaceInfo> {
+        const namespace = this.store.namespaces.get(namespaceId.toHex());
+        return this.found(namespace && namespace.info, `Namespace ${namespaceId.toHex()} not found`);
+    }
+
+    public getNamespacesNames(namespaceIds: NamespaceId[]): Observable<NamespaceName[]> {
+        const names: NamespaceName[] = [];
+        namespaceIds.forEach((namespaceId) => {
+            const namespace = this.store.namespaces.get(namespaceId.toHex());
+            if (namespace) {
+                const partName = namespace.name.split('.').pop()!;
+                const parentId = namespace.info.isRoot() ? undefined : namespace.info.parentNamespaceId();
+                names.push(new NamespaceName(namespace.info.id, partName, parentId));
+            }
+        });
+        return observableOf(names);
+    }
+
+    public getLinkedMosaicId(namespaceId: NamespaceId): Observable<MosaicId> {
+        return this.getNamespace(namespaceId).pipe(
+            mergeMap((namespace) =>
+                namespace.alias.type === AliasType.Mosaic && namespace.alias.mosaicId
+                    ? observableOf(namespace.alias.mosaicId)
+                    : throwError(new Error(`No mosaicId is linked to namespace '${namespace.levels[0].toHex()}'`)),
+            ),
+        );
+    }
+
+    public getLinkedAddress(namespaceId: NamespaceId): Observable<Address> {
+        return this.getNamespace(namespaceId).pipe(
+            mergeMap((namespace) =>
+                namespace.alias.type === AliasType.Address && namespace.alias.address
+                    ? observableOf(namespace.alias.address)
+                    : throwError(new Error(`No address is linked to namespace '${namespace.levels[0].toHex()}'`)),
+            ),
+        );
+    }
+
+    public search(criteria: NamespaceSearchCriteria): Observable<Page<NamespaceInfo>> {
+        const namespaces = Array.from(this.store.namespaces.values())
+            .map((namespace) => namespace.info)
+            .filter(
+                (namespace) =>
+                    (!criteria.ownerAddress || criteria.ownerAddress.equals(namespace.ownerAddress)) &&
+                    (criteria.registrationType === undefined ||
+                        (criteria.registrationType === NamespaceRegistrationType.RootNamespace) === namespace.isRoot()) &&
+                    (!criteria.level0 || criteria.level0.equals(namespace.levels[0])) &&
+                    (criteria.aliasType === undefined || criteria.aliasType === namespace.alias.type),
+            );
+        return this.toPage(namespaces, criteria);
+    }
+
+    /**
+     * @internal
+     * @returns the full names of the namespaces matching the filter.
+     */
+    private getNames(filter: (namespace: NamespaceInfo) => boolean): NamespaceName[] {
+        return Array.from(this.store.namespaces.values())
+            .filter((namespace) => filter(namespace.info))
+            .map((namespace) => new NamespaceName(namespace.info.id, namespace.name));
+    }
+}
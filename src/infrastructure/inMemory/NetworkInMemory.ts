@@ -0,0 +1,54 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Observable, of as observableOf } from 'rxjs';
+import { NetworkConfiguration } from '../../model/network/NetworkConfiguration';
+import { NetworkName } from '../../model/network/NetworkName';
+import { NetworkType } from '../../model/network/NetworkType';
+import { RentalFees } from '../../model/network/RentalFees';
+import { TransactionFees } from '../../model/network/TransactionFees';
+import { NetworkRepository } from '../NetworkRepository';
+import { InMemory } from './InMemory';
+import { InMemoryStore } from './InMemoryStore';
+
+/**
+ * Network in memory repository.
+ */
+export class NetworkInMemory extends InMemory implements NetworkRepository {
+    constructor(store: InMemoryStore) {
+        super(store);
+    }
+
+    public getNetworkName(): Observable<NetworkName> {
+        return this.found(this.store.networkName, 'Network name not found');
+    }
+
+    public getNetworkProperties(): Observable<NetworkConfiguration> {
+        return this.found(this.store.networkProperties, 'Network properties not found');
+    }
+
+    public getNetworkType(): Observable<NetworkType> {
+        return observableOf(this.store.networkType);
+    }
+
+    public getRentalFees(): Observable<RentalFees> {
+        return this.found(this.store.rentalFees, 'Rental fees not found');
+    }
+
+    public getTransactionFees(): Observable<TransactionFees> {
+        return this.found(this.store.transactionFees, 'Transaction fees not found');
+    }
+}
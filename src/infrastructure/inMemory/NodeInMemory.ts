@@ -0,0 +1,58 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Observable, of as observableOf } from 'rxjs';
+import { StorageInfo } from '../../model/blockchain/StorageInfo';
+import { NodeHealth } from '../../model/node/NodeHealth';
+import { NodeInfo } from '../../model/node/NodeInfo';
+import { NodeTime } from '../../model/node/NodeTime';
+import { ServerInfo } from '../../model/node/ServerInfo';
+import { NodeRepository } from '../NodeRepository';
+import { InMemory } from './InMemory';
+import { InMemoryStore } from './InMemoryStore';
+
+/**
+ * Node in memory repository.
+ */
+export class NodeInMemory extends InMemory implements NodeRepository {
+    constructor(store: InMemoryStore) {
+        super(store);
+    }
+
+    public getNodeInfo(): Observable<NodeInfo> {
+        return this.found(this.store.nodeInfo, 'Node info not found');
+    }
+
+    public getNodePeers(): Observable<NodeInfo[]> {
+        return observableOf(this.store.nodePeers);
+    }
+
+    public getNodeTime(): Observable<NodeTime> {
+        return this.found(this.store.nodeTime, 'Node time not found');
+    }
+
+    public getNodeHealth(): Observable<NodeHealth> {
+        return observableOf(this.store.nodeHealth);
+    }
+
+    public getStorageInfo(): Observable<StorageInfo> {
+        return this.found(this.store.storageInfo, 'Storage info not found');
+    }
+
+    public getServerInfo(): Observable<ServerInfo> {
+        return this.found(this.store.serverInfo, 'Server info not found');
+    }
+}
@@ -0,0 +1,122 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Observable, throwError } from 'rxjs';
+import { MerkleProofInfo } from '../../model/blockchain/MerkleProofInfo';
+import { Address } from '../../model/account/Address';
+import { UnresolvedMosaicId } from '../../model/mosaic/UnresolvedMosaicId';
+import { ArtifactExpiryReceipt } from '../../model/receipt/ArtifactExpiryReceipt';
+import { BalanceChangeReceipt } from '../../model/receipt/BalanceChangeReceipt';
+import { BalanceTransferReceipt } from '../../model/receipt/BalanceTransferReceipt';
+import { InflationReceipt } from '../../model/receipt/InflationReceipt';
+import { Receipt } from '../../model/receipt/Receipt';
+import { ResolutionStatement } from '../../model/receipt/ResolutionStatement';
+import { ResolutionType } from '../../model/receipt/ResolutionType';
+import { Statement } from '../../model/receipt/Statement';
+import { TransactionStatement } from '../../model/receipt/TransactionStatement';
+import { UInt64 } from '../../model/UInt64';
+import { Page } from '../Page';
+import { ValidateResolutionStatementCriteria } from '../receipt/ResolutionStatementCriteria';
+import { ReceiptRepository } from '../ReceiptRepository';
+import { ReceiptSearchCriteria } from '../searchCriteria/ReceiptSearchCriteria';
+import { InMemory } from './InMemory';
+import { InMemoryStore } from './InMemoryStore';
+
+/**
+ * Receipt in memory repository.
+ */
+export class ReceiptInMemory extends InMemory implements ReceiptRepository {
+    constructor(store: InMemoryStore) {
+        super(store);
+    }
+
+    public getBlockReceipts(height: UInt64): Observable<Statement> {
+        return this.found(this.store.statements.get(height.toString()), `Statements of block ${height.toString()} not found`);
+    }
+
+    public getMerkleReceipts(height: UInt64, hash: string): Observable<MerkleProofInfo> {
+        return this.notFound(`Merkle receipts of ${hash} in block ${height.toString()} are not supported in memory`);
+    }
+
+    public searchReceipts(criteria: ReceiptSearchCriteria): Observable<Page<TransactionStatement>> {
+        const statements = this.statementsAtHeights(criteria)
+            .map((statement) => statement.transactionStatements)
+            .reduce((all, transactionStatements) => all.concat(transactionStatements), [])
+            .filter((statement) => statement.receipts.some((receipt) => ReceiptInMemory.isReceiptMatching(receipt, criteria)));
+        return this.toPage(statements, criteria);
+    }
+
+    public searchAddressResolutionStatements(criteria: ReceiptSearchCriteria): Observable<Page<ResolutionStatement>> {
+        const error = ValidateResolutionStatementCriteria(criteria, ResolutionType.Address);
+        if (error) {
+            return throwError(error);
+        }
+        const statements = this.statementsAtHeights(criteria)
+            .map((statement) => statement.addressResolutionStatements)
+            .reduce((all, resolutionStatements) => all.concat(resolutionStatements), []);
+        return this.toPage(statements, criteria);
+    }
+
+    public searchMosaicResolutionStatements(criteria: ReceiptSearchCriteria): Observable<Page<ResolutionStatement>> {
+        const error = ValidateResolutionStatementCriteria(criteria, ResolutionType.Mosaic);
+        if (error) {
+            return throwError(error);
+        }
+        const statements = this.statementsAtHeights(criteria)
+            .map((statement) => statement.mosaicResolutionStatements)
+            .reduce((all, resolutionStatements) => all.concat(resolutionStatements), []);
+        return this.toPage(statements, criteria);
+    }
+
+    private statementsAtHeights(criteria: ReceiptSearchCriteria): Statement[] {
+        return Array.from(this.store.statements.keys())
+            .map((height) => UInt64.fromNumericString(height))
+            .filter((height) => !criteria.height || height.equals(criteria.height))
+            .filter((height) => !criteria.fromHeight || height.compare(criteria.fromHeight) >= 0)
+            .filter((height) => !criteria.toHeight || height.compare(criteria.toHeight) <= 0)
+            .sort((a, b) => a.compare(b))
+            .map((height) => this.store.statements.get(height.toString()) as Statement);
+    }
+
+    /**
+     * @returns true if the criteria filters the receipts, resolution statements don't have receipts.
+     */
+    private static isReceiptMatching(receipt: Receipt, criteria: ReceiptSearchCriteria): boolean {
+        const isAddressMatching = (address: Address | undefined, field: Address | undefined): boolean =>
+            !address || (!!field && address.equals(field));
+        const artifactId = ReceiptInMemory.getArtifactId(receipt);
+        return (
+            (!criteria.receiptTypes || criteria.receiptTypes.includes(receipt.type)) &&
+            isAddressMatching(
+                criteria.recipientAddress,
+                receipt instanceof BalanceTransferReceipt ? receipt.recipientAddress : undefined,
+            ) &&
+            isAddressMatching(criteria.senderAddress, receipt instanceof BalanceTransferReceipt ? receipt.senderAddress : undefined) &&
+            isAddressMatching(criteria.targetAddress, receipt instanceof BalanceChangeReceipt ? receipt.targetAddress : undefined) &&
+            (!criteria.artifactId || (!!artifactId && criteria.artifactId.equals(artifactId)))
+        );
+    }
+
+    private static getArtifactId(receipt: Receipt): UnresolvedMosaicId | undefined {
+        if (receipt instanceof BalanceTransferReceipt || receipt instanceof BalanceChangeReceipt || receipt instanceof InflationReceipt) {
+            return receipt.mosaicId;
+        }
+        if (receipt instanceof ArtifactExpiryReceipt) {
+            return receipt.artifactId;
+        }
+        return undefined;
+    }
+}
@@ -0,0 +1,131 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Observable, of as observableOf } from 'rxjs';
+import { NetworkType } from '../../model/network/NetworkType';
+import { AccountRepository } from '../AccountRepository';
+import { BlockRepository } from '../BlockRepository';
+import { ChainRepository } from '../ChainRepository';
+import { IListener } from '../IListener';
+import { MetadataRepository } from '../MetadataRepository';
+import { MosaicRepository } from '../MosaicRepository';
+import { MultisigRepository } from '../MultisigRepository';
+import { NamespaceRepository } from '../NamespaceRepository';
+import { NetworkRepository } from '../NetworkRepository';
+import { NodeRepository } from '../NodeRepository';
+import { ReceiptRepository } from '../ReceiptRepository';
+import { RepositoryFactory } from '../RepositoryFactory';
+import { RestrictionAccountRepository } from '../RestrictionAccountRepository';
+import { RestrictionMosaicRepository } from '../RestrictionMosaicRepository';
+import { TransactionRepository } from '../TransactionRepository';
+import { TransactionStatusRepository } from '../TransactionStatusRepository';
+import { AccountInMemory } from './AccountInMemory';
+import { BlockInMemory } from './BlockInMemory';
+import { ChainInMemory } from './ChainInMemory';
+import { InMemoryStore } from './InMemoryStore';
+import { ListenerInMemory } from './ListenerInMemory';
+import { MetadataInMemory } from './MetadataInMemory';
+import { MosaicInMemory } from './MosaicInMemory';
+import { MultisigInMemory } from './MultisigInMemory';
+import { NamespaceInMemory } from './NamespaceInMemory';
+import { NetworkInMemory } from './NetworkInMemory';
+import { NodeInMemory } from './NodeInMemory';
+import { ReceiptInMemory } from './ReceiptInMemory';
+import { RestrictionAccountInMemory } from './RestrictionAccountInMemory';
+import { RestrictionMosaicInMemory } from './RestrictionMosaicInMemory';
+import { TransactionInMemory } from './TransactionInMemory';
+import { TransactionStatusInMemory } from './TransactionStatusInMemory';
+
+/**
+ * Repository factory backed by an {@link InMemoryStore}, it allows services to run offline, e.g. in unit tests.
+ *
+ * All the repositories and listeners created by the factory share the same store.
+ */
+export class RepositoryFactoryInMemory implements RepositoryFactory {
+    /**
+     * Constructor
+     * @param store the in memory chain state.
+     */
+    constructor(public readonly store: InMemoryStore) {}
+
+    getNetworkType(): Observable<NetworkType> {
+        return observableOf(this.store.networkType);
+    }
+
+    getGenerationHash(): Observable<string> {
+        return observableOf(this.store.generationHash);
+    }
+
+    createAccountRepository(): AccountRepository {
+        return new AccountInMemory(this.store);
+    }
+
+    createBlockRepository(): BlockRepository {
+        return new BlockInMemory(this.store);
+    }
+
+    createChainRepository(): ChainRepository {
+        return new ChainInMemory(this.store);
+    }
+
+    createMetadataRepository(): MetadataRepository {
+        return new MetadataInMemory(this.store);
+    }
+
+    createMosaicRepository(): MosaicRepository {
+        return new MosaicInMemory(this.store);
+    }
+
+    createMultisigRepository(): MultisigRepository {
+        return new MultisigInMemory(this.store);
+    }
+
+    createNamespaceRepository(): NamespaceRepository {
+        return new NamespaceInMemory(this.store);
+    }
+
+    createNetworkRepository(): NetworkRepository {
+        return new NetworkInMemory(this.store);
+    }
+
+    createNodeRepository(): NodeRepository {
+        return new NodeInMemory(this.store);
+    }
+
+    createReceiptRepository(): ReceiptRepository {
+        return new ReceiptInMemory(this.store);
+    }
+
+    createRestrictionAccountRepository(): RestrictionAccountRepository {
+        return new RestrictionAccountInMemory(this.store);
+    }
+
+    createRestrictionMosaicRepository(): RestrictionMosaicRepository {
+        return new RestrictionMosaicInMemory(this.store);
+    }
+
+    createTransactionRepository(): TransactionRepository {
+        return new TransactionInMemory(this.store);
+    }
+
+    createTransactionStatusRepository(): TransactionStatusRepository {
+        return new TransactionStatusInMemory(this.store);
+    }
+
+    createListener(): IListener {
+        return new ListenerInMemory(this.store);
+    }
+}
@@ -0,0 +1,45 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Observable, of as observableOf } from 'rxjs';
+import { Address } from '../../model/account/Address';
+import { AccountRestriction } from '../../model/restriction/AccountRestriction';
+import { AccountRestrictions } from '../../model/restriction/AccountRestrictions';
+import { RestrictionAccountRepository } from '../RestrictionAccountRepository';
+import { InMemory } from './InMemory';
+import { InMemoryStore } from './InMemoryStore';
+
+/**
+ * Account restriction in memory repository.
+ */
+export class RestrictionAccountInMemory extends InMemory implements RestrictionAccountRepository {
+    constructor(store: InMemoryStore) {
+        super(store);
+    }
+
+    public getAccountRestrictions(address: Address): Observable<AccountRestriction[]> {
+        const restrictions = this.store.accountRestrictions.get(address.plain());
+        return this.found(restrictions && restrictions.restrictions, `Account restrictions of ${address.plain()} not found`);
+    }
+
+    public getAccountRestrictionsFromAccounts(addresses: Address[]): Observable<AccountRestrictions[]> {
+        return observableOf(
+            addresses
+                .map((address) => this.store.accountRestrictions.get(address.plain()))
+                .filter((r) => r !== undefined) as AccountRestrictions[],
+        );
+    }
+}
@@ -0,0 +1,70 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Observable, of as observableOf } from 'rxjs';
+import { Address } from '../../model/account/Address';
+import { MosaicId } from '../../model/mosaic/MosaicId';
+import { MosaicAddressRestriction } from '../../model/restriction/MosaicAddressRestriction';
+import { MosaicGlobalRestriction } from '../../model/restriction/MosaicGlobalRestriction';
+import { RestrictionMosaicRepository } from '../RestrictionMosaicRepository';
+import { InMemory } from './InMemory';
+import { InMemoryStore } from './InMemoryStore';
+
+/**
+ * Mosaic restriction in memory repository.
+ */
+export class RestrictionMosaicInMemory extends InMemory implements RestrictionMosaicRepository {
+    constructor(store: InMemoryStore) {
+        super(store);
+    }
+
+    public getMosaicAddressRestriction(mosaicId: MosaicId, address: Address): Observable<MosaicAddressRestriction> {
+        return this.found(
+            this.findAddressRestriction(mosaicId, address),
+            `Mosaic address restriction of ${mosaicId.toHex()} and ${address.plain()} not found`,
+        );
+    }
+
+    public getMosaicAddressRestrictions(mosaicId: MosaicId, addresses: Address[]): Observable<MosaicAddressRestriction[]> {
+        return observableOf(
+            addresses
+                .map((address) => this.findAddressRestriction(mosaicId, address))
+                .filter((r) => r !== undefined) as MosaicAddressRestriction[],
+        );
+    }
+
+    public getMosaicGlobalRestriction(mosaicId: MosaicId): Observable<MosaicGlobalRestriction> {
+        return this.found(
+            this.store.mosaicGlobalRestrictions.get(mosaicId.toHex()),
+            `Mosaic global restriction of ${mosaicId.toHex()} not found`,
+        );
+    }
+
+    public getMosaicGlobalRestrictions(mosaicIds: MosaicId[]): Observable<MosaicGlobalRestriction[]> {
+        return observableOf(
+            mosaicIds
+                .map((mosaicId) => this.store.mosaicGlobalRestrictions.get(mosaicId.toHex()))
+                .filter((r) => r !== undefined) as MosaicGlobalRestriction[],
+        );
+    }
+
+    /**
+     * @internal
+     */
+    private findAddressRestriction(mosaicId: MosaicId, address: Address): MosaicAddressRestriction | undefined {
+        return this.store.mosaicAddressRestrictions.find((r) => mosaicId.equals(r.mosaicId) && address.equals(r.targetAddress));
+    }
+}
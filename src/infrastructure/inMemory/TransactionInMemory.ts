@@ -0,0 +1,140 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Observable, of as observableOf } from 'rxjs';
+import { mergeMap } from 'rxjs/operators';
+import { Address } from '../../model/account/Address';
+import { AggregateTransaction } from '../../model/transaction/AggregateTransaction';
+import { CosignatureSignedTransaction } from '../../model/transaction/CosignatureSignedTransaction';
+import { SecretLockTransaction } from '../../model/transaction/SecretLockTransaction';
+import { SecretProofTransaction } from '../../model/transaction/SecretProofTransaction';
+import { SignedTransaction } from '../../model/transaction/SignedTransaction';
+import { Transaction } from '../../model/transaction/Transaction';
+import { TransactionAnnounceResponse } from '../../model/transaction/TransactionAnnounceResponse';
+import { TransferTransaction } from '../../model/transaction/TransferTransaction';
+import { UnresolvedAddress } from '../../model/account/UnresolvedAddress';
+import { Page } from '../Page';
+import { TransactionSearchCriteria } from '../searchCriteria/TransactionSearchCriteria';
+import { TransactionGroup } from '../TransactionGroup';
+import { TransactionRepository } from '../TransactionRepository';
+import { InMemory } from './InMemory';
+import { InMemoryStore } from './InMemoryStore';
+
+/**
+ * Transaction in memory repository.
+ *
+ * Announcing adds the transactions to the store right away, like the http repository sends the request on call.
+ */
+export class TransactionInMemory extends InMemory implements TransactionRepository {
+    constructor(store: InMemoryStore) {
+        super(store);
+    }
+
+    public getTransaction(transactionId: string, transactionGroup: TransactionGroup): Observable<Transaction> {
+        return this.found(this.findTransaction(transactionId, transactionGroup), `Transaction ${transactionId} not found`);
+    }
+
+    public getTransactionsById(transactionIds: string[], transactionGroup: TransactionGroup): Observable<Transaction[]> {
+        return observableOf(
+            transactionIds.map((id) => this.findTransaction(id, transactionGroup)).filter((t) => t !== undefined) as Transaction[],
+        );
+    }
+
+    public getTransactionEffectiveFee(transactionId: string): Observable<number> {
+        return this.getTransaction(transactionId, TransactionGroup.Confirmed).pipe(
+            mergeMap((transaction) => {
+                const height = transaction.transactionInfo!.height;
+                const block = this.store.blocks.get(height.toString());
+                return this.found(block && block.feeMultiplier * transaction.size, `Block ${height.toString()} not found`);
+            }),
+        );
+    }
+
+    public announce(signedTransaction: SignedTransaction): Observable<TransactionAnnounceResponse> {
+        this.store.announce(signedTransaction);
+        return observableOf(new TransactionAnnounceResponse('packet 9 was pushed to the network via /transactions'));
+    }
+
+    public announceAggregateBonded(signedTransaction: SignedTransaction): Observable<TransactionAnnounceResponse> {
+        this.store.announceAggregateBonded(signedTransaction);
+        return observableOf(new TransactionAnnounceResponse('packet 500 was pushed to the network via /transactions/partial'));
+    }
+
+    public announceAggregateBondedCosignature(
+        cosignatureSignedTransaction: CosignatureSignedTransaction,
+    ): Observable<TransactionAnnounceResponse> {
+        this.store.addCosignature(cosignatureSignedTransaction);
+        return observableOf(new TransactionAnnounceResponse('packet 501 was pushed to the network via /transactions/cosignature'));
+    }
+
+    public search(criteria: TransactionSearchCriteria): Observable<Page<Transaction>> {
+        const stored = this.store.transactions.get(criteria.group)!;
+        const transactions = (criteria.embedded ? ([] as Transaction[]).concat(...stored.map((t) => this.withEmbedded(t))) : stored).filter(
+            (transaction) =>
+                (!criteria.address || this.store.isNotified(criteria.address, transaction)) &&
+                (!criteria.recipientAddress || this.isRecipient(criteria.recipientAddress, transaction)) &&
+                (!criteria.signerPublicKey || transaction.signer?.publicKey.toUpperCase() === criteria.signerPublicKey.toUpperCase()) &&
+                (!criteria.height || (!!transaction.transactionInfo && criteria.height.equals(transaction.transactionInfo.height))) &&
+                (!criteria.type || !criteria.type.length || criteria.type.includes(transaction.type)),
+        );
+        return this.toPage(transactions, criteria);
+    }
+
+    /**
+     * @internal
+     * @param id the transaction id or hash
+     * @param group the transaction group
+     */
+    private findTransaction(id: string, group: TransactionGroup): Transaction | undefined {
+        return this.store.transactions
+            .get(group)!
+            .find(
+                (transaction) =>
+                    transaction.transactionInfo?.id === id || transaction.transactionInfo?.hash?.toUpperCase() === id.toUpperCase(),
+            );
+    }
+
+    /**
+     * @internal
+     */
+    private withEmbedded(transaction: Transaction): Transaction[] {
+        return transaction instanceof AggregateTransaction
+            ? [transaction as Transaction].concat(transaction.innerTransactions)
+            : [transaction];
+    }
+
+    /**
+     * @internal
+     */
+    private isRecipient(address: Address, transaction: Transaction): boolean {
+        const recipient = TransactionInMemory.getRecipient(transaction);
+        return !!recipient && address.equals(this.store.resolveAddress(recipient));
+    }
+
+    /**
+     * @internal
+     */
+    private static getRecipient(transaction: Transaction): UnresolvedAddress | undefined {
+        if (
+            transaction instanceof TransferTransaction ||
+            transaction instanceof SecretLockTransaction ||
+            transaction instanceof SecretProofTransaction
+        ) {
+            return transaction.recipientAddress;
+        }
+        return undefined;
+    }
+}
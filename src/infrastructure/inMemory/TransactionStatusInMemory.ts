@@ -0,0 +1,42 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Observable, of as observableOf } from 'rxjs';
+import { TransactionStatus } from '../../model/transaction/TransactionStatus';
+import { TransactionStatusRepository } from '../TransactionStatusRepository';
+import { InMemory } from './InMemory';
+import { InMemoryStore } from './InMemoryStore';
+
+/**
+ * Transaction status in memory repository.
+ */
+export class TransactionStatusInMemory extends InMemory implements TransactionStatusRepository {
+    constructor(store: InMemoryStore) {
+        super(store);
+    }
+
+    public getTransactionStatus(transactionHash: string): Observable<TransactionStatus> {
+        return this.found(this.store.transactionStatuses.get(transactionHash.toUpperCase()), `Transaction ${transactionHash} not found`);
+    }
+
+    public getTransactionStatuses(transactionHashes: string[]): Observable<TransactionStatus[]> {
+        return observableOf(
+            transactionHashes
+                .map((hash) => this.store.transactionStatuses.get(hash.toUpperCase()))
+                .filter((s) => s !== undefined) as TransactionStatus[],
+        );
+    }
+}
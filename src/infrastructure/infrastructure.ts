@@ -23,6 +23,8 @@ export * from './MetadataHttp';
 export * from './NamespaceHttp';
 export * from './TransactionHttp';
 export * from './Listener';
+export * from './ListenerConnectionState';
+export * from './ListenerReconnectConfig';
 export * from './QueryParams';
 export * from './NetworkHttp';
 export * from './NodeHttp';
@@ -31,6 +33,27 @@ export * from './RestrictionMosaicHttp';
 export * from './MultisigHttp';
 export * from './ReceiptHttp';
 export * from './RepositoryFactoryHttp';
+export * from './RepositoryFactoryMultiNode';
+export * from './RepositoryFactoryMultiNodeConfig';
+export * from './NodeRanking';
+export * from './inMemory/InMemory';
+export * from './inMemory/InMemoryStore';
+export * from './inMemory/AccountInMemory';
+export * from './inMemory/BlockInMemory';
+export * from './inMemory/ChainInMemory';
+export * from './inMemory/ListenerInMemory';
+export * from './inMemory/MetadataInMemory';
+export * from './inMemory/MosaicInMemory';
+export * from './inMemory/MultisigInMemory';
+export * from './inMemory/NamespaceInMemory';
+export * from './inMemory/NetworkInMemory';
+export * from './inMemory/NodeInMemory';
+export * from './inMemory/ReceiptInMemory';
+export * from './inMemory/RestrictionAccountInMemory';
+export * from './inMemory/RestrictionMosaicInMemory';
+export * from './inMemory/TransactionInMemory';
+export * from './inMemory/TransactionStatusInMemory';
+export * from './inMemory/RepositoryFactoryInMemory';
 export * from './transaction/NamespaceMosaicIdGenerator';
 export * from './AccountRepository';
 export * from './BlockRepository';
@@ -62,8 +85,13 @@ export * from './TransactionGroup';
 export * from './searchCriteria/BlockOrderBy';
 export * from './searchCriteria/Order';
 export * from './RepositoryCallError';
+export * from './RepositoryError';
 export * from './searchCriteria/AccountOrderBy';
 export * from './searchCriteria/AccountSearchCriteria';
 export * from './searchCriteria/NamespaceSearchCriteria';
 export * from './paginationStreamer/AccountPaginationStreamer';
 export * from './paginationStreamer/NamespacePaginationStreamer';
+export * from './searchCriteria/ReceiptSearchCriteria';
+export * from './paginationStreamer/ReceiptPaginationStreamer';
+export * from './searchCriteria/MetadataSearchCriteria';
+export * from './paginationStreamer/MetadataPaginationStreamer';
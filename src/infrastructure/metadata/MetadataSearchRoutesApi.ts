@@ -0,0 +1,44 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { MetadataDTO, MetadataTypeEnum } from 'symbol-openapi-typescript-fetch-client';
+import { SearchPage, SearchQuery, SearchRoutesApi } from '../SearchRoutesApi';
+
+/**
+ * @internal
+ * The query params of the metadata search.
+ */
+export interface MetadataSearchQuery extends SearchQuery {
+    sourceAddress?: string;
+    targetAddress?: string;
+    scopedMetadataKey?: string;
+    targetId?: string;
+    metadataType?: MetadataTypeEnum;
+}
+
+/**
+ * @internal
+ * The metadata search route of rest, not available in the generated open api client yet.
+ */
+export class MetadataSearchRoutesApi extends SearchRoutesApi {
+    /**
+     * Searches the metadata entries.
+     * @param query the query params
+     */
+    public searchMetadataEntries(query: MetadataSearchQuery): Promise<SearchPage<MetadataDTO>> {
+        return this.search('/metadata', query);
+    }
+}
@@ -0,0 +1,62 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Observable } from 'rxjs';
+import { ResolutionStatement } from '../../model/receipt/ResolutionStatement';
+import { TransactionStatement } from '../../model/receipt/TransactionStatement';
+import { Page } from '../Page';
+import { ReceiptRepository } from '../ReceiptRepository';
+import { ReceiptSearchCriteria } from '../searchCriteria/ReceiptSearchCriteria';
+import { PaginationStreamer } from './PaginationStreamer';
+
+/**
+ * A helper object that streams {@link TransactionStatement} and {@link ResolutionStatement} using the receipt searches.
+ */
+export class ReceiptPaginationStreamer {
+    /**
+     * Constructor
+     *
+     * @param repository the receipt repository that will perform the searches
+     */
+    constructor(private readonly repository: ReceiptRepository) {}
+
+    /**
+     * It creates a transaction statement streamer of ReceiptRepository.searchReceipts
+     */
+    public transactionStatements(): PaginationStreamer<TransactionStatement, ReceiptSearchCriteria> {
+        return new PaginationStreamer({
+            search: (criteria): Observable<Page<TransactionStatement>> => this.repository.searchReceipts(criteria),
+        });
+    }
+
+    /**
+     * It creates an address resolution statement streamer of ReceiptRepository.searchAddressResolutionStatements
+     */
+    public addressResolutionStatements(): PaginationStreamer<ResolutionStatement, ReceiptSearchCriteria> {
+        return new PaginationStreamer({
+            search: (criteria): Observable<Page<ResolutionStatement>> => this.repository.searchAddressResolutionStatements(criteria),
+        });
+    }
+
+    /**
+     * It creates a mosaic resolution statement streamer of ReceiptRepository.searchMosaicResolutionStatements
+     */
+    public mosaicResolutionStatements(): PaginationStreamer<ResolutionStatement, ReceiptSearchCriteria> {
+        return new PaginationStreamer({
+            search: (criteria): Observable<Page<ResolutionStatement>> => this.repository.searchMosaicResolutionStatements(criteria),
+        });
+    }
+}
@@ -60,7 +60,7 @@ const extractUnresolvedAddress = (unresolvedAddress: any): UnresolvedAddress =>
  * @returns {ResolutionStatement}
  * @constructor
  */
-const createResolutionStatement = (statementDTO, resolutionType: ResolutionType): ResolutionStatement => {
+export const CreateResolutionStatementFromDTO = (statementDTO, resolutionType: ResolutionType): ResolutionStatement => {
     switch (resolutionType) {
         case ResolutionType.Address:
             return new ResolutionStatement(
@@ -201,7 +201,7 @@ export const CreateReceiptFromDTO = (receiptDTO): Receipt => {
  * @returns {TransactionStatement}
  * @constructor
  */
-const createTransactionStatement = (statementDTO): TransactionStatement => {
+export const CreateTransactionStatementFromDTO = (statementDTO): TransactionStatement => {
     return new TransactionStatement(
         UInt64.fromNumericString(statementDTO.height),
         new ReceiptSource(statementDTO.source.primaryId, statementDTO.source.secondaryId),
@@ -220,8 +220,12 @@ const createTransactionStatement = (statementDTO): TransactionStatement => {
  */
 export const CreateStatementFromDTO = (receiptDTO): Statement => {
     return new Statement(
-        receiptDTO.transactionStatements.map((statement) => createTransactionStatement(statement.statement)),
-        receiptDTO.addressResolutionStatements.map((statement) => createResolutionStatement(statement.statement, ResolutionType.Address)),
-        receiptDTO.mosaicResolutionStatements.map((statement) => createResolutionStatement(statement.statement, ResolutionType.Mosaic)),
+        receiptDTO.transactionStatements.map((statement) => CreateTransactionStatementFromDTO(statement.statement)),
+        receiptDTO.addressResolutionStatements.map((statement) =>
+            CreateResolutionStatementFromDTO(statement.statement, ResolutionType.Address),
+        ),
+        receiptDTO.mosaicResolutionStatements.map((statement) =>
+            CreateResolutionStatementFromDTO(statement.statement, ResolutionType.Mosaic),
+        ),
     );
 };
@@ -0,0 +1,46 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { ResolutionType } from '../../model/receipt/ResolutionType';
+import { RepositoryError } from '../RepositoryError';
+import { ReceiptSearchCriteria } from '../searchCriteria/ReceiptSearchCriteria';
+
+/**
+ * Resolution statements are only filtered by height, the receipt criteria cannot be applied to them.
+ * @param criteria the receipt search criteria
+ * @param resolutionType the type of the searched resolution statements
+ * @returns the 409 error rest raises for an invalid argument when the criteria filters by receipt, undefined otherwise.
+ */
+export const ValidateResolutionStatementCriteria = (
+    criteria: ReceiptSearchCriteria,
+    resolutionType: ResolutionType,
+): RepositoryError | undefined => {
+    const hasReceiptCriteria =
+        !!criteria.receiptTypes ||
+        !!criteria.recipientAddress ||
+        !!criteria.senderAddress ||
+        !!criteria.targetAddress ||
+        !!criteria.artifactId;
+    if (!hasReceiptCriteria) {
+        return undefined;
+    }
+    const message = `${ResolutionType[resolutionType]} resolution statements can only be searched by height`;
+    return new RepositoryError({
+        statusCode: 409,
+        statusMessage: 'Conflict',
+        body: JSON.stringify({ code: 'InvalidArgument', message }),
+    });
+};
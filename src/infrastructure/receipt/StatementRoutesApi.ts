@@ -0,0 +1,70 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { ReceiptTypeEnum, ResolutionStatementDTO, TransactionStatementDTO } from 'symbol-openapi-typescript-fetch-client';
+import { SearchPage, SearchQuery, SearchRoutesApi } from '../SearchRoutesApi';
+
+/**
+ * @internal
+ * The height query params of the statement searches.
+ */
+export interface StatementSearchQuery extends SearchQuery {
+    height?: string;
+    fromHeight?: string;
+    toHeight?: string;
+}
+
+/**
+ * @internal
+ * The query params of the transaction statement search.
+ */
+export interface TransactionStatementSearchQuery extends StatementSearchQuery {
+    receiptType?: ReceiptTypeEnum[];
+    recipientAddress?: string;
+    senderAddress?: string;
+    targetAddress?: string;
+    artifactId?: string;
+}
+
+/**
+ * @internal
+ * The statement search routes of rest, not available in the generated open api client yet.
+ */
+export class StatementRoutesApi extends SearchRoutesApi {
+    /**
+     * Searches the transaction statements.
+     * @param query the query params
+     */
+    public searchReceipts(query: TransactionStatementSearchQuery): Promise<SearchPage<TransactionStatementDTO>> {
+        return this.search('/statements/transaction', query);
+    }
+
+    /**
+     * Searches the address resolution statements.
+     * @param query the query params
+     */
+    public searchAddressResolutionStatements(query: StatementSearchQuery): Promise<SearchPage<ResolutionStatementDTO>> {
+        return this.search('/statements/resolutions/address', query);
+    }
+
+    /**
+     * Searches the mosaic resolution statements.
+     * @param query the query params
+     */
+    public searchMosaicResolutionStatements(query: StatementSearchQuery): Promise<SearchPage<ResolutionStatementDTO>> {
+        return this.search('/statements/resolutions/mosaic', query);
+    }
+}
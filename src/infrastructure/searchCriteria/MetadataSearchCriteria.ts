@@ -0,0 +1,52 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Address } from '../../model/account/Address';
+import { MetadataType } from '../../model/metadata/MetadataType';
+import { MosaicId } from '../../model/mosaic/MosaicId';
+import { NamespaceId } from '../../model/namespace/NamespaceId';
+import { SearchCriteria } from './SearchCriteria';
+
+/**
+ * Defines the params used to search metadata. With this criteria, you can sort and filter
+ * metadata queries using rest.
+ */
+export interface MetadataSearchCriteria extends SearchCriteria {
+    /**
+     * Filter by the address of the account that announced the metadata.
+     */
+    sourceAddress?: Address;
+
+    /**
+     * Filter by the address of the account the metadata is attached to (or the owner of the mosaic/namespace).
+     */
+    targetAddress?: Address;
+
+    /**
+     * Filter by the metadata key in hex.
+     */
+    scopedMetadataKey?: string;
+
+    /**
+     * Filter by the mosaic or namespace the metadata is attached to.
+     */
+    targetId?: MosaicId | NamespaceId;
+
+    /**
+     * Filter by the metadata type.
+     */
+    metadataType?: MetadataType;
+}
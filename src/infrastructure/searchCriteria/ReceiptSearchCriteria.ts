@@ -0,0 +1,70 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Address } from '../../model/account/Address';
+import { MosaicId } from '../../model/mosaic/MosaicId';
+import { NamespaceId } from '../../model/namespace/NamespaceId';
+import { ReceiptType } from '../../model/receipt/ReceiptType';
+import { UInt64 } from '../../model/UInt64';
+import { SearchCriteria } from './SearchCriteria';
+
+/**
+ * Defines the params used to search receipts. With this criteria, you can sort and filter
+ * receipt queries using rest.
+ *
+ * Resolution statements are only filtered by height.
+ */
+export interface ReceiptSearchCriteria extends SearchCriteria {
+    /**
+     * Block height. (optional)
+     */
+    height?: UInt64;
+
+    /**
+     * From block height, inclusive. (optional)
+     */
+    fromHeight?: UInt64;
+
+    /**
+     * To block height, inclusive. (optional)
+     */
+    toHeight?: UInt64;
+
+    /**
+     * Receipt types. (optional)
+     */
+    receiptTypes?: ReceiptType[];
+
+    /**
+     * Recipient address of balance transfer receipts. (optional)
+     */
+    recipientAddress?: Address;
+
+    /**
+     * Sender address of balance transfer receipts. (optional)
+     */
+    senderAddress?: Address;
+
+    /**
+     * Target address of balance change receipts. (optional)
+     */
+    targetAddress?: Address;
+
+    /**
+     * Mosaic or namespace id of the receipts. (optional)
+     */
+    artifactId?: MosaicId | NamespaceId;
+}
@@ -17,10 +17,13 @@ import { Convert as convert } from '../../core/format';
 import { UnresolvedMapping } from '../../core/utils/UnresolvedMapping';
 import { Address } from '../../model/account/Address';
 import { PublicAccount } from '../../model/account/PublicAccount';
+import { EncryptedEnvelopeMessage } from '../../model/message/EncryptedEnvelopeMessage';
 import { EncryptedMessage } from '../../model/message/EncryptedMessage';
+import { Message } from '../../model/message/Message';
 import { MessageType } from '../../model/message/MessageType';
 import { PersistentHarvestingDelegationMessage } from '../../model/message/PersistentHarvestingDelegationMessage';
 import { EmptyMessage, PlainMessage } from '../../model/message/PlainMessage';
+import { TypedMessage } from '../../model/message/TypedMessage';
 import { Mosaic } from '../../model/mosaic/Mosaic';
 import { MosaicFlags } from '../../model/mosaic/MosaicFlags';
 import { MosaicId } from '../../model/mosaic/MosaicId';
@@ -106,8 +109,8 @@ export const extractMosaics = (mosaics: any): Mosaic[] => {
  * @param message - message payload
  * @return {PlainMessage}
  */
-const extractMessage = (message: any): PlainMessage | EncryptedMessage => {
-    let msgObj = EmptyMessage;
+const extractMessage = (message: any): Message => {
+    let msgObj: Message = EmptyMessage;
     if (message) {
         if (message.type === MessageType.PlainMessage) {
             msgObj = convert.isHexString(message.payload)
@@ -117,6 +120,10 @@ const extractMessage = (message: any): PlainMessage | EncryptedMessage => {
             msgObj = EncryptedMessage.createFromPayload(message.payload);
         } else if (message.type === MessageType.PersistentHarvestingDelegationMessage) {
             msgObj = PersistentHarvestingDelegationMessage.createFromPayload(message.payload);
+        } else if (message.type === MessageType.EncryptedEnvelopeMessage) {
+            msgObj = EncryptedEnvelopeMessage.createFromPayload(message.payload);
+        } else if (message.type === MessageType.TypedMessage) {
+            msgObj = TypedMessage.createFromPayload(message.payload);
         }
     }
     return msgObj;
@@ -176,6 +176,21 @@ export class UInt64 {
         return this.longToUint64(long_value.subtract(long_b));
     }
 
+    /**
+     * UInt64 multiply operation
+     * @param other
+     * @returns {UInt64}
+     */
+    public multiply(other: UInt64): UInt64 {
+        const long_value = Long.fromBits(this.lower, this.higher, true);
+        const long_b = Long.fromBits(other.lower, other.higher, true);
+        const result = long_value.multiply(long_b);
+        if (!long_value.isZero() && !result.divide(long_value).equals(long_b)) {
+            throw new Error('Unsigned multiplication result cannot exceed 64 bits.');
+        }
+        return this.longToUint64(result);
+    }
+
     /**
      * Convert long value to UInt64
      * @param longValue long value
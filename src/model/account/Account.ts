@@ -26,6 +26,7 @@ import { SignedTransaction } from '../transaction/SignedTransaction';
 import { Transaction } from '../transaction/Transaction';
 import { Address } from './Address';
 import { PublicAccount } from './PublicAccount';
+import { Signer } from './Signer';
 
 interface IKeyPair {
     privateKey: Uint8Array;
@@ -35,7 +36,7 @@ interface IKeyPair {
 /**
  * The account structure describes an account private key, public key, address and allows signing transactions.
  */
-export class Account {
+export class Account implements Signer {
     /**
      * @internal
      * @param address
@@ -132,14 +133,34 @@ export class Account {
         return this.address.networkType;
     }
 
+    /**
+     * Public account, as a {@link Signer}.
+     * @return {Promise<PublicAccount>}
+     */
+    public getPublicAccount(): Promise<PublicAccount> {
+        return Promise.resolve(this.publicAccount);
+    }
+
     /**
      * Sign a transaction
      * @param transaction - The transaction to be signed.
      * @param generationHash - Network generation hash hex
      * @return {SignedTransaction}
      */
-    public sign(transaction: Transaction, generationHash: string): SignedTransaction {
-        return transaction.signWith(this, generationHash);
+    public sign(transaction: Transaction, generationHash: string): SignedTransaction;
+
+    /**
+     * Sign raw bytes, as a {@link Signer}.
+     * @param data - The bytes to be signed.
+     * @return {Promise<Uint8Array>}
+     */
+    public sign(data: Uint8Array): Promise<Uint8Array>;
+
+    public sign(transactionOrData: Transaction | Uint8Array, generationHash?: string): SignedTransaction | Promise<Uint8Array> {
+        if (transactionOrData instanceof Uint8Array) {
+            return Promise.resolve(KeyPair.sign(this.keyPair, transactionOrData));
+        }
+        return transactionOrData.signWith(this, generationHash!);
     }
 
     /**
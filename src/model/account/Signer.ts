@@ -0,0 +1,36 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { PublicAccount } from './PublicAccount';
+
+/**
+ * Signs on behalf of an account without exposing its private key, like a hardware wallet, a key management service or
+ * a remote signer. {@link Account} is the implementation holding the private key.
+ */
+export interface Signer {
+    /**
+     * The public account of the signer.
+     * @returns {Promise<PublicAccount>}
+     */
+    getPublicAccount(): Promise<PublicAccount>;
+
+    /**
+     * Signs the data with the signer's key.
+     * @param data - the data to sign, like the signing bytes of a transaction or the hash of an aggregate to cosign
+     * @returns {Promise<Uint8Array>} the 64 bytes ed25519 signature
+     */
+    sign(data: Uint8Array): Promise<Uint8Array>;
+}
@@ -0,0 +1,33 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { MessageCodec } from './MessageCodec';
+
+/**
+ * Codec of raw bytes. Use {@link Convert.hexToUint8} and {@link Convert.uint8ToHex} to work with hex strings.
+ */
+export class BinaryMessageCodec implements MessageCodec<Uint8Array> {
+    public readonly id = 0x02;
+    public readonly name = 'binary';
+
+    public encode(value: Uint8Array): Uint8Array {
+        return new Uint8Array(value);
+    }
+
+    public decode(data: Uint8Array): Uint8Array {
+        return new Uint8Array(data);
+    }
+}
@@ -0,0 +1,191 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { GeneratorUtils } from 'catbuffer-typescript';
+import { Crypto } from '../../core/crypto';
+import { KeyPair } from '../../core/crypto/KeyPair';
+import { Convert } from '../../core/format/Convert';
+import { PublicAccount } from '../account/PublicAccount';
+import { Message } from './Message';
+import { MessageCodecRegistry } from './MessageCodecRegistry';
+import { MessageType } from './MessageType';
+import { PlainMessage } from './PlainMessage';
+
+/**
+ * Encrypted message readable by several recipients.
+ *
+ * The content is encrypted with AES-256-GCM using a random content key. The content key is encrypted for each
+ * recipient with the key shared by the sender and the recipient, so the sender can also read the message.
+ *
+ * Payload layout: version (1 byte), binary flag (1 byte), recipient count (1 byte), one entry per recipient with its
+ * public key (32 bytes) and the encrypted content key (60 bytes), and finally the encrypted content.
+ */
+export class EncryptedEnvelopeMessage extends Message {
+    /**
+     * The version of the envelope layout.
+     */
+    public static readonly VERSION = 1;
+
+    /**
+     * The maximum number of recipients of an envelope.
+     */
+    public static readonly MAX_RECIPIENTS = 255;
+
+    private static readonly HEADER_SIZE = 3;
+    private static readonly KEY_SIZE = 32;
+    private static readonly RECIPIENT_SIZE = EncryptedEnvelopeMessage.KEY_SIZE * 2 + Crypto.GCM_IV_SIZE + Crypto.GCM_TAG_SIZE;
+
+    /**
+     * @param payload - the envelope as an hex string
+     */
+    constructor(payload: string) {
+        super(MessageType.EncryptedEnvelopeMessage, payload);
+        if (!Convert.isHexString(payload)) {
+            throw Error('Payload format is not valid hexadecimal string');
+        }
+    }
+
+    /**
+     * Encrypts a message for several recipients. It throws when the envelope exceeds the maximum message size.
+     * @param content - the text or the binary content
+     * @param recipientPublicAccounts - the accounts allowed to read the message, the sender can always read it
+     * @param senderPrivateKey - the sender private key
+     * @return {EncryptedEnvelopeMessage}
+     */
+    public static create(
+        content: string | Uint8Array,
+        recipientPublicAccounts: PublicAccount[],
+        senderPrivateKey: string,
+    ): EncryptedEnvelopeMessage {
+        if (!recipientPublicAccounts.length || recipientPublicAccounts.length > EncryptedEnvelopeMessage.MAX_RECIPIENTS) {
+            throw new Error(`An envelope needs between 1 and ${EncryptedEnvelopeMessage.MAX_RECIPIENTS} recipients`);
+        }
+        const binary = typeof content !== 'string';
+        const contentKey = new Uint8Array(Crypto.randomBytes(EncryptedEnvelopeMessage.KEY_SIZE));
+        const header = GeneratorUtils.concatTypedArrays(
+            GeneratorUtils.uintToBuffer(EncryptedEnvelopeMessage.VERSION, 1),
+            GeneratorUtils.concatTypedArrays(
+                GeneratorUtils.uintToBuffer(binary ? 1 : 0, 1),
+                GeneratorUtils.uintToBuffer(recipientPublicAccounts.length, 1),
+            ),
+        );
+        const envelope = recipientPublicAccounts.reduce((buffer, recipient) => {
+            const publicKey = Convert.hexToUint8(recipient.publicKey);
+            const sharedKey = Crypto.deriveSharedKey(senderPrivateKey, recipient.publicKey);
+            const encryptedKey = Crypto.encryptGcm(sharedKey, contentKey, publicKey);
+            return GeneratorUtils.concatTypedArrays(buffer, GeneratorUtils.concatTypedArrays(publicKey, encryptedKey));
+        }, header);
+        const data = typeof content === 'string' ? Convert.hexToUint8(Convert.utf8ToHex(content)) : content;
+        const encryptedContent = Crypto.encryptGcm(contentKey, data, envelope);
+        const payload = GeneratorUtils.concatTypedArrays(envelope, encryptedContent);
+        const maxMessageSize = MessageCodecRegistry.DEFAULT_MAX_MESSAGE_SIZE;
+        if (payload.length > maxMessageSize) {
+            throw new Error(`Message of ${payload.length} bytes exceeds the maximum message size of ${maxMessageSize} bytes`);
+        }
+        return new EncryptedEnvelopeMessage(Convert.uint8ToHex(payload));
+    }
+
+    /**
+     * Create EncryptedEnvelopeMessage from DTO payload
+     * @param payload
+     */
+    public static createFromPayload(payload: string): EncryptedEnvelopeMessage {
+        return new EncryptedEnvelopeMessage(payload.toUpperCase());
+    }
+
+    /**
+     * Decrypts the text content of the message.
+     * @param encryptMessage - the envelope message
+     * @param privateKey - the private key of a recipient or the sender
+     * @param senderPublicAccount - the sender public account
+     * @return {PlainMessage}
+     */
+    public static decrypt(encryptMessage: EncryptedEnvelopeMessage, privateKey: string, senderPublicAccount: PublicAccount): PlainMessage {
+        if (encryptMessage.isBinary()) {
+            throw new Error('The message content is binary, use decryptBytes instead');
+        }
+        return new PlainMessage(Convert.uint8ToUtf8(this.decryptBytes(encryptMessage, privateKey, senderPublicAccount)));
+    }
+
+    /**
+     * Decrypts the content of the message as bytes.
+     * @param encryptMessage - the envelope message
+     * @param privateKey - the private key of a recipient or the sender
+     * @param senderPublicAccount - the sender public account
+     * @return {Uint8Array}
+     */
+    public static decryptBytes(
+        encryptMessage: EncryptedEnvelopeMessage,
+        privateKey: string,
+        senderPublicAccount: PublicAccount,
+    ): Uint8Array {
+        const payload = encryptMessage.getBuffer();
+        const publicKey = Convert.uint8ToHex(KeyPair.createKeyPairFromPrivateKeyString(privateKey).publicKey);
+        const recipientPublicKeys = encryptMessage.getRecipientPublicKeys();
+        const isSender = publicKey === senderPublicAccount.publicKey.toUpperCase();
+        const index = isSender ? 0 : recipientPublicKeys.indexOf(publicKey);
+        if (index < 0) {
+            throw new Error('The account is not a recipient of the message');
+        }
+        const sharedKey = Crypto.deriveSharedKey(privateKey, isSender ? recipientPublicKeys[0] : senderPublicAccount.publicKey);
+        const start = EncryptedEnvelopeMessage.HEADER_SIZE + index * EncryptedEnvelopeMessage.RECIPIENT_SIZE;
+        const recipient = payload.slice(start, start + EncryptedEnvelopeMessage.RECIPIENT_SIZE);
+        const contentKey = Crypto.decryptGcm(
+            sharedKey,
+            recipient.slice(EncryptedEnvelopeMessage.KEY_SIZE),
+            recipient.slice(0, EncryptedEnvelopeMessage.KEY_SIZE),
+        );
+        const contentStart = EncryptedEnvelopeMessage.HEADER_SIZE + recipientPublicKeys.length * EncryptedEnvelopeMessage.RECIPIENT_SIZE;
+        return Crypto.decryptGcm(contentKey, payload.slice(contentStart), payload.slice(0, contentStart));
+    }
+
+    /**
+     * The public keys of the recipients able to read the message.
+     * @return {string[]}
+     */
+    public getRecipientPublicKeys(): string[] {
+        const payload = this.getBuffer();
+        const count = payload[2];
+        return Array.from({ length: count }, (_, index) => {
+            const start = EncryptedEnvelopeMessage.HEADER_SIZE + index * EncryptedEnvelopeMessage.RECIPIENT_SIZE;
+            return Convert.uint8ToHex(payload.slice(start, start + EncryptedEnvelopeMessage.KEY_SIZE));
+        });
+    }
+
+    /**
+     * Checks if the content is binary instead of text.
+     * @return {boolean}
+     */
+    public isBinary(): boolean {
+        return this.getBuffer()[1] === 1;
+    }
+
+    /**
+     * @internal
+     * The payload bytes, it throws when the layout is not valid.
+     */
+    private getBuffer(): Uint8Array {
+        const payload = Convert.hexToUint8(this.payload);
+        if (payload.length < EncryptedEnvelopeMessage.HEADER_SIZE || payload[0] !== EncryptedEnvelopeMessage.VERSION) {
+            throw new Error('Invalid envelope message payload');
+        }
+        const contentStart = EncryptedEnvelopeMessage.HEADER_SIZE + payload[2] * EncryptedEnvelopeMessage.RECIPIENT_SIZE;
+        if (payload.length < contentStart + Crypto.GCM_IV_SIZE + Crypto.GCM_TAG_SIZE) {
+            throw new Error('Invalid envelope message payload');
+        }
+        return payload;
+    }
+}
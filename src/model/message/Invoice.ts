@@ -0,0 +1,29 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { UInt64 } from '../UInt64';
+
+/**
+ * A payment request carried by the message of a transfer.
+ */
+export class Invoice {
+    /**
+     * @param amount - the absolute amount requested.
+     * @param reference - the payment reference, for example the order number.
+     * @param dueDate - the date the invoice must be paid before, with seconds precision.
+     */
+    constructor(public readonly amount: UInt64, public readonly reference: string, public readonly dueDate: Date) {}
+}
@@ -0,0 +1,55 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { GeneratorUtils } from 'catbuffer-typescript';
+import { Convert } from '../../core/format/Convert';
+import { UInt64 } from '../UInt64';
+import { Invoice } from './Invoice';
+import { MessageCodec } from './MessageCodec';
+
+/**
+ * Compact codec of invoices: the amount (8 bytes), the due date in seconds since the epoch (4 bytes) and the
+ * UTF-8 reference.
+ */
+export class InvoiceMessageCodec implements MessageCodec<Invoice> {
+    public readonly id = 0x03;
+    public readonly name = 'invoice';
+
+    private static readonly HEADER_SIZE = 12;
+
+    public encode(value: Invoice): Uint8Array {
+        const seconds = Math.floor(value.dueDate.getTime() / 1000);
+        if (seconds < 0 || seconds > 0xffffffff) {
+            throw new Error(`Invoice due date out of range: ${value.dueDate.toISOString()}`);
+        }
+        const header = GeneratorUtils.concatTypedArrays(
+            GeneratorUtils.uint64ToBuffer(value.amount.toDTO()),
+            GeneratorUtils.uintToBuffer(seconds, 4),
+        );
+        return GeneratorUtils.concatTypedArrays(header, Convert.hexToUint8(Convert.utf8ToHex(value.reference)));
+    }
+
+    public decode(data: Uint8Array): Invoice {
+        if (data.length < InvoiceMessageCodec.HEADER_SIZE) {
+            throw new Error('Invalid invoice size');
+        }
+        return new Invoice(
+            new UInt64(GeneratorUtils.bufferToUint64(data.slice(0, 8))),
+            Convert.uint8ToUtf8(data.slice(InvoiceMessageCodec.HEADER_SIZE)),
+            new Date(GeneratorUtils.readUint32At(data, 8) * 1000),
+        );
+    }
+}
@@ -0,0 +1,34 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Convert } from '../../core/format/Convert';
+import { MessageCodec } from './MessageCodec';
+
+/**
+ * Codec of JSON values, serialized as UTF-8 text.
+ */
+export class JsonMessageCodec implements MessageCodec<unknown> {
+    public readonly id = 0x01;
+    public readonly name = 'json';
+
+    public encode(value: unknown): Uint8Array {
+        return Convert.hexToUint8(Convert.utf8ToHex(JSON.stringify(value)));
+    }
+
+    public decode(data: Uint8Array): unknown {
+        return JSON.parse(Convert.uint8ToUtf8(data));
+    }
+}
@@ -0,0 +1,44 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Serializes the values of one type into the bytes of a {@link TypedMessage}.
+ */
+export interface MessageCodec<T> {
+    /**
+     * The codec id, between 0 and 255, written in the first byte of the message payload.
+     */
+    readonly id: number;
+
+    /**
+     * The codec name.
+     */
+    readonly name: string;
+
+    /**
+     * Encodes a value.
+     * @param value - the value
+     * @return {Uint8Array}
+     */
+    encode(value: T): Uint8Array;
+
+    /**
+     * Decodes a value, it throws when the bytes are not valid.
+     * @param data - the encoded value
+     * @return {T}
+     */
+    decode(data: Uint8Array): T;
+}
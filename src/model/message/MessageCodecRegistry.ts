@@ -0,0 +1,137 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { NetworkPropertyParser } from '../../core/utils/NetworkPropertyParser';
+import { TransferNetworkProperties } from '../network/TransferNetworkProperties';
+import { BinaryMessageCodec } from './BinaryMessageCodec';
+import { InvoiceMessageCodec } from './InvoiceMessageCodec';
+import { JsonMessageCodec } from './JsonMessageCodec';
+import { Message } from './Message';
+import { MessageCodec } from './MessageCodec';
+import { TypedMessage } from './TypedMessage';
+
+/**
+ * Registry of the codecs used to encode and decode typed transfer messages.
+ *
+ * The JSON, binary and invoice codecs are registered by default.
+ */
+export class MessageCodecRegistry {
+    /**
+     * The maximum size of a message payload when the network doesn't define it. The network limit (1024 bytes)
+     * includes the message type byte.
+     */
+    public static readonly DEFAULT_MAX_MESSAGE_SIZE = 1023;
+
+    /**
+     * The maximum size of the encoded message payload, codec id included.
+     */
+    public readonly maxMessageSize: number;
+
+    private readonly codecs = new Map<number, MessageCodec<unknown>>();
+
+    /**
+     * Constructor
+     * @param transferProperties - the transfer plugin properties of the network, used to know the message size limit
+     */
+    constructor(transferProperties?: TransferNetworkProperties) {
+        const maxMessageSize = transferProperties?.maxMessageSize;
+        this.maxMessageSize = maxMessageSize
+            ? NetworkPropertyParser.toNumber(maxMessageSize) - 1
+            : MessageCodecRegistry.DEFAULT_MAX_MESSAGE_SIZE;
+        [new JsonMessageCodec(), new BinaryMessageCodec(), new InvoiceMessageCodec()].forEach((codec) => this.register(codec));
+    }
+
+    /**
+     * Registers a codec.
+     * @param codec - the codec, its id must not be used by a codec with another name
+     * @returns {MessageCodecRegistry}
+     */
+    public register(codec: MessageCodec<unknown>): MessageCodecRegistry {
+        if (!Number.isInteger(codec.id) || codec.id < 0 || codec.id > 0xff) {
+            throw new Error(`Invalid codec id ${codec.id}`);
+        }
+        const registered = this.codecs.get(codec.id);
+        if (registered && registered.name !== codec.name) {
+            throw new Error(`Codec id ${codec.id} is already used by codec ${registered.name}`);
+        }
+        this.codecs.set(codec.id, codec);
+        return this;
+    }
+
+    /**
+     * Gets a registered codec.
+     * @param id - the codec id
+     * @returns {MessageCodec<unknown> | undefined}
+     */
+    public getCodec(id: number): MessageCodec<unknown> | undefined {
+        return this.codecs.get(id);
+    }
+
+    /**
+     * Encodes a value into a message. It throws when the message exceeds the network message size.
+     * @param codec - a registered codec
+     * @param value - the value
+     * @returns {TypedMessage}
+     */
+    public encode<T>(codec: MessageCodec<T>, value: T): TypedMessage {
+        this.checkRegistered(codec);
+        const data = codec.encode(value);
+        const size = data.length + 1;
+        if (size > this.maxMessageSize) {
+            throw new Error(`Message of ${size} bytes exceeds the maximum message size of ${this.maxMessageSize} bytes`);
+        }
+        return TypedMessage.create(codec.id, data);
+    }
+
+    /**
+     * Checks if the message has been encoded with a registered codec.
+     * @param message - the message, for example the message of a transfer transaction
+     * @returns {boolean}
+     */
+    public canDecode(message: Message): boolean {
+        return message instanceof TypedMessage && message.codecId !== undefined && this.codecs.has(message.codecId);
+    }
+
+    /**
+     * Decodes the value of a message.
+     * @param message - the message, for example the message of a transfer transaction
+     * @param codec - the expected codec (optional), it throws when the message was encoded with another codec
+     * @returns {T}
+     */
+    public decode<T = unknown>(message: Message, codec?: MessageCodec<T>): T {
+        if (!(message instanceof TypedMessage)) {
+            throw new Error(`Message of type ${message.type} is not a typed message`);
+        }
+        const messageCodec = message.codecId !== undefined ? this.codecs.get(message.codecId) : undefined;
+        if (!messageCodec) {
+            throw new Error(message.codecId === undefined ? 'Message has no codec id' : `Unknown codec id ${message.codecId}`);
+        }
+        if (codec && codec.id !== messageCodec.id) {
+            throw new Error(`Message encoded with codec ${messageCodec.name} instead of ${codec.name}`);
+        }
+        return messageCodec.decode(message.getData()) as T;
+    }
+
+    /**
+     * @internal
+     */
+    private checkRegistered(codec: MessageCodec<unknown>): void {
+        const registered = this.codecs.get(codec.id);
+        if (!registered || registered.name !== codec.name) {
+            throw new Error(`Codec ${codec.name} is not registered`);
+        }
+    }
+}
@@ -0,0 +1,62 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Convert } from '../../core/format/Convert';
+import { EncryptedEnvelopeMessage } from './EncryptedEnvelopeMessage';
+import { EncryptedMessage } from './EncryptedMessage';
+import { Message } from './Message';
+import { MessageType } from './MessageType';
+import { PersistentHarvestingDelegationMessage } from './PersistentHarvestingDelegationMessage';
+import { EmptyMessage, PlainMessage } from './PlainMessage';
+import { TypedMessage } from './TypedMessage';
+
+/**
+ * Creates the right message object from a serialized message.
+ */
+export class MessageFactory {
+    /**
+     * Creates a message from the serialized bytes of a transaction message, the first byte being the message type.
+     * @param buffer - the message bytes
+     * @return {Message}
+     */
+    public static createMessageFromBuffer(buffer: Uint8Array): Message {
+        if (!buffer.length) {
+            return EmptyMessage;
+        }
+        return MessageFactory.createMessageFromPayload(buffer[0], Convert.uint8ToHex(buffer).substring(2));
+    }
+
+    /**
+     * Creates a message from its type and its hex payload. Unknown types are considered encrypted messages.
+     * @param type - the message type
+     * @param payload - the message payload as an hex string, without the type
+     * @return {Message}
+     */
+    public static createMessageFromPayload(type: number, payload: string): Message {
+        switch (type) {
+            case MessageType.PlainMessage:
+                return PlainMessage.createFromPayload(payload);
+            case MessageType.PersistentHarvestingDelegationMessage:
+                return PersistentHarvestingDelegationMessage.createFromPayload(payload);
+            case MessageType.EncryptedEnvelopeMessage:
+                return EncryptedEnvelopeMessage.createFromPayload(payload);
+            case MessageType.TypedMessage:
+                return TypedMessage.createFromPayload(payload);
+            default:
+                return EncryptedMessage.createFromPayload(payload);
+        }
+    }
+}
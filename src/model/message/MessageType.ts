@@ -18,10 +18,14 @@
  * The Message type. Supported supply types are:
  * 0: PlainMessage
  * 1: EncryptedMessage.
+ * 2: EncryptedEnvelopeMessage.
+ * 3: TypedMessage.
  * 254: Persistent harvesting delegation.
  */
 export enum MessageType {
     PlainMessage = 0x00,
     EncryptedMessage = 0x01,
+    EncryptedEnvelopeMessage = 0x02,
+    TypedMessage = 0x03,
     PersistentHarvestingDelegationMessage = 0xfe,
 }
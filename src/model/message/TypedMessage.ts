@@ -0,0 +1,71 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Convert } from '../../core/format/Convert';
+import { Message } from './Message';
+import { MessageType } from './MessageType';
+
+/**
+ * Message holding a value serialized by a {@link MessageCodec}.
+ *
+ * The first byte of the payload is the id of the codec, the rest is the encoded value. A message coming from the chain
+ * may have no codec id at all, it's a valid message with an empty payload.
+ */
+export class TypedMessage extends Message {
+    /**
+     * @param payload - the codec id and the encoded value as an hex string
+     */
+    constructor(payload: string) {
+        super(MessageType.TypedMessage, payload);
+        if (!Convert.isHexString(payload)) {
+            throw Error('Payload format is not valid hexadecimal string');
+        }
+    }
+
+    /**
+     * Creates a typed message from the codec id and the encoded value.
+     * @param codecId - the codec id
+     * @param data - the encoded value
+     * @return {TypedMessage}
+     */
+    public static create(codecId: number, data: Uint8Array): TypedMessage {
+        return new TypedMessage(codecId.toString(16).padStart(2, '0').toUpperCase() + Convert.uint8ToHex(data));
+    }
+
+    /**
+     * Create TypedMessage from DTO payload
+     * @param payload
+     */
+    public static createFromPayload(payload: string): TypedMessage {
+        return new TypedMessage(payload.toUpperCase());
+    }
+
+    /**
+     * The id of the codec that encoded the value, undefined when the payload is empty.
+     * @return {number | undefined}
+     */
+    public get codecId(): number | undefined {
+        return this.payload.length ? parseInt(this.payload.substring(0, 2), 16) : undefined;
+    }
+
+    /**
+     * The encoded value.
+     * @return {Uint8Array}
+     */
+    public getData(): Uint8Array {
+        return Convert.hexToUint8(this.payload.substring(2));
+    }
+}
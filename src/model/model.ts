@@ -26,6 +26,7 @@ export * from './account/Address';
 export * from './account/MultisigAccountGraphInfo';
 export * from './account/MultisigAccountInfo';
 export * from './account/PublicAccount';
+export * from './account/Signer';
 export * from './account/AccountNames';
 export * from './account/AccountInfoResolvedMosaic';
 export * from './account/AccountKeyTypeFlags';
@@ -109,6 +110,13 @@ export * from './node/NodeTime';
 export * from './node/RoleType';
 export * from './node/NodeHealth';
 
+// QR
+export * from './qr/IExportTransactionDTO';
+export * from './qr/IPaymentRequestDTO';
+export * from './qr/PaymentRequest';
+export * from './qr/QRCode';
+export * from './qr/QRCodeType';
+
 // Receipt
 export * from './receipt/ArtifactExpiryReceipt';
 export * from './receipt/BalanceChangeReceipt';
@@ -140,11 +148,20 @@ export * from './restriction/MosaicRestrictionEntryType';
 
 // Message
 export * from './message/PersistentHarvestingDelegationMessage';
+export * from './message/BinaryMessageCodec';
+export * from './message/EncryptedEnvelopeMessage';
 export * from './message/EncryptedMessage';
 export * from './message/Message';
 export * from './message/PlainMessage';
+export * from './message/Invoice';
+export * from './message/InvoiceMessageCodec';
+export * from './message/JsonMessageCodec';
+export * from './message/MessageCodec';
+export * from './message/MessageCodecRegistry';
+export * from './message/MessageFactory';
 export * from './message/MessageMarker';
 export * from './message/MessageType';
+export * from './message/TypedMessage';
 
 // Transaction
 export * from './transaction/AccountKeyLinkTransaction';
@@ -183,6 +200,10 @@ export * from './transaction/TransactionAnnounceResponse';
 export * from './transaction/TransactionInfo';
 export * from './transaction/TransactionStatus';
 export * from './transaction/TransactionStatusError';
+export * from './transaction/TransactionStatusCatalog';
+export * from './transaction/TransactionStatusDescription';
+export * from './transaction/TransactionStatusGroup';
+export * from './transaction/TransactionFailedError';
 export * from './transaction/TransactionType';
 export * from './transaction/TransferTransaction';
 export * from './transaction/AccountMetadataTransaction';
@@ -195,7 +216,11 @@ export * from './transaction/VrfKeyLinkTransaction';
 export * from './transaction/NodeKeyLinkTransaction';
 
 // Wallet
+export * from './wallet/DerivationPath';
+export * from './wallet/HdWallet';
+export * from './wallet/IHdWalletDTO';
 export * from './wallet/ISimpleWalletDTO';
+export * from './wallet/MnemonicPassPhrase';
 export * from './wallet/Password';
 export * from './wallet/SimpleWallet';
 export * from './wallet/Wallet';
@@ -0,0 +1,206 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Address } from '../account/Address';
+import { UnresolvedAddress } from '../account/UnresolvedAddress';
+import { MessageType } from '../message/MessageType';
+import { PlainMessage } from '../message/PlainMessage';
+import { Mosaic } from '../mosaic/Mosaic';
+import { MosaicId } from '../mosaic/MosaicId';
+import { UnresolvedMosaicId } from '../mosaic/UnresolvedMosaicId';
+import { NamespaceId } from '../namespace/NamespaceId';
+import { NetworkType } from '../network/NetworkType';
+import { Deadline } from '../transaction/Deadline';
+import { TransferTransaction } from '../transaction/TransferTransaction';
+import { UInt64 } from '../UInt64';
+import { IPaymentRequestDTO } from './IPaymentRequestDTO';
+
+/**
+ * A "pay me" request: who to pay, which mosaics and the message to attach.
+ *
+ * It can be shared as a payment URI, `symbol:<recipient>?network=<type>&generationHash=<hash>&mosaic=<id>:<amount>&message=<text>`,
+ * or inside a {@link QRCode}. Namespace aliases are written as `@<name>`, or `@0x<id>` when the name is unknown.
+ */
+export class PaymentRequest {
+    /**
+     * The scheme of the payment URIs.
+     */
+    public static readonly URI_SCHEME = 'symbol';
+
+    /**
+     * @param recipient - the address or the namespace alias to pay.
+     * @param mosaics - the requested mosaics with absolute amounts.
+     * @param message - the plain message to attach to the transfer.
+     * @param networkType - the network type.
+     * @param generationHash - the generation hash of the network.
+     */
+    constructor(
+        public readonly recipient: UnresolvedAddress,
+        public readonly mosaics: Mosaic[],
+        public readonly message: string,
+        public readonly networkType: NetworkType,
+        public readonly generationHash: string,
+    ) {
+        if (recipient instanceof Address && recipient.networkType !== networkType) {
+            throw new Error(`Recipient ${recipient.plain()} doesn't belong to network ${networkType}`);
+        }
+    }
+
+    /**
+     * Creates a payment request with the recipient, the mosaics and the plain message of a transfer.
+     * @param transaction - the transfer transaction
+     * @param generationHash - the generation hash of the network
+     * @returns {PaymentRequest}
+     */
+    public static createFromTransaction(transaction: TransferTransaction, generationHash: string): PaymentRequest {
+        if (transaction.message.type !== MessageType.PlainMessage) {
+            throw new Error('Only transfers with plain messages can be shared as payment requests');
+        }
+        return new PaymentRequest(
+            transaction.recipientAddress,
+            transaction.mosaics,
+            transaction.message.payload,
+            transaction.networkType,
+            generationHash,
+        );
+    }
+
+    /**
+     * Parses a payment URI.
+     * @param uri - the payment URI
+     * @returns {PaymentRequest}
+     */
+    public static createFromURI(uri: string): PaymentRequest {
+        const prefix = PaymentRequest.URI_SCHEME + ':';
+        if (!uri.startsWith(prefix)) {
+            throw new Error(`Payment URI must start with ${prefix}`);
+        }
+        const queryIndex = uri.indexOf('?');
+        const recipient = decodeURIComponent(uri.substring(prefix.length, queryIndex < 0 ? undefined : queryIndex));
+        const params = new URLSearchParams(queryIndex < 0 ? '' : uri.substring(queryIndex + 1));
+        const network = params.get('network');
+        const generationHash = params.get('generationHash');
+        if (!recipient || !network || !generationHash) {
+            throw new Error('Payment URI must define the recipient, the network and the generation hash');
+        }
+        const networkType = Number(network);
+        if (!Object.values(NetworkType).includes(networkType)) {
+            throw new Error(`Unsupported network ${network}`);
+        }
+        return PaymentRequest.createFromDTO(
+            {
+                recipient,
+                mosaics: params.getAll('mosaic').map((mosaic) => {
+                    const [id, amount] = mosaic.split(':');
+                    return { id, amount };
+                }),
+                message: params.get('message') || '',
+            },
+            networkType,
+            generationHash,
+        );
+    }
+
+    /**
+     * @internal
+     * Creates the payment request from the data of a payment URI or QR code.
+     */
+    public static createFromDTO(dto: IPaymentRequestDTO, networkType: NetworkType, generationHash: string): PaymentRequest {
+        if (!dto || typeof dto.recipient !== 'string' || !Array.isArray(dto.mosaics) || typeof dto.message !== 'string') {
+            throw new Error('Invalid payment request');
+        }
+        return new PaymentRequest(
+            PaymentRequest.parseUnresolved(dto.recipient, (recipient) => Address.createFromRawAddress(recipient)),
+            dto.mosaics.map((mosaic) => {
+                if (!mosaic?.id || typeof mosaic.id !== 'string' || typeof mosaic.amount !== 'string' || !/^\d+$/.test(mosaic.amount)) {
+                    throw new Error(`Invalid payment request mosaic ${mosaic?.id}:${mosaic?.amount}`);
+                }
+                return new Mosaic(
+                    PaymentRequest.parseUnresolved(mosaic.id, (id) => new MosaicId(id)),
+                    UInt64.fromNumericString(mosaic.amount),
+                );
+            }),
+            dto.message,
+            networkType,
+            generationHash,
+        );
+    }
+
+    /**
+     * Creates the unsigned transfer transaction paying the request.
+     * @param deadline - the transaction deadline
+     * @param maxFee - the max fee (optional)
+     * @returns {TransferTransaction}
+     */
+    public toTransaction(deadline: Deadline = Deadline.create(), maxFee?: UInt64): TransferTransaction {
+        return TransferTransaction.create(
+            deadline,
+            this.recipient,
+            this.mosaics,
+            PlainMessage.create(this.message),
+            this.networkType,
+            maxFee,
+        );
+    }
+
+    /**
+     * Creates the payment URI.
+     * @returns {string}
+     */
+    public toURI(): string {
+        const params = new URLSearchParams();
+        params.append('network', this.networkType.toString());
+        params.append('generationHash', this.generationHash);
+        this.toDTO().mosaics.forEach((mosaic) => params.append('mosaic', `${mosaic.id}:${mosaic.amount}`));
+        if (this.message) {
+            params.append('message', this.message);
+        }
+        return `${PaymentRequest.URI_SCHEME}:${encodeURIComponent(PaymentRequest.formatUnresolved(this.recipient))}?${params.toString()}`;
+    }
+
+    /**
+     * @internal
+     * The data of a payment URI or QR code.
+     */
+    public toDTO(): IPaymentRequestDTO {
+        return {
+            recipient: PaymentRequest.formatUnresolved(this.recipient),
+            mosaics: this.mosaics.map((mosaic) => ({ id: PaymentRequest.formatUnresolved(mosaic.id), amount: mosaic.amount.toString() })),
+            message: this.message,
+        };
+    }
+
+    /**
+     * @internal
+     */
+    private static formatUnresolved(id: UnresolvedAddress | UnresolvedMosaicId): string {
+        if (id instanceof NamespaceId) {
+            return '@' + (id.fullName || '0x' + id.toHex());
+        }
+        return id instanceof Address ? id.plain() : id.toHex();
+    }
+
+    /**
+     * @internal
+     */
+    private static parseUnresolved<T>(value: string, parse: (value: string) => T): T | NamespaceId {
+        if (!value.startsWith('@')) {
+            return parse(value);
+        }
+        const name = value.substring(1);
+        return /^0x[0-9a-fA-F]{16}$/.test(name) ? NamespaceId.createFromEncoded(name.substring(2)) : new NamespaceId(name);
+    }
+}
@@ -0,0 +1,174 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { TransactionMapping } from '../../core/utils/TransactionMapping';
+import { NetworkType } from '../network/NetworkType';
+import { Transaction } from '../transaction/Transaction';
+import { ISimpleWalletDTO } from '../wallet/ISimpleWalletDTO';
+import { SimpleWallet } from '../wallet/SimpleWallet';
+import { IExportTransactionDTO } from './IExportTransactionDTO';
+import { IPaymentRequestDTO } from './IPaymentRequestDTO';
+import { PaymentRequest } from './PaymentRequest';
+import { QRCodeType } from './QRCodeType';
+
+/**
+ * The JSON content of the QR codes shared between wallets.
+ *
+ * Format: `{"v": 1, "type": <QRCodeType>, "network_id": <NetworkType>, "chain_id": <generation hash>, "data": {...}}`
+ */
+export class QRCode {
+    /**
+     * The version of the QR code format.
+     */
+    public static readonly VERSION = 1;
+
+    /**
+     * @param type - the content type.
+     * @param networkType - the network type.
+     * @param generationHash - the generation hash of the network.
+     * @param data - the content, its format depends on the type.
+     */
+    constructor(
+        public readonly type: QRCodeType,
+        public readonly networkType: NetworkType,
+        public readonly generationHash: string,
+        public readonly data: IPaymentRequestDTO | ISimpleWalletDTO | IExportTransactionDTO,
+    ) {}
+
+    /**
+     * Creates the QR code of a payment request.
+     * @param request - the payment request
+     * @returns {QRCode}
+     */
+    public static createPaymentRequest(request: PaymentRequest): QRCode {
+        return new QRCode(QRCodeType.PaymentRequest, request.networkType, request.generationHash, request.toDTO());
+    }
+
+    /**
+     * Creates the QR code exporting an account. The private key stays encrypted with the wallet password.
+     * @param wallet - the simple wallet
+     * @param generationHash - the generation hash of the network
+     * @returns {QRCode}
+     */
+    public static createExportAccount(wallet: SimpleWallet, generationHash: string): QRCode {
+        return new QRCode(QRCodeType.ExportAccount, wallet.networkType, generationHash, wallet.toDTO());
+    }
+
+    /**
+     * Creates the QR code of an unsigned transaction, for example an aggregate the cosigners need to review.
+     * @param transaction - the transaction
+     * @param generationHash - the generation hash of the network
+     * @returns {QRCode}
+     */
+    public static createExportTransaction(transaction: Transaction, generationHash: string): QRCode {
+        return new QRCode(QRCodeType.ExportTransaction, transaction.networkType, generationHash, { payload: transaction.serialize() });
+    }
+
+    /**
+     * Parses the JSON content of a QR code.
+     * @param json - the scanned text
+     * @returns {QRCode}
+     */
+    public static createFromJSON(json: string): QRCode {
+        let content: any;
+        try {
+            content = JSON.parse(json);
+        } catch (e) {
+            throw new Error('QR code content is not valid JSON');
+        }
+        if (!content || content.v !== QRCode.VERSION) {
+            throw new Error(`Unsupported QR code version ${content && content.v}`);
+        }
+        if (typeof content.type !== 'number' || !Object.values(QRCodeType).includes(content.type)) {
+            throw new Error(`Unsupported QR code type ${content.type}`);
+        }
+        if (
+            typeof content.network_id !== 'number' ||
+            !Object.values(NetworkType).includes(content.network_id) ||
+            typeof content.chain_id !== 'string' ||
+            !content.data
+        ) {
+            throw new Error('QR code must define the network, the generation hash and the data');
+        }
+        return new QRCode(content.type, content.network_id, content.chain_id, content.data);
+    }
+
+    /**
+     * The JSON content of the QR code.
+     * @returns {string}
+     */
+    public toJSONString(): string {
+        return JSON.stringify({
+            v: QRCode.VERSION,
+            type: this.type,
+            network_id: this.networkType,
+            chain_id: this.generationHash,
+            data: this.data,
+        });
+    }
+
+    /**
+     * The payment request of a {@link QRCodeType.PaymentRequest} QR code.
+     * @returns {PaymentRequest}
+     */
+    public getPaymentRequest(): PaymentRequest {
+        this.checkType(QRCodeType.PaymentRequest);
+        return PaymentRequest.createFromDTO(this.data as IPaymentRequestDTO, this.networkType, this.generationHash);
+    }
+
+    /**
+     * The wallet of a {@link QRCodeType.ExportAccount} QR code.
+     * @returns {SimpleWallet}
+     */
+    public getSimpleWallet(): SimpleWallet {
+        this.checkType(QRCodeType.ExportAccount);
+        const data = this.data as ISimpleWalletDTO;
+        if (!data.address || typeof data.address.address !== 'string' || typeof data.encryptedPrivateKey !== 'string') {
+            throw new Error('Invalid exported account');
+        }
+        const wallet = SimpleWallet.createFromDTO(data);
+        if (wallet.networkType !== this.networkType) {
+            throw new Error(`Wallet ${wallet.address.plain()} doesn't belong to network ${this.networkType}`);
+        }
+        return wallet;
+    }
+
+    /**
+     * The transaction of a {@link QRCodeType.ExportTransaction} QR code.
+     * @returns {Transaction}
+     */
+    public getTransaction(): Transaction {
+        this.checkType(QRCodeType.ExportTransaction);
+        const data = this.data as IExportTransactionDTO;
+        if (typeof data.payload !== 'string') {
+            throw new Error('Invalid exported transaction');
+        }
+        const transaction = TransactionMapping.createFromPayload(data.payload) as Transaction;
+        if (transaction.networkType !== this.networkType) {
+            throw new Error(`Transaction doesn't belong to network ${this.networkType}`);
+        }
+        return transaction;
+    }
+
+    /**
+     * @internal
+     */
+    private checkType(type: QRCodeType): void {
+        if (this.type !== type) {
+            throw new Error(`QR code of type ${this.type} doesn't contain a ${QRCodeType[type]}`);
+        }
+    }
+}
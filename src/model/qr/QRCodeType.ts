@@ -0,0 +1,33 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * The kind of content of a {@link QRCode}.
+ */
+export enum QRCodeType {
+    /**
+     * A request to send mosaics to an account.
+     */
+    PaymentRequest = 1,
+    /**
+     * An account exported as a password protected simple wallet.
+     */
+    ExportAccount = 2,
+    /**
+     * An unsigned transaction to be signed or cosigned by the scanning device.
+     */
+    ExportTransaction = 3,
+}
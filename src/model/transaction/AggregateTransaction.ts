@@ -33,6 +33,7 @@ import { DtoMapping } from '../../core/utils/DtoMapping';
 import { CreateTransactionFromPayload } from '../../infrastructure/transaction/CreateTransactionFromPayload';
 import { Account } from '../account/Account';
 import { PublicAccount } from '../account/PublicAccount';
+import { Signer } from '../account/Signer';
 import { NetworkType } from '../network/NetworkType';
 import { Statement } from '../receipt/Statement';
 import { UInt64 } from '../UInt64';
@@ -226,39 +227,52 @@ export class AggregateTransaction extends Transaction {
     }
 
     /**
-     * @internal
      * Sign transaction with cosignatories creating a new SignedTransaction
      * @param initiatorAccount - Initiator account
      * @param cosignatories - The array of accounts that will cosign the transaction
      * @param generationHash - Network generation hash hex
      * @returns {SignedTransaction}
      */
+    public signTransactionWithCosignatories(initiatorAccount: Account, cosignatories: Account[], generationHash: string): SignedTransaction;
+
+    /**
+     * Sign transaction with external signers for the initiator and the cosignatories creating a new SignedTransaction
+     * @param initiator - Initiator signer
+     * @param cosignatories - The array of signers that will cosign the transaction
+     * @param generationHash - Network generation hash hex
+     * @returns {Promise<SignedTransaction>}
+     */
+    public signTransactionWithCosignatories(initiator: Signer, cosignatories: Signer[], generationHash: string): Promise<SignedTransaction>;
+
     public signTransactionWithCosignatories(
-        initiatorAccount: Account,
-        cosignatories: Account[],
+        initiator: Account | Signer,
+        cosignatories: (Account | Signer)[],
         generationHash: string,
-    ): SignedTransaction {
-        const signedTransaction = this.signWith(initiatorAccount, generationHash);
-        const transactionHashBytes = Convert.hexToUint8(signedTransaction.hash);
-        let signedPayload = signedTransaction.payload;
-        cosignatories.forEach((cosigner) => {
-            const keyPairEncoded = KeyPair.createKeyPairFromPrivateKeyString(cosigner.privateKey);
-            const signature = KeyPair.sign(keyPairEncoded, transactionHashBytes);
-            signedPayload += UInt64.fromUint(0).toHex() + cosigner.publicKey + Convert.uint8ToHex(signature);
+    ): SignedTransaction | Promise<SignedTransaction> {
+        if (initiator instanceof Account && cosignatories.every((cosigner) => cosigner instanceof Account)) {
+            const signedTransaction = this.signWith(initiator, generationHash);
+            const transactionHashBytes = Convert.hexToUint8(signedTransaction.hash);
+            const cosignatures = (cosignatories as Account[]).map((cosigner) => {
+                const keyPairEncoded = KeyPair.createKeyPairFromPrivateKeyString(cosigner.privateKey);
+                const signature = KeyPair.sign(keyPairEncoded, transactionHashBytes);
+                return UInt64.fromUint(0).toHex() + cosigner.publicKey + Convert.uint8ToHex(signature);
+            });
+            return this.appendCosignatures(signedTransaction, cosignatures);
+        }
+        return Promise.resolve(this.signWith(initiator as Signer, generationHash)).then((signedTransaction) => {
+            const transactionHashBytes = Convert.hexToUint8(signedTransaction.hash);
+            return Promise.all(
+                cosignatories.map((cosigner) =>
+                    Promise.all([cosigner.getPublicAccount(), cosigner.sign(transactionHashBytes)]).then(
+                        ([publicAccount, signature]) =>
+                            UInt64.fromUint(0).toHex() + publicAccount.publicKey + Convert.uint8ToHex(signature),
+                    ),
+                ),
+            ).then((cosignatures) => this.appendCosignatures(signedTransaction, cosignatures));
         });
-
-        // Calculate new size
-        const size = `00000000${(signedPayload.length / 2).toString(16)}`;
-        const formatedSize = size.substr(size.length - 8, size.length);
-        const littleEndianSize =
-            formatedSize.substr(6, 2) + formatedSize.substr(4, 2) + formatedSize.substr(2, 2) + formatedSize.substr(0, 2);
-
-        signedPayload = littleEndianSize + signedPayload.substr(8, signedPayload.length - 8);
-        return new SignedTransaction(signedPayload, signedTransaction.hash, initiatorAccount.publicKey, this.type, this.networkType);
     }
 
     /**
-     * @internal
      * Sign transaction with cosignatories collected from cosigned transactions and creating a new SignedTransaction
      * For off chain Aggregated Complete Transaction co-signing.
      * @param initiatorAccount - Initiator account
@@ -270,12 +284,48 @@ export class AggregateTransaction extends Transaction {
         initiatorAccount: Account,
         cosignatureSignedTransactions: CosignatureSignedTransaction[],
         generationHash: string,
-    ): SignedTransaction {
-        const signedTransaction = this.signWith(initiatorAccount, generationHash);
-        let signedPayload = signedTransaction.payload;
-        cosignatureSignedTransactions.forEach((cosignedTransaction) => {
-            signedPayload += cosignedTransaction.version.toHex() + cosignedTransaction.signerPublicKey + cosignedTransaction.signature;
-        });
+    ): SignedTransaction;
+
+    /**
+     * Sign transaction with an external signer and the cosignatories collected from cosigned transactions creating a
+     * new SignedTransaction
+     * @param initiator - Initiator signer
+     * @param {CosignatureSignedTransaction[]} cosignatureSignedTransactions - Array of cosigned transaction
+     * @param generationHash - Network generation hash hex
+     * @return {Promise<SignedTransaction>}
+     */
+    public signTransactionGivenSignatures(
+        initiator: Signer,
+        cosignatureSignedTransactions: CosignatureSignedTransaction[],
+        generationHash: string,
+    ): Promise<SignedTransaction>;
+
+    public signTransactionGivenSignatures(
+        initiator: Account | Signer,
+        cosignatureSignedTransactions: CosignatureSignedTransaction[],
+        generationHash: string,
+    ): SignedTransaction | Promise<SignedTransaction> {
+        const cosignatures = cosignatureSignedTransactions.map(
+            (cosignedTransaction) =>
+                cosignedTransaction.version.toHex() + cosignedTransaction.signerPublicKey + cosignedTransaction.signature,
+        );
+        if (initiator instanceof Account) {
+            return this.appendCosignatures(this.signWith(initiator, generationHash), cosignatures);
+        }
+        return this.signWith(initiator, generationHash).then((signedTransaction) =>
+            this.appendCosignatures(signedTransaction, cosignatures),
+        );
+    }
+
+    /**
+     * @internal
+     * Appends the cosignatures to the signed aggregate and updates its size
+     * @param signedTransaction - The aggregate signed by the initiator
+     * @param cosignatures - The serialized cosignatures
+     * @returns {SignedTransaction}
+     */
+    private appendCosignatures(signedTransaction: SignedTransaction, cosignatures: string[]): SignedTransaction {
+        let signedPayload = signedTransaction.payload + cosignatures.join('');
 
         // Calculate new size
         const size = `00000000${(signedPayload.length / 2).toString(16)}`;
@@ -284,7 +334,7 @@ export class AggregateTransaction extends Transaction {
             formatedSize.substr(6, 2) + formatedSize.substr(4, 2) + formatedSize.substr(2, 2) + formatedSize.substr(0, 2);
 
         signedPayload = littleEndianSize + signedPayload.substr(8, signedPayload.length - 8);
-        return new SignedTransaction(signedPayload, signedTransaction.hash, initiatorAccount.publicKey, this.type, this.networkType);
+        return new SignedTransaction(signedPayload, signedTransaction.hash, signedTransaction.signerPublicKey, this.type, this.networkType);
     }
 
     /**
@@ -17,6 +17,7 @@
 import { KeyPair } from '../../core/crypto';
 import { Convert } from '../../core/format/Convert';
 import { Account } from '../account/Account';
+import { Signer } from '../account/Signer';
 import { AggregateTransaction } from './AggregateTransaction';
 import { CosignatureSignedTransaction } from './CosignatureSignedTransaction';
 import { Transaction } from './Transaction';
@@ -52,15 +53,28 @@ export class CosignatureTransaction {
      * @param generationHash - Network generation hash
      * @returns {CosignatureSignedTransaction}
      */
-    public static signTransactionPayload(account: Account, payload: string, generationHash: string): CosignatureSignedTransaction {
+    public static signTransactionPayload(account: Account, payload: string, generationHash: string): CosignatureSignedTransaction;
+
+    /**
+     * Co-sign transaction with transaction payload (off chain) using an external signer
+     * Creating a new CosignatureSignedTransaction
+     * @param signer - The signer
+     * @param payload - off transaction payload (aggregated transaction is unannounced)
+     * @param generationHash - Network generation hash
+     * @returns {Promise<CosignatureSignedTransaction>}
+     */
+    public static signTransactionPayload(signer: Signer, payload: string, generationHash: string): Promise<CosignatureSignedTransaction>;
+
+    public static signTransactionPayload(
+        signer: Account | Signer,
+        payload: string,
+        generationHash: string,
+    ): CosignatureSignedTransaction | Promise<CosignatureSignedTransaction> {
         /**
          * For aggregated complete transaction, cosignatories are gathered off chain announced.
          */
         const transactionHash = Transaction.createTransactionHash(payload, Array.from(Convert.hexToUint8(generationHash)));
-        const hashBytes = Convert.hexToUint8(transactionHash);
-        const keyPairEncoded = KeyPair.createKeyPairFromPrivateKeyString(account.privateKey);
-        const signature = KeyPair.sign(keyPairEncoded, new Uint8Array(hashBytes));
-        return new CosignatureSignedTransaction(Convert.uint8ToHex(hashBytes), Convert.uint8ToHex(signature), account.publicKey);
+        return CosignatureTransaction.signHash(signer, transactionHash);
     }
 
     /**
@@ -68,14 +82,38 @@ export class CosignatureTransaction {
      * @param account
      * @returns {CosignatureSignedTransaction}
      */
-    public signWith(account: Account): CosignatureSignedTransaction {
+    public signWith(account: Account): CosignatureSignedTransaction;
+
+    /**
+     * Sign the transaction with an external signer creating a new SignedTransaction
+     * @param signer
+     * @returns {Promise<CosignatureSignedTransaction>}
+     */
+    public signWith(signer: Signer): Promise<CosignatureSignedTransaction>;
+
+    public signWith(signer: Account | Signer): CosignatureSignedTransaction | Promise<CosignatureSignedTransaction> {
         if (!this.transactionToCosign.transactionInfo!.hash) {
             throw new Error('Transaction to cosign should be announced first');
         }
-        const hash = this.transactionToCosign.transactionInfo!.hash;
-        const hashBytes = Convert.hexToUint8(hash ? hash : '');
-        const keyPairEncoded = KeyPair.createKeyPairFromPrivateKeyString(account.privateKey);
-        const signature = KeyPair.sign(keyPairEncoded, new Uint8Array(hashBytes));
-        return new CosignatureSignedTransaction(hash ? hash : '', Convert.uint8ToHex(signature), account.publicKey);
+        return CosignatureTransaction.signHash(signer, this.transactionToCosign.transactionInfo!.hash);
+    }
+
+    /**
+     * @internal
+     * Signs the hash of the aggregate, synchronously for an account
+     * @param signer - The account or the signer
+     * @param hash - The aggregate transaction hash
+     * @returns {CosignatureSignedTransaction | Promise<CosignatureSignedTransaction>}
+     */
+    private static signHash(signer: Account | Signer, hash: string): CosignatureSignedTransaction | Promise<CosignatureSignedTransaction> {
+        const hashBytes = Convert.hexToUint8(hash);
+        if (signer instanceof Account) {
+            const keyPairEncoded = KeyPair.createKeyPairFromPrivateKeyString(signer.privateKey);
+            const signature = KeyPair.sign(keyPairEncoded, hashBytes);
+            return new CosignatureSignedTransaction(hash, Convert.uint8ToHex(signature), signer.publicKey);
+        }
+        return Promise.all([signer.getPublicAccount(), signer.sign(hashBytes)]).then(
+            ([publicAccount, signature]) => new CosignatureSignedTransaction(hash, Convert.uint8ToHex(signature), publicAccount.publicKey),
+        );
     }
 }
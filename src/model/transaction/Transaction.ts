@@ -21,6 +21,7 @@ import { DtoMapping } from '../../core/utils/DtoMapping';
 import { SerializeTransactionToJSON } from '../../infrastructure/transaction/SerializeTransactionToJSON';
 import { Account } from '../account/Account';
 import { PublicAccount } from '../account/PublicAccount';
+import { Signer } from '../account/Signer';
 import { NetworkType } from '../network/NetworkType';
 import { Statement } from '../receipt/Statement';
 import { UInt64 } from '../UInt64';
@@ -208,29 +209,61 @@ export abstract class Transaction {
     }
 
     /**
-     * @internal
      * Serialize and sign transaction creating a new SignedTransaction
      * @param account - The account to sign the transaction
      * @param generationHash - Network generation hash hex
      * @returns {SignedTransaction}
      */
-    public signWith(account: Account, generationHash: string): SignedTransaction {
+    public signWith(account: Account, generationHash: string): SignedTransaction;
+
+    /**
+     * Serialize and sign transaction with an external signer creating a new SignedTransaction
+     * @param signer - The signer of the transaction
+     * @param generationHash - Network generation hash hex
+     * @returns {Promise<SignedTransaction>}
+     */
+    public signWith(signer: Signer, generationHash: string): Promise<SignedTransaction>;
+
+    public signWith(signer: Account | Signer, generationHash: string): SignedTransaction | Promise<SignedTransaction> {
         const generationHashBytes = Array.from(Convert.hexToUint8(generationHash));
         const byteBuffer = Array.from(this.generateBytes());
-        const signingBytes = this.getSigningBytes(byteBuffer, generationHashBytes);
-        const keyPairEncoded = KeyPair.createKeyPairFromPrivateKeyString(account.privateKey);
-        const signature = Array.from(KeyPair.sign(keyPairEncoded, new Uint8Array(signingBytes)));
+        const signingBytes = new Uint8Array(this.getSigningBytes(byteBuffer, generationHashBytes));
+        if (signer instanceof Account) {
+            const keyPairEncoded = KeyPair.createKeyPairFromPrivateKeyString(signer.privateKey);
+            const signature = KeyPair.sign(keyPairEncoded, signingBytes);
+            return this.createSignedTransaction(byteBuffer, generationHashBytes, signer.publicKey, signature);
+        }
+        return Promise.all([signer.getPublicAccount(), signer.sign(signingBytes)]).then(([publicAccount, signature]) =>
+            this.createSignedTransaction(byteBuffer, generationHashBytes, publicAccount.publicKey, signature),
+        );
+    }
+
+    /**
+     * @internal
+     * Inserts the signature and the signer public key in the serialized transaction
+     * @param byteBuffer - The serialized transaction
+     * @param generationHashBytes - Network generation hash
+     * @param publicKey - The signer public key hex
+     * @param signature - The signature of the signing bytes
+     * @returns {SignedTransaction}
+     */
+    private createSignedTransaction(
+        byteBuffer: number[],
+        generationHashBytes: number[],
+        publicKey: string,
+        signature: Uint8Array,
+    ): SignedTransaction {
         const signedTransactionBuffer = byteBuffer
-            .splice(0, 8)
-            .concat(signature)
-            .concat(Array.from(keyPairEncoded.publicKey))
+            .slice(0, 8)
+            .concat(Array.from(signature))
+            .concat(Array.from(Convert.hexToUint8(publicKey)))
             .concat(Array.from(new Uint8Array(4)))
-            .concat(byteBuffer.splice(64 + 32 + 4, byteBuffer.length));
+            .concat(byteBuffer.slice(8 + 64 + 32 + 4, byteBuffer.length));
         const payload = Convert.uint8ToHex(signedTransactionBuffer);
         return new SignedTransaction(
             payload,
             Transaction.createTransactionHash(payload, generationHashBytes),
-            account.publicKey,
+            publicKey,
             this.type,
             this.networkType,
         );
@@ -0,0 +1,86 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Address } from '../account/Address';
+import { Deadline } from './Deadline';
+import { TransactionStatusCatalog } from './TransactionStatusCatalog';
+import { TransactionStatusError } from './TransactionStatusError';
+import { TransactionStatusGroup } from './TransactionStatusGroup';
+
+/**
+ * Error raised when the node rejects an announced transaction. It describes the status code with the
+ * {@link TransactionStatusCatalog}.
+ *
+ * The message is the raw status code, the message the announce errors have always had.
+ */
+export class TransactionFailedError extends Error {
+    /**
+     * The status code, e.g. `Failure_Core_Insufficient_Balance`.
+     */
+    public readonly code: string;
+
+    /**
+     * The transaction hash.
+     */
+    public readonly hash: string;
+
+    /**
+     * The address of the account that signed the transaction.
+     */
+    public readonly address: Address;
+
+    /**
+     * The transaction deadline.
+     */
+    public readonly deadline: Deadline;
+
+    /**
+     * The plugin or component of the node rejecting the transaction.
+     */
+    public readonly group: TransactionStatusGroup;
+
+    /**
+     * What the status code means.
+     */
+    public readonly description: string;
+
+    /**
+     * If announcing the same transaction again later may succeed.
+     */
+    public readonly retryable: boolean;
+
+    /**
+     * What to do to get the transaction accepted.
+     */
+    public readonly suggestedFix: string;
+
+    /**
+     * @param statusError - the status error reported by the node.
+     */
+    constructor(statusError: TransactionStatusError) {
+        const status = TransactionStatusCatalog.describe(statusError.code);
+        super(statusError.code);
+        this.name = 'TransactionFailedError';
+        this.code = status.code;
+        this.hash = statusError.hash;
+        this.address = statusError.address;
+        this.deadline = statusError.deadline;
+        this.group = status.group;
+        this.description = status.description;
+        this.retryable = status.retryable;
+        this.suggestedFix = status.suggestedFix;
+    }
+}
@@ -0,0 +1,714 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { TransactionStatusEnum } from 'symbol-openapi-typescript-fetch-client';
+import { TransactionStatusDescription } from './TransactionStatusDescription';
+import { TransactionStatusGroup } from './TransactionStatusGroup';
+
+/**
+ * The description, whether announcing again may succeed, and the suggested fix of a status code.
+ */
+type StatusEntry = [string, boolean, string];
+
+/**
+ * Catalog of the transaction status codes reported by catapult, with a human description, a retryable flag and
+ * a suggested fix for each of them.
+ */
+export class TransactionStatusCatalog {
+    /**
+     * The groups by status code prefix. Codes without a known prefix belong to the core group.
+     */
+    private static readonly GROUP_PREFIXES: [string, TransactionStatusGroup][] = [
+        ['Failure_AccountLink_', TransactionStatusGroup.AccountLink],
+        ['Failure_Aggregate_', TransactionStatusGroup.Aggregate],
+        ['Failure_LockHash_', TransactionStatusGroup.Lock],
+        ['Failure_LockSecret_', TransactionStatusGroup.Lock],
+        ['Failure_Metadata_', TransactionStatusGroup.Metadata],
+        ['Failure_Mosaic_', TransactionStatusGroup.Mosaic],
+        ['Failure_Multisig_', TransactionStatusGroup.Multisig],
+        ['Failure_Namespace_', TransactionStatusGroup.Namespace],
+        ['Failure_RestrictionAccount_', TransactionStatusGroup.Restriction],
+        ['Failure_RestrictionMosaic_', TransactionStatusGroup.Restriction],
+        ['Failure_Transfer_', TransactionStatusGroup.Transfer],
+        ['Failure_Chain_', TransactionStatusGroup.Node],
+        ['Failure_Consumer_', TransactionStatusGroup.Node],
+        ['Neutral_Consumer_', TransactionStatusGroup.Node],
+        ['Failure_Extension_', TransactionStatusGroup.Node],
+    ];
+
+    /**
+     * Every status code of catapult, the compiler makes sure none is missing.
+     */
+    private static readonly ENTRIES: Record<TransactionStatusEnum, StatusEntry> = {
+        Success: ['The transaction is valid.', false, 'Nothing to fix.'],
+        Neutral: ['The transaction was neither accepted nor rejected.', true, 'Announce the transaction again.'],
+        Failure: ['The transaction was rejected for an unspecified reason.', false, 'Check the node logs for the cause.'],
+        Failure_Core_Past_Deadline: [
+            'The deadline of the transaction has passed.',
+            false,
+            'Create the transaction again with a new deadline, sign it and announce it.',
+        ],
+        Failure_Core_Future_Deadline: [
+            'The deadline is too far in the future.',
+            false,
+            'Use a deadline within the maxTransactionLifetime of the network, 2 hours by default.',
+        ],
+        Failure_Core_Insufficient_Balance: [
+            'The account does not have enough balance for the amounts sent, the fees or the rental fees.',
+            false,
+            'Fund the account or reduce the amounts and the max fee.',
+        ],
+        Failure_Core_Too_Many_Transactions: [
+            'There are too many transactions in the block.',
+            true,
+            'Announce the transaction again later.',
+        ],
+        Failure_Core_Nemesis_Account_Signed_After_Nemesis_Block: [
+            'The nemesis account signed a transaction after the nemesis block.',
+            false,
+            'Sign the transaction with another account.',
+        ],
+        Failure_Core_Wrong_Network: [
+            'The transaction was created for another network.',
+            false,
+            'Create the transaction with the network type and sign it with the generation hash of the node.',
+        ],
+        Failure_Core_Invalid_Address: [
+            'An address of the transaction is invalid.',
+            false,
+            'Check the addresses belong to the network of the node.',
+        ],
+        Failure_Core_Invalid_Version: [
+            'The transaction version is not supported by the network.',
+            false,
+            'Use an SDK version matching the version of the network.',
+        ],
+        Failure_Core_Invalid_Transaction_Fee: [
+            'The max fee is lower than the fee required by the node.',
+            false,
+            'Increase the max fee, for example with the FeeService.',
+        ],
+        Failure_Core_Block_Harvester_Ineligible: [
+            'The block was harvested by an ineligible account.',
+            false,
+            'The harvesting account needs the minimum harvesting balance and importance.',
+        ],
+        Failure_Core_Zero_Address: ['An address of the transaction is zero.', false, 'Set a valid address.'],
+        Failure_Core_Zero_Public_Key: ['A public key of the transaction is zero.', false, 'Set a valid public key.'],
+        Failure_Core_Nonzero_Internal_Padding: [
+            'The internal padding of the transaction is not zero.',
+            false,
+            'Serialize the transaction with the SDK instead of building the payload by hand.',
+        ],
+        Failure_Core_Address_Collision: ['Two public keys of the transaction map to the same address.', false, 'Use other accounts.'],
+        Failure_Core_Invalid_Link_Action: ['The link action is invalid.', false, 'Use the Link or Unlink action.'],
+        Failure_Core_Link_Already_Exists: [
+            'The account is already linked to another key.',
+            false,
+            'Unlink the current key before linking a new one.',
+        ],
+        Failure_Core_Inconsistent_Unlink_Data: [
+            'The key to unlink is not the key linked to the account.',
+            false,
+            'Unlink the key currently linked to the account.',
+        ],
+        Failure_Core_Invalid_Link_Range: [
+            'The link epoch range is invalid.',
+            false,
+            'Use a start epoch lower than the end epoch, within the allowed range.',
+        ],
+        Failure_Core_Too_Many_Links: ['The account has too many keys of this type linked.', false, 'Unlink one of the keys first.'],
+        Failure_Hash_Already_Exists: [
+            'A transaction with the same hash was already confirmed.',
+            false,
+            'Nothing to do if it is the same transaction, otherwise create a new transaction.',
+        ],
+        Failure_Signature_Not_Verifiable: [
+            'The signature of the transaction is invalid.',
+            false,
+            'Sign the transaction with the generation hash of the node and do not modify it after signing.',
+        ],
+        Failure_AccountLink_Link_Already_Exists: [
+            'The account is already linked to a remote account.',
+            false,
+            'Unlink the current remote account first.',
+        ],
+        Failure_AccountLink_Inconsistent_Unlink_Data: [
+            'The remote account to unlink is not the account linked.',
+            false,
+            'Unlink the remote account currently linked.',
+        ],
+        Failure_AccountLink_Unknown_Link: ['The account is not linked to a remote account.', false, 'Nothing to unlink.'],
+        Failure_AccountLink_Remote_Account_Ineligible: [
+            'The account cannot become a remote account.',
+            false,
+            'Use a new account without balance or history as remote account.',
+        ],
+        Failure_AccountLink_Remote_Account_Signer_Prohibited: [
+            'Remote accounts cannot sign transactions.',
+            false,
+            'Sign the transaction with the main account.',
+        ],
+        Failure_AccountLink_Remote_Account_Participant_Prohibited: [
+            'Remote accounts cannot take part in transactions.',
+            false,
+            'Use the main account instead of the remote account.',
+        ],
+        Failure_Aggregate_Too_Many_Transactions: [
+            'The aggregate has too many inner transactions.',
+            false,
+            'Split the inner transactions in several aggregates.',
+        ],
+        Failure_Aggregate_No_Transactions: ['The aggregate has no inner transactions.', false, 'Add inner transactions.'],
+        Failure_Aggregate_Too_Many_Cosignatures: [
+            'The aggregate has too many cosignatures.',
+            false,
+            'Split the inner transactions in several aggregates.',
+        ],
+        Failure_Aggregate_Redundant_Cosignatures: [
+            'The aggregate has the same cosignature more than once or a cosignature of the signer.',
+            false,
+            'Remove the repeated cosignatures.',
+        ],
+        Failure_Aggregate_Ineligible_Cosignatories: [
+            'A cosignature comes from an account that is not required to cosign.',
+            false,
+            'Remove the cosignatures of accounts not involved in the inner transactions.',
+        ],
+        Failure_Aggregate_Missing_Cosignatures: [
+            'A required cosignature is missing.',
+            false,
+            'Collect the missing cosignatures or announce the aggregate as bonded.',
+        ],
+        Failure_Aggregate_Transactions_Hash_Mismatch: [
+            'The inner transactions hash does not match the inner transactions.',
+            false,
+            'Serialize the aggregate with the SDK and do not modify it after signing.',
+        ],
+        Failure_LockHash_Invalid_Mosaic_Id: [
+            'The hash lock does not use the currency mosaic.',
+            false,
+            'Lock the currency mosaic of the network.',
+        ],
+        Failure_LockHash_Invalid_Mosaic_Amount: [
+            'The hash lock amount is not the required amount.',
+            false,
+            'Lock the amount set by lockedFundsPerAggregate, 10 units of the currency by default.',
+        ],
+        Failure_LockHash_Hash_Already_Exists: [
+            'The aggregate is already locked by another hash lock.',
+            false,
+            'Announce the aggregate bonded transaction without a new hash lock.',
+        ],
+        Failure_LockHash_Unknown_Hash: [
+            'The aggregate bonded transaction has no confirmed hash lock.',
+            true,
+            'Wait until the hash lock is confirmed before announcing the aggregate bonded transaction.',
+        ],
+        Failure_LockHash_Inactive_Hash: [
+            'The hash lock has expired or was already used.',
+            false,
+            'Announce a new hash lock and aggregate bonded transaction.',
+        ],
+        Failure_LockHash_Invalid_Duration: [
+            'The hash lock duration is too long.',
+            false,
+            'Use a duration within maxHashLockDuration of the network.',
+        ],
+        Failure_LockSecret_Invalid_Hash_Algorithm: [
+            'The hash algorithm of the secret lock is invalid.',
+            false,
+            'Use one of the LockHashAlgorithm values.',
+        ],
+        Failure_LockSecret_Hash_Already_Exists: [
+            'A secret lock with the same secret and recipient already exists.',
+            false,
+            'Use a new secret.',
+        ],
+        Failure_LockSecret_Proof_Size_Out_Of_Bounds: [
+            'The proof is too small or too large.',
+            false,
+            'Use a proof within the minProofSize and maxProofSize of the network.',
+        ],
+        Failure_LockSecret_Secret_Mismatch: [
+            'The proof does not match the secret.',
+            false,
+            'Announce the proof used to create the secret.',
+        ],
+        Failure_LockSecret_Unknown_Composite_Key: [
+            'There is no secret lock for the secret and recipient.',
+            true,
+            'Check the secret, the recipient and the hash algorithm, or wait until the secret lock is confirmed.',
+        ],
+        Failure_LockSecret_Inactive_Secret: ['The secret lock has expired or was already proven.', false, 'Create a new secret lock.'],
+        Failure_LockSecret_Hash_Algorithm_Mismatch: [
+            'The hash algorithm of the proof is not the algorithm of the secret lock.',
+            false,
+            'Use the hash algorithm of the secret lock.',
+        ],
+        Failure_LockSecret_Invalid_Duration: [
+            'The secret lock duration is too long.',
+            false,
+            'Use a duration within maxSecretLockDuration of the network.',
+        ],
+        Failure_Metadata_Value_Too_Small: ['The metadata value is empty.', false, 'Set a value with at least one byte.'],
+        Failure_Metadata_Value_Too_Large: ['The metadata value is too large.', false, 'Use a value within maxValueSize of the network.'],
+        Failure_Metadata_Value_Size_Delta_Too_Large: [
+            'The value size delta is larger than the value size.',
+            false,
+            'Create the metadata transaction with the MetadataTransactionService.',
+        ],
+        Failure_Metadata_Value_Size_Delta_Mismatch: [
+            'The value size delta does not match the current value.',
+            true,
+            'Create the metadata transaction again from the current value with the MetadataTransactionService.',
+        ],
+        Failure_Metadata_Value_Change_Irreversible: [
+            'The value change truncates the current value and cannot be reverted.',
+            false,
+            'Create the metadata transaction with the MetadataTransactionService.',
+        ],
+        Failure_Mosaic_Invalid_Duration: [
+            'The mosaic duration is invalid.',
+            false,
+            'Use a duration within maxMosaicDuration of the network, or 0 for a mosaic that never expires.',
+        ],
+        Failure_Mosaic_Invalid_Name: ['The mosaic name is invalid.', false, 'Use a valid mosaic name.'],
+        Failure_Mosaic_Name_Id_Mismatch: ['The mosaic name does not match the id.', false, 'Generate the id from the name.'],
+        Failure_Mosaic_Expired: ['The mosaic has expired.', false, 'Create a new mosaic.'],
+        Failure_Mosaic_Owner_Conflict: [
+            'The mosaic is owned by another account.',
+            false,
+            'Sign the transaction with the owner of the mosaic.',
+        ],
+        Failure_Mosaic_Id_Mismatch: [
+            'The mosaic id was not generated from the signer and the nonce.',
+            false,
+            'Create the mosaic id with MosaicId.createFromNonce and the signer address.',
+        ],
+        Failure_Mosaic_Parent_Id_Conflict: [
+            'The parent id does not match the existing parent id.',
+            false,
+            'Use the parent id of the existing mosaic.',
+        ],
+        Failure_Mosaic_Invalid_Property: ['A mosaic property is invalid.', false, 'Check the mosaic properties.'],
+        Failure_Mosaic_Invalid_Flags: ['The mosaic flags are invalid.', false, 'Use the flags of MosaicFlags.'],
+        Failure_Mosaic_Invalid_Divisibility: [
+            'The mosaic divisibility is invalid.',
+            false,
+            'Use a divisibility within maxMosaicDivisibility of the network.',
+        ],
+        Failure_Mosaic_Invalid_Supply_Change_Action: [
+            'The supply change action is invalid.',
+            false,
+            'Use the Increase or Decrease action.',
+        ],
+        Failure_Mosaic_Invalid_Supply_Change_Amount: ['The supply change amount is invalid.', false, 'Use an amount greater than zero.'],
+        Failure_Mosaic_Invalid_Id: ['The mosaic id is invalid.', false, 'Check the mosaic id.'],
+        Failure_Mosaic_Modification_Disallowed: [
+            'The mosaic cannot be modified.',
+            false,
+            'Only the owner can modify the mosaic, and only while the owner holds the whole supply.',
+        ],
+        Failure_Mosaic_Modification_No_Changes: [
+            'The mosaic definition does not change anything.',
+            false,
+            'Change at least a property of the mosaic.',
+        ],
+        Failure_Mosaic_Supply_Immutable: [
+            'The mosaic supply is not mutable.',
+            false,
+            'The supply can only change while the owner holds the whole supply.',
+        ],
+        Failure_Mosaic_Supply_Negative: [
+            'The supply decrease is larger than the balance of the owner.',
+            false,
+            'Decrease the supply by a smaller amount.',
+        ],
+        Failure_Mosaic_Supply_Exceeded: [
+            'The resulting supply exceeds the maximum supply.',
+            false,
+            'Increase the supply by a smaller amount.',
+        ],
+        Failure_Mosaic_Non_Transferable: [
+            'The mosaic is not transferable.',
+            false,
+            'Non transferable mosaics can only be sent to or received from their owner.',
+        ],
+        Failure_Mosaic_Max_Mosaics_Exceeded: [
+            'The recipient already owns the maximum number of different mosaics.',
+            false,
+            'The recipient needs to get rid of some mosaics first.',
+        ],
+        Failure_Mosaic_Required_Property_Flag_Unset: [
+            'The mosaic has a required property flag unset.',
+            false,
+            'Set the flags required by the operation, e.g. restrictable for mosaic restrictions.',
+        ],
+        Failure_Multisig_Account_In_Both_Sets: [
+            'An account is both added and removed as cosignatory.',
+            false,
+            'Add or remove the account, not both.',
+        ],
+        Failure_Multisig_Multiple_Deletes: ['More than one cosignatory is removed.', false, 'Remove one cosignatory per transaction.'],
+        Failure_Multisig_Redundant_Modification: ['A cosignatory is modified more than once.', false, 'Remove the repeated modifications.'],
+        Failure_Multisig_Unknown_Multisig_Account: [
+            'The account is not a multisig account.',
+            false,
+            'Convert the account to multisig first.',
+        ],
+        Failure_Multisig_Not_A_Cosignatory: [
+            'The account to remove is not a cosignatory.',
+            false,
+            'Remove a current cosignatory of the multisig account.',
+        ],
+        Failure_Multisig_Already_A_Cosignatory: [
+            'The account to add is already a cosignatory.',
+            false,
+            'Add an account that is not a cosignatory yet.',
+        ],
+        Failure_Multisig_Min_Setting_Out_Of_Range: [
+            'The minimum approval or removal is out of range.',
+            false,
+            'Use minimums between 1 and the number of cosignatories.',
+        ],
+        Failure_Multisig_Min_Setting_Larger_Than_Num_Cosignatories: [
+            'The minimum approval or removal is larger than the number of cosignatories.',
+            false,
+            'Lower the minimums or add cosignatories.',
+        ],
+        Failure_Multisig_Invalid_Modification_Action: ['The modification action is invalid.', false, 'Check the modification.'],
+        Failure_Multisig_Max_Cosigned_Accounts: [
+            'The cosignatory already cosigns the maximum number of accounts.',
+            false,
+            'Use another cosignatory or remove it from other multisig accounts.',
+        ],
+        Failure_Multisig_Max_Cosignatories: [
+            'The multisig account already has the maximum number of cosignatories.',
+            false,
+            'Remove cosignatories before adding new ones.',
+        ],
+        Failure_Multisig_Loop: [
+            'The modification creates a multisig loop.',
+            false,
+            'Do not add a multisig account as its own cosignatory.',
+        ],
+        Failure_Multisig_Max_Multisig_Depth: [
+            'The modification exceeds the maximum multisig depth.',
+            false,
+            'Use a flatter multisig structure.',
+        ],
+        Failure_Multisig_Operation_Prohibited_By_Account: [
+            'Multisig accounts cannot sign transactions.',
+            false,
+            'Wrap the transaction in an aggregate signed by a cosignatory.',
+        ],
+        Failure_Namespace_Invalid_Duration: [
+            'The namespace duration is invalid.',
+            false,
+            'Use a duration between minNamespaceDuration and maxNamespaceDuration of the network.',
+        ],
+        Failure_Namespace_Invalid_Name: [
+            'The namespace name is invalid.',
+            false,
+            'Use lower case letters, numbers, "-" and "_", within maxNameSize of the network.',
+        ],
+        Failure_Namespace_Name_Id_Mismatch: ['The namespace name does not match the id.', false, 'Generate the id from the name.'],
+        Failure_Namespace_Expired: ['The namespace has expired.', false, 'Renew the root namespace.'],
+        Failure_Namespace_Owner_Conflict: [
+            'The namespace is owned by another account.',
+            false,
+            'Sign the transaction with the owner of the namespace.',
+        ],
+        Failure_Namespace_Id_Mismatch: [
+            'The namespace id does not match the name and the parent.',
+            false,
+            'Generate the id from the name.',
+        ],
+        Failure_Namespace_Invalid_Registration_Type: [
+            'The registration type is invalid.',
+            false,
+            'Use the RootNamespace or SubNamespace registration type.',
+        ],
+        Failure_Namespace_Root_Name_Reserved: [
+            'The root namespace name is reserved.',
+            false,
+            'Use a name that is not in reservedRootNamespaceNames of the network.',
+        ],
+        Failure_Namespace_Too_Deep: [
+            'The namespace exceeds the maximum depth.',
+            false,
+            'Use at most maxNamespaceDepth levels, 3 by default.',
+        ],
+        Failure_Namespace_Unknown_Parent: ['The parent namespace does not exist.', false, 'Register the parent namespace first.'],
+        Failure_Namespace_Already_Exists: ['The namespace already exists.', false, 'Use another name.'],
+        Failure_Namespace_Already_Active: [
+            'The namespace is already active and owned by another account.',
+            false,
+            'Use another name or wait until the namespace expires.',
+        ],
+        Failure_Namespace_Eternal_After_Nemesis_Block: [
+            'Eternal namespaces can only be registered in the nemesis block.',
+            false,
+            'Register the namespace with a duration.',
+        ],
+        Failure_Namespace_Max_Children_Exceeded: [
+            'The root namespace already has the maximum number of children.',
+            false,
+            'Use another root namespace.',
+        ],
+        Failure_Namespace_Alias_Invalid_Action: ['The alias action is invalid.', false, 'Use the Link or Unlink action.'],
+        Failure_Namespace_Unknown: ['The namespace does not exist.', false, 'Register the namespace first.'],
+        Failure_Namespace_Alias_Already_Exists: ['The namespace is already linked to an alias.', false, 'Unlink the current alias first.'],
+        Failure_Namespace_Unknown_Alias: ['The namespace is not linked to an alias.', false, 'Link the namespace first.'],
+        Failure_Namespace_Alias_Inconsistent_Unlink_Type: [
+            'The alias to unlink is not of the linked type.',
+            false,
+            'Unlink with an address alias or a mosaic alias transaction matching the linked alias.',
+        ],
+        Failure_Namespace_Alias_Inconsistent_Unlink_Data: [
+            'The alias to unlink is not the linked address or mosaic.',
+            false,
+            'Unlink the address or mosaic currently linked.',
+        ],
+        Failure_Namespace_Alias_Invalid_Address: ['The address to link is invalid.', false, 'Link an address of the network of the node.'],
+        Failure_RestrictionAccount_Invalid_Restriction_Flags: [
+            'The account restriction flags are invalid.',
+            false,
+            'Use the flags of AddressRestrictionFlag, MosaicRestrictionFlag or OperationRestrictionFlag.',
+        ],
+        Failure_RestrictionAccount_Invalid_Modification_Action: [
+            'The restriction modification action is invalid.',
+            false,
+            'Check the restriction modifications.',
+        ],
+        Failure_RestrictionAccount_Invalid_Modification_Address: [
+            'The restriction address is invalid.',
+            false,
+            'Use an address of the network other than the signer.',
+        ],
+        Failure_RestrictionAccount_Modification_Operation_Type_Incompatible: [
+            'The existing restrictions are of the opposite type, allow or block.',
+            false,
+            'Remove the existing restrictions first.',
+        ],
+        Failure_RestrictionAccount_Redundant_Modification: [
+            'A restriction value is modified more than once.',
+            false,
+            'Remove the repeated values.',
+        ],
+        Failure_RestrictionAccount_Invalid_Modification: [
+            'The restriction value to remove does not exist.',
+            false,
+            'Remove existing restriction values only.',
+        ],
+        Failure_RestrictionAccount_Modification_Count_Exceeded: [
+            'The transaction has too many restriction modifications.',
+            false,
+            'Split the modifications in several transactions.',
+        ],
+        Failure_RestrictionAccount_No_Modifications: [
+            'The transaction has no restriction modifications.',
+            false,
+            'Add or remove at least a value.',
+        ],
+        Failure_RestrictionAccount_Values_Count_Exceeded: [
+            'The account would have too many restriction values.',
+            false,
+            'Remove restriction values first.',
+        ],
+        Failure_RestrictionAccount_Invalid_Value: ['A restriction value is invalid.', false, 'Check the restriction values.'],
+        Failure_RestrictionAccount_Address_Interaction_Prohibited: [
+            'The account restrictions of the signer or the recipient do not allow them to interact.',
+            false,
+            'Ask the account to update its address restrictions.',
+        ],
+        Failure_RestrictionAccount_Mosaic_Transfer_Prohibited: [
+            'The account restrictions of the recipient do not accept the mosaic.',
+            false,
+            'Ask the recipient to update its mosaic restrictions.',
+        ],
+        Failure_RestrictionAccount_Operation_Type_Prohibited: [
+            'The account restrictions of the signer do not allow this transaction type.',
+            false,
+            'Update the operation restrictions of the signer.',
+        ],
+        Failure_RestrictionMosaic_Invalid_Restriction_Type: [
+            'The mosaic restriction type is invalid.',
+            false,
+            'Use one of the MosaicRestrictionType values.',
+        ],
+        Failure_RestrictionMosaic_Previous_Value_Mismatch: [
+            'The previous restriction value does not match the current value.',
+            true,
+            'Create the transaction again with the MosaicRestrictionTransactionService.',
+        ],
+        Failure_RestrictionMosaic_Previous_Value_Must_Be_Zero: [
+            'The previous restriction value must be zero.',
+            false,
+            'Create the transaction with the MosaicRestrictionTransactionService.',
+        ],
+        Failure_RestrictionMosaic_Max_Restrictions_Exceeded: [
+            'The mosaic would have too many restrictions.',
+            false,
+            'Remove restrictions first.',
+        ],
+        Failure_RestrictionMosaic_Cannot_Delete_Nonexistent_Restriction: [
+            'The restriction to delete does not exist.',
+            false,
+            'Delete existing restrictions only.',
+        ],
+        Failure_RestrictionMosaic_Unknown_Global_Restriction: [
+            'The mosaic has no global restriction with this key.',
+            false,
+            'Create the global restriction before the address restrictions.',
+        ],
+        Failure_RestrictionMosaic_Invalid_Global_Restriction: [
+            'The global restriction of the mosaic is invalid.',
+            false,
+            'Check the reference mosaic and the restriction type.',
+        ],
+        Failure_RestrictionMosaic_Account_Unauthorized: [
+            'The signer or the recipient does not meet the mosaic restrictions.',
+            false,
+            'Ask the mosaic owner to set the address restrictions of the accounts.',
+        ],
+        Failure_Transfer_Message_Too_Large: ['The message is too large.', false, 'Use a message within maxMessageSize of the network.'],
+        Failure_Transfer_Out_Of_Order_Mosaics: [
+            'The mosaics are not sorted or repeated.',
+            false,
+            'Send each mosaic once, the SDK sorts them.',
+        ],
+        Failure_Chain_Unlinked: ['The block does not link to the chain.', true, 'Wait until the node is synchronized.'],
+        Failure_Chain_Block_Not_Hit: ['The block is not a hit.', true, 'Wait until the node is synchronized.'],
+        Failure_Chain_Block_Inconsistent_State_Hash: [
+            'The block has an inconsistent state hash.',
+            true,
+            'Wait until the node is synchronized.',
+        ],
+        Failure_Chain_Block_Inconsistent_Receipts_Hash: [
+            'The block has an inconsistent receipts hash.',
+            true,
+            'Wait until the node is synchronized.',
+        ],
+        Failure_Chain_Unconfirmed_Cache_Too_Full: [
+            'The unconfirmed transactions cache of the node is full.',
+            true,
+            'Announce the transaction again later or to another node, or increase the max fee.',
+        ],
+        Failure_Consumer_Empty_Input: ['The node received an empty input.', false, 'Announce a transaction payload.'],
+        Failure_Consumer_Block_Transactions_Hash_Mismatch: [
+            'The block transactions hash does not match the transactions.',
+            true,
+            'Wait until the node is synchronized.',
+        ],
+        Neutral_Consumer_Hash_In_Recency_Cache: [
+            'The transaction was announced recently.',
+            false,
+            'Nothing to do, wait for the transaction announced before.',
+        ],
+        Failure_Consumer_Remote_Chain_Too_Many_Blocks: [
+            'The remote chain has too many blocks.',
+            true,
+            'Wait until the node is synchronized.',
+        ],
+        Failure_Consumer_Remote_Chain_Improper_Link: [
+            'The remote chain is improperly linked.',
+            true,
+            'Wait until the node is synchronized.',
+        ],
+        Failure_Consumer_Remote_Chain_Duplicate_Transactions: [
+            'The remote chain contains duplicate transactions.',
+            true,
+            'Wait until the node is synchronized.',
+        ],
+        Failure_Consumer_Remote_Chain_Unlinked: [
+            'The remote chain does not link to the chain.',
+            true,
+            'Wait until the node is synchronized.',
+        ],
+        Failure_Consumer_Remote_Chain_Difficulties_Mismatch: [
+            'The remote chain difficulties do not match.',
+            true,
+            'Wait until the node is synchronized.',
+        ],
+        Failure_Consumer_Remote_Chain_Score_Not_Better: [
+            'The remote chain score is not better.',
+            true,
+            'Wait until the node is synchronized.',
+        ],
+        Failure_Consumer_Remote_Chain_Too_Far_Behind: ['The remote chain is too far behind.', true, 'Wait until the node is synchronized.'],
+        Failure_Consumer_Remote_Chain_Too_Far_In_Future: [
+            'The remote chain timestamp is too far in the future.',
+            true,
+            'Wait until the node is synchronized.',
+        ],
+        Failure_Consumer_Batch_Signature_Not_Verifiable: [
+            'The signature of the transaction is invalid.',
+            false,
+            'Sign the transaction with the generation hash of the node and do not modify it after signing.',
+        ],
+        Failure_Extension_Partial_Transaction_Cache_Prune: [
+            'The aggregate bonded transaction expired before getting all the cosignatures.',
+            false,
+            'Announce a new hash lock and aggregate bonded transaction, and collect the cosignatures before the deadline.',
+        ],
+        Failure_Extension_Partial_Transaction_Dependency_Removed: [
+            'The hash lock of the aggregate bonded transaction was removed.',
+            false,
+            'Announce a new hash lock and aggregate bonded transaction.',
+        ],
+        Failure_Extension_Read_Rate_Limit_Exceeded: [
+            'The node rate limit was exceeded.',
+            true,
+            'Announce the transaction again later or to another node.',
+        ],
+    };
+
+    /**
+     * Describes a status code. Codes missing from the catalog, e.g. from newer nodes, get a generic description.
+     * @param code - the status code, e.g. `Failure_Core_Insufficient_Balance`.
+     * @returns {TransactionStatusDescription}
+     */
+    public static describe(code: string): TransactionStatusDescription {
+        const entry: StatusEntry = TransactionStatusCatalog.ENTRIES[code] || [
+            `The transaction was rejected with status ${code}.`,
+            false,
+            'Check the node logs for the cause.',
+        ];
+        return new TransactionStatusDescription(code, TransactionStatusCatalog.getGroup(code), ...entry);
+    }
+
+    /**
+     * All the status codes of the catalog.
+     * @param group - only the codes of this group, all the codes by default.
+     * @returns {TransactionStatusDescription[]}
+     */
+    public static getAll(group?: TransactionStatusGroup): TransactionStatusDescription[] {
+        return Object.keys(TransactionStatusCatalog.ENTRIES)
+            .map((code) => TransactionStatusCatalog.describe(code))
+            .filter((description) => group === undefined || description.group === group);
+    }
+
+    /**
+     * @internal
+     * The group of a status code by its prefix.
+     */
+    private static getGroup(code: string): TransactionStatusGroup {
+        const prefix = TransactionStatusCatalog.GROUP_PREFIXES.find(([groupPrefix]) => code.startsWith(groupPrefix));
+        return prefix ? prefix[1] : TransactionStatusGroup.Core;
+    }
+}
@@ -0,0 +1,37 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { TransactionStatusGroup } from './TransactionStatusGroup';
+
+/**
+ * The meaning of a transaction status code, from the {@link TransactionStatusCatalog}.
+ */
+export class TransactionStatusDescription {
+    /**
+     * @param code - the status code, e.g. `Failure_Core_Insufficient_Balance`.
+     * @param group - the plugin or component of the node reporting the status.
+     * @param description - what the status means.
+     * @param retryable - if announcing the same transaction again later may succeed.
+     * @param suggestedFix - what to do to get the transaction accepted.
+     */
+    constructor(
+        public readonly code: string,
+        public readonly group: TransactionStatusGroup,
+        public readonly description: string,
+        public readonly retryable: boolean,
+        public readonly suggestedFix: string,
+    ) {}
+}
@@ -0,0 +1,65 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * The plugin or component of the node reporting a transaction status.
+ */
+export enum TransactionStatusGroup {
+    /**
+     * The basic checks of every transaction: deadline, fee, balance, signature and network.
+     */
+    Core = 'Core',
+    /**
+     * Account key links.
+     */
+    AccountLink = 'AccountLink',
+    /**
+     * Aggregate transactions and their cosignatures.
+     */
+    Aggregate = 'Aggregate',
+    /**
+     * Hash and secret locks.
+     */
+    Lock = 'Lock',
+    /**
+     * Account, mosaic and namespace metadata.
+     */
+    Metadata = 'Metadata',
+    /**
+     * Mosaic definitions and supply changes.
+     */
+    Mosaic = 'Mosaic',
+    /**
+     * Multisig accounts.
+     */
+    Multisig = 'Multisig',
+    /**
+     * Namespaces and aliases.
+     */
+    Namespace = 'Namespace',
+    /**
+     * Account restrictions and mosaic restrictions.
+     */
+    Restriction = 'Restriction',
+    /**
+     * Transfer transactions.
+     */
+    Transfer = 'Transfer',
+    /**
+     * The node processing the transaction: chain synchronization, caches and rate limits.
+     */
+    Node = 'Node',
+}
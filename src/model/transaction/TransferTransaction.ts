@@ -34,10 +34,10 @@ import { DtoMapping } from '../../core/utils/DtoMapping';
 import { UnresolvedMapping } from '../../core/utils/UnresolvedMapping';
 import { Address } from '../account/Address';
 import { PublicAccount } from '../account/PublicAccount';
-import { EncryptedMessage } from '../message/EncryptedMessage';
 import { Message } from '../message/Message';
+import { MessageCodecRegistry } from '../message/MessageCodecRegistry';
+import { MessageFactory } from '../message/MessageFactory';
 import { MessageType } from '../message/MessageType';
-import { PlainMessage } from '../message/PlainMessage';
 import { Mosaic } from '../mosaic/Mosaic';
 import { NamespaceId } from '../namespace/NamespaceId';
 import { NetworkType } from '../network/NetworkType';
@@ -60,6 +60,7 @@ export class TransferTransaction extends Transaction {
      *
      * - This method can also be used to create PersistentDelegationRequestTransaction
      * with `PersistentHarvestingDelegationMessage` provided.
+     * - Typed and envelope messages cannot exceed the maximum message size.
      * @param deadline - The deadline to include the transaction.
      * @param recipientAddress - The recipient address of the transaction.
      * @param mosaics - The array of mosaics.
@@ -80,6 +81,13 @@ export class TransferTransaction extends Transaction {
         signature?: string,
         signer?: PublicAccount,
     ): TransferTransaction {
+        if (message.type === MessageType.TypedMessage || message.type === MessageType.EncryptedEnvelopeMessage) {
+            const size = message.payload.length / 2;
+            const maxMessageSize = MessageCodecRegistry.DEFAULT_MAX_MESSAGE_SIZE;
+            if (size > maxMessageSize) {
+                throw new Error(`Message of ${size} bytes exceeds the maximum message size of ${maxMessageSize} bytes`);
+            }
+        }
         return new TransferTransaction(
             networkType,
             TransactionVersion.TRANSFER,
@@ -140,8 +148,6 @@ export class TransferTransaction extends Transaction {
         const builder = isEmbedded
             ? EmbeddedTransferTransactionBuilder.loadFromBinary(Convert.hexToUint8(payload))
             : TransferTransactionBuilder.loadFromBinary(Convert.hexToUint8(payload));
-        const messageType = builder.getMessage()[0];
-        const messageHex = Convert.uint8ToHex(builder.getMessage()).substring(2);
         const signerPublicKey = Convert.uint8ToHex(builder.getSignerPublicKey().key);
         const networkType = builder.getNetwork().valueOf();
         const signature = payload.substring(16, 144);
@@ -152,9 +158,7 @@ export class TransferTransaction extends Transaction {
                 const id = new UInt64(mosaic.mosaicId.unresolvedMosaicId).toHex();
                 return new Mosaic(UnresolvedMapping.toUnresolvedMosaic(id), new UInt64(mosaic.amount.amount));
             }),
-            messageType === MessageType.PlainMessage
-                ? PlainMessage.createFromPayload(messageHex)
-                : EncryptedMessage.createFromPayload(messageHex),
+            MessageFactory.createMessageFromBuffer(builder.getMessage()),
             networkType,
             isEmbedded ? new UInt64([0, 0]) : new UInt64((builder as TransferTransactionBuilder).fee.amount),
             isEmbedded || signature.match(`^[0]+$`) ? undefined : signature,
@@ -212,7 +216,9 @@ export class TransferTransaction extends Transaction {
      */
     public getMessageBuffer(): Uint8Array {
         const messgeHex =
-            this.message.type === MessageType.PersistentHarvestingDelegationMessage
+            this.message.type === MessageType.PersistentHarvestingDelegationMessage ||
+            this.message.type === MessageType.EncryptedEnvelopeMessage ||
+            this.message.type === MessageType.TypedMessage
                 ? this.message.payload
                 : Convert.utf8ToHex(this.message.payload);
         const payloadBuffer = Convert.hexToUint8(messgeHex);
@@ -0,0 +1,74 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { ExtendedKey } from '../../core/crypto/ExtendedKey';
+
+/**
+ * BIP44 derivation path model, for example m/44'/4343'/0'/0'/0'.
+ *
+ * Only hardened levels are supported as required by SLIP-10 ed25519 derivation.
+ */
+export class DerivationPath {
+    /**
+     * Registered SLIP-44 coin type.
+     */
+    public static readonly COIN_TYPE = 4343;
+
+    /**
+     * @param indexes - the hardened child indexes without the hardened offset.
+     */
+    private constructor(public readonly indexes: number[]) {}
+
+    /**
+     * Parses a derivation path like m/44'/4343'/0'/0'/0'.
+     * @param path - the path to parse
+     * @returns {DerivationPath}
+     */
+    public static createFromString(path: string): DerivationPath {
+        const levels = path.trim().split('/');
+        if (levels.shift() !== 'm') {
+            throw new Error(`Derivation path ${path} must start with m`);
+        }
+        const indexes = levels.map((level) => {
+            if (!/^\d+'$/.test(level)) {
+                throw new Error(`Derivation path ${path} has an invalid or non hardened level ${level}`);
+            }
+            const index = parseInt(level.substring(0, level.length - 1), 10);
+            if (index >= ExtendedKey.HARDENED_OFFSET) {
+                throw new Error(`Derivation path ${path} has an out of range level ${level}`);
+            }
+            return index;
+        });
+        return new DerivationPath(indexes);
+    }
+
+    /**
+     * Creates the default BIP44 path of an account index: m/44'/coinType'/index'/0'/0'.
+     * @param accountIndex - the account index
+     * @param coinType - the coin type, 4343 by default
+     * @returns {DerivationPath}
+     */
+    public static createForAccount(accountIndex: number, coinType = DerivationPath.COIN_TYPE): DerivationPath {
+        return DerivationPath.createFromString(`m/44'/${coinType}'/${accountIndex}'/0'/0'`);
+    }
+
+    /**
+     * @returns {string} the path in m/44'/4343'/0'/0'/0' notation.
+     */
+    public toString(): string {
+        return ['m', ...this.indexes.map((index) => `${index}'`)].join('/');
+    }
+}
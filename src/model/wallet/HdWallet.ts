@@ -0,0 +1,164 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Crypto } from '../../core/crypto';
+import { ExtendedKey } from '../../core/crypto/ExtendedKey';
+import { Account } from '../account/Account';
+import { Address } from '../account/Address';
+import { NetworkType } from '../network/NetworkType';
+import { DerivationPath } from './DerivationPath';
+import { IHdWalletDTO } from './IHdWalletDTO';
+import { MnemonicPassPhrase } from './MnemonicPassPhrase';
+import { Password } from './Password';
+import { Wallet } from './Wallet';
+
+/**
+ * Hierarchical deterministic wallet. A single encrypted BIP39 mnemonic pass phrase backs
+ * any number of accounts derived along the m/44'/4343'/index'/0'/0' SLIP-10 paths.
+ */
+export class HdWallet extends Wallet {
+    /**
+     * Creates an instance of HdWallet.
+     * @param {string} name
+     * @param {Address} address - the address of the first account (index 0)
+     * @param {string} encryptedMnemonic
+     * @param {string} language - the BIP39 word list language of the mnemonic
+     */
+    constructor(
+        name: string,
+        address: Address,
+        public readonly encryptedMnemonic: string,
+        public readonly language: string = MnemonicPassPhrase.DEFAULT_LANGUAGE,
+    ) {
+        super(name, address, 'hd_v1');
+    }
+
+    /**
+     * Create a HD wallet with a new random mnemonic pass phrase
+     * @param name - Wallet name
+     * @param password - Password to encrypt wallet
+     * @param network - Network id
+     * @param language - BIP39 word list language, english by default
+     * @returns {HdWallet}
+     */
+    public static create(name: string, password: Password, network: NetworkType, language?: string): HdWallet {
+        return HdWallet.createFromMnemonic(name, password, MnemonicPassPhrase.createRandom(language), network);
+    }
+
+    /**
+     * Create a HD wallet from an existing mnemonic pass phrase
+     * @param name - Wallet name
+     * @param password - Password to encrypt wallet
+     * @param mnemonic - Wallet mnemonic pass phrase
+     * @param network - Network id
+     * @returns {HdWallet}
+     */
+    public static createFromMnemonic(name: string, password: Password, mnemonic: MnemonicPassPhrase, network: NetworkType): HdWallet {
+        if (!mnemonic.isValid()) {
+            throw new Error('Mnemonic pass phrase is not valid');
+        }
+        const account = HdWallet.deriveAccount(ExtendedKey.createFromSeed(mnemonic.toSeed()), 0, network);
+
+        // Encrypt mnemonic using password
+        const encryptedMnemonic = Crypto.encrypt(mnemonic.plain, password.value);
+
+        return new HdWallet(name, account.address, encryptedMnemonic, mnemonic.language);
+    }
+
+    /**
+     * Instantiate a HdWallet from a DTO
+     * @param hdWalletDTO HD wallet without prototype
+     * @returns {HdWallet}
+     */
+    public static createFromDTO(hdWalletDTO: IHdWalletDTO): HdWallet {
+        return new HdWallet(
+            hdWalletDTO.name,
+            Address.createFromRawAddress(hdWalletDTO.address.address),
+            hdWalletDTO.encryptedMnemonic,
+            hdWalletDTO.language,
+        );
+    }
+
+    /**
+     * Derives the account of the given index from a master key
+     * @param masterKey - the SLIP-10 master key of the BIP39 seed
+     * @param index - the account index
+     * @param network - Network id
+     * @returns {Account}
+     */
+    public static deriveAccount(masterKey: ExtendedKey, index: number, network: NetworkType): Account {
+        const path = DerivationPath.createForAccount(index);
+        return Account.createFromPrivateKey(masterKey.derivePath(path.indexes).privateKeyHex, network);
+    }
+
+    /**
+     * Creates a HdWallet DTO
+     * @returns {IHdWalletDTO}
+     */
+    public toDTO(): IHdWalletDTO {
+        return JSON.parse(JSON.stringify(this));
+    }
+
+    /**
+     * Decrypts the wallet mnemonic pass phrase
+     * @param password - Password to decrypt the mnemonic
+     * @returns {MnemonicPassPhrase}
+     */
+    public getMnemonic(password: Password): MnemonicPassPhrase {
+        let plain: string;
+        try {
+            plain = Crypto.decrypt(this.encryptedMnemonic, password.value);
+        } catch (e) {
+            plain = '';
+        }
+        const mnemonic = new MnemonicPassPhrase(plain, this.language);
+        if (!plain || !mnemonic.isValid()) {
+            throw new Error('Wallet could not be opened, the password is invalid');
+        }
+        return mnemonic;
+    }
+
+    /**
+     * Open a wallet and generate the first account (index 0)
+     * @param password - Password to decrypt the mnemonic
+     * @returns {Account}
+     */
+    public open(password: Password): Account {
+        return this.openAccount(password, 0);
+    }
+
+    /**
+     * Open a wallet and generate the account of the given index
+     * @param password - Password to decrypt the mnemonic
+     * @param index - the account index
+     * @returns {Account}
+     */
+    public openAccount(password: Password, index: number): Account {
+        return this.openAccounts(password, index, 1)[0];
+    }
+
+    /**
+     * Open a wallet and generate a range of accounts. The mnemonic is decrypted only once.
+     * @param password - Password to decrypt the mnemonic
+     * @param startIndex - the first account index
+     * @param count - the number of accounts to generate
+     * @returns {Account[]}
+     */
+    public openAccounts(password: Password, startIndex: number, count: number): Account[] {
+        const masterKey = ExtendedKey.createFromSeed(this.getMnemonic(password).toSeed());
+        return Array.from({ length: count }, (_, i) => HdWallet.deriveAccount(masterKey, startIndex + i, this.networkType));
+    }
+}
@@ -0,0 +1,113 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as bip39 from 'bip39';
+import { Crypto } from '../../core/crypto';
+import { Convert as convert } from '../../core/format';
+
+/**
+ * BIP39 mnemonic pass phrase model.
+ *
+ * @see https://github.com/bitcoin/bips/blob/master/bip-0039.mediawiki
+ */
+export class MnemonicPassPhrase {
+    /**
+     * Default BIP39 language.
+     */
+    public static readonly DEFAULT_LANGUAGE = 'english';
+
+    /**
+     * Default entropy strength in bits, creates a 24 words mnemonic.
+     */
+    public static readonly DEFAULT_STRENGTH = 256;
+
+    /**
+     * @param plain - the space separated words
+     * @param language - the BIP39 word list language
+     */
+    constructor(public readonly plain: string, public readonly language: string = MnemonicPassPhrase.DEFAULT_LANGUAGE) {
+        if (!bip39.wordlists[language]) {
+            throw new Error(`Language ${language} is not supported`);
+        }
+    }
+
+    /**
+     * Creates a random mnemonic pass phrase.
+     * @param language - the BIP39 word list language, english by default
+     * @param strength - the entropy strength in bits, multiple of 32 between 128 and 256
+     * @returns {MnemonicPassPhrase}
+     */
+    public static createRandom(
+        language = MnemonicPassPhrase.DEFAULT_LANGUAGE,
+        strength = MnemonicPassPhrase.DEFAULT_STRENGTH,
+    ): MnemonicPassPhrase {
+        if (strength % 32 !== 0 || strength < 128 || strength > 256) {
+            throw new Error(`Invalid strength ${strength}, it must be a multiple of 32 between 128 and 256`);
+        }
+        return MnemonicPassPhrase.createFromEntropy(convert.uint8ToHex(Crypto.randomBytes(strength / 8)), language);
+    }
+
+    /**
+     * Creates a mnemonic pass phrase from its entropy.
+     * @param entropy - the entropy hex string
+     * @param language - the BIP39 word list language, english by default
+     * @returns {MnemonicPassPhrase}
+     */
+    public static createFromEntropy(entropy: string, language = MnemonicPassPhrase.DEFAULT_LANGUAGE): MnemonicPassPhrase {
+        const wordlist = bip39.wordlists[language];
+        if (!wordlist) {
+            throw new Error(`Language ${language} is not supported`);
+        }
+        return new MnemonicPassPhrase(bip39.entropyToMnemonic(entropy.toLowerCase(), wordlist), language);
+    }
+
+    /**
+     * Validates the words and checksum of the pass phrase.
+     * @returns {boolean}
+     */
+    public isValid(): boolean {
+        return bip39.validateMnemonic(this.plain, bip39.wordlists[this.language]);
+    }
+
+    /**
+     * The entropy of the pass phrase.
+     * @returns {string} the entropy as upper case hex string.
+     */
+    public toEntropy(): string {
+        return bip39.mnemonicToEntropy(this.plain, bip39.wordlists[this.language]).toUpperCase();
+    }
+
+    /**
+     * Derives the BIP39 seed of the pass phrase.
+     * @param password - the optional BIP39 password (sometimes called 25th word)
+     * @returns {Uint8Array} the 64 bytes seed.
+     */
+    public toSeed(password = ''): Uint8Array {
+        if (!this.isValid()) {
+            throw new Error('Mnemonic pass phrase is not valid');
+        }
+        return new Uint8Array(bip39.mnemonicToSeedSync(this.plain, password));
+    }
+
+    /**
+     * The words of the pass phrase, normalized with NFKD. Any white space separates them, e.g. the ideographic
+     * space of japanese mnemonics.
+     * @returns {string[]} the words of the pass phrase.
+     */
+    public toArray(): string[] {
+        return this.plain.normalize('NFKD').trim().split(/\s+/u);
+    }
+}
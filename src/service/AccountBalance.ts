@@ -0,0 +1,34 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Address } from '../model/account/Address';
+import { MosaicAmountView } from './MosaicAmountView';
+
+/**
+ * The balances of an account tracked by the {@link BalanceTracker}.
+ */
+export class AccountBalance {
+    /**
+     * @param address - the account address.
+     * @param confirmed - the balances once the confirmed transactions and block receipts are applied.
+     * @param pending - the balances the account will have once its unconfirmed transactions are confirmed.
+     */
+    constructor(
+        public readonly address: Address,
+        public readonly confirmed: MosaicAmountView[],
+        public readonly pending: MosaicAmountView[],
+    ) {}
+}
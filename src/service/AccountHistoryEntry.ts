@@ -0,0 +1,72 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Address } from '../model/account/Address';
+import { UnresolvedAddress } from '../model/account/UnresolvedAddress';
+import { Mosaic } from '../model/mosaic/Mosaic';
+import { AggregateTransaction } from '../model/transaction/AggregateTransaction';
+import { Transaction } from '../model/transaction/Transaction';
+import { UInt64 } from '../model/UInt64';
+import { MosaicAmountView } from './MosaicAmountView';
+import { TransactionDirection } from './TransactionDirection';
+
+/**
+ * A confirmed transaction of an account history. Inner transactions of aggregates get their own entries, an aggregate
+ * only gets an entry when the account signs it but none of its inner transactions.
+ */
+export class AccountHistoryEntry {
+    /**
+     * @param transaction - the transaction with the aliases resolved when the block statements allow it.
+     * @param aggregate - the aggregate transaction when the transaction is an inner transaction.
+     * @param direction - the direction of the transaction for the account.
+     * @param signerAddress - the address of the signer.
+     * @param signerName - the first namespace linked to the signer, if any.
+     * @param recipientAddress - the recipient of the transaction, if the transaction has one.
+     * @param recipientName - the first namespace linked to the recipient, if any.
+     * @param mosaics - the mosaics sent or locked by the transaction with their mosaic info.
+     * @param unresolvedMosaics - the mosaics sent or locked by the transaction whose alias cannot be resolved or whose
+     * mosaic info cannot be loaded, with their original id.
+     * @param fee - the effective fee paid by the account. Only the first entry of an aggregate carries the fee.
+     */
+    constructor(
+        public readonly transaction: Transaction,
+        public readonly aggregate: AggregateTransaction | undefined,
+        public readonly direction: TransactionDirection,
+        public readonly signerAddress: Address,
+        public readonly signerName: string | undefined,
+        public readonly recipientAddress: UnresolvedAddress | undefined,
+        public readonly recipientName: string | undefined,
+        public readonly mosaics: MosaicAmountView[],
+        public readonly unresolvedMosaics: Mosaic[],
+        public readonly fee?: UInt64,
+    ) {}
+
+    /**
+     * The height of the block including the transaction.
+     * @returns {UInt64}
+     */
+    public get height(): UInt64 {
+        return this.transaction.transactionInfo!.height;
+    }
+
+    /**
+     * The hash of the transaction, or the hash of the aggregate for inner transactions.
+     * @returns {string | undefined}
+     */
+    public get hash(): string | undefined {
+        return (this.aggregate || this.transaction).transactionInfo?.hash;
+    }
+}
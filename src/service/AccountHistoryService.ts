@@ -0,0 +1,353 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { forkJoin, from, Observable, of } from 'rxjs';
+import { bufferCount, catchError, concatMap, map, mergeMap, toArray } from 'rxjs/operators';
+import { MosaicRepository } from '../infrastructure/MosaicRepository';
+import { NamespaceRepository } from '../infrastructure/NamespaceRepository';
+import { TransactionPaginationStreamer } from '../infrastructure/paginationStreamer/TransactionPaginationStreamer';
+import { ReceiptRepository } from '../infrastructure/ReceiptRepository';
+import { RepositoryFactory } from '../infrastructure/RepositoryFactory';
+import { TransactionSearchCriteria } from '../infrastructure/searchCriteria/TransactionSearchCriteria';
+import { TransactionGroup } from '../infrastructure/TransactionGroup';
+import { TransactionRepository } from '../infrastructure/TransactionRepository';
+import { Address } from '../model/account/Address';
+import { UnresolvedAddress } from '../model/account/UnresolvedAddress';
+import { Mosaic } from '../model/mosaic/Mosaic';
+import { MosaicId } from '../model/mosaic/MosaicId';
+import { MosaicInfo } from '../model/mosaic/MosaicInfo';
+import { NamespaceId } from '../model/namespace/NamespaceId';
+import { NamespaceName } from '../model/namespace/NamespaceName';
+import { Statement } from '../model/receipt/Statement';
+import { AggregateTransaction } from '../model/transaction/AggregateTransaction';
+import { LockFundsTransaction } from '../model/transaction/LockFundsTransaction';
+import { SecretLockTransaction } from '../model/transaction/SecretLockTransaction';
+import { SecretProofTransaction } from '../model/transaction/SecretProofTransaction';
+import { Transaction } from '../model/transaction/Transaction';
+import { TransferTransaction } from '../model/transaction/TransferTransaction';
+import { UInt64 } from '../model/UInt64';
+import { AccountHistoryEntry } from './AccountHistoryEntry';
+import { MosaicAmountView } from './MosaicAmountView';
+import { TransactionDirection } from './TransactionDirection';
+
+/**
+ * The extra information loaded for a batch of transactions.
+ */
+interface HistoryLookups {
+    accountNames: Map<string, string>;
+    mosaicNames: Map<string, string>;
+    mosaicInfos: Map<string, MosaicInfo>;
+    fees: Map<string, UInt64>;
+}
+
+/**
+ * Account History Service
+ *
+ * It streams the confirmed transactions of an account ready to be displayed: aliases resolved with the block
+ * statements, namespace names, mosaic amounts with divisibility, direction and paid fees.
+ */
+export class AccountHistoryService {
+    /**
+     * The number of transactions processed together when the criteria doesn't define a page size.
+     */
+    public static readonly DEFAULT_BATCH_SIZE = 20;
+
+    private readonly transactionRepository: TransactionRepository;
+    private readonly receiptRepository: ReceiptRepository;
+    private readonly namespaceRepository: NamespaceRepository;
+    private readonly mosaicRepository: MosaicRepository;
+
+    /**
+     * Constructor
+     * @param repositoryFactory
+     */
+    constructor(repositoryFactory: RepositoryFactory) {
+        this.transactionRepository = repositoryFactory.createTransactionRepository();
+        this.receiptRepository = repositoryFactory.createReceiptRepository();
+        this.namespaceRepository = repositoryFactory.createNamespaceRepository();
+        this.mosaicRepository = repositoryFactory.createMosaicRepository();
+    }
+
+    /**
+     * Streams the confirmed transactions of an account. Aggregate transactions are flattened into one entry per inner
+     * transaction involving the account, an aggregate the account signs without being involved in its inner transactions
+     * keeps a single entry.
+     * @param address - the account address
+     * @param criteria - extra search criteria, like the order or the transaction types
+     * @returns {Observable<AccountHistoryEntry>}
+     */
+    public getHistory(
+        address: Address,
+        criteria: Omit<TransactionSearchCriteria, 'group' | 'address' | 'embedded'> = {},
+    ): Observable<AccountHistoryEntry> {
+        return new TransactionPaginationStreamer(this.transactionRepository)
+            .search({ ...criteria, group: TransactionGroup.Confirmed, address })
+            .pipe(
+                bufferCount(criteria.pageSize || AccountHistoryService.DEFAULT_BATCH_SIZE),
+                concatMap((transactions) => this.createEntries(address, transactions)),
+                mergeMap((entries) => entries),
+            );
+    }
+
+    /**
+     * @internal
+     * Resolves the aliases of a batch and loads the names, mosaics and fees its entries need.
+     */
+    private createEntries(address: Address, transactions: Transaction[]): Observable<AccountHistoryEntry[]> {
+        return this.resolveAliases(transactions).pipe(
+            mergeMap((resolved) => {
+                const flattened = ([] as Transaction[]).concat(
+                    ...resolved.map((transaction) => AccountHistoryService.getEntryTransactions(address, transaction)),
+                );
+                const addresses = flattened
+                    .map((transaction) => [transaction.signer!.address, AccountHistoryService.getRecipient(transaction)])
+                    .reduce((all, list) => all.concat(list), [] as (UnresolvedAddress | undefined)[])
+                    .filter((unresolved): unresolved is Address => unresolved instanceof Address);
+                const mosaicIds = flattened
+                    .map((transaction) => AccountHistoryService.getMosaics(transaction).map((mosaic) => mosaic.id))
+                    .reduce((all, list) => all.concat(list), [])
+                    .filter((mosaicId): mosaicId is MosaicId => mosaicId instanceof MosaicId);
+                const paidTransactions = resolved.filter((transaction) => transaction.signer!.address.equals(address));
+                return this.loadLookups(
+                    AccountHistoryService.distinct(addresses, (a) => a.plain()),
+                    AccountHistoryService.distinct(mosaicIds, (id) => id.toHex()),
+                    paidTransactions.map((transaction) => transaction.transactionInfo!.hash!),
+                ).pipe(
+                    map((lookups) =>
+                        resolved
+                            .map((transaction) => this.toEntries(address, transaction, lookups))
+                            .reduce((all, entries) => all.concat(entries), []),
+                    ),
+                );
+            }),
+        );
+    }
+
+    /**
+     * @internal
+     * Resolves the aliases of the transactions using the statements of their blocks. Transactions whose aliases
+     * cannot be resolved are kept as they are.
+     */
+    private resolveAliases(transactions: Transaction[]): Observable<Transaction[]> {
+        const unresolved = transactions.filter((transaction) => AccountHistoryService.hasAliases(transaction));
+        const heights = AccountHistoryService.distinct(
+            unresolved.map((transaction) => transaction.transactionInfo!.height),
+            (height) => height.toString(),
+        );
+        return from(heights).pipe(
+            mergeMap((height) =>
+                this.receiptRepository.getBlockReceipts(height).pipe(
+                    map((statement): [string, Statement | undefined] => [height.toString(), statement]),
+                    catchError(() => of<[string, Statement | undefined]>([height.toString(), undefined])),
+                ),
+            ),
+            toArray(),
+            map((entries) => {
+                const statements = new Map(entries);
+                return transactions.map((transaction) => {
+                    const statement = statements.get(transaction.transactionInfo!.height.toString());
+                    if (!statement || !unresolved.includes(transaction)) {
+                        return transaction;
+                    }
+                    try {
+                        return transaction.resolveAliases(statement);
+                    } catch (e) {
+                        return transaction;
+                    }
+                });
+            }),
+        );
+    }
+
+    /**
+     * @internal
+     * Loads the names of the accounts and the mosaics, the mosaic infos and the fees of the given hashes.
+     */
+    private loadLookups(addresses: Address[], mosaicIds: MosaicId[], hashes: string[]): Observable<HistoryLookups> {
+        const accountNames = addresses.length
+            ? this.namespaceRepository
+                  .getAccountsNames(addresses)
+                  .pipe(map((names) => AccountHistoryService.toNameMap(names.map((n) => [n.address.plain(), n.names]))))
+            : of(new Map<string, string>());
+        const mosaicNames = mosaicIds.length
+            ? this.namespaceRepository
+                  .getMosaicsNames(mosaicIds)
+                  .pipe(map((names) => AccountHistoryService.toNameMap(names.map((n) => [n.mosaicId.toHex(), n.names]))))
+            : of(new Map<string, string>());
+        const mosaicInfos = mosaicIds.length
+            ? this.mosaicRepository.getMosaics(mosaicIds).pipe(map((infos) => new Map(infos.map((info) => [info.id.toHex(), info]))))
+            : of(new Map<string, MosaicInfo>());
+        const fees = from(hashes).pipe(
+            mergeMap((hash) =>
+                this.transactionRepository
+                    .getTransactionEffectiveFee(hash)
+                    .pipe(map((fee): [string, UInt64] => [hash, UInt64.fromUint(fee)])),
+            ),
+            toArray(),
+            map((entries) => new Map(entries)),
+        );
+        return forkJoin([accountNames, mosaicNames, mosaicInfos, fees]).pipe(
+            map(([accounts, mosaics, infos, paid]) => ({ accountNames: accounts, mosaicNames: mosaics, mosaicInfos: infos, fees: paid })),
+        );
+    }
+
+    /**
+     * @internal
+     * Creates the entries of a top level transaction, one per inner transaction involving the account for aggregates.
+     */
+    private toEntries(address: Address, transaction: Transaction, lookups: HistoryLookups): AccountHistoryEntry[] {
+        const fee = lookups.fees.get(transaction.transactionInfo!.hash!);
+        return AccountHistoryService.getEntryTransactions(address, transaction).map((entryTransaction, index) =>
+            this.toEntry(
+                address,
+                entryTransaction,
+                entryTransaction !== transaction ? (transaction as AggregateTransaction) : undefined,
+                lookups,
+                index === 0 ? fee : undefined,
+            ),
+        );
+    }
+
+    /**
+     * @internal
+     * The transactions getting an entry, the inner transactions involving the account for aggregates. The aggregate
+     * itself gets the entry when the account signs it but none of its inner transactions, so the paid fee is not lost.
+     */
+    private static getEntryTransactions(address: Address, transaction: Transaction): Transaction[] {
+        if (!(transaction instanceof AggregateTransaction)) {
+            return [transaction];
+        }
+        const involved = transaction.innerTransactions.filter((inner) => AccountHistoryService.isInvolved(address, inner));
+        return involved.length || !transaction.signer!.address.equals(address) ? involved : [transaction];
+    }
+
+    /**
+     * @internal
+     */
+    private toEntry(
+        address: Address,
+        transaction: Transaction,
+        aggregate: AggregateTransaction | undefined,
+        lookups: HistoryLookups,
+        fee?: UInt64,
+    ): AccountHistoryEntry {
+        const signerAddress = transaction.signer!.address;
+        const recipientAddress = AccountHistoryService.getRecipient(transaction);
+        const allMosaics = AccountHistoryService.getMosaics(transaction);
+        const mosaics = allMosaics
+            .filter((mosaic) => lookups.mosaicInfos.has(mosaic.id.toHex()))
+            .map(
+                (mosaic) =>
+                    new MosaicAmountView(
+                        lookups.mosaicInfos.get(mosaic.id.toHex())!,
+                        mosaic.amount,
+                        lookups.mosaicNames.get(mosaic.id.toHex()),
+                    ),
+            );
+        return new AccountHistoryEntry(
+            transaction,
+            aggregate,
+            AccountHistoryService.getDirection(address, signerAddress, recipientAddress),
+            signerAddress,
+            lookups.accountNames.get(signerAddress.plain()),
+            recipientAddress,
+            recipientAddress instanceof Address ? lookups.accountNames.get(recipientAddress.plain()) : undefined,
+            mosaics,
+            allMosaics.filter((mosaic) => !lookups.mosaicInfos.has(mosaic.id.toHex())),
+            fee,
+        );
+    }
+
+    /**
+     * @internal
+     * Checks if the account signs or receives the transaction.
+     */
+    private static isInvolved(address: Address, transaction: Transaction): boolean {
+        return (
+            AccountHistoryService.getDirection(address, transaction.signer!.address, AccountHistoryService.getRecipient(transaction)) !==
+            TransactionDirection.None
+        );
+    }
+
+    /**
+     * @internal
+     */
+    private static getDirection(address: Address, signerAddress: Address, recipientAddress?: UnresolvedAddress): TransactionDirection {
+        const outgoing = signerAddress.equals(address);
+        const incoming = recipientAddress instanceof Address && recipientAddress.equals(address);
+        if (outgoing && incoming) {
+            return TransactionDirection.Self;
+        }
+        if (outgoing) {
+            return TransactionDirection.Outgoing;
+        }
+        return incoming ? TransactionDirection.Incoming : TransactionDirection.None;
+    }
+
+    /**
+     * @internal
+     */
+    private static getRecipient(transaction: Transaction): UnresolvedAddress | undefined {
+        if (
+            transaction instanceof TransferTransaction ||
+            transaction instanceof SecretLockTransaction ||
+            transaction instanceof SecretProofTransaction
+        ) {
+            return transaction.recipientAddress;
+        }
+        return undefined;
+    }
+
+    /**
+     * @internal
+     */
+    private static getMosaics(transaction: Transaction): Mosaic[] {
+        if (transaction instanceof TransferTransaction) {
+            return transaction.mosaics;
+        }
+        if (transaction instanceof SecretLockTransaction || transaction instanceof LockFundsTransaction) {
+            return [transaction.mosaic];
+        }
+        return [];
+    }
+
+    /**
+     * @internal
+     * Checks if the transaction, or any of its inner transactions, has a recipient or a mosaic defined with an alias.
+     */
+    private static hasAliases(transaction: Transaction): boolean {
+        const transactions = transaction instanceof AggregateTransaction ? transaction.innerTransactions : [transaction];
+        return transactions.some(
+            (t) =>
+                AccountHistoryService.getRecipient(t) instanceof NamespaceId ||
+                AccountHistoryService.getMosaics(t).some((mosaic) => mosaic.id instanceof NamespaceId),
+        );
+    }
+
+    /**
+     * @internal
+     */
+    private static toNameMap(entries: [string, NamespaceName[]][]): Map<string, string> {
+        return new Map(entries.filter(([, names]) => names.length > 0).map(([key, names]): [string, string] => [key, names[0].name]));
+    }
+
+    /**
+     * @internal
+     */
+    private static distinct<T>(values: T[], key: (value: T) => string): T[] {
+        return values.filter((value, index) => values.findIndex((other) => key(other) === key(value)) === index);
+    }
+}
@@ -69,7 +69,7 @@ export class AggregateTransactionService {
                             _.minApproval !== 0 && _.minRemoval !== 0
                                 ? this.multisigRepository
                                       .getMultisigAccountGraphInfo(_.accountAddress)
-                                      .pipe(map((graphInfo) => this.validateCosignatories(graphInfo, signers, innerTransaction)))
+                                      .pipe(map((graphInfo) => this.isSignerApproved(graphInfo, signers, innerTransaction)))
                                 : observableOf(signers.find((s) => s.equals(_.accountAddress)) !== undefined),
                         ),
                     ),
@@ -115,69 +115,38 @@ export class AggregateTransactionService {
     }
 
     /**
-     * Validate cosignatories against multisig Account(s)
+     * Checks if the signer of an inner transaction gets the cosignatures its multisig graph requires. The multisig
+     * accounts are approved from the bottom level to the top, an approved account counts as a cosignatory of the next level.
      * @param graphInfo - multisig account graph info
-     * @param cosignatories - array of cosignatories extracted from aggregated transaction
+     * @param cosignatories - the accounts signing the aggregate transaction
      * @param innerTransaction - the inner transaction of the aggregated transaction
      * @returns {boolean}
      */
-    private validateCosignatories(
-        graphInfo: MultisigAccountGraphInfo,
-        cosignatories: Address[],
-        innerTransaction: InnerTransaction,
-    ): boolean {
-        /**
-         *  Validate cosignatories from bottom level to top
-         */
+    public isSignerApproved(graphInfo: MultisigAccountGraphInfo, cosignatories: Address[], innerTransaction: InnerTransaction): boolean {
         const sortedKeys = Array.from(graphInfo.multisigEntries.keys()).sort((a, b) => b - a);
-        const cosignatoriesReceived = cosignatories.map((cosig) => cosig.plain());
-        let validationResult = false;
-
-        let isMultisigRemoval = false;
-
-        /**
-         * Check inner transaction. If remove cosigner from multisig account,
-         * use minRemoval instead of minApproval for cosignatories validation.
-         */
-        if (innerTransaction.type === TransactionType.MULTISIG_ACCOUNT_MODIFICATION) {
-            if ((innerTransaction as MultisigAccountModificationTransaction).addressDeletions.length) {
-                isMultisigRemoval = true;
-            }
-        }
+        const approved = cosignatories.map((cosig) => cosig.plain());
+        const isMultisigRemoval =
+            innerTransaction.type === TransactionType.MULTISIG_ACCOUNT_MODIFICATION &&
+            (innerTransaction as MultisigAccountModificationTransaction).addressDeletions.length > 0;
 
         sortedKeys.forEach((key) => {
-            const multisigInfo = graphInfo.multisigEntries.get(key);
-            if (multisigInfo && !validationResult) {
-                multisigInfo.forEach((multisig) => {
-                    if (multisig.minApproval >= 1 && multisig.minRemoval) {
-                        // To make sure it is multisig account
-                        const matchedCosignatories = this.compareArrays(
-                            cosignatoriesReceived,
-                            multisig.cosignatoryAddresses.map((cosig) => cosig.plain()),
-                        );
-
-                        /**
-                         * if minimal signature requirement met at current level, push the multisig account
-                         * into the received signatories array for next level validation.
-                         * Otherwise return validation failed.
-                         */
-                        if (
-                            (matchedCosignatories.length >= multisig.minApproval && !isMultisigRemoval) ||
-                            (matchedCosignatories.length >= multisig.minRemoval && isMultisigRemoval)
-                        ) {
-                            if (cosignatoriesReceived.indexOf(multisig.accountAddress.plain()) === -1) {
-                                cosignatoriesReceived.push(multisig.accountAddress.plain());
-                            }
-                            validationResult = true;
-                        } else {
-                            validationResult = false;
-                        }
-                    }
-                });
-            }
+            (graphInfo.multisigEntries.get(key) || []).forEach((multisig) => {
+                const required = isMultisigRemoval ? multisig.minRemoval : multisig.minApproval;
+                const matchedCosignatories = this.compareArrays(
+                    approved,
+                    multisig.cosignatoryAddresses.map((cosig) => cosig.plain()),
+                );
+                if (
+                    multisig.isMultisig() &&
+                    matchedCosignatories.length >= required &&
+                    approved.indexOf(multisig.accountAddress.plain()) === -1
+                ) {
+                    approved.push(multisig.accountAddress.plain());
+                }
+            });
         });
 
-        return validationResult;
+        return approved.indexOf(innerTransaction.signer!.address.plain()) !== -1;
     }
 
     /**
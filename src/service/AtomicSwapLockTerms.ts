@@ -0,0 +1,39 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Address } from '../model/account/Address';
+import { UnresolvedMosaicId } from '../model/mosaic/UnresolvedMosaicId';
+import { UInt64 } from '../model/UInt64';
+
+/**
+ * The terms the counterparty lock of an atomic swap must meet, see {@link AtomicSwapService.watchLock}.
+ */
+export class AtomicSwapLockTerms {
+    /**
+     * @param mosaicId - the mosaic the counterparty agreed to lock, lock aliases are resolved before comparing.
+     * @param minAmount - the minimum amount the counterparty agreed to lock.
+     * @param minDuration - the minimum blocks the lock must have left, the lock must last long enough to be claimed.
+     * @param maxDuration - the maximum blocks the lock may have left, the own lock must not expire before the counterparty one.
+     * @param senderAddress - the counterparty address, when known the lock must be signed by it.
+     */
+    constructor(
+        public readonly mosaicId: UnresolvedMosaicId,
+        public readonly minAmount: UInt64,
+        public readonly minDuration: UInt64,
+        public readonly maxDuration: UInt64,
+        public readonly senderAddress?: Address,
+    ) {}
+}
@@ -0,0 +1,28 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { SecretLockTransaction } from '../model/transaction/SecretLockTransaction';
+
+/**
+ * The matching lock transactions of an atomic swap, ready to be signed on each chain.
+ */
+export class AtomicSwapLocks {
+    /**
+     * @param initiatorLock - the lock of the initiator on the initiator chain, to be claimed by the participant.
+     * @param participantLock - the lock of the participant on the participant chain, to be claimed by the initiator.
+     */
+    constructor(public readonly initiatorLock: SecretLockTransaction, public readonly participantLock: SecretLockTransaction) {}
+}
@@ -0,0 +1,32 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { LockHashAlgorithm } from '../model/transaction/LockHashAlgorithm';
+
+/**
+ * The proof and secret pair of an atomic swap.
+ *
+ * The secret is shared with the counterparty and used in both locks, the proof is kept private by the initiator
+ * until it's published to claim the counterparty lock.
+ */
+export class AtomicSwapSecret {
+    /**
+     * @param hashAlgorithm - the hash algorithm the secret is generated with.
+     * @param proof - the proof in hex.
+     * @param secret - the proof hashed, in hex.
+     */
+    constructor(public readonly hashAlgorithm: LockHashAlgorithm, public readonly proof: string, public readonly secret: string) {}
+}
@@ -0,0 +1,425 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { forkJoin, merge, Observable, of, throwError } from 'rxjs';
+import { catchError, concatMap, filter, map, mergeMap, take } from 'rxjs/operators';
+import { Crypto } from '../core/crypto';
+import { Convert } from '../core/format/Convert';
+import { LockHashUtils } from '../core/utils/LockHashUtils';
+import { NetworkPropertyParser } from '../core/utils/NetworkPropertyParser';
+import { IListener } from '../infrastructure/IListener';
+import { ReceiptPaginationStreamer } from '../infrastructure/paginationStreamer/ReceiptPaginationStreamer';
+import { TransactionPaginationStreamer } from '../infrastructure/paginationStreamer/TransactionPaginationStreamer';
+import { RepositoryError } from '../infrastructure/RepositoryError';
+import { RepositoryFactory } from '../infrastructure/RepositoryFactory';
+import { TransactionGroup } from '../infrastructure/TransactionGroup';
+import { Account } from '../model/account/Account';
+import { Address } from '../model/account/Address';
+import { Mosaic } from '../model/mosaic/Mosaic';
+import { UnresolvedMosaicId } from '../model/mosaic/UnresolvedMosaicId';
+import { NamespaceId } from '../model/namespace/NamespaceId';
+import { NetworkConfiguration } from '../model/network/NetworkConfiguration';
+import { BalanceChangeReceipt } from '../model/receipt/BalanceChangeReceipt';
+import { ReceiptType } from '../model/receipt/ReceiptType';
+import { Deadline } from '../model/transaction/Deadline';
+import { LockHashAlgorithm } from '../model/transaction/LockHashAlgorithm';
+import { SecretLockTransaction } from '../model/transaction/SecretLockTransaction';
+import { SecretProofTransaction } from '../model/transaction/SecretProofTransaction';
+import { SignedTransaction } from '../model/transaction/SignedTransaction';
+import { Transaction } from '../model/transaction/Transaction';
+import { TransactionType } from '../model/transaction/TransactionType';
+import { UInt64 } from '../model/UInt64';
+import { AtomicSwapChain } from './AtomicSwapChain';
+import { AtomicSwapLocks } from './AtomicSwapLocks';
+import { AtomicSwapLockTerms } from './AtomicSwapLockTerms';
+import { AtomicSwapSecret } from './AtomicSwapSecret';
+
+/**
+ * Atomic Swap Service
+ *
+ * It coordinates a cross-chain swap between an initiator and a participant using secret locks:
+ * 1. The initiator creates the secret and locks its mosaics to the participant on the initiator chain.
+ * 2. The participant watches the initiator lock and locks its mosaics to the initiator on the participant chain,
+ *    using the same secret and a shorter duration.
+ * 3. The initiator watches the participant lock and claims it publishing the proof on the participant chain.
+ * 4. The participant watches the proof and uses it to claim the initiator lock on the initiator chain.
+ *
+ * If any party walks away, the locks expire and the funds are refunded, see {@link AtomicSwapService.watchRefund}.
+ */
+export class AtomicSwapService {
+    /**
+     * How much longer, in time, the initiator lock lasts compared to the participant lock. It leaves the participant
+     * the other half of the time to claim the initiator lock after the proof is published.
+     */
+    public static readonly DURATION_SAFETY_FACTOR = 2;
+
+    /**
+     * Constructor
+     * @param initiatorRepositoryFactory the repository factory of the initiator chain
+     * @param participantRepositoryFactory the repository factory of the participant chain
+     */
+    constructor(
+        private readonly initiatorRepositoryFactory: RepositoryFactory,
+        private readonly participantRepositoryFactory: RepositoryFactory,
+    ) {}
+
+    /**
+     * Generates a random proof and its secret
+     * @param hashAlgorithm - the hash algorithm used to generate the secret
+     * @param proofSize - the proof size in bytes
+     * @returns {AtomicSwapSecret}
+     */
+    public static createSecret(hashAlgorithm: LockHashAlgorithm = LockHashAlgorithm.Op_Sha3_256, proofSize = 32): AtomicSwapSecret {
+        const proof = Convert.uint8ToHex(Crypto.randomBytes(proofSize));
+        return new AtomicSwapSecret(hashAlgorithm, proof, LockHashUtils.Hash(hashAlgorithm, Convert.hexToUint8(proof)));
+    }
+
+    /**
+     * Creates the matching locks of both chains. The initiator lock duration is computed from the participant one so
+     * it lasts {@link AtomicSwapService.DURATION_SAFETY_FACTOR} times longer in time, using the block generation target
+     * time of each network.
+     * @param hashAlgorithm - the hash algorithm the secret is generated with
+     * @param secret - the secret in hex
+     * @param initiatorMosaic - the mosaic the initiator locks on the initiator chain
+     * @param participantAddress - the participant address on the initiator chain
+     * @param participantMosaic - the mosaic the participant locks on the participant chain
+     * @param initiatorAddress - the initiator address on the participant chain
+     * @param participantDuration - the participant lock duration in blocks of the participant chain
+     * @param deadline - the deadline of both locks
+     * @param maxFee - the max fee of both locks
+     * @returns {Observable<AtomicSwapLocks>}
+     */
+    public createLocks(
+        hashAlgorithm: LockHashAlgorithm,
+        secret: string,
+        initiatorMosaic: Mosaic,
+        participantAddress: Address,
+        participantMosaic: Mosaic,
+        initiatorAddress: Address,
+        participantDuration: UInt64,
+        deadline: Deadline = Deadline.create(),
+        maxFee: UInt64 = UInt64.fromUint(0),
+    ): Observable<AtomicSwapLocks> {
+        return forkJoin([
+            this.initiatorRepositoryFactory.getNetworkType(),
+            this.initiatorRepositoryFactory.createNetworkRepository().getNetworkProperties(),
+            this.participantRepositoryFactory.getNetworkType(),
+            this.participantRepositoryFactory.createNetworkRepository().getNetworkProperties(),
+        ]).pipe(
+            map(([initiatorNetworkType, initiatorProperties, participantNetworkType, participantProperties]) => {
+                if (participantDuration.compact() <= 0) {
+                    throw new Error('The participant lock duration must be greater than zero.');
+                }
+                const initiatorBlockTime = AtomicSwapService.getBlockGenerationTargetTime(initiatorProperties);
+                const participantBlockTime = AtomicSwapService.getBlockGenerationTargetTime(participantProperties);
+                const initiatorDuration = UInt64.fromUint(
+                    Math.ceil(
+                        (AtomicSwapService.DURATION_SAFETY_FACTOR * participantDuration.compact() * participantBlockTime) /
+                            initiatorBlockTime,
+                    ),
+                );
+                AtomicSwapService.validateDuration(initiatorDuration, initiatorProperties, initiatorBlockTime);
+                AtomicSwapService.validateDuration(participantDuration, participantProperties, participantBlockTime);
+                return new AtomicSwapLocks(
+                    SecretLockTransaction.create(
+                        deadline,
+                        initiatorMosaic,
+                        initiatorDuration,
+                        hashAlgorithm,
+                        secret,
+                        participantAddress,
+                        initiatorNetworkType,
+                        maxFee,
+                    ),
+                    SecretLockTransaction.create(
+                        deadline,
+                        participantMosaic,
+                        participantDuration,
+                        hashAlgorithm,
+                        secret,
+                        initiatorAddress,
+                        participantNetworkType,
+                        maxFee,
+                    ),
+                );
+            }),
+        );
+    }
+
+    /**
+     * Waits for the confirmed lock of the counterparty. It emits the lock when it's already confirmed.
+     * Locks not meeting the agreed terms are ignored, a wrong mosaic, a smaller amount, a duration out of the window or
+     * another sender would make the swap unsafe. The duration of an already confirmed lock is the number of blocks it has
+     * left before expiring, expired locks are ignored.
+     * @param chain - the chain of the lock
+     * @param hashAlgorithm - the hash algorithm the secret is generated with
+     * @param secret - the secret in hex
+     * @param recipientAddress - the recipient of the lock, the address of the party waiting for it
+     * @param terms - the terms the lock must meet
+     * @param listener - an open listener of the chain
+     * @returns {Observable<SecretLockTransaction>}
+     */
+    public watchLock(
+        chain: AtomicSwapChain,
+        hashAlgorithm: LockHashAlgorithm,
+        secret: string,
+        recipientAddress: Address,
+        terms: AtomicSwapLockTerms,
+        listener: IListener,
+    ): Observable<SecretLockTransaction> {
+        return this.watchConfirmed(chain, TransactionType.SECRET_LOCK, recipientAddress, listener).pipe(
+            filter(
+                (transaction): transaction is SecretLockTransaction =>
+                    transaction instanceof SecretLockTransaction &&
+                    transaction.hashAlgorithm === hashAlgorithm &&
+                    AtomicSwapService.isSameSecret(transaction.secret, secret) &&
+                    AtomicSwapService.meetsTerms(transaction, terms),
+            ),
+            concatMap((lock) =>
+                this.getRemainingBlocks(chain, lock).pipe(
+                    filter(
+                        (remainingBlocks) =>
+                            !!remainingBlocks &&
+                            remainingBlocks.compare(terms.minDuration) >= 0 &&
+                            remainingBlocks.compare(terms.maxDuration) <= 0,
+                    ),
+                    map(() => lock),
+                ),
+            ),
+            concatMap((lock) =>
+                this.resolveMosaicId(chain, lock.mosaic.id, terms.mosaicId).pipe(
+                    filter((mosaicId) => !!mosaicId && mosaicId.equals(terms.mosaicId)),
+                    map(() => lock),
+                ),
+            ),
+            take(1),
+        );
+    }
+
+    /**
+     * Signs and announces the proof claiming the lock of the given recipient.
+     * @param chain - the chain of the lock to claim
+     * @param secret - the proof and secret
+     * @param recipientAddress - the recipient of the lock
+     * @param account - the account announcing the proof
+     * @param deadline - the deadline of the proof
+     * @param maxFee - the max fee of the proof
+     * @returns {Observable<SignedTransaction>}
+     */
+    public announceProof(
+        chain: AtomicSwapChain,
+        secret: AtomicSwapSecret,
+        recipientAddress: Address,
+        account: Account,
+        deadline: Deadline = Deadline.create(),
+        maxFee: UInt64 = UInt64.fromUint(0),
+    ): Observable<SignedTransaction> {
+        const repositoryFactory = this.getRepositoryFactory(chain);
+        return forkJoin([repositoryFactory.getNetworkType(), repositoryFactory.getGenerationHash()]).pipe(
+            mergeMap(([networkType, generationHash]) => {
+                const proof = SecretProofTransaction.create(
+                    deadline,
+                    secret.hashAlgorithm,
+                    secret.secret,
+                    recipientAddress,
+                    secret.proof,
+                    networkType,
+                    maxFee,
+                );
+                const signedTransaction = account.sign(proof, generationHash);
+                return repositoryFactory
+                    .createTransactionRepository()
+                    .announce(signedTransaction)
+                    .pipe(map(() => signedTransaction));
+            }),
+        );
+    }
+
+    /**
+     * Waits for the confirmed proof of the given secret, the participant uses it to claim the initiator lock.
+     * @param chain - the chain where the proof is published
+     * @param hashAlgorithm - the hash algorithm the secret is generated with
+     * @param secret - the secret in hex
+     * @param recipientAddress - the recipient of the claimed lock
+     * @param listener - an open listener of the chain
+     * @returns {Observable<AtomicSwapSecret>}
+     */
+    public watchProof(
+        chain: AtomicSwapChain,
+        hashAlgorithm: LockHashAlgorithm,
+        secret: string,
+        recipientAddress: Address,
+        listener: IListener,
+    ): Observable<AtomicSwapSecret> {
+        return this.watchConfirmed(chain, TransactionType.SECRET_PROOF, recipientAddress, listener).pipe(
+            filter(
+                (transaction): transaction is SecretProofTransaction =>
+                    transaction instanceof SecretProofTransaction &&
+                    transaction.hashAlgorithm === hashAlgorithm &&
+                    AtomicSwapService.isSameSecret(transaction.secret, secret) &&
+                    AtomicSwapService.isSameSecret(LockHashUtils.Hash(hashAlgorithm, Convert.hexToUint8(transaction.proof)), secret),
+            ),
+            map((transaction) => new AtomicSwapSecret(hashAlgorithm, transaction.proof, secret)),
+            take(1),
+        );
+    }
+
+    /**
+     * Waits for the expiration height of a confirmed lock and emits the LockSecret_Expired receipt refunding its
+     * signer. It completes without emitting when the lock was claimed before expiring.
+     * @param chain - the chain of the lock
+     * @param lock - the confirmed lock
+     * @param listener - an open listener of the chain
+     * @returns {Observable<BalanceChangeReceipt>}
+     */
+    public watchRefund(chain: AtomicSwapChain, lock: SecretLockTransaction, listener: IListener): Observable<BalanceChangeReceipt> {
+        if (!lock.transactionInfo || !lock.transactionInfo.height || !lock.signer) {
+            throw new Error('The secret lock must be a confirmed transaction.');
+        }
+        const repositoryFactory = this.getRepositoryFactory(chain);
+        const expirationHeight = lock.transactionInfo.height.add(lock.duration);
+        const signerAddress = lock.signer.address;
+        return merge(
+            repositoryFactory.createChainRepository().getBlockchainHeight(),
+            listener.newBlock().pipe(map((block) => block.height)),
+        ).pipe(
+            filter((height) => height.compare(expirationHeight) >= 0),
+            take(1),
+            mergeMap(() =>
+                new ReceiptPaginationStreamer(repositoryFactory.createReceiptRepository()).transactionStatements().search({
+                    height: expirationHeight,
+                    receiptTypes: [ReceiptType.LockSecret_Expired],
+                    targetAddress: signerAddress,
+                }),
+            ),
+            mergeMap((statement) => statement.receipts),
+            filter(
+                (receipt): receipt is BalanceChangeReceipt =>
+                    receipt instanceof BalanceChangeReceipt &&
+                    receipt.type === ReceiptType.LockSecret_Expired &&
+                    receipt.targetAddress.equals(signerAddress) &&
+                    receipt.amount.equals(lock.mosaic.amount),
+            ),
+            take(1),
+        );
+    }
+
+    /**
+     * @internal
+     * The already confirmed transactions of the given type and recipient followed by the new ones.
+     */
+    private watchConfirmed(
+        chain: AtomicSwapChain,
+        type: TransactionType,
+        recipientAddress: Address,
+        listener: IListener,
+    ): Observable<Transaction> {
+        const streamer = new TransactionPaginationStreamer(this.getRepositoryFactory(chain).createTransactionRepository());
+        return merge(
+            streamer.search({ group: TransactionGroup.Confirmed, type: [type], recipientAddress }),
+            listener.confirmed(recipientAddress).pipe(filter((transaction) => transaction.type === type)),
+        );
+    }
+
+    /**
+     * @internal
+     * Resolves the alias of the lock mosaic when the expected mosaic is not an alias.
+     * @returns the mosaic id to compare, undefined if the alias is not linked.
+     */
+    private resolveMosaicId(
+        chain: AtomicSwapChain,
+        mosaicId: UnresolvedMosaicId,
+        expectedMosaicId: UnresolvedMosaicId,
+    ): Observable<UnresolvedMosaicId | undefined> {
+        if (!(mosaicId instanceof NamespaceId) || expectedMosaicId instanceof NamespaceId) {
+            return of(mosaicId);
+        }
+        return this.getRepositoryFactory(chain)
+            .createNamespaceRepository()
+            .getLinkedMosaicId(mosaicId)
+            .pipe(
+                map((linkedMosaicId) => linkedMosaicId || undefined),
+                catchError((error) => (error instanceof RepositoryError && error.statusCode === 404 ? of(undefined) : throwError(error))),
+            );
+    }
+
+    /**
+     * @internal
+     * The blocks a lock has left before expiring, the lock expires at its confirmation height plus its duration.
+     * @returns the remaining blocks, undefined if the lock has already expired.
+     */
+    private getRemainingBlocks(chain: AtomicSwapChain, lock: SecretLockTransaction): Observable<UInt64 | undefined> {
+        if (!lock.transactionInfo || !lock.transactionInfo.height) {
+            return of(lock.duration);
+        }
+        const expirationHeight = lock.transactionInfo.height.add(lock.duration);
+        return this.getRepositoryFactory(chain)
+            .createChainRepository()
+            .getBlockchainHeight()
+            .pipe(map((height) => (expirationHeight.compare(height) > 0 ? expirationHeight.subtract(height) : undefined)));
+    }
+
+    /**
+     * @internal
+     * Checks the amount and sender of a lock. The duration is checked against the remaining blocks and the mosaic once
+     * its alias is resolved.
+     */
+    private static meetsTerms(lock: SecretLockTransaction, terms: AtomicSwapLockTerms): boolean {
+        return (
+            lock.mosaic.amount.compare(terms.minAmount) >= 0 &&
+            (!terms.senderAddress || (!!lock.signer && lock.signer.address.equals(terms.senderAddress)))
+        );
+    }
+
+    /**
+     * @internal
+     */
+    private getRepositoryFactory(chain: AtomicSwapChain): RepositoryFactory {
+        return chain === AtomicSwapChain.Initiator ? this.initiatorRepositoryFactory : this.participantRepositoryFactory;
+    }
+
+    /**
+     * @internal
+     * Secrets of Op_Hash_160 locks may come right padded with zeros up to 32 bytes.
+     */
+    private static isSameSecret(secret: string, otherSecret: string): boolean {
+        const normalize = (value: string): string => value.toUpperCase().padEnd(64, '0');
+        return normalize(secret) === normalize(otherSecret);
+    }
+
+    /**
+     * @internal
+     * @returns the block generation target time in seconds
+     */
+    private static getBlockGenerationTargetTime(properties: NetworkConfiguration): number {
+        const blockGenerationTargetTime = properties.chain.blockGenerationTargetTime;
+        if (!blockGenerationTargetTime) {
+            throw new Error('Cannot get blockGenerationTargetTime from network properties.');
+        }
+        return NetworkPropertyParser.toSeconds(blockGenerationTargetTime);
+    }
+
+    /**
+     * @internal
+     * Checks the duration doesn't exceed the maxSecretLockDuration of the network, when known.
+     */
+    private static validateDuration(duration: UInt64, properties: NetworkConfiguration, blockTime: number): void {
+        const maxSecretLockDuration = properties.plugins.locksecret?.maxSecretLockDuration;
+        if (maxSecretLockDuration && duration.compact() * blockTime > NetworkPropertyParser.toSeconds(maxSecretLockDuration)) {
+            throw new Error(`Lock duration of ${duration.compact()} blocks exceeds the maxSecretLockDuration ${maxSecretLockDuration}.`);
+        }
+    }
+}
@@ -0,0 +1,53 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Address } from '../model/account/Address';
+import { MosaicId } from '../model/mosaic/MosaicId';
+import { UInt64 } from '../model/UInt64';
+
+/**
+ * The balance of a mosaic of an account predicted by the {@link TransactionSimulationService}.
+ */
+export class BalanceChange {
+    /**
+     * @param address - the account address.
+     * @param mosaicId - the mosaic id.
+     * @param balance - the current balance.
+     * @param predictedBalance - the balance once the transaction is confirmed, it doesn't go below zero.
+     */
+    constructor(
+        public readonly address: Address,
+        public readonly mosaicId: MosaicId,
+        public readonly balance: UInt64,
+        public readonly predictedBalance: UInt64,
+    ) {}
+
+    /**
+     * If the balance increases.
+     * @returns {boolean}
+     */
+    public isIncrease(): boolean {
+        return this.predictedBalance.compare(this.balance) > 0;
+    }
+
+    /**
+     * The amount the balance increases or decreases by.
+     * @returns {UInt64}
+     */
+    public get amount(): UInt64 {
+        return this.isIncrease() ? this.predictedBalance.subtract(this.balance) : this.balance.subtract(this.predictedBalance);
+    }
+}
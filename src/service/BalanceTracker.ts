@@ -0,0 +1,430 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { forkJoin, from, merge, Observable, of, throwError } from 'rxjs';
+import { catchError, concatMap, filter, map, mergeMap, scan, shareReplay, toArray } from 'rxjs/operators';
+import { NetworkPropertyParser } from '../core/utils/NetworkPropertyParser';
+import { AccountRepository } from '../infrastructure/AccountRepository';
+import { ChainRepository } from '../infrastructure/ChainRepository';
+import { IListener } from '../infrastructure/IListener';
+import { MosaicRepository } from '../infrastructure/MosaicRepository';
+import { NamespaceRepository } from '../infrastructure/NamespaceRepository';
+import { NetworkRepository } from '../infrastructure/NetworkRepository';
+import { TransactionPaginationStreamer } from '../infrastructure/paginationStreamer/TransactionPaginationStreamer';
+import { ReceiptRepository } from '../infrastructure/ReceiptRepository';
+import { RepositoryError } from '../infrastructure/RepositoryError';
+import { RepositoryFactory } from '../infrastructure/RepositoryFactory';
+import { TransactionGroup } from '../infrastructure/TransactionGroup';
+import { TransactionRepository } from '../infrastructure/TransactionRepository';
+import { Address } from '../model/account/Address';
+import { UnresolvedAddress } from '../model/account/UnresolvedAddress';
+import { Mosaic } from '../model/mosaic/Mosaic';
+import { MosaicId } from '../model/mosaic/MosaicId';
+import { MosaicInfo } from '../model/mosaic/MosaicInfo';
+import { UnresolvedMosaicId } from '../model/mosaic/UnresolvedMosaicId';
+import { NamespaceId } from '../model/namespace/NamespaceId';
+import { BalanceChangeReceipt } from '../model/receipt/BalanceChangeReceipt';
+import { BalanceTransferReceipt } from '../model/receipt/BalanceTransferReceipt';
+import { ReceiptType } from '../model/receipt/ReceiptType';
+import { Statement } from '../model/receipt/Statement';
+import { AggregateTransaction } from '../model/transaction/AggregateTransaction';
+import { Transaction } from '../model/transaction/Transaction';
+import { TransferTransaction } from '../model/transaction/TransferTransaction';
+import { UInt64 } from '../model/UInt64';
+import { AccountBalance } from './AccountBalance';
+import { MosaicAmountView } from './MosaicAmountView';
+
+/**
+ * A change of the balance of one mosaic.
+ */
+interface BalanceDelta {
+    mosaicId: MosaicId;
+    amount: UInt64;
+    incoming: boolean;
+}
+
+/**
+ * The balances of a tracked account: the confirmed amounts by mosaic id hex and the deltas of the unconfirmed
+ * transactions by transaction hash.
+ */
+interface BalanceState {
+    confirmed: Map<string, UInt64>;
+    pending: Map<string, BalanceDelta[]>;
+    /**
+     * If the confirmed amounts have been loaded from the account info.
+     */
+    loaded: boolean;
+    /**
+     * The block the account info was loaded after, its changes and the ones of the previous blocks are already in the
+     * confirmed amounts.
+     */
+    loadedHeight?: UInt64;
+}
+
+type BalanceUpdate = (state: BalanceState) => BalanceState;
+
+/**
+ * Balance Tracker
+ *
+ * It keeps the balances of accounts up to date using the listener events instead of polling the account info:
+ * - unconfirmed transfers and their max fees are added to the pending balances and removed when they leave the
+ * unconfirmed group.
+ * - confirmed transfers and their effective fees are applied to the confirmed balances.
+ * - on every new block, the balance receipts of the account (harvest fees, locks, rental fees) are applied to
+ * the confirmed balances. The account info is reloaded when the receipts cannot be loaded.
+ */
+export class BalanceTracker {
+    /**
+     * The receipts debiting the target account of a balance change.
+     */
+    private static readonly DEBIT_RECEIPT_TYPES = [ReceiptType.LockHash_Created, ReceiptType.LockSecret_Created];
+
+    private readonly accountRepository: AccountRepository;
+    private readonly chainRepository: ChainRepository;
+    private readonly transactionRepository: TransactionRepository;
+    private readonly receiptRepository: ReceiptRepository;
+    private readonly namespaceRepository: NamespaceRepository;
+    private readonly mosaicRepository: MosaicRepository;
+    private readonly networkRepository: NetworkRepository;
+
+    /**
+     * The known mosaics, they are loaded once.
+     */
+    private readonly mosaicInfos = new Map<string, Observable<MosaicInfo | undefined>>();
+
+    /**
+     * Constructor
+     * @param repositoryFactory
+     * @param listener - an open listener
+     */
+    constructor(repositoryFactory: RepositoryFactory, private readonly listener: IListener) {
+        this.accountRepository = repositoryFactory.createAccountRepository();
+        this.chainRepository = repositoryFactory.createChainRepository();
+        this.transactionRepository = repositoryFactory.createTransactionRepository();
+        this.receiptRepository = repositoryFactory.createReceiptRepository();
+        this.namespaceRepository = repositoryFactory.createNamespaceRepository();
+        this.mosaicRepository = repositoryFactory.createMosaicRepository();
+        this.networkRepository = repositoryFactory.createNetworkRepository();
+    }
+
+    /**
+     * Tracks the balances of an account. It emits the initial balances and then every time they change.
+     * @param address - the account address
+     * @returns {Observable<AccountBalance>}
+     */
+    public track(address: Address): Observable<AccountBalance> {
+        return this.getCurrencyMosaicId().pipe(
+            mergeMap((currencyMosaicId) => {
+                const initial: BalanceState = { confirmed: new Map(), pending: new Map(), loaded: false };
+                const addPending = (transaction: Transaction): Observable<BalanceUpdate> =>
+                    this.getTransactionDeltas(address, transaction, currencyMosaicId, transaction.maxFee).pipe(
+                        map((deltas) => (state): BalanceState => {
+                            state.pending.set(transaction.transactionInfo!.hash!, deltas);
+                            return state;
+                        }),
+                    );
+                // The listener is subscribed before loading the account info so no change happening meanwhile is lost.
+                return merge(
+                    this.listener.unconfirmedAdded(address).pipe(concatMap(addPending)),
+                    this.listener.unconfirmedRemoved(address).pipe(
+                        map((hash) => (state: BalanceState): BalanceState => {
+                            state.pending.delete(hash);
+                            return state;
+                        }),
+                    ),
+                    this.listener.confirmed(address).pipe(
+                        concatMap((transaction) =>
+                            this.getEffectiveFee(address, transaction).pipe(
+                                mergeMap((fee) => this.getTransactionDeltas(address, transaction, currencyMosaicId, fee)),
+                                map((deltas) => (state: BalanceState): BalanceState => {
+                                    state.pending.delete(transaction.transactionInfo!.hash!);
+                                    if (BalanceTracker.isAfterLoad(state, transaction.transactionInfo!.height)) {
+                                        BalanceTracker.applyDeltas(state.confirmed, deltas);
+                                    }
+                                    return state;
+                                }),
+                            ),
+                        ),
+                    ),
+                    this.listener.newBlock().pipe(
+                        concatMap((block) =>
+                            this.getReceiptDeltas(address, block.height).pipe(
+                                map((deltas) => (state: BalanceState): BalanceState => {
+                                    if (BalanceTracker.isAfterLoad(state, block.height)) {
+                                        BalanceTracker.applyDeltas(state.confirmed, deltas);
+                                    }
+                                    return state;
+                                }),
+                                catchError(() => this.loadBalances(address, block.height)),
+                            ),
+                        ),
+                    ),
+                    this.loadBalances(address),
+                    this.searchUnconfirmed(address).pipe(concatMap(addPending)),
+                ).pipe(
+                    scan((state: BalanceState, update: BalanceUpdate) => update(state), initial),
+                    filter((state) => state.loaded),
+                );
+            }),
+            map((state) => BalanceTracker.getBalances(state)),
+            concatMap(([confirmed, pending]) =>
+                forkJoin([this.toViews(confirmed), this.toViews(pending)]).pipe(
+                    map(([confirmedViews, pendingViews]) => new AccountBalance(address, confirmedViews, pendingViews)),
+                ),
+            ),
+        );
+    }
+
+    /**
+     * @internal
+     * Replaces the confirmed balances with the current mosaics of the account.
+     * @param address - the account address
+     * @param height - the block whose changes are already applied, if the balances are reloaded after a block. The chain
+     * height is read before the account info otherwise.
+     */
+    private loadBalances(address: Address, height?: UInt64): Observable<BalanceUpdate> {
+        return (height ? of(height) : this.chainRepository.getBlockchainHeight()).pipe(
+            mergeMap((loadedHeight) =>
+                this.getAccountMosaics(address).pipe(
+                    map((mosaics) => (state: BalanceState): BalanceState => ({
+                        ...state,
+                        confirmed: new Map(mosaics.map((mosaic): [string, UInt64] => [mosaic.id.toHex(), mosaic.amount])),
+                        loaded: true,
+                        loadedHeight,
+                    })),
+                ),
+            ),
+        );
+    }
+
+    /**
+     * @internal
+     * Checks if the changes of a block are not in the loaded account info yet.
+     */
+    private static isAfterLoad(state: BalanceState, height: UInt64): boolean {
+        return !state.loadedHeight || height.compare(state.loadedHeight) > 0;
+    }
+
+    /**
+     * @internal
+     * The current mosaics of the account, none if the account is not known by the network yet.
+     */
+    private getAccountMosaics(address: Address): Observable<Mosaic[]> {
+        return this.accountRepository.getAccountInfo(address).pipe(
+            map((accountInfo) => accountInfo.mosaics),
+            catchError((err) => {
+                if (err instanceof RepositoryError && err.statusCode === 404) {
+                    return of([]);
+                }
+                return throwError(err);
+            }),
+        );
+    }
+
+    /**
+     * @internal
+     * The mosaic paying the transaction fees. Fees are not tracked when the network doesn't define it.
+     */
+    private getCurrencyMosaicId(): Observable<MosaicId | undefined> {
+        return this.networkRepository.getNetworkProperties().pipe(
+            map((properties) => NetworkPropertyParser.getCurrencyMosaicId(properties)),
+            catchError(() => of(undefined)),
+        );
+    }
+
+    /**
+     * @internal
+     * The transactions of the account waiting to be confirmed when the tracking starts.
+     */
+    private searchUnconfirmed(address: Address): Observable<Transaction> {
+        return new TransactionPaginationStreamer(this.transactionRepository).search({ group: TransactionGroup.Unconfirmed, address });
+    }
+
+    /**
+     * @internal
+     * The effective fee of a confirmed transaction signed by the account.
+     */
+    private getEffectiveFee(address: Address, transaction: Transaction): Observable<UInt64 | undefined> {
+        if (!transaction.signer || !transaction.signer.address.equals(address)) {
+            return of(undefined);
+        }
+        return this.transactionRepository.getTransactionEffectiveFee(transaction.transactionInfo!.hash!).pipe(
+            map((fee) => UInt64.fromUint(fee)),
+            catchError(() => of(undefined)),
+        );
+    }
+
+    /**
+     * @internal
+     * The balance changes of the account caused by the transfers of a transaction and the fee paid.
+     */
+    private getTransactionDeltas(
+        address: Address,
+        transaction: Transaction,
+        currencyMosaicId: MosaicId | undefined,
+        fee: UInt64 | undefined,
+    ): Observable<BalanceDelta[]> {
+        const transfers = (transaction instanceof AggregateTransaction ? transaction.innerTransactions : [transaction]).filter(
+            (t): t is TransferTransaction => t instanceof TransferTransaction,
+        );
+        const feeDeltas: BalanceDelta[] =
+            fee && currencyMosaicId && transaction.signer && transaction.signer.address.equals(address) && fee.compact() > 0
+                ? [{ mosaicId: currencyMosaicId, amount: fee, incoming: false }]
+                : [];
+        return from(transfers).pipe(
+            concatMap((transfer) =>
+                this.resolveAddress(transfer.recipientAddress).pipe(
+                    mergeMap((recipient) => {
+                        const outgoing = transfer.signer!.address.equals(address);
+                        const incoming = !!recipient && recipient.equals(address);
+                        if (outgoing === incoming) {
+                            return of([]);
+                        }
+                        return from(transfer.mosaics).pipe(
+                            concatMap((mosaic) =>
+                                this.resolveMosaicId(mosaic.id).pipe(
+                                    map((mosaicId) => (mosaicId ? [{ mosaicId, amount: mosaic.amount, incoming }] : [])),
+                                ),
+                            ),
+                        );
+                    }),
+                ),
+            ),
+            toArray(),
+            map((deltas) => feeDeltas.concat(...deltas)),
+        );
+    }
+
+    /**
+     * @internal
+     * The balance changes of the account found in the receipts of a block, none if the block has no receipts.
+     */
+    private getReceiptDeltas(address: Address, height: UInt64): Observable<BalanceDelta[]> {
+        return this.receiptRepository.getBlockReceipts(height).pipe(
+            map((statement: Statement) =>
+                statement.transactionStatements
+                    .map((transactionStatement) => transactionStatement.receipts)
+                    .reduce((all, receipts) => all.concat(receipts), [])
+                    .map((receipt): BalanceDelta[] => {
+                        if (receipt instanceof BalanceChangeReceipt && receipt.targetAddress.equals(address)) {
+                            return [
+                                {
+                                    mosaicId: receipt.mosaicId,
+                                    amount: receipt.amount,
+                                    incoming: !BalanceTracker.DEBIT_RECEIPT_TYPES.includes(receipt.type),
+                                },
+                            ];
+                        }
+                        if (receipt instanceof BalanceTransferReceipt) {
+                            const outgoing = receipt.senderAddress.equals(address);
+                            const incoming = receipt.recipientAddress.equals(address);
+                            return outgoing === incoming ? [] : [{ mosaicId: receipt.mosaicId, amount: receipt.amount, incoming }];
+                        }
+                        return [];
+                    })
+                    .reduce((all, deltas) => all.concat(deltas), []),
+            ),
+            catchError((err) => {
+                if (err instanceof RepositoryError && err.statusCode === 404) {
+                    return of([]);
+                }
+                return throwError(err);
+            }),
+        );
+    }
+
+    /**
+     * @internal
+     */
+    private resolveAddress(address: UnresolvedAddress): Observable<Address | undefined> {
+        if (address instanceof Address) {
+            return of(address);
+        }
+        return this.namespaceRepository.getLinkedAddress(address as NamespaceId).pipe(
+            map((linked) => linked || undefined),
+            catchError(() => of(undefined)),
+        );
+    }
+
+    /**
+     * @internal
+     */
+    private resolveMosaicId(mosaicId: UnresolvedMosaicId): Observable<MosaicId | undefined> {
+        if (mosaicId instanceof MosaicId) {
+            return of(mosaicId);
+        }
+        return this.namespaceRepository.getLinkedMosaicId(mosaicId as NamespaceId).pipe(
+            map((linked) => linked || undefined),
+            catchError(() => of(undefined)),
+        );
+    }
+
+    /**
+     * @internal
+     * Converts the balances to mosaic amount views. Mosaics that cannot be loaded are skipped.
+     */
+    private toViews(balances: Map<string, UInt64>): Observable<MosaicAmountView[]> {
+        return from(Array.from(balances.entries())).pipe(
+            concatMap(([mosaicIdHex, amount]) =>
+                this.getMosaicInfo(mosaicIdHex).pipe(map((mosaicInfo) => (mosaicInfo ? [new MosaicAmountView(mosaicInfo, amount)] : []))),
+            ),
+            toArray(),
+            map((views) => ([] as MosaicAmountView[]).concat(...views)),
+        );
+    }
+
+    /**
+     * @internal
+     */
+    private getMosaicInfo(mosaicIdHex: string): Observable<MosaicInfo | undefined> {
+        if (!this.mosaicInfos.has(mosaicIdHex)) {
+            this.mosaicInfos.set(
+                mosaicIdHex,
+                this.mosaicRepository.getMosaic(new MosaicId(mosaicIdHex)).pipe(
+                    catchError(() => of(undefined)),
+                    shareReplay(1),
+                ),
+            );
+        }
+        return this.mosaicInfos.get(mosaicIdHex)!;
+    }
+
+    /**
+     * @internal
+     * Copies the confirmed balances and the balances once the pending deltas are applied.
+     */
+    private static getBalances(state: BalanceState): [Map<string, UInt64>, Map<string, UInt64>] {
+        const pending = new Map(state.confirmed);
+        state.pending.forEach((deltas) => BalanceTracker.applyDeltas(pending, deltas));
+        return [new Map(state.confirmed), pending];
+    }
+
+    /**
+     * @internal
+     * Applies the deltas to the balances. Debits never take a balance below zero.
+     */
+    private static applyDeltas(balances: Map<string, UInt64>, deltas: BalanceDelta[]): void {
+        deltas.forEach((delta) => {
+            const key = delta.mosaicId.toHex();
+            const balance = balances.get(key) || UInt64.fromUint(0);
+            if (delta.incoming) {
+                balances.set(key, balance.add(delta.amount));
+            } else {
+                balances.set(key, balance.compare(delta.amount) > 0 ? balance.subtract(delta.amount) : UInt64.fromUint(0));
+            }
+        });
+    }
+}
@@ -0,0 +1,29 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { UInt64 } from '../model/UInt64';
+import { IncomeTotal } from './IncomeTotal';
+
+/**
+ * The per mosaic totals of a block.
+ */
+export class BlockIncome {
+    /**
+     * @param height - the block height.
+     * @param totals - the per mosaic totals of the block.
+     */
+    constructor(public readonly height: UInt64, public readonly totals: IncomeTotal[]) {}
+}
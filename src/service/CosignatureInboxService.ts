@@ -0,0 +1,254 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { merge, Observable, of, throwError } from 'rxjs';
+import { catchError, distinctUntilChanged, filter, map, mergeMap, scan, toArray } from 'rxjs/operators';
+import { DtoMapping } from '../core/utils/DtoMapping';
+import { IListener } from '../infrastructure/IListener';
+import { MultisigRepository } from '../infrastructure/MultisigRepository';
+import { TransactionPaginationStreamer } from '../infrastructure/paginationStreamer/TransactionPaginationStreamer';
+import { RepositoryError } from '../infrastructure/RepositoryError';
+import { RepositoryFactory } from '../infrastructure/RepositoryFactory';
+import { TransactionGroup } from '../infrastructure/TransactionGroup';
+import { TransactionRepository } from '../infrastructure/TransactionRepository';
+import { Account } from '../model/account/Account';
+import { Address } from '../model/account/Address';
+import { MultisigAccountGraphInfo } from '../model/account/MultisigAccountGraphInfo';
+import { PublicAccount } from '../model/account/PublicAccount';
+import { AggregateTransaction } from '../model/transaction/AggregateTransaction';
+import { AggregateTransactionCosignature } from '../model/transaction/AggregateTransactionCosignature';
+import { CosignatureSignedTransaction } from '../model/transaction/CosignatureSignedTransaction';
+import { CosignatureTransaction } from '../model/transaction/CosignatureTransaction';
+import { TransactionAnnounceResponse } from '../model/transaction/TransactionAnnounceResponse';
+import { AggregateTransactionService } from './AggregateTransactionService';
+
+/**
+ * A change of the pending aggregates map, keyed by transaction hash.
+ */
+type PendingChange = (pending: Map<string, AggregateTransaction>) => Map<string, AggregateTransaction>;
+
+/**
+ * The pending aggregates once the initial search is over, the listener changes received before are buffered.
+ */
+interface PendingState {
+    pending?: Map<string, AggregateTransaction>;
+    buffered: PendingChange[];
+}
+
+/**
+ * Cosignature Inbox Service
+ *
+ * It finds the partial aggregate bonded transactions a cosigner still needs to sign, the ones with inner transactions
+ * signed by the cosigner or by any multisig account it cosigns for, directly or through other multisig accounts.
+ * A transaction is not pending when the received cosignatures already meet the approval of the multisig accounts.
+ */
+export class CosignatureInboxService {
+    private readonly transactionRepository: TransactionRepository;
+
+    private readonly multisigRepository: MultisigRepository;
+
+    private readonly aggregateTransactionService: AggregateTransactionService;
+
+    /**
+     * Constructor
+     * @param repositoryFactory
+     */
+    constructor(repositoryFactory: RepositoryFactory) {
+        this.transactionRepository = repositoryFactory.createTransactionRepository();
+        this.multisigRepository = repositoryFactory.createMultisigRepository();
+        this.aggregateTransactionService = new AggregateTransactionService(repositoryFactory);
+    }
+
+    /**
+     * Searches the partial transactions the cosigner still needs to sign
+     * @param cosigner - the cosigner account
+     * @returns {Observable<AggregateTransaction[]>}
+     */
+    public searchPending(cosigner: PublicAccount): Observable<AggregateTransaction[]> {
+        return this.getGraph(cosigner.address).pipe(mergeMap((graph) => this.searchPendingOf(cosigner, graph)));
+    }
+
+    /**
+     * Keeps the partial transactions the cosigner still needs to sign up to date. It emits the whole set once the
+     * initial search is over and on every change: a new partial transaction, a cosignature completing the approval
+     * or a partial transaction being removed.
+     * @param cosigner - the cosigner account
+     * @param listener - an open listener
+     * @returns {Observable<AggregateTransaction[]>}
+     */
+    public watchPending(cosigner: PublicAccount, listener: IListener): Observable<AggregateTransaction[]> {
+        return this.getGraph(cosigner.address).pipe(
+            mergeMap((graph) => {
+                const addresses = CosignatureInboxService.getCosignedAddresses(cosigner.address, graph);
+                const add = (transactions: AggregateTransaction[]): PendingChange => (pending): Map<string, AggregateTransaction> => {
+                    const updated = new Map(pending);
+                    transactions.forEach((transaction) => updated.set(transaction.transactionInfo!.hash!.toUpperCase(), transaction));
+                    return updated;
+                };
+                const remove = (hash: string): PendingChange => (pending): Map<string, AggregateTransaction> => {
+                    if (!pending.has(hash.toUpperCase())) {
+                        return pending;
+                    }
+                    const updated = new Map(pending);
+                    updated.delete(hash.toUpperCase());
+                    return updated;
+                };
+                const cosign = (cosignature: CosignatureSignedTransaction): PendingChange => (
+                    pending,
+                ): Map<string, AggregateTransaction> => {
+                    const transaction = pending.get(cosignature.parentHash.toUpperCase());
+                    if (!transaction) {
+                        return pending;
+                    }
+                    const cosigned = CosignatureInboxService.addCosignature(transaction, cosignature);
+                    if (!this.isPending(cosigned, cosigner, graph)) {
+                        return remove(cosignature.parentHash)(pending);
+                    }
+                    return add([cosigned])(pending);
+                };
+                const changes: Observable<PendingChange>[] = [];
+                addresses.forEach((address) => {
+                    changes.push(
+                        listener.aggregateBondedAdded(address).pipe(
+                            filter((transaction) => this.isPending(transaction, cosigner, graph)),
+                            map((transaction) => add([transaction])),
+                        ),
+                        listener.aggregateBondedRemoved(address).pipe(map(remove)),
+                        listener.cosignatureAdded(address).pipe(map(cosign)),
+                    );
+                });
+                const initialSearch = this.searchPendingOf(cosigner, graph).pipe(
+                    map((transactions): PendingState => ({ pending: add(transactions)(new Map()), buffered: [] })),
+                );
+                return merge(initialSearch, ...changes).pipe(
+                    scan(
+                        (state: PendingState, event: PendingState | PendingChange): PendingState => {
+                            if (typeof event !== 'function') {
+                                return {
+                                    pending: state.buffered.reduce((pending, change) => change(pending), event.pending!),
+                                    buffered: [],
+                                };
+                            }
+                            return state.pending
+                                ? { pending: event(state.pending), buffered: [] }
+                                : { buffered: state.buffered.concat(event) };
+                        },
+                        { buffered: [] },
+                    ),
+                    map((state) => state.pending),
+                    filter((pending): pending is Map<string, AggregateTransaction> => !!pending),
+                    distinctUntilChanged(),
+                    map((pending) => Array.from(pending.values())),
+                );
+            }),
+        );
+    }
+
+    /**
+     * Cosigns a partial transaction and announces the cosignature
+     * @param transaction - the partial aggregate bonded transaction
+     * @param account - the cosigner account
+     * @returns {Observable<TransactionAnnounceResponse>}
+     */
+    public cosign(transaction: AggregateTransaction, account: Account): Observable<TransactionAnnounceResponse> {
+        const cosignature = CosignatureTransaction.create(transaction).signWith(account);
+        return this.transactionRepository.announceAggregateBondedCosignature(cosignature);
+    }
+
+    /**
+     * @internal
+     * @returns the multisig graph of the cosigner, undefined when the cosigner is not a cosignatory
+     */
+    private getGraph(address: Address): Observable<MultisigAccountGraphInfo | undefined> {
+        return this.multisigRepository.getMultisigAccountGraphInfo(address).pipe(
+            catchError((err) => {
+                if (err instanceof RepositoryError && err.statusCode === 404) {
+                    return of(undefined);
+                }
+                return throwError(err);
+            }),
+        );
+    }
+
+    /**
+     * @internal
+     * @returns the cosigner address and the addresses of the multisig accounts it cosigns for
+     */
+    private static getCosignedAddresses(address: Address, graph?: MultisigAccountGraphInfo): Address[] {
+        if (!graph) {
+            return [address];
+        }
+        const multisigAddresses = Array.from(graph.multisigEntries.keys())
+            .filter((level) => level < 0)
+            .map((level) => graph.multisigEntries.get(level)!.map((entry) => entry.accountAddress));
+        return [address].concat(...multisigAddresses);
+    }
+
+    /**
+     * @internal
+     * @returns the partial transactions of the addresses the cosigner still needs to sign
+     */
+    private searchPendingOf(cosigner: PublicAccount, graph?: MultisigAccountGraphInfo): Observable<AggregateTransaction[]> {
+        const streamer = new TransactionPaginationStreamer(this.transactionRepository);
+        const addresses = CosignatureInboxService.getCosignedAddresses(cosigner.address, graph);
+        return merge(...addresses.map((address) => streamer.search({ group: TransactionGroup.Partial, address }))).pipe(
+            filter((transaction): transaction is AggregateTransaction => transaction instanceof AggregateTransaction),
+            filter((transaction) => this.isPending(transaction, cosigner, graph)),
+            toArray(),
+            map((transactions) => {
+                const unique = new Map<string, AggregateTransaction>();
+                transactions.forEach((transaction) => unique.set(transaction.transactionInfo!.hash!.toUpperCase(), transaction));
+                return Array.from(unique.values());
+            }),
+        );
+    }
+
+    /**
+     * @internal
+     * The approval is checked with the cosigner's graph, the multisig accounts cosigning through their own cosignatories
+     * are not known so the transaction may be reported pending while it is not.
+     * @returns true if the cosigner hasn't signed the transaction yet and it has an inner transaction of the cosigned
+     * addresses whose approval is not met.
+     */
+    private isPending(transaction: AggregateTransaction, cosigner: PublicAccount, graph?: MultisigAccountGraphInfo): boolean {
+        if (transaction.signedByAccount(cosigner)) {
+            return false;
+        }
+        const addresses = CosignatureInboxService.getCosignedAddresses(cosigner.address, graph);
+        const signers = (transaction.signer ? [transaction.signer.address] : []).concat(
+            transaction.cosignatures.map((cosignature) => cosignature.signer.address),
+        );
+        return transaction.innerTransactions.some(
+            (inner) =>
+                addresses.some((address) => address.equals(inner.signer!.address)) &&
+                !(graph && this.aggregateTransactionService.isSignerApproved(graph, signers, inner)),
+        );
+    }
+
+    /**
+     * @internal
+     * @returns the transaction with the received cosignature
+     */
+    private static addCosignature(transaction: AggregateTransaction, cosignature: CosignatureSignedTransaction): AggregateTransaction {
+        const signer = PublicAccount.createFromPublicKey(cosignature.signerPublicKey, transaction.networkType);
+        if (transaction.signedByAccount(signer)) {
+            return transaction;
+        }
+        return DtoMapping.assign(transaction, {
+            cosignatures: transaction.cosignatures.concat(new AggregateTransactionCosignature(cosignature.signature, signer)),
+        });
+    }
+}
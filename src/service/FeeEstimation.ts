@@ -0,0 +1,72 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { TransactionFees } from '../model/network/TransactionFees';
+import { UInt64 } from '../model/UInt64';
+import { FeeStrategy } from './FeeStrategy';
+
+/**
+ * Class representing the max fee estimated for a transaction and how it was calculated.
+ */
+export class FeeEstimation {
+    /**
+     * @param maxFee
+     * @param feeMultiplier
+     * @param strategy
+     * @param transactionSize
+     * @param cosignatures
+     * @param cosignaturesSize
+     * @param transactionFees
+     */
+    constructor(
+        /**
+         * The max fee, feeMultiplier x (transactionSize + cosignaturesSize)
+         */
+        public readonly maxFee: UInt64,
+        /**
+         * The fee multiplier picked by the strategy
+         */
+        public readonly feeMultiplier: number,
+        /**
+         * The strategy used to pick the fee multiplier
+         */
+        public readonly strategy: FeeStrategy,
+        /**
+         * The size of the transaction without the cosignatures
+         */
+        public readonly transactionSize: number,
+        /**
+         * The number of cosignatures the transaction requires
+         */
+        public readonly cosignatures: number,
+        /**
+         * The bytes the cosignatures add to the transaction
+         */
+        public readonly cosignaturesSize: number,
+        /**
+         * The network transaction fees the fee multiplier was picked from
+         */
+        public readonly transactionFees: TransactionFees,
+    ) {}
+
+    /**
+     * The size the fee was calculated for
+     * @returns {number}
+     */
+    public get size(): number {
+        return this.transactionSize + this.cosignaturesSize;
+    }
+}
@@ -0,0 +1,213 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { combineLatest, Observable, of, throwError } from 'rxjs';
+import { catchError, map } from 'rxjs/operators';
+import { DtoMapping } from '../core/utils/DtoMapping';
+import { MultisigRepository } from '../infrastructure/MultisigRepository';
+import { NetworkRepository } from '../infrastructure/NetworkRepository';
+import { RepositoryError } from '../infrastructure/RepositoryError';
+import { RepositoryFactory } from '../infrastructure/RepositoryFactory';
+import { Address } from '../model/account/Address';
+import { MultisigAccountGraphInfo } from '../model/account/MultisigAccountGraphInfo';
+import { MultisigAccountInfo } from '../model/account/MultisigAccountInfo';
+import { TransactionFees } from '../model/network/TransactionFees';
+import { AggregateTransaction } from '../model/transaction/AggregateTransaction';
+import { MultisigAccountModificationTransaction } from '../model/transaction/MultisigAccountModificationTransaction';
+import { Transaction } from '../model/transaction/Transaction';
+import { TransactionType } from '../model/transaction/TransactionType';
+import { UInt64 } from '../model/UInt64';
+import { FeeEstimation } from './FeeEstimation';
+import { FeeStrategy } from './FeeStrategy';
+import { IFeeService } from './interfaces/IFeeService';
+
+/**
+ * Fee Service
+ *
+ * It picks the fee multiplier from the network transaction fees and calculates the max fee from the transaction size.
+ * Aggregates also pay for the cosignatures their inner transaction signers require, except the signature of the
+ * aggregate signer. For multisig signers the cosignatures are counted using the cosignatories that require the most
+ * signatures, so the fee is an upper bound.
+ */
+export class FeeService implements IFeeService {
+    /**
+     * The size of a cosignature: version (8), signer public key (32) and signature (64).
+     */
+    public static readonly COSIGNATURE_SIZE = 104;
+
+    private readonly networkRepository: NetworkRepository;
+
+    private readonly multisigRepository: MultisigRepository;
+
+    /**
+     * Constructor
+     * @param repositoryFactory
+     */
+    constructor(repositoryFactory: RepositoryFactory) {
+        this.networkRepository = repositoryFactory.createNetworkRepository();
+        this.multisigRepository = repositoryFactory.createMultisigRepository();
+    }
+
+    /**
+     * Estimates the max fee of a transaction
+     * @param transaction the transaction, aggregates include the cosignatures their inner signers require
+     * @param strategy the strategy used to pick the fee multiplier
+     * @param percentile the percentile (0 - 100) used by the custom strategy
+     * @returns {Observable<FeeEstimation>}
+     */
+    public estimate(transaction: Transaction, strategy = FeeStrategy.Average, percentile?: number): Observable<FeeEstimation> {
+        if (strategy === FeeStrategy.Custom && (percentile === undefined || percentile < 0 || percentile > 100)) {
+            return throwError(new Error('Custom fee strategy requires a percentile between 0 and 100.'));
+        }
+        const cosignaturesObservable = transaction instanceof AggregateTransaction ? this.getRequiredCosignatures(transaction) : of(0);
+        return combineLatest([this.networkRepository.getTransactionFees(), cosignaturesObservable]).pipe(
+            map(([transactionFees, cosignatures]) => {
+                const feeMultiplier = FeeService.getFeeMultiplier(transactionFees, strategy, percentile);
+                const currentCosignatures = transaction instanceof AggregateTransaction ? transaction.cosignatures.length : 0;
+                const transactionSize = transaction.size - currentCosignatures * FeeService.COSIGNATURE_SIZE;
+                const cosignaturesSize = Math.max(cosignatures, currentCosignatures) * FeeService.COSIGNATURE_SIZE;
+                return new FeeEstimation(
+                    UInt64.fromUint((transactionSize + cosignaturesSize) * feeMultiplier),
+                    feeMultiplier,
+                    strategy,
+                    transactionSize,
+                    Math.max(cosignatures, currentCosignatures),
+                    cosignaturesSize,
+                    transactionFees,
+                );
+            }),
+        );
+    }
+
+    /**
+     * Estimates the max fee of a transaction and sets it
+     * @param transaction the transaction
+     * @param strategy the strategy used to pick the fee multiplier
+     * @param percentile the percentile (0 - 100) used by the custom strategy
+     * @returns {Observable<T>}
+     */
+    public setMaxFee<T extends Transaction>(transaction: T, strategy = FeeStrategy.Average, percentile?: number): Observable<T> {
+        return this.estimate(transaction, strategy, percentile).pipe(
+            map((estimation) => DtoMapping.assign(transaction, { maxFee: estimation.maxFee })),
+        );
+    }
+
+    /**
+     * Picks the fee multiplier from the transaction fees
+     * @param transactionFees the network transaction fees
+     * @param strategy the strategy
+     * @param percentile the percentile (0 - 100) used by the custom strategy
+     * @returns {number}
+     */
+    public static getFeeMultiplier(transactionFees: TransactionFees, strategy: FeeStrategy, percentile?: number): number {
+        switch (strategy) {
+            case FeeStrategy.Slowest:
+                return transactionFees.lowestFeeMultiplier;
+            case FeeStrategy.Average:
+                return Math.ceil(transactionFees.averageFeeMultiplier);
+            case FeeStrategy.Fast:
+                return transactionFees.highestFeeMultiplier;
+            case FeeStrategy.Custom:
+                return FeeService.getPercentileFeeMultiplier(transactionFees, percentile || 0);
+            default:
+                throw new Error(`Fee strategy ${strategy} is not supported.`);
+        }
+    }
+
+    /**
+     * Interpolates linearly between the lowest (0), median (50) and highest (100) fee multipliers
+     * @param transactionFees the network transaction fees
+     * @param percentile the percentile (0 - 100)
+     * @returns {number}
+     */
+    private static getPercentileFeeMultiplier(transactionFees: TransactionFees, percentile: number): number {
+        if (percentile <= 50) {
+            const range = transactionFees.medianFeeMultiplier - transactionFees.lowestFeeMultiplier;
+            return Math.ceil(transactionFees.lowestFeeMultiplier + (range * percentile) / 50);
+        }
+        const range = transactionFees.highestFeeMultiplier - transactionFees.medianFeeMultiplier;
+        return Math.ceil(transactionFees.medianFeeMultiplier + (range * (percentile - 50)) / 50);
+    }
+
+    /**
+     * Counts the cosignatures the inner transaction signers require. The aggregate signer is not counted, when the
+     * aggregate is not signed yet one of the required signers is expected to sign it.
+     * @param aggregate the aggregate transaction
+     * @returns {Observable<number>}
+     */
+    private getRequiredCosignatures(aggregate: AggregateTransaction): Observable<number> {
+        if (!aggregate.innerTransactions.length) {
+            return of(0);
+        }
+        return combineLatest(
+            aggregate.innerTransactions.map((innerTransaction) => {
+                const signerAddress = innerTransaction.signer!.address;
+                const isRemoval =
+                    innerTransaction.type === TransactionType.MULTISIG_ACCOUNT_MODIFICATION &&
+                    (innerTransaction as MultisigAccountModificationTransaction).addressDeletions.length > 0;
+                return this.multisigRepository.getMultisigAccountGraphInfo(signerAddress).pipe(
+                    map((graph) => FeeService.getSigners(signerAddress, FeeService.getEntries(graph), isRemoval)),
+                    catchError((err) => {
+                        if (err instanceof RepositoryError && err.statusCode === 404) {
+                            return of([signerAddress]);
+                        }
+                        return throwError(err);
+                    }),
+                );
+            }),
+        ).pipe(
+            map((signers) => {
+                const signerAddresses = new Set(([] as Address[]).concat(...signers).map((address) => address.plain()));
+                if (aggregate.signer) {
+                    signerAddresses.delete(aggregate.signer.address.plain());
+                    return signerAddresses.size;
+                }
+                return Math.max(signerAddresses.size - 1, 0);
+            }),
+        );
+    }
+
+    /**
+     * @param graph the multisig graph
+     * @returns the multisig entries by address
+     */
+    private static getEntries(graph: MultisigAccountGraphInfo): Map<string, MultisigAccountInfo> {
+        const entries = new Map<string, MultisigAccountInfo>();
+        graph.multisigEntries.forEach((infos) => infos.forEach((info) => entries.set(info.accountAddress.plain(), info)));
+        return entries;
+    }
+
+    /**
+     * Resolves the accounts that need to sign for an address, picking the cosignatories requiring the most signatures.
+     * @param address the signer address
+     * @param entries the multisig entries by address
+     * @param isRemoval if minRemoval should be used instead of minApproval
+     * @returns {Address[]}
+     */
+    private static getSigners(address: Address, entries: Map<string, MultisigAccountInfo>, isRemoval: boolean): Address[] {
+        const entry = entries.get(address.plain());
+        if (!entry || !entry.isMultisig()) {
+            return [address];
+        }
+        const required = isRemoval ? entry.minRemoval : entry.minApproval;
+        return ([] as Address[]).concat(
+            ...entry.cosignatoryAddresses
+                .map((cosignatory) => FeeService.getSigners(cosignatory, entries, false))
+                .sort((a, b) => b.length - a.length)
+                .slice(0, required),
+        );
+    }
+}
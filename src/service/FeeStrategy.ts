@@ -0,0 +1,37 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * The fee multiplier picked from the network transaction fees.
+ */
+export enum FeeStrategy {
+    /**
+     * The lowest fee multiplier of the last blocks.
+     */
+    Slowest = 'slowest',
+    /**
+     * The average fee multiplier of the last blocks.
+     */
+    Average = 'average',
+    /**
+     * The highest fee multiplier of the last blocks.
+     */
+    Fast = 'fast',
+    /**
+     * A percentile between the lowest (0), median (50) and highest (100) fee multipliers.
+     */
+    Custom = 'custom',
+}
@@ -0,0 +1,34 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Account } from '../model/account/Account';
+import { PublicAccount } from '../model/account/PublicAccount';
+
+/**
+ * A harvesting delegation received by a node.
+ */
+export class HarvestingDelegation {
+    /**
+     * @param requester - the main account that sent the delegation request.
+     * @param remoteAccount - the remote account decrypted from the request, used by the node to harvest.
+     * @param transactionHash - the hash of the delegation request, if known.
+     */
+    constructor(
+        public readonly requester: PublicAccount,
+        public readonly remoteAccount: Account,
+        public readonly transactionHash?: string,
+    ) {}
+}
@@ -0,0 +1,254 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { combineLatest, Observable, of, throwError } from 'rxjs';
+import { catchError, map, toArray } from 'rxjs/operators';
+import { AccountRepository } from '../infrastructure/AccountRepository';
+import { NodeRepository } from '../infrastructure/NodeRepository';
+import { TransactionPaginationStreamer } from '../infrastructure/paginationStreamer/TransactionPaginationStreamer';
+import { RepositoryError } from '../infrastructure/RepositoryError';
+import { RepositoryFactory } from '../infrastructure/RepositoryFactory';
+import { TransactionGroup } from '../infrastructure/TransactionGroup';
+import { TransactionRepository } from '../infrastructure/TransactionRepository';
+import { Account } from '../model/account/Account';
+import { AccountLinkPublicKey } from '../model/account/AccountLinkPublicKey';
+import { Address } from '../model/account/Address';
+import { PublicAccount } from '../model/account/PublicAccount';
+import { SupplementalPublicKeys } from '../model/account/SupplementalPublicKeys';
+import { MessageType } from '../model/message/MessageType';
+import { PersistentHarvestingDelegationMessage } from '../model/message/PersistentHarvestingDelegationMessage';
+import { NodeInfo } from '../model/node/NodeInfo';
+import { AccountKeyLinkTransaction } from '../model/transaction/AccountKeyLinkTransaction';
+import { AggregateTransaction } from '../model/transaction/AggregateTransaction';
+import { Deadline } from '../model/transaction/Deadline';
+import { LinkAction } from '../model/transaction/LinkAction';
+import { NodeKeyLinkTransaction } from '../model/transaction/NodeKeyLinkTransaction';
+import { PersistentDelegationRequestTransaction } from '../model/transaction/PersistentDelegationRequestTransaction';
+import { Transaction } from '../model/transaction/Transaction';
+import { TransactionType } from '../model/transaction/TransactionType';
+import { TransferTransaction } from '../model/transaction/TransferTransaction';
+import { VrfKeyLinkTransaction } from '../model/transaction/VrfKeyLinkTransaction';
+import { UInt64 } from '../model/UInt64';
+import { HarvestingDelegation } from './HarvestingDelegation';
+import { HarvestingSetup } from './HarvestingSetup';
+import { HarvestingState } from './HarvestingState';
+import { HarvestingStatus } from './HarvestingStatus';
+
+/**
+ * Harvesting Service
+ *
+ * Delegated harvesting requires the remote, vrf and node keys linked to the main account, then a persistent
+ * delegation request sharing the remote private key with the node. This service works out the links from the
+ * account's supplemental public keys and builds the transactions.
+ */
+export class HarvestingService {
+    private readonly accountRepository: AccountRepository;
+
+    private readonly nodeRepository: NodeRepository;
+
+    private readonly transactionRepository: TransactionRepository;
+
+    /**
+     * Constructor
+     * @param repositoryFactory
+     */
+    constructor(private readonly repositoryFactory: RepositoryFactory) {
+        this.accountRepository = repositoryFactory.createAccountRepository();
+        this.nodeRepository = repositoryFactory.createNodeRepository();
+        this.transactionRepository = repositoryFactory.createTransactionRepository();
+    }
+
+    /**
+     * Returns the delegated harvesting status of an account, an unknown account is unlinked.
+     * @param address - the account address
+     * @returns {Observable<HarvestingStatus>}
+     */
+    public getHarvestingStatus(address: Address): Observable<HarvestingStatus> {
+        return combineLatest([this.getSupplementalPublicKeys(address), this.nodeRepository.getNodePeers()]).pipe(
+            map(([keys, peers]) => {
+                const linkedKeys = [keys.linked, keys.vrf, keys.node].filter((key) => !!key);
+                const state = !linkedKeys.length
+                    ? HarvestingState.Unlinked
+                    : linkedKeys.length < 3
+                    ? HarvestingState.PartiallyLinked
+                    : HarvestingState.Linked;
+                return new HarvestingStatus(
+                    address,
+                    state,
+                    keys.linked?.publicKey,
+                    keys.vrf?.publicKey,
+                    keys.node?.publicKey,
+                    keys.node ? HarvestingService.findNode(peers, keys.node.publicKey) : undefined,
+                );
+            }),
+        );
+    }
+
+    /**
+     * Returns the peer node with the given node public key
+     * @param nodePublicKey - the node public key
+     * @returns {Observable<NodeInfo>}
+     */
+    public getNode(nodePublicKey: string): Observable<NodeInfo> {
+        return this.nodeRepository.getNodePeers().pipe(
+            map((peers) => {
+                const node = HarvestingService.findNode(peers, nodePublicKey);
+                if (!node) {
+                    throw new Error(`Node ${nodePublicKey} is not a known peer.`);
+                }
+                return node;
+            }),
+        );
+    }
+
+    /**
+     * Creates the transactions enabling delegated harvesting on a node. The link aggregate only unlinks the stale
+     * keys and links the missing ones, it's signed by the main account alone.
+     * @param account - the main account
+     * @param remoteAccount - the remote account, its private key is shared with the node
+     * @param vrfPublicKey - the vrf public key
+     * @param nodePublicKey - the public key of a peer node
+     * @param deadline - the deadline of the transactions
+     * @param maxFee - the max fee of each transaction
+     * @returns {Observable<HarvestingSetup>}
+     */
+    public createHarvestingSetup(
+        account: PublicAccount,
+        remoteAccount: Account,
+        vrfPublicKey: string,
+        nodePublicKey: string,
+        deadline: Deadline = Deadline.create(),
+        maxFee: UInt64 = UInt64.fromUint(0),
+    ): Observable<HarvestingSetup> {
+        if (remoteAccount.publicKey.toUpperCase() === account.publicKey.toUpperCase()) {
+            throw new Error('The remote account must not be the main account.');
+        }
+        return combineLatest([
+            this.repositoryFactory.getNetworkType(),
+            this.getSupplementalPublicKeys(account.address),
+            this.getNode(nodePublicKey),
+        ]).pipe(
+            map(([networkType, keys, node]) => {
+                const innerTransactions = [
+                    ...HarvestingService.createLinks(keys.linked, remoteAccount.publicKey, (key, action) =>
+                        AccountKeyLinkTransaction.create(deadline, key, action, networkType),
+                    ),
+                    ...HarvestingService.createLinks(keys.vrf, vrfPublicKey, (key, action) =>
+                        VrfKeyLinkTransaction.create(deadline, key, action, networkType),
+                    ),
+                    ...HarvestingService.createLinks(keys.node, node.publicKey, (key, action) =>
+                        NodeKeyLinkTransaction.create(deadline, key, action, networkType),
+                    ),
+                ].map((transaction) => transaction.toAggregate(account));
+                return new HarvestingSetup(
+                    node,
+                    PersistentDelegationRequestTransaction.createPersistentDelegationRequestTransaction(
+                        deadline,
+                        remoteAccount.privateKey,
+                        node.publicKey,
+                        networkType,
+                        maxFee,
+                    ),
+                    innerTransactions.length
+                        ? AggregateTransaction.createComplete(deadline, innerTransactions, networkType, [], maxFee)
+                        : undefined,
+                );
+            }),
+        );
+    }
+
+    /**
+     * Searches the confirmed delegation requests sent to a node, for node operators
+     * @param nodeAccount - the node account, the recipient of the requests
+     * @returns {Observable<HarvestingDelegation[]>}
+     */
+    public searchDelegations(nodeAccount: Account): Observable<HarvestingDelegation[]> {
+        return new TransactionPaginationStreamer(this.transactionRepository)
+            .search({ group: TransactionGroup.Confirmed, type: [TransactionType.TRANSFER], recipientAddress: nodeAccount.address })
+            .pipe(
+                map((transaction) => HarvestingService.decodeDelegation(transaction, nodeAccount.privateKey)),
+                toArray(),
+                map((delegations) => delegations.filter((delegation): delegation is HarvestingDelegation => !!delegation)),
+            );
+    }
+
+    /**
+     * Decodes a delegation request received by a node
+     * @param transaction - the transaction sent to the node
+     * @param nodePrivateKey - the node private key
+     * @returns the delegation, undefined when the transaction is not a delegation request the node can decrypt
+     */
+    public static decodeDelegation(transaction: Transaction, nodePrivateKey: string): HarvestingDelegation | undefined {
+        if (
+            !(transaction instanceof TransferTransaction) ||
+            transaction.message.type !== MessageType.PersistentHarvestingDelegationMessage ||
+            !transaction.signer
+        ) {
+            return undefined;
+        }
+        let remoteAccount: Account;
+        try {
+            const remotePrivateKey = PersistentHarvestingDelegationMessage.decrypt(
+                transaction.message as PersistentHarvestingDelegationMessage,
+                nodePrivateKey,
+            );
+            remoteAccount = Account.createFromPrivateKey(remotePrivateKey, transaction.networkType);
+        } catch {
+            // Anyone can send a malformed message or one encrypted for another node.
+            return undefined;
+        }
+        return new HarvestingDelegation(transaction.signer, remoteAccount, transaction.transactionInfo?.hash);
+    }
+
+    /**
+     * @internal
+     * The supplemental public keys of the account, empty when the account is unknown.
+     */
+    private getSupplementalPublicKeys(address: Address): Observable<SupplementalPublicKeys> {
+        return this.accountRepository.getAccountInfo(address).pipe(
+            map((accountInfo) => accountInfo.supplementalPublicKeys),
+            catchError((err) => {
+                if (err instanceof RepositoryError && err.statusCode === 404) {
+                    return of(new SupplementalPublicKeys());
+                }
+                return throwError(err);
+            }),
+        );
+    }
+
+    /**
+     * @internal
+     * No transactions when the key is already linked, a link when missing, an unlink and a link when stale.
+     */
+    private static createLinks(
+        current: AccountLinkPublicKey | undefined,
+        publicKey: string,
+        createLink: (linkedPublicKey: string, linkAction: LinkAction) => Transaction,
+    ): Transaction[] {
+        if (current && current.publicKey.toUpperCase() === publicKey.toUpperCase()) {
+            return [];
+        }
+        const link = createLink(publicKey, LinkAction.Link);
+        return current ? [createLink(current.publicKey, LinkAction.Unlink), link] : [link];
+    }
+
+    /**
+     * @internal
+     */
+    private static findNode(peers: NodeInfo[], nodePublicKey: string): NodeInfo | undefined {
+        return peers.find((peer) => peer.publicKey.toUpperCase() === nodePublicKey.toUpperCase());
+    }
+}
@@ -0,0 +1,38 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { NodeInfo } from '../model/node/NodeInfo';
+import { AggregateTransaction } from '../model/transaction/AggregateTransaction';
+import { PersistentDelegationRequestTransaction } from '../model/transaction/PersistentDelegationRequestTransaction';
+
+/**
+ * The transactions enabling delegated harvesting on a node.
+ *
+ * The link aggregate must be confirmed before announcing the delegation request, otherwise the node ignores it.
+ */
+export class HarvestingSetup {
+    /**
+     * @param node - the node the account delegates to.
+     * @param delegationRequest - the request sharing the remote private key with the node.
+     * @param linkAggregate - the complete aggregate unlinking the stale keys and linking the missing ones. Undefined
+     * when all the keys are already linked.
+     */
+    constructor(
+        public readonly node: NodeInfo,
+        public readonly delegationRequest: PersistentDelegationRequestTransaction,
+        public readonly linkAggregate?: AggregateTransaction,
+    ) {}
+}
@@ -0,0 +1,33 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * The delegated harvesting state of an account, given by its linked keys.
+ */
+export enum HarvestingState {
+    /**
+     * None of the remote, vrf and node keys are linked.
+     */
+    Unlinked = 'Unlinked',
+    /**
+     * Some of the remote, vrf and node keys are linked, the account cannot harvest remotely yet.
+     */
+    PartiallyLinked = 'PartiallyLinked',
+    /**
+     * The remote, vrf and node keys are linked.
+     */
+    Linked = 'Linked',
+}
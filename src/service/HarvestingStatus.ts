@@ -0,0 +1,41 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Address } from '../model/account/Address';
+import { NodeInfo } from '../model/node/NodeInfo';
+import { HarvestingState } from './HarvestingState';
+
+/**
+ * The delegated harvesting status of an account.
+ */
+export class HarvestingStatus {
+    /**
+     * @param address - the account address.
+     * @param state - the harvesting state given by the linked keys.
+     * @param linkedPublicKey - the linked remote public key, if any.
+     * @param vrfPublicKey - the linked vrf public key, if any.
+     * @param nodePublicKey - the linked node public key, if any.
+     * @param node - the peer node the account is linked to, when the node public key belongs to a known peer.
+     */
+    constructor(
+        public readonly address: Address,
+        public readonly state: HarvestingState,
+        public readonly linkedPublicKey?: string,
+        public readonly vrfPublicKey?: string,
+        public readonly nodePublicKey?: string,
+        public readonly node?: NodeInfo,
+    ) {}
+}
@@ -0,0 +1,37 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * The categories of the account balance changes reported from receipts.
+ */
+export enum IncomeCategory {
+    /**
+     * Harvest_Fee receipts crediting the harvester or the beneficiary.
+     */
+    HarvestFee = 'HarvestFee',
+    /**
+     * Mosaic_Rental_Fee and Namespace_Rental_Fee receipts, outgoing for the payer and incoming for the sink.
+     */
+    RentalFee = 'RentalFee',
+    /**
+     * LockHash_Completed and LockSecret_Expired receipts returning the locked funds to the lock owner.
+     */
+    LockRefund = 'LockRefund',
+    /**
+     * LockHash_Expired receipts crediting the locked funds of an expired hash lock to the harvester.
+     */
+    LockExpiration = 'LockExpiration',
+}
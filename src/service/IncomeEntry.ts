@@ -0,0 +1,42 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { MosaicId } from '../model/mosaic/MosaicId';
+import { Receipt } from '../model/receipt/Receipt';
+import { UInt64 } from '../model/UInt64';
+import { IncomeCategory } from './IncomeCategory';
+
+/**
+ * A balance change of an account found in the receipts of a block.
+ */
+export class IncomeEntry {
+    /**
+     * @param height - the block height.
+     * @param category - the income category.
+     * @param mosaicId - the resolved mosaic id.
+     * @param amount - the absolute amount.
+     * @param incoming - true if the amount is credited to the account, false if it's debited.
+     * @param receipt - the receipt.
+     */
+    constructor(
+        public readonly height: UInt64,
+        public readonly category: IncomeCategory,
+        public readonly mosaicId: MosaicId,
+        public readonly amount: UInt64,
+        public readonly incoming: boolean,
+        public readonly receipt: Receipt,
+    ) {}
+}
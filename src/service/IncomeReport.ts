@@ -0,0 +1,87 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Address } from '../model/account/Address';
+import { UInt64 } from '../model/UInt64';
+import { BlockIncome } from './BlockIncome';
+import { IncomeCategory } from './IncomeCategory';
+import { IncomeEntry } from './IncomeEntry';
+import { IncomeTotal } from './IncomeTotal';
+
+/**
+ * The balance changes of an account found in the receipts of a height range.
+ */
+export class IncomeReport {
+    /**
+     * @param address - the reported account address.
+     * @param fromHeight - the first reported height.
+     * @param toHeight - the last reported height.
+     * @param entries - the balance changes ordered by height.
+     */
+    constructor(
+        public readonly address: Address,
+        public readonly fromHeight: UInt64,
+        public readonly toHeight: UInt64,
+        public readonly entries: IncomeEntry[],
+    ) {}
+
+    /**
+     * Returns the per mosaic totals of the report
+     * @param category - only the entries of this category, all when undefined
+     * @returns {IncomeTotal[]}
+     */
+    public getMosaicTotals(category?: IncomeCategory): IncomeTotal[] {
+        return IncomeReport.sum(this.filter(category));
+    }
+
+    /**
+     * Returns the per mosaic totals of each block with entries
+     * @param category - only the entries of this category, all when undefined
+     * @returns {BlockIncome[]}
+     */
+    public getBlockTotals(category?: IncomeCategory): BlockIncome[] {
+        const blocks = new Map<string, IncomeEntry[]>();
+        this.filter(category).forEach((entry) => {
+            const key = entry.height.toString();
+            blocks.set(key, (blocks.get(key) || []).concat(entry));
+        });
+        return Array.from(blocks.values()).map((entries) => new BlockIncome(entries[0].height, IncomeReport.sum(entries)));
+    }
+
+    /**
+     * Sums the entries per mosaic, in order of appearance
+     * @param entries - the entries
+     * @returns {IncomeTotal[]}
+     */
+    public static sum(entries: IncomeEntry[]): IncomeTotal[] {
+        const totals = new Map<string, IncomeTotal>();
+        entries.forEach((entry) => {
+            const key = entry.mosaicId.toHex();
+            const total = totals.get(key) || new IncomeTotal(entry.mosaicId, UInt64.fromUint(0), UInt64.fromUint(0));
+            totals.set(
+                key,
+                entry.incoming
+                    ? new IncomeTotal(total.mosaicId, total.incoming.add(entry.amount), total.outgoing)
+                    : new IncomeTotal(total.mosaicId, total.incoming, total.outgoing.add(entry.amount)),
+            );
+        });
+        return Array.from(totals.values());
+    }
+
+    private filter(category?: IncomeCategory): IncomeEntry[] {
+        return category ? this.entries.filter((entry) => entry.category === category) : this.entries;
+    }
+}
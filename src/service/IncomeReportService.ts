@@ -0,0 +1,152 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { merge, Observable } from 'rxjs';
+import { filter, map, mergeMap, toArray } from 'rxjs/operators';
+import { IListener } from '../infrastructure/IListener';
+import { ReceiptPaginationStreamer } from '../infrastructure/paginationStreamer/ReceiptPaginationStreamer';
+import { RepositoryFactory } from '../infrastructure/RepositoryFactory';
+import { ReceiptSearchCriteria } from '../infrastructure/searchCriteria/ReceiptSearchCriteria';
+import { Address } from '../model/account/Address';
+import { BalanceChangeReceipt } from '../model/receipt/BalanceChangeReceipt';
+import { BalanceTransferReceipt } from '../model/receipt/BalanceTransferReceipt';
+import { Receipt } from '../model/receipt/Receipt';
+import { ReceiptType } from '../model/receipt/ReceiptType';
+import { UInt64 } from '../model/UInt64';
+import { IncomeCategory } from './IncomeCategory';
+import { IncomeEntry } from './IncomeEntry';
+import { IncomeReport } from './IncomeReport';
+
+/**
+ * Income Report Service
+ *
+ * It adds up the balance changes of an account found in the block receipts: harvest fees, rental fees and lock
+ * refunds and expirations.
+ */
+export class IncomeReportService {
+    /**
+     * The categories of the balance change receipts crediting the target account.
+     */
+    private static readonly BALANCE_CHANGE_CATEGORIES = new Map<ReceiptType, IncomeCategory>([
+        [ReceiptType.Harvest_Fee, IncomeCategory.HarvestFee],
+        [ReceiptType.LockHash_Completed, IncomeCategory.LockRefund],
+        [ReceiptType.LockSecret_Expired, IncomeCategory.LockRefund],
+        [ReceiptType.LockHash_Expired, IncomeCategory.LockExpiration],
+    ]);
+
+    /**
+     * The balance transfer receipts of the rental fees.
+     */
+    private static readonly RENTAL_FEE_TYPES = [ReceiptType.Mosaic_Rental_Fee, ReceiptType.Namespace_Rental_Fee];
+
+    private readonly streamer: ReceiptPaginationStreamer;
+
+    /**
+     * Constructor
+     * @param repositoryFactory
+     */
+    constructor(repositoryFactory: RepositoryFactory) {
+        this.streamer = new ReceiptPaginationStreamer(repositoryFactory.createReceiptRepository());
+    }
+
+    /**
+     * Creates the income report of an account scanning the receipts of a height range
+     * @param address - the account address
+     * @param fromHeight - the first height, included
+     * @param toHeight - the last height, included
+     * @returns {Observable<IncomeReport>}
+     */
+    public createReport(address: Address, fromHeight: UInt64, toHeight: UInt64): Observable<IncomeReport> {
+        return this.searchEntries(address, { fromHeight, toHeight }).pipe(
+            map((entries) => new IncomeReport(address, fromHeight, toHeight, entries)),
+        );
+    }
+
+    /**
+     * Emits the balance changes of an account on every new block with any
+     * @param address - the account address
+     * @param listener - an open listener
+     * @returns {Observable<IncomeEntry[]>}
+     */
+    public watchIncome(address: Address, listener: IListener): Observable<IncomeEntry[]> {
+        return listener.newBlock().pipe(
+            mergeMap((block) => this.searchEntries(address, { height: block.height })),
+            filter((entries) => entries.length > 0),
+        );
+    }
+
+    /**
+     * @internal
+     * Searches the balance change receipts targeting the account and the rental fees it paid or received.
+     */
+    private searchEntries(address: Address, criteria: ReceiptSearchCriteria): Observable<IncomeEntry[]> {
+        const balanceChangeTypes = Array.from(IncomeReportService.BALANCE_CHANGE_CATEGORIES.keys());
+        const rentalFeeTypes = IncomeReportService.RENTAL_FEE_TYPES;
+        return merge(
+            this.search({ ...criteria, receiptTypes: balanceChangeTypes, targetAddress: address }, (height, receipt) =>
+                receipt instanceof BalanceChangeReceipt &&
+                receipt.targetAddress.equals(address) &&
+                balanceChangeTypes.includes(receipt.type)
+                    ? IncomeReportService.toEntry(height, IncomeReportService.BALANCE_CHANGE_CATEGORIES.get(receipt.type)!, receipt, true)
+                    : undefined,
+            ),
+            this.search({ ...criteria, receiptTypes: rentalFeeTypes, senderAddress: address }, (height, receipt) =>
+                receipt instanceof BalanceTransferReceipt && receipt.senderAddress.equals(address) && rentalFeeTypes.includes(receipt.type)
+                    ? IncomeReportService.toEntry(height, IncomeCategory.RentalFee, receipt, false)
+                    : undefined,
+            ),
+            this.search({ ...criteria, receiptTypes: rentalFeeTypes, recipientAddress: address }, (height, receipt) =>
+                receipt instanceof BalanceTransferReceipt &&
+                receipt.recipientAddress.equals(address) &&
+                rentalFeeTypes.includes(receipt.type)
+                    ? IncomeReportService.toEntry(height, IncomeCategory.RentalFee, receipt, true)
+                    : undefined,
+            ),
+        ).pipe(
+            toArray(),
+            map((entries) => entries.sort((a, b) => a.height.compare(b.height))),
+        );
+    }
+
+    /**
+     * @internal
+     * Streams the statements of the criteria converting the matching receipts into entries.
+     */
+    private search(
+        criteria: ReceiptSearchCriteria,
+        toEntry: (height: UInt64, receipt: Receipt) => IncomeEntry | undefined,
+    ): Observable<IncomeEntry> {
+        return this.streamer
+            .transactionStatements()
+            .search(criteria)
+            .pipe(
+                mergeMap((statement) => statement.receipts.map((receipt) => toEntry(statement.height, receipt))),
+                filter((entry): entry is IncomeEntry => !!entry),
+            );
+    }
+
+    /**
+     * @internal
+     */
+    private static toEntry(
+        height: UInt64,
+        category: IncomeCategory,
+        receipt: BalanceChangeReceipt | BalanceTransferReceipt,
+        incoming: boolean,
+    ): IncomeEntry {
+        return new IncomeEntry(height, category, receipt.mosaicId, receipt.amount, incoming, receipt);
+    }
+}
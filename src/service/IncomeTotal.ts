@@ -0,0 +1,30 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { MosaicId } from '../model/mosaic/MosaicId';
+import { UInt64 } from '../model/UInt64';
+
+/**
+ * The incoming and outgoing totals of a mosaic.
+ */
+export class IncomeTotal {
+    /**
+     * @param mosaicId - the mosaic id.
+     * @param incoming - the sum of the credited amounts.
+     * @param outgoing - the sum of the debited amounts.
+     */
+    constructor(public readonly mosaicId: MosaicId, public readonly incoming: UInt64, public readonly outgoing: UInt64) {}
+}
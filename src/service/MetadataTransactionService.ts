@@ -14,10 +14,11 @@
  * limitations under the License.
  */
 
-import { Observable, of } from 'rxjs';
+import { Observable, of, throwError } from 'rxjs';
 import { catchError, map } from 'rxjs/operators';
 import { Convert } from '../core/format/Convert';
 import { MetadataRepository } from '../infrastructure/MetadataRepository';
+import { RepositoryError } from '../infrastructure/RepositoryError';
 import { Address } from '../model/account/Address';
 import { Metadata } from '../model/metadata/Metadata';
 import { MetadataType } from '../model/metadata/MetadataType';
@@ -135,15 +136,14 @@ export class MetadataTransactionService {
                     maxFee,
                 );
             }),
-            catchError((err: Error) => {
-                const error = JSON.parse(err.message);
-                if (error && error.statusCode && error.statusCode === 404) {
+            catchError((err) => {
+                if (err instanceof RepositoryError && err.statusCode === 404) {
                     const newValueBytes = Convert.utf8ToUint8(value);
                     return of(
                         AccountMetadataTransaction.create(deadline, targetAddress, key, newValueBytes.length, value, networkType, maxFee),
                     );
                 }
-                throw Error(err.message);
+                return throwError(err);
             }),
         );
     }
@@ -185,9 +185,8 @@ export class MetadataTransactionService {
                     maxFee,
                 );
             }),
-            catchError((err: Error) => {
-                const error = JSON.parse(err.message);
-                if (error && error.statusCode && error.statusCode === 404) {
+            catchError((err) => {
+                if (err instanceof RepositoryError && err.statusCode === 404) {
                     const newValueBytes = Convert.utf8ToUint8(value);
                     return of(
                         MosaicMetadataTransaction.create(
@@ -202,7 +201,7 @@ export class MetadataTransactionService {
                         ),
                     );
                 }
-                throw Error(err.message);
+                return throwError(err);
             }),
         );
     }
@@ -244,9 +243,8 @@ export class MetadataTransactionService {
                     maxFee,
                 );
             }),
-            catchError((err: Error) => {
-                const error = JSON.parse(err.message);
-                if (error && error.statusCode && error.statusCode === 404) {
+            catchError((err) => {
+                if (err instanceof RepositoryError && err.statusCode === 404) {
                     const newValueBytes = Convert.utf8ToUint8(value);
                     return of(
                         NamespaceMetadataTransaction.create(
@@ -261,7 +259,7 @@ export class MetadataTransactionService {
                         ),
                     );
                 }
-                throw Error(err.message);
+                return throwError(err);
             }),
         );
     }
@@ -23,9 +23,8 @@ import { UInt64 } from '../model/UInt64';
 export class MosaicAmountView {
     /**
      * @param mosaicInfo
-     * @param namespaceName
-     * @param mosaicName
      * @param amount
+     * @param namespaceName
      */
     constructor(
         /**
@@ -36,6 +35,10 @@ export class MosaicAmountView {
          * The amount of absolute mosaics we have
          */
         public readonly amount: UInt64,
+        /**
+         * The name of the namespace linked to the mosaic, if known
+         */
+        public readonly namespaceName?: string,
     ) {}
 
     /**
@@ -54,6 +57,6 @@ export class MosaicAmountView {
      * @returns {string}
      */
     public fullName(): string {
-        return this.mosaicInfo.id.toHex();
+        return this.namespaceName || this.mosaicInfo.id.toHex();
     }
 }
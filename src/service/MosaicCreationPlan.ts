@@ -0,0 +1,56 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { MosaicId } from '../model/mosaic/MosaicId';
+import { MosaicNonce } from '../model/mosaic/MosaicNonce';
+import { NamespaceId } from '../model/namespace/NamespaceId';
+import { AggregateTransaction } from '../model/transaction/AggregateTransaction';
+import { UInt64 } from '../model/UInt64';
+
+/**
+ * Class representing the aggregate that creates a mosaic and the rental fees it costs
+ */
+export class MosaicCreationPlan {
+    /**
+     * @param aggregate
+     * @param mosaicId
+     * @param nonce
+     * @param rentalFee
+     * @param namespaceId
+     */
+    constructor(
+        /**
+         * The complete aggregate with all the transactions, ready to be signed by the owner
+         */
+        public readonly aggregate: AggregateTransaction,
+        /**
+         * The id of the new mosaic
+         */
+        public readonly mosaicId: MosaicId,
+        /**
+         * The nonce the mosaic id is generated from
+         */
+        public readonly nonce: MosaicNonce,
+        /**
+         * The estimated rental fee of the mosaic and the registered namespaces, in absolute network currency units
+         */
+        public readonly rentalFee: UInt64,
+        /**
+         * The namespace linked to the mosaic, if any
+         */
+        public readonly namespaceId?: NamespaceId,
+    ) {}
+}
@@ -0,0 +1,219 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { forkJoin, Observable, of, throwError } from 'rxjs';
+import { catchError, map } from 'rxjs/operators';
+import { Convert } from '../core/format/Convert';
+import { KeyGenerator } from '../core/format/KeyGenerator';
+import { NamespaceRepository } from '../infrastructure/NamespaceRepository';
+import { NetworkRepository } from '../infrastructure/NetworkRepository';
+import { RepositoryError } from '../infrastructure/RepositoryError';
+import { RepositoryFactory } from '../infrastructure/RepositoryFactory';
+import { PublicAccount } from '../model/account/PublicAccount';
+import { MosaicId } from '../model/mosaic/MosaicId';
+import { MosaicNonce } from '../model/mosaic/MosaicNonce';
+import { MosaicSupplyChangeAction } from '../model/mosaic/MosaicSupplyChangeAction';
+import { AliasAction } from '../model/namespace/AliasAction';
+import { AliasType } from '../model/namespace/AliasType';
+import { NamespaceId } from '../model/namespace/NamespaceId';
+import { NamespaceInfo } from '../model/namespace/NamespaceInfo';
+import { RentalFees } from '../model/network/RentalFees';
+import { AggregateTransaction } from '../model/transaction/AggregateTransaction';
+import { Deadline } from '../model/transaction/Deadline';
+import { InnerTransaction } from '../model/transaction/InnerTransaction';
+import { MosaicAliasTransaction } from '../model/transaction/MosaicAliasTransaction';
+import { MosaicDefinitionTransaction } from '../model/transaction/MosaicDefinitionTransaction';
+import { MosaicMetadataTransaction } from '../model/transaction/MosaicMetadataTransaction';
+import { MosaicSupplyChangeTransaction } from '../model/transaction/MosaicSupplyChangeTransaction';
+import { NamespaceRegistrationTransaction } from '../model/transaction/NamespaceRegistrationTransaction';
+import { UInt64 } from '../model/UInt64';
+import { MosaicCreationPlan } from './MosaicCreationPlan';
+import { MosaicCreationSpec } from './MosaicCreationSpec';
+
+/**
+ * Mosaic Creation Service
+ *
+ * Builds the aggregate that creates a mosaic from a declarative spec: the definition with a random nonce, the initial
+ * supply, the missing namespace levels with the alias and the mosaic metadata.
+ */
+export class MosaicCreationService {
+    private readonly namespaceRepository: NamespaceRepository;
+
+    private readonly networkRepository: NetworkRepository;
+
+    /**
+     * Constructor
+     * @param repositoryFactory
+     */
+    constructor(repositoryFactory: RepositoryFactory) {
+        this.namespaceRepository = repositoryFactory.createNamespaceRepository();
+        this.networkRepository = repositoryFactory.createNetworkRepository();
+    }
+
+    /**
+     * Creates the complete aggregate that creates the mosaic described by the spec. The aggregate needs to be signed by
+     * the owner, the inner transactions have no max fee.
+     * @param spec - the mosaic spec
+     * @param owner - the account creating and owning the mosaic
+     * @param deadline - the aggregate deadline
+     * @param maxFee - the aggregate max fee
+     * @returns {Observable<MosaicCreationPlan>}
+     */
+    public createMosaic(
+        spec: MosaicCreationSpec,
+        owner: PublicAccount,
+        deadline: Deadline,
+        maxFee: UInt64 = new UInt64([0, 0]),
+    ): Observable<MosaicCreationPlan> {
+        const levels = spec.namespace ? MosaicCreationService.getNamespaceLevels(spec.namespace) : [];
+        const namespaces = levels.length ? forkJoin(levels.map((level) => this.getNamespace(new NamespaceId(level)))) : of([]);
+        return forkJoin([namespaces, this.networkRepository.getRentalFees()]).pipe(
+            map(([infos, rentalFees]) => {
+                const networkType = owner.address.networkType;
+                const nonce = MosaicNonce.createRandom();
+                const mosaicId = MosaicId.createFromNonce(nonce, owner.address);
+                const transactions: InnerTransaction[] = [
+                    MosaicDefinitionTransaction.create(
+                        deadline,
+                        nonce,
+                        mosaicId,
+                        spec.flags,
+                        spec.divisibility,
+                        spec.duration,
+                        networkType,
+                    ),
+                    MosaicSupplyChangeTransaction.create(deadline, mosaicId, MosaicSupplyChangeAction.Increase, spec.supply, networkType),
+                ];
+                const registrations = this.createNamespaceRegistrations(spec, owner, deadline, levels, infos);
+                transactions.push(...registrations);
+                const namespaceId = spec.namespace ? new NamespaceId(spec.namespace) : undefined;
+                if (namespaceId) {
+                    transactions.push(MosaicAliasTransaction.create(deadline, AliasAction.Link, namespaceId, mosaicId, networkType));
+                }
+                const metadata: { [key: string]: string } = { name: spec.name, ...spec.metadata };
+                Object.keys(metadata).forEach((key) => {
+                    const value = metadata[key];
+                    transactions.push(
+                        MosaicMetadataTransaction.create(
+                            deadline,
+                            owner.address,
+                            KeyGenerator.generateUInt64Key(key),
+                            mosaicId,
+                            Convert.utf8ToUint8(value).length,
+                            value,
+                            networkType,
+                        ),
+                    );
+                });
+                const aggregate = AggregateTransaction.createComplete(
+                    deadline,
+                    transactions.map((transaction) => transaction.toAggregate(owner)),
+                    networkType,
+                    [],
+                    maxFee,
+                );
+                const rentalFee = MosaicCreationService.getRentalFee(registrations, rentalFees);
+                return new MosaicCreationPlan(aggregate, mosaicId, nonce, rentalFee, namespaceId);
+            }),
+        );
+    }
+
+    /**
+     * @internal
+     * Creates the registrations of the namespace levels that don't exist yet.
+     * @param spec - the mosaic spec
+     * @param owner - the mosaic owner
+     * @param deadline - the deadline
+     * @param levels - the full names of the namespace levels, from the root
+     * @param infos - the existing namespace of each level
+     * @returns {NamespaceRegistrationTransaction[]}
+     */
+    private createNamespaceRegistrations(
+        spec: MosaicCreationSpec,
+        owner: PublicAccount,
+        deadline: Deadline,
+        levels: string[],
+        infos: (NamespaceInfo | undefined)[],
+    ): NamespaceRegistrationTransaction[] {
+        const networkType = owner.address.networkType;
+        return levels
+            .map((level, index) => {
+                const info = infos[index];
+                if (info) {
+                    if (!info.ownerAddress.equals(owner.address)) {
+                        throw new Error(`Namespace ${level} is owned by another account`);
+                    }
+                    if (index === levels.length - 1 && info.alias.type !== AliasType.None) {
+                        throw new Error(`Namespace ${level} is already linked`);
+                    }
+                    return undefined;
+                }
+                if (index === 0) {
+                    if (!spec.namespaceDuration) {
+                        throw new Error(`Namespace ${level} does not exist, namespaceDuration is required to register it`);
+                    }
+                    return NamespaceRegistrationTransaction.createRootNamespace(deadline, level, spec.namespaceDuration, networkType);
+                }
+                const name = level.substring(levels[index - 1].length + 1);
+                return NamespaceRegistrationTransaction.createSubNamespace(deadline, name, levels[index - 1], networkType);
+            })
+            .filter((transaction): transaction is NamespaceRegistrationTransaction => !!transaction);
+    }
+
+    /**
+     * @internal
+     * Returns the namespace info, undefined when the namespace does not exist.
+     * @param namespaceId - the namespace id
+     * @returns {Observable<NamespaceInfo | undefined>}
+     */
+    private getNamespace(namespaceId: NamespaceId): Observable<NamespaceInfo | undefined> {
+        return this.namespaceRepository.getNamespace(namespaceId).pipe(
+            catchError((err) => {
+                if (err instanceof RepositoryError && err.statusCode === 404) {
+                    return of(undefined);
+                }
+                return throwError(err);
+            }),
+        );
+    }
+
+    /**
+     * @internal
+     * The full names of each level of a namespace, e.g. `a`, `a.b` and `a.b.c` for `a.b.c`.
+     * @param namespace - the namespace full name
+     * @returns {string[]}
+     */
+    private static getNamespaceLevels(namespace: string): string[] {
+        const parts = namespace.split('.');
+        return parts.map((part, index) => parts.slice(0, index + 1).join('.'));
+    }
+
+    /**
+     * @internal
+     * The rental fee of the mosaic plus the one of the registered namespaces.
+     * @param registrations - the namespace registrations
+     * @param rentalFees - the network rental fees
+     * @returns {UInt64}
+     */
+    private static getRentalFee(registrations: NamespaceRegistrationTransaction[], rentalFees: RentalFees): UInt64 {
+        return registrations.reduce((total, registration) => {
+            const fee = registration.duration
+                ? rentalFees.effectiveRootNamespaceRentalFeePerBlock.multiply(registration.duration)
+                : rentalFees.effectiveChildNamespaceRentalFee;
+            return total.add(fee);
+        }, rentalFees.effectiveMosaicRentalFee);
+    }
+}
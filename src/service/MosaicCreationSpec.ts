@@ -0,0 +1,57 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { MosaicFlags } from '../model/mosaic/MosaicFlags';
+import { UInt64 } from '../model/UInt64';
+
+/**
+ * Declarative description of a mosaic to create.
+ */
+export interface MosaicCreationSpec {
+    /**
+     * The mosaic name, stored as mosaic metadata under the `name` key.
+     */
+    name: string;
+    /**
+     * The mosaic divisibility, between 0 and 6.
+     */
+    divisibility: number;
+    /**
+     * The initial supply in absolute units.
+     */
+    supply: UInt64;
+    /**
+     * The mosaic flags.
+     */
+    flags: MosaicFlags;
+    /**
+     * The mosaic duration in blocks, 0 for a mosaic that never expires.
+     */
+    duration: UInt64;
+    /**
+     * The full name of the namespace linked to the mosaic, e.g. `company.token`. The levels the owner doesn't have yet
+     * are registered.
+     */
+    namespace?: string;
+    /**
+     * The duration in blocks of the root namespace, required when the root namespace has to be registered.
+     */
+    namespaceDuration?: UInt64;
+    /**
+     * Additional mosaic metadata values by key.
+     */
+    metadata?: { [key: string]: string };
+}
@@ -14,9 +14,10 @@
  * limitations under the License.
  */
 
-import { combineLatest, Observable, of } from 'rxjs';
+import { combineLatest, Observable, of, throwError } from 'rxjs';
 import { catchError, map, mergeMap } from 'rxjs/operators';
 import { NamespaceRepository } from '../infrastructure/NamespaceRepository';
+import { RepositoryError } from '../infrastructure/RepositoryError';
 import { RestrictionMosaicRepository } from '../infrastructure/RestrictionMosaicRepository';
 import { Address } from '../model/account/Address';
 import { MosaicId } from '../model/mosaic/MosaicId';
@@ -160,12 +161,11 @@ export class MosaicRestrictionTransactionService {
             map((mosaicRestriction) => {
                 return mosaicRestriction.restrictions.get(restrictionKey.toString());
             }),
-            catchError((err: Error) => {
-                const error = JSON.parse(err.message);
-                if (error && error.statusCode && error.statusCode === 404) {
+            catchError((err) => {
+                if (err instanceof RepositoryError && err.statusCode === 404) {
                     return of(undefined);
                 }
-                throw new Error(err.message);
+                return throwError(err);
             }),
         );
     }
@@ -181,12 +181,11 @@ export class MosaicRestrictionTransactionService {
             map((mosaicRestriction: MosaicGlobalRestriction) => {
                 return mosaicRestriction.restrictions.get(restrictionKey.toString());
             }),
-            catchError((err: Error) => {
-                const error = JSON.parse(err.message);
-                if (error && error.statusCode && error.statusCode === 404) {
+            catchError((err) => {
+                if (err instanceof RepositoryError && err.statusCode === 404) {
                     return of(undefined);
                 }
-                throw new Error(err.message);
+                return throwError(err);
             }),
         );
     }
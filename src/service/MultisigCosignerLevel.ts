@@ -0,0 +1,36 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Address } from '../model/account/Address';
+
+/**
+ * The cosignatures a multisig account of the graph requires.
+ */
+export interface MultisigCosignerLevel {
+    /**
+     * The level in the multisig graph, 0 is the signer of the inner transactions.
+     */
+    readonly level: number;
+    readonly multisigAddress: Address;
+    /**
+     * The number of cosignatures required, minApproval or minRemoval when removing cosignatories.
+     */
+    readonly requiredCosignatures: number;
+    /**
+     * The cosignatories that can cosign for the multisig account.
+     */
+    readonly cosignatories: Address[];
+}
@@ -0,0 +1,68 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Address } from '../model/account/Address';
+import { AggregateTransaction } from '../model/transaction/AggregateTransaction';
+import { TransactionType } from '../model/transaction/TransactionType';
+import { MultisigCosignerLevel } from './MultisigCosignerLevel';
+
+/**
+ * Class representing an aggregate built for a multisig signer and the cosignatures it requires
+ */
+export class MultisigTransactionPlan {
+    /**
+     * @param aggregate
+     * @param signerAddress
+     * @param cosignerLevels
+     */
+    constructor(
+        /**
+         * The aggregate wrapping the inner transactions, complete or bonded
+         */
+        public readonly aggregate: AggregateTransaction,
+        /**
+         * The signer of the inner transactions
+         */
+        public readonly signerAddress: Address,
+        /**
+         * The multisig accounts of the graph and their cosignatories, from the signer downwards
+         */
+        public readonly cosignerLevels: MultisigCosignerLevel[],
+    ) {}
+
+    /**
+     * If the aggregate is bonded, it then needs a hash lock and the cosignatures are collected on chain
+     * @returns {boolean}
+     */
+    public isBonded(): boolean {
+        return this.aggregate.type === TransactionType.AGGREGATE_BONDED;
+    }
+
+    /**
+     * The accounts that need to cosign, the cosignatories of all levels that are not multisig accounts themselves, or
+     * the signer when it isn't a multisig account. It may include the initiator of the aggregate.
+     * @returns {Address[]}
+     */
+    public getCosignatories(): Address[] {
+        if (!this.cosignerLevels.length) {
+            return [this.signerAddress];
+        }
+        const cosignatories = new Map<string, Address>();
+        this.cosignerLevels.forEach((level) => level.cosignatories.forEach((address) => cosignatories.set(address.plain(), address)));
+        this.cosignerLevels.forEach((level) => cosignatories.delete(level.multisigAddress.plain()));
+        return Array.from(cosignatories.values());
+    }
+}
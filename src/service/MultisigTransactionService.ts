@@ -0,0 +1,202 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { combineLatest, Observable, of, throwError } from 'rxjs';
+import { catchError, map } from 'rxjs/operators';
+import { NetworkPropertyParser } from '../core/utils/NetworkPropertyParser';
+import { AccountRepository } from '../infrastructure/AccountRepository';
+import { MultisigRepository } from '../infrastructure/MultisigRepository';
+import { NetworkRepository } from '../infrastructure/NetworkRepository';
+import { RepositoryError } from '../infrastructure/RepositoryError';
+import { RepositoryFactory } from '../infrastructure/RepositoryFactory';
+import { Address } from '../model/account/Address';
+import { MultisigAccountGraphInfo } from '../model/account/MultisigAccountGraphInfo';
+import { PublicAccount } from '../model/account/PublicAccount';
+import { Mosaic } from '../model/mosaic/Mosaic';
+import { AggregateTransaction } from '../model/transaction/AggregateTransaction';
+import { Deadline } from '../model/transaction/Deadline';
+import { HashLockTransaction } from '../model/transaction/HashLockTransaction';
+import { InnerTransaction } from '../model/transaction/InnerTransaction';
+import { MultisigAccountModificationTransaction } from '../model/transaction/MultisigAccountModificationTransaction';
+import { SignedTransaction } from '../model/transaction/SignedTransaction';
+import { Transaction } from '../model/transaction/Transaction';
+import { TransactionType } from '../model/transaction/TransactionType';
+import { UInt64 } from '../model/UInt64';
+import { AggregateTransactionService } from './AggregateTransactionService';
+import { MultisigCosignerLevel } from './MultisigCosignerLevel';
+import { MultisigTransactionPlan } from './MultisigTransactionPlan';
+
+/**
+ * Multisig Transaction Service
+ *
+ * It wraps plain transactions in the aggregate a signer requires. When the initiator can't provide all the cosignatures
+ * the signer's multisig graph requires, the aggregate is bonded and it needs a hash lock.
+ */
+export class MultisigTransactionService {
+    /**
+     * The hash lock duration used when none is given, 480 blocks are about 4 hours.
+     */
+    public static readonly DEFAULT_HASH_LOCK_DURATION = UInt64.fromUint(480);
+
+    private readonly multisigRepository: MultisigRepository;
+
+    private readonly accountRepository: AccountRepository;
+
+    private readonly networkRepository: NetworkRepository;
+
+    private readonly aggregateTransactionService: AggregateTransactionService;
+
+    /**
+     * Constructor
+     * @param repositoryFactory
+     */
+    constructor(repositoryFactory: RepositoryFactory) {
+        this.multisigRepository = repositoryFactory.createMultisigRepository();
+        this.accountRepository = repositoryFactory.createAccountRepository();
+        this.networkRepository = repositoryFactory.createNetworkRepository();
+        this.aggregateTransactionService = new AggregateTransactionService(repositoryFactory);
+    }
+
+    /**
+     * Wraps the transactions in an aggregate signed by the signer account.
+     * @param transactions - the plain transactions, they become inner transactions of the signer
+     * @param signerAddress - the signer of the inner transactions, usually a multisig account
+     * @param initiator - the account that signs and announces the aggregate
+     * @param deadline - the aggregate deadline
+     * @param maxFee - the aggregate max fee
+     * @returns {Observable<MultisigTransactionPlan>}
+     */
+    public build(
+        transactions: Transaction[],
+        signerAddress: Address,
+        initiator: PublicAccount,
+        deadline: Deadline = Deadline.create(),
+        maxFee: UInt64 = new UInt64([0, 0]),
+    ): Observable<MultisigTransactionPlan> {
+        const networkType = initiator.address.networkType;
+        return combineLatest([this.getGraph(signerAddress), this.getSigner(signerAddress, initiator)]).pipe(
+            map(([graph, signer]) => {
+                const innerTransactions = transactions.map((transaction) => transaction.toAggregate(signer));
+                const isComplete = graph
+                    ? innerTransactions.every((inner) =>
+                          this.aggregateTransactionService.isSignerApproved(graph, [initiator.address], inner),
+                      )
+                    : signerAddress.equals(initiator.address);
+                const aggregate = isComplete
+                    ? AggregateTransaction.createComplete(deadline, innerTransactions, networkType, [], maxFee)
+                    : AggregateTransaction.createBonded(deadline, innerTransactions, networkType, [], maxFee);
+                const cosignerLevels = graph ? this.getCosignerLevels(graph, innerTransactions) : [];
+                return new MultisigTransactionPlan(aggregate, signerAddress, cosignerLevels);
+            }),
+        );
+    }
+
+    /**
+     * Creates the hash lock of a signed aggregate bonded transaction, locking the network currency amount the network
+     * requires per aggregate. The currency mosaic id is taken from the network properties.
+     * @param signedAggregate - the signed aggregate bonded transaction
+     * @param deadline - the hash lock deadline
+     * @param duration - the number of blocks the funds are locked
+     * @param maxFee - the hash lock max fee
+     * @returns {Observable<HashLockTransaction>}
+     */
+    public createHashLock(
+        signedAggregate: SignedTransaction,
+        deadline: Deadline = Deadline.create(),
+        duration: UInt64 = MultisigTransactionService.DEFAULT_HASH_LOCK_DURATION,
+        maxFee: UInt64 = new UInt64([0, 0]),
+    ): Observable<HashLockTransaction> {
+        return this.networkRepository.getNetworkProperties().pipe(
+            map((properties) => {
+                const lockedFunds = properties.plugins.lockhash?.lockedFundsPerAggregate;
+                if (!lockedFunds) {
+                    throw new Error('Cannot get lockedFundsPerAggregate from network properties.');
+                }
+                const currencyMosaicId = NetworkPropertyParser.getCurrencyMosaicId(properties);
+                if (!currencyMosaicId) {
+                    throw new Error('Cannot get currencyMosaicId from network properties.');
+                }
+                const mosaic = new Mosaic(currencyMosaicId, NetworkPropertyParser.toUInt64(lockedFunds));
+                return HashLockTransaction.create(deadline, mosaic, duration, signedAggregate, signedAggregate.networkType, maxFee);
+            }),
+        );
+    }
+
+    /**
+     * @internal
+     * @returns the multisig graph of the signer, undefined when the signer is not a multisig account
+     */
+    private getGraph(signerAddress: Address): Observable<MultisigAccountGraphInfo | undefined> {
+        return this.multisigRepository.getMultisigAccountGraphInfo(signerAddress).pipe(
+            map((graph) => {
+                const root = (graph.multisigEntries.get(0) || []).find((entry) => entry.accountAddress.equals(signerAddress));
+                return root && root.isMultisig() ? graph : undefined;
+            }),
+            catchError((err) => {
+                if (err instanceof RepositoryError && err.statusCode === 404) {
+                    return of(undefined);
+                }
+                return throwError(err);
+            }),
+        );
+    }
+
+    /**
+     * @internal
+     * @returns the public account of the signer, the initiator or the one known by the network
+     */
+    private getSigner(signerAddress: Address, initiator: PublicAccount): Observable<PublicAccount> {
+        if (signerAddress.equals(initiator.address)) {
+            return of(initiator);
+        }
+        return this.accountRepository.getAccountInfo(signerAddress).pipe(
+            map((accountInfo) => {
+                if (/^0+$/.test(accountInfo.publicKey)) {
+                    throw new Error(`The public key of ${signerAddress.plain()} is not known by the network.`);
+                }
+                return accountInfo.publicAccount;
+            }),
+        );
+    }
+
+    /**
+     * @internal
+     * @returns the multisig accounts of the graph from the signer downwards
+     */
+    private getCosignerLevels(graph: MultisigAccountGraphInfo, innerTransactions: InnerTransaction[]): MultisigCosignerLevel[] {
+        const isRemoval = innerTransactions.some(
+            (inner) =>
+                inner.type === TransactionType.MULTISIG_ACCOUNT_MODIFICATION &&
+                (inner as MultisigAccountModificationTransaction).addressDeletions.length > 0,
+        );
+        const levels = Array.from(graph.multisigEntries.keys())
+            .filter((level) => level >= 0)
+            .sort((a, b) => a - b);
+        return ([] as MultisigCosignerLevel[]).concat(
+            ...levels.map((level) =>
+                graph.multisigEntries
+                    .get(level)!
+                    .filter((entry) => entry.isMultisig())
+                    .map((entry) => ({
+                        level,
+                        multisigAddress: entry.accountAddress,
+                        requiredCosignatures: isRemoval ? entry.minRemoval : entry.minApproval,
+                        cosignatories: entry.cosignatoryAddresses,
+                    })),
+            ),
+        );
+    }
+}
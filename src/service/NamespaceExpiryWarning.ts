@@ -0,0 +1,28 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { NamespacePortfolioEntry } from './NamespacePortfolioEntry';
+
+/**
+ * Warning emitted when a root namespace of a portfolio gets within a threshold of its expiry.
+ */
+export class NamespaceExpiryWarning {
+    /**
+     * @param namespace - the root namespace about to expire.
+     * @param threshold - the crossed threshold, in blocks before the expiry.
+     */
+    constructor(public readonly namespace: NamespacePortfolioEntry, public readonly threshold: number) {}
+}
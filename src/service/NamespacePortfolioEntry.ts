@@ -0,0 +1,64 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { NamespaceInfo } from '../model/namespace/NamespaceInfo';
+import { UInt64 } from '../model/UInt64';
+
+/**
+ * A namespace of a portfolio with its full name and expiry at a given chain height.
+ */
+export class NamespacePortfolioEntry {
+    /**
+     * End height of the namespaces that never expire, like the ones registered in the nemesis block.
+     */
+    public static readonly ETERNAL_END_HEIGHT = new UInt64([0xffffffff, 0xffffffff]);
+
+    /**
+     * @param info - the namespace info.
+     * @param name - the namespace full name.
+     * @param chainHeight - the chain height the expiry is computed at.
+     */
+    constructor(public readonly info: NamespaceInfo, public readonly name: string, public readonly chainHeight: UInt64) {}
+
+    /**
+     * If the namespace never expires.
+     * @returns {boolean}
+     */
+    public isEternal(): boolean {
+        return this.info.endHeight.equals(NamespacePortfolioEntry.ETERNAL_END_HEIGHT);
+    }
+
+    /**
+     * The number of blocks until the namespace expires, 0 or negative once it has expired and undefined when it never
+     * expires. Subnamespaces expire with their root namespace.
+     * @returns {number | undefined}
+     */
+    public get blocksToExpiry(): number | undefined {
+        if (this.isEternal()) {
+            return undefined;
+        }
+        return this.info.endHeight.compact() - this.chainHeight.compact();
+    }
+
+    /**
+     * If the namespace has expired at the chain height. The owner may still be able to renew it during the grace period.
+     * @returns {boolean}
+     */
+    public isExpired(): boolean {
+        const blocksToExpiry = this.blocksToExpiry;
+        return blocksToExpiry !== undefined && blocksToExpiry <= 0;
+    }
+}
@@ -0,0 +1,227 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { defer, forkJoin, from, merge, Observable, of } from 'rxjs';
+import { concatMap, map, mergeMap, toArray } from 'rxjs/operators';
+import { ChainRepository } from '../infrastructure/ChainRepository';
+import { IListener } from '../infrastructure/IListener';
+import { NamespaceRepository } from '../infrastructure/NamespaceRepository';
+import { NetworkRepository } from '../infrastructure/NetworkRepository';
+import { NamespacePaginationStreamer } from '../infrastructure/paginationStreamer/NamespacePaginationStreamer';
+import { RepositoryFactory } from '../infrastructure/RepositoryFactory';
+import { Address } from '../model/account/Address';
+import { NamespaceId } from '../model/namespace/NamespaceId';
+import { NamespaceInfo } from '../model/namespace/NamespaceInfo';
+import { NamespaceName } from '../model/namespace/NamespaceName';
+import { Deadline } from '../model/transaction/Deadline';
+import { NamespaceRegistrationTransaction } from '../model/transaction/NamespaceRegistrationTransaction';
+import { UInt64 } from '../model/UInt64';
+import { NamespaceExpiryWarning } from './NamespaceExpiryWarning';
+import { NamespacePortfolioEntry } from './NamespacePortfolioEntry';
+import { NamespaceRenewal } from './NamespaceRenewal';
+
+/**
+ * Namespace Portfolio Service
+ *
+ * Lists the namespaces owned by an account with their expiry, renews them and warns before they expire.
+ */
+export class NamespacePortfolioService {
+    private readonly chainRepository: ChainRepository;
+
+    private readonly namespaceRepository: NamespaceRepository;
+
+    private readonly networkRepository: NetworkRepository;
+
+    /**
+     * Constructor
+     * @param repositoryFactory
+     */
+    constructor(private readonly repositoryFactory: RepositoryFactory) {
+        this.chainRepository = repositoryFactory.createChainRepository();
+        this.namespaceRepository = repositoryFactory.createNamespaceRepository();
+        this.networkRepository = repositoryFactory.createNetworkRepository();
+    }
+
+    /**
+     * Returns all the namespaces owned by an address with their full names and expiry at the current chain height.
+     * @param address - the owner address
+     * @returns {Observable<NamespacePortfolioEntry[]>}
+     */
+    public getNamespaces(address: Address): Observable<NamespacePortfolioEntry[]> {
+        return this.chainRepository.getBlockchainHeight().pipe(mergeMap((height) => this.loadNamespaces(address, height)));
+    }
+
+    /**
+     * Creates the root namespace registration extending the duration of a namespace. Subnamespaces are renewed with their
+     * root namespace.
+     * @param namespace - the full name of the namespace, or of one of its subnamespaces
+     * @param duration - the extra duration in blocks
+     * @param deadline - the transaction deadline
+     * @param maxFee - the transaction max fee
+     * @returns {Observable<NamespaceRenewal>}
+     */
+    public createRenewal(
+        namespace: string,
+        duration: UInt64,
+        deadline: Deadline,
+        maxFee: UInt64 = new UInt64([0, 0]),
+    ): Observable<NamespaceRenewal> {
+        const rootName = namespace.split('.')[0];
+        return forkJoin([this.repositoryFactory.getNetworkType(), this.networkRepository.getRentalFees()]).pipe(
+            map(([networkType, rentalFees]) => {
+                const transaction = NamespaceRegistrationTransaction.createRootNamespace(deadline, rootName, duration, networkType, maxFee);
+                const rentalFee = rentalFees.effectiveRootNamespaceRentalFeePerBlock.multiply(duration);
+                return new NamespaceRenewal(transaction, rentalFee);
+            }),
+        );
+    }
+
+    /**
+     * Emits a warning each time a root namespace owned by the address crosses one of the thresholds, checked at the
+     * current height and then on every new block. A renewed namespace warns again once it gets close to its new expiry.
+     *
+     * The portfolio is reloaded on every check, so the renewals and the namespaces registered in the meantime are taken
+     * into account. Each subscription tracks its own warnings.
+     *
+     * @param address - the owner address
+     * @param listener - an open listener
+     * @param thresholds - the number of blocks before the expiry to warn at, 0 warns when the namespace expires
+     * @returns {Observable<NamespaceExpiryWarning>}
+     */
+    public watchExpiry(address: Address, listener: IListener, thresholds: number[]): Observable<NamespaceExpiryWarning> {
+        const sortedThresholds = [...thresholds].sort((a, b) => a - b);
+        return defer(() => {
+            const warnedThresholds = new Map<string, number>();
+            const heights = merge(this.chainRepository.getBlockchainHeight(), listener.newBlock().pipe(map((block) => block.height)));
+            return heights.pipe(
+                concatMap((height) =>
+                    this.loadNamespaces(address, height).pipe(
+                        mergeMap((namespaces) => {
+                            const warnings = NamespacePortfolioService.getWarnings(namespaces, height, sortedThresholds, warnedThresholds);
+                            NamespacePortfolioService.updateWarnedThresholds(namespaces, warnings, warnedThresholds);
+                            return from(warnings);
+                        }),
+                    ),
+                ),
+            );
+        });
+    }
+
+    /**
+     * @internal
+     * Loads the namespaces owned by the address and resolves their full names.
+     * @param address - the owner address
+     * @param height - the chain height
+     * @returns {Observable<NamespacePortfolioEntry[]>}
+     */
+    private loadNamespaces(address: Address, height: UInt64): Observable<NamespacePortfolioEntry[]> {
+        const streamer = new NamespacePaginationStreamer(this.namespaceRepository);
+        return streamer.search({ ownerAddress: address }).pipe(
+            toArray(),
+            mergeMap((infos) => {
+                if (!infos.length) {
+                    return of([]);
+                }
+                const levels = new Map<string, NamespaceId>();
+                infos.forEach((info) => info.levels.forEach((level) => levels.set(level.toHex(), level)));
+                return this.namespaceRepository
+                    .getNamespacesNames(Array.from(levels.values()))
+                    .pipe(
+                        map((names) =>
+                            infos.map(
+                                (info) => new NamespacePortfolioEntry(info, NamespacePortfolioService.getFullName(info, names), height),
+                            ),
+                        ),
+                    );
+            }),
+        );
+    }
+
+    /**
+     * @internal
+     * The full name of a namespace from the names of its levels.
+     * @param info - the namespace info
+     * @param names - the level names
+     * @returns {string}
+     */
+    private static getFullName(info: NamespaceInfo, names: NamespaceName[]): string {
+        return info.levels
+            .map((level) => {
+                const name = names.find((namespaceName) => namespaceName.namespaceId.equals(level));
+                if (!name) {
+                    throw new Error(`Name of namespace ${level.toHex()} not found`);
+                }
+                return name.name;
+            })
+            .join('.');
+    }
+
+    /**
+     * @internal
+     * The warnings of the root namespaces that crossed a threshold lower than the last one they warned at.
+     * @param namespaces - the portfolio
+     * @param height - the chain height
+     * @param thresholds - the thresholds, ascending
+     * @param warnedThresholds - the last threshold each root namespace warned at
+     * @returns {NamespaceExpiryWarning[]}
+     */
+    private static getWarnings(
+        namespaces: NamespacePortfolioEntry[],
+        height: UInt64,
+        thresholds: number[],
+        warnedThresholds: Map<string, number>,
+    ): NamespaceExpiryWarning[] {
+        const warnings: NamespaceExpiryWarning[] = [];
+        namespaces
+            .filter((namespace) => namespace.info.isRoot())
+            .map((namespace) => new NamespacePortfolioEntry(namespace.info, namespace.name, height))
+            .forEach((namespace) => {
+                const blocksToExpiry = namespace.blocksToExpiry;
+                if (blocksToExpiry === undefined) {
+                    return;
+                }
+                const threshold = thresholds.find((value) => blocksToExpiry <= value);
+                const warnedThreshold = warnedThresholds.get(namespace.info.id.toHex());
+                if (threshold !== undefined && (warnedThreshold === undefined || threshold < warnedThreshold)) {
+                    warnings.push(new NamespaceExpiryWarning(namespace, threshold));
+                }
+            });
+        return warnings;
+    }
+
+    /**
+     * @internal
+     * Records the emitted warnings and forgets the namespaces renewed past the threshold they warned at.
+     * @param namespaces - the portfolio
+     * @param warnings - the emitted warnings
+     * @param warnedThresholds - the last threshold each root namespace warned at
+     */
+    private static updateWarnedThresholds(
+        namespaces: NamespacePortfolioEntry[],
+        warnings: NamespaceExpiryWarning[],
+        warnedThresholds: Map<string, number>,
+    ): void {
+        namespaces.forEach((namespace) => {
+            const key = namespace.info.id.toHex();
+            const warnedThreshold = warnedThresholds.get(key);
+            const blocksToExpiry = namespace.blocksToExpiry;
+            if (warnedThreshold !== undefined && (blocksToExpiry === undefined || blocksToExpiry > warnedThreshold)) {
+                warnedThresholds.delete(key);
+            }
+        });
+        warnings.forEach((warning) => warnedThresholds.set(warning.namespace.info.id.toHex(), warning.threshold));
+    }
+}
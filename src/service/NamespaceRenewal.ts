@@ -0,0 +1,29 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { NamespaceRegistrationTransaction } from '../model/transaction/NamespaceRegistrationTransaction';
+import { UInt64 } from '../model/UInt64';
+
+/**
+ * The transaction renewing a root namespace and its rental fee.
+ */
+export class NamespaceRenewal {
+    /**
+     * @param transaction - the root namespace registration extending the namespace duration.
+     * @param rentalFee - the rental fee of the extra duration, in absolute network currency units.
+     */
+    constructor(public readonly transaction: NamespaceRegistrationTransaction, public readonly rentalFee: UInt64) {}
+}
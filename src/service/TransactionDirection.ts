@@ -0,0 +1,37 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * The direction of a transaction from the point of view of an account.
+ */
+export enum TransactionDirection {
+    /**
+     * The account is the recipient of the transaction.
+     */
+    Incoming = 'Incoming',
+    /**
+     * The account signed the transaction for another recipient.
+     */
+    Outgoing = 'Outgoing',
+    /**
+     * The account signed the transaction and it's also the recipient.
+     */
+    Self = 'Self',
+    /**
+     * The account is neither the signer nor the recipient, for example a cosigner or another party of an aggregate.
+     */
+    None = 'None',
+}
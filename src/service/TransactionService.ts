@@ -14,11 +14,16 @@
  * limitations under the License.
  */
 
-import { merge, Observable, of } from 'rxjs';
-import { first, flatMap, map, mergeMap, toArray } from 'rxjs/operators';
+import { ZoneId } from 'js-joda';
+import { EMPTY, merge, Observable, of, Subscription, throwError, timer } from 'rxjs';
+import { catchError, first, flatMap, map, mergeMap, toArray } from 'rxjs/operators';
+import { TransactionGroupEnum, TransactionStatusEnum } from 'symbol-openapi-typescript-fetch-client';
+import { TransactionMapping } from '../core/utils/TransactionMapping';
 import { IListener } from '../infrastructure/IListener';
 import { ReceiptRepository } from '../infrastructure/ReceiptRepository';
+import { RepositoryError } from '../infrastructure/RepositoryError';
 import { TransactionRepository } from '../infrastructure/TransactionRepository';
+import { TransactionStatusRepository } from '../infrastructure/TransactionStatusRepository';
 import { Address } from '../model/account/Address';
 import { NamespaceId } from '../model/namespace/NamespaceId';
 import { AccountAddressRestrictionTransaction } from '../model/transaction/AccountAddressRestrictionTransaction';
@@ -32,11 +37,16 @@ import { SecretLockTransaction } from '../model/transaction/SecretLockTransactio
 import { SecretProofTransaction } from '../model/transaction/SecretProofTransaction';
 import { SignedTransaction } from '../model/transaction/SignedTransaction';
 import { Transaction } from '../model/transaction/Transaction';
+import { TransactionStatus } from '../model/transaction/TransactionStatus';
+import { TransactionFailedError } from '../model/transaction/TransactionFailedError';
 import { TransactionStatusError } from '../model/transaction/TransactionStatusError';
 import { TransactionType } from '../model/transaction/TransactionType';
 import { TransferTransaction } from '../model/transaction/TransferTransaction';
 import { ITransactionService } from './interfaces/ITransactionService';
 import { TransactionGroup } from '../infrastructure/TransactionGroup';
+import { TransactionTrackingConfig } from './TransactionTrackingConfig';
+import { TransactionTrackingEvent } from './TransactionTrackingEvent';
+import { TransactionTrackingState } from './TransactionTrackingState';
 
 /**
  * Transaction Service
@@ -46,8 +56,13 @@ export class TransactionService implements ITransactionService {
      * Constructor
      * @param transactionRepository
      * @param receiptRepository
+     * @param transactionStatusRepository optional, used by announceAndTrack to poll the transaction status
      */
-    constructor(private readonly transactionRepository: TransactionRepository, private readonly receiptRepository: ReceiptRepository) {}
+    constructor(
+        private readonly transactionRepository: TransactionRepository,
+        private readonly receiptRepository: ReceiptRepository,
+        private readonly transactionStatusRepository?: TransactionStatusRepository,
+    ) {}
 
     /**
      * Resolve unresolved mosaic / address from array of transactions
@@ -113,6 +128,118 @@ export class TransactionService implements ITransactionService {
         );
     }
 
+    /**
+     * Announces a transaction and tracks it until it's confirmed or failed.
+     * @param signedTransaction Signed transaction to be announced.
+     * @param listener Websocket listener
+     * @param config the tracking configuration
+     * @returns {Observable<TransactionTrackingEvent>}
+     */
+    public announceAndTrack(
+        signedTransaction: SignedTransaction,
+        listener: IListener,
+        config: TransactionTrackingConfig = {},
+    ): Observable<TransactionTrackingEvent> {
+        const hash = signedTransaction.hash;
+        const signerAddress = signedTransaction.getSignerAddress();
+        const deadline = TransactionMapping.createFromPayload(signedTransaction.payload).deadline;
+        const deadlineTime = deadline.value.atZone(ZoneId.SYSTEM).toInstant().toEpochMilli();
+        const pollingInterval = config.pollingInterval ?? 5000;
+        const timeout = Math.max(0, deadlineTime + (config.deadlineGracePeriod ?? 30000) - Date.now());
+        const maxReannounces = config.reannounce ? config.maxReannounces ?? 3 : 0;
+        const ranks = {
+            [TransactionTrackingState.Announced]: 0,
+            [TransactionTrackingState.Unconfirmed]: 1,
+            [TransactionTrackingState.Confirmed]: 2,
+            [TransactionTrackingState.Failed]: 2,
+        };
+        const rank = (state?: TransactionTrackingState): number => (state === undefined ? -1 : ranks[state]);
+
+        return new Observable<TransactionTrackingEvent>((subscriber) => {
+            const subscription = new Subscription();
+            let state: TransactionTrackingState | undefined;
+            let announceCount = 0;
+
+            const emit = (newState: TransactionTrackingState, transaction?: Transaction, error?: TransactionStatusError): void => {
+                if (rank(newState) <= rank(state)) {
+                    return;
+                }
+                if (state === undefined && newState !== TransactionTrackingState.Announced) {
+                    emit(TransactionTrackingState.Announced);
+                }
+                state = newState;
+                subscriber.next({ state, hash, announceCount, transaction, error });
+                if (rank(state) === 2) {
+                    subscriber.complete();
+                }
+            };
+            const fail = (code: string): void =>
+                emit(TransactionTrackingState.Failed, undefined, new TransactionStatusError(signerAddress, hash, code, deadline));
+            const announce = (): void => {
+                announceCount++;
+                subscription.add(
+                    this.transactionRepository.announce(signedTransaction).subscribe(
+                        () => emit(TransactionTrackingState.Announced),
+                        (e) => subscriber.error(e),
+                    ),
+                );
+            };
+            const handleStatus = (status: TransactionStatus | undefined): Observable<Transaction> => {
+                if (!status) {
+                    // The transaction dropped from the unconfirmed pool
+                    if (state === TransactionTrackingState.Unconfirmed && announceCount <= maxReannounces && Date.now() < deadlineTime) {
+                        state = undefined;
+                        announce();
+                    }
+                    return EMPTY;
+                }
+                switch (status.group) {
+                    case TransactionGroupEnum.Unconfirmed:
+                        emit(TransactionTrackingState.Unconfirmed);
+                        return EMPTY;
+                    case TransactionGroupEnum.Failed:
+                        fail(status.code || TransactionStatusEnum.Failure);
+                        return EMPTY;
+                    case TransactionGroupEnum.Confirmed:
+                        return this.transactionRepository.getTransaction(hash, TransactionGroup.Confirmed);
+                    default:
+                        return EMPTY;
+                }
+            };
+
+            subscription.add(listener.unconfirmedAdded(signerAddress, hash).subscribe(() => emit(TransactionTrackingState.Unconfirmed)));
+            subscription.add(listener.confirmed(signerAddress, hash).subscribe((t) => emit(TransactionTrackingState.Confirmed, t)));
+            subscription.add(listener.status(signerAddress, hash).subscribe((e) => emit(TransactionTrackingState.Failed, undefined, e)));
+            if (this.transactionStatusRepository) {
+                subscription.add(
+                    timer(pollingInterval, pollingInterval)
+                        .pipe(
+                            // A failed poll is retried on the next interval.
+                            mergeMap(() =>
+                                this.pollTransactionStatus(hash).pipe(
+                                    mergeMap(handleStatus),
+                                    catchError(() => EMPTY),
+                                ),
+                            ),
+                        )
+                        .subscribe((t) => emit(TransactionTrackingState.Confirmed, t)),
+                );
+            }
+            subscription.add(
+                timer(timeout)
+                    .pipe(mergeMap(() => this.pollTransactionStatus(hash).pipe(mergeMap(handleStatus))))
+                    .subscribe(
+                        (t) => emit(TransactionTrackingState.Confirmed, t),
+                        // The outcome is unknown when the last poll fails, it's not a deadline failure.
+                        (e) => subscriber.error(e),
+                        () => fail(TransactionStatusEnum.FailureCorePastDeadline),
+                    ),
+            );
+            announce();
+            return subscription;
+        });
+    }
+
     /**
      * @internal
      *
@@ -135,7 +262,7 @@ export class TransactionService implements ITransactionService {
             first(),
             map((errorOrTransaction) => {
                 if (errorOrTransaction instanceof TransactionStatusError) {
-                    throw new Error(errorOrTransaction.code);
+                    throw new TransactionFailedError(errorOrTransaction);
                 } else {
                     return errorOrTransaction;
                 }
@@ -143,6 +270,20 @@ export class TransactionService implements ITransactionService {
         );
     }
 
+    /**
+     * @internal
+     * Gets the transaction status, undefined when the node doesn't know the transaction. Other errors are ignored.
+     * @param hash the transaction hash
+     */
+    private pollTransactionStatus(hash: string): Observable<TransactionStatus | undefined> {
+        if (!this.transactionStatusRepository) {
+            return EMPTY;
+        }
+        return this.transactionStatusRepository
+            .getTransactionStatus(hash)
+            .pipe(catchError((err) => (err instanceof RepositoryError && err.statusCode === 404 ? of(undefined) : throwError(err))));
+    }
+
     /**
      * Resolve transaction alias(s)
      * @param transaction Transaction to be resolved
@@ -0,0 +1,43 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Transaction } from '../model/transaction/Transaction';
+import { BalanceChange } from './BalanceChange';
+import { TransactionViolation } from './TransactionViolation';
+
+/**
+ * The outcome of a transaction predicted by the {@link TransactionSimulationService}.
+ */
+export class TransactionSimulation {
+    /**
+     * @param transaction - the simulated transaction.
+     * @param violations - the reasons the node would reject the transaction with, empty when it would be accepted.
+     * @param balanceChanges - the balances changed by the transaction, fees included.
+     */
+    constructor(
+        public readonly transaction: Transaction,
+        public readonly violations: TransactionViolation[],
+        public readonly balanceChanges: BalanceChange[],
+    ) {}
+
+    /**
+     * If the node is expected to accept the transaction.
+     * @returns {boolean}
+     */
+    public isValid(): boolean {
+        return !this.violations.length;
+    }
+}
@@ -0,0 +1,674 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { forkJoin, from, Observable, of, OperatorFunction, throwError } from 'rxjs';
+import { catchError, concatMap, map, mergeMap, toArray } from 'rxjs/operators';
+import { NetworkPropertyParser } from '../core/utils/NetworkPropertyParser';
+import { AccountRepository } from '../infrastructure/AccountRepository';
+import { MosaicRepository } from '../infrastructure/MosaicRepository';
+import { NamespaceRepository } from '../infrastructure/NamespaceRepository';
+import { NetworkRepository } from '../infrastructure/NetworkRepository';
+import { RepositoryError } from '../infrastructure/RepositoryError';
+import { RepositoryFactory } from '../infrastructure/RepositoryFactory';
+import { RestrictionAccountRepository } from '../infrastructure/RestrictionAccountRepository';
+import { RestrictionMosaicRepository } from '../infrastructure/RestrictionMosaicRepository';
+import { Address } from '../model/account/Address';
+import { PublicAccount } from '../model/account/PublicAccount';
+import { UnresolvedAddress } from '../model/account/UnresolvedAddress';
+import { Mosaic } from '../model/mosaic/Mosaic';
+import { MosaicId } from '../model/mosaic/MosaicId';
+import { MosaicInfo } from '../model/mosaic/MosaicInfo';
+import { MosaicSupplyChangeAction } from '../model/mosaic/MosaicSupplyChangeAction';
+import { UnresolvedMosaicId } from '../model/mosaic/UnresolvedMosaicId';
+import { AliasAction } from '../model/namespace/AliasAction';
+import { NamespaceId } from '../model/namespace/NamespaceId';
+import { NamespaceInfo } from '../model/namespace/NamespaceInfo';
+import { NamespaceRegistrationType } from '../model/namespace/NamespaceRegistrationType';
+import { RentalFees } from '../model/network/RentalFees';
+import { AccountRestriction } from '../model/restriction/AccountRestriction';
+import { AddressRestrictionFlag } from '../model/restriction/AddressRestrictionFlag';
+import { MosaicGlobalRestriction } from '../model/restriction/MosaicGlobalRestriction';
+import { MosaicGlobalRestrictionItem } from '../model/restriction/MosaicGlobalRestrictionItem';
+import { MosaicRestrictionFlag } from '../model/restriction/MosaicRestrictionFlag';
+import { MosaicRestrictionType } from '../model/restriction/MosaicRestrictionType';
+import { OperationRestrictionFlag } from '../model/restriction/OperationRestrictionFlag';
+import { AddressAliasTransaction } from '../model/transaction/AddressAliasTransaction';
+import { AggregateTransaction } from '../model/transaction/AggregateTransaction';
+import { LockFundsTransaction } from '../model/transaction/LockFundsTransaction';
+import { MosaicAliasTransaction } from '../model/transaction/MosaicAliasTransaction';
+import { MosaicDefinitionTransaction } from '../model/transaction/MosaicDefinitionTransaction';
+import { MosaicSupplyChangeTransaction } from '../model/transaction/MosaicSupplyChangeTransaction';
+import { NamespaceRegistrationTransaction } from '../model/transaction/NamespaceRegistrationTransaction';
+import { SecretLockTransaction } from '../model/transaction/SecretLockTransaction';
+import { Transaction } from '../model/transaction/Transaction';
+import { TransferTransaction } from '../model/transaction/TransferTransaction';
+import { UInt64 } from '../model/UInt64';
+import { BalanceChange } from './BalanceChange';
+import { TransactionSimulation } from './TransactionSimulation';
+import { TransactionViolation } from './TransactionViolation';
+
+/**
+ * An amount of a mosaic moved by a transaction. Amounts without sender are created by the transaction, amounts
+ * without recipient are paid as fees, locked or burnt.
+ */
+interface BalanceMovement {
+    sender?: Address;
+    recipient?: Address;
+    mosaicId: MosaicId;
+    amount: UInt64;
+}
+
+/**
+ * The simulated transaction or one of its inner transactions.
+ */
+interface SimulationStep {
+    transaction: Transaction;
+    signer: Address;
+    index?: number;
+}
+
+/**
+ * The violations found in a simulation step and the balances it moves.
+ */
+interface StepResult {
+    violations: TransactionViolation[];
+    movements: BalanceMovement[];
+}
+
+type ViolationFactory = (code: string, message: string) => TransactionViolation;
+
+/**
+ * Transaction Simulation Service
+ *
+ * It dry-runs a transaction against the current chain state before announcing it, predicting the balance changes
+ * and the errors the node would otherwise report through the transaction status:
+ * - the signers must have enough balance for the amounts moved, the max fee and the rental fees.
+ * - the mosaics transferred must be transferable, unless the sender or the recipient owns them.
+ * - the account restrictions and the mosaic restrictions must allow the transfers and the transaction types.
+ * - the signer must own the namespaces being linked or unlinked, and the aliases used must resolve.
+ *
+ * The inner transactions of an aggregate are checked against the chain state before the aggregate, only the
+ * balances are updated from one inner transaction to the next.
+ */
+export class TransactionSimulationService {
+    private readonly accountRepository: AccountRepository;
+    private readonly namespaceRepository: NamespaceRepository;
+    private readonly mosaicRepository: MosaicRepository;
+    private readonly restrictionAccountRepository: RestrictionAccountRepository;
+    private readonly restrictionMosaicRepository: RestrictionMosaicRepository;
+    private readonly networkRepository: NetworkRepository;
+
+    /**
+     * Constructor
+     * @param repositoryFactory
+     */
+    constructor(repositoryFactory: RepositoryFactory) {
+        this.accountRepository = repositoryFactory.createAccountRepository();
+        this.namespaceRepository = repositoryFactory.createNamespaceRepository();
+        this.mosaicRepository = repositoryFactory.createMosaicRepository();
+        this.restrictionAccountRepository = repositoryFactory.createRestrictionAccountRepository();
+        this.restrictionMosaicRepository = repositoryFactory.createRestrictionMosaicRepository();
+        this.networkRepository = repositoryFactory.createNetworkRepository();
+    }
+
+    /**
+     * Simulates a transaction and, for aggregates, their inner transactions.
+     * @param transaction - the transaction to simulate, usually before signing it.
+     * @param signer - the account signing the transaction, by default the signer of a signed transaction.
+     * @returns {Observable<TransactionSimulation>}
+     */
+    public simulate(transaction: Transaction, signer: PublicAccount | undefined = transaction.signer): Observable<TransactionSimulation> {
+        if (!signer) {
+            throw new Error('The signer of the transaction is required to simulate it.');
+        }
+        const innerTransactions = transaction instanceof AggregateTransaction ? transaction.innerTransactions : [];
+        const steps: SimulationStep[] = [{ transaction, signer: signer.address }].concat(
+            innerTransactions.map((innerTransaction, index) => ({
+                transaction: innerTransaction,
+                signer: (innerTransaction.signer || signer).address,
+                index,
+            })),
+        );
+        return forkJoin([this.getCurrencyMosaicId(), this.getRentalFees()]).pipe(
+            mergeMap(([currencyMosaicId, rentalFees]) =>
+                from(steps).pipe(
+                    concatMap((step) => this.simulateStep(step, currencyMosaicId, rentalFees)),
+                    toArray(),
+                ),
+            ),
+            mergeMap((results) =>
+                this.applyMovements(steps, results).pipe(
+                    map(
+                        ([balanceViolations, balanceChanges]) =>
+                            new TransactionSimulation(
+                                transaction,
+                                TransactionSimulationService.mergeResults(results).violations.concat(balanceViolations),
+                                balanceChanges,
+                            ),
+                    ),
+                ),
+            ),
+        );
+    }
+
+    /**
+     * @internal
+     * Checks a transaction against the chain state and finds the balances it moves.
+     */
+    private simulateStep(step: SimulationStep, currencyMosaicId?: MosaicId, rentalFees?: RentalFees): Observable<StepResult> {
+        const { transaction, signer } = step;
+        const violation: ViolationFactory = (code, message) => new TransactionViolation(code, message, transaction, step.index);
+        const fees = [step.index === undefined ? transaction.maxFee : undefined, this.getRentalFee(transaction, rentalFees)]
+            .filter((fee): fee is UInt64 => !!fee && !!currencyMosaicId && fee.compact() > 0)
+            .map((amount): BalanceMovement => ({ sender: signer, mosaicId: currencyMosaicId!, amount }));
+        const results: Observable<StepResult>[] = [
+            of({ violations: [], movements: fees }),
+            this.getAccountRestrictions(signer).pipe(
+                map((restrictions) => ({
+                    violations: TransactionSimulationService.isAllowed(
+                        restrictions,
+                        OperationRestrictionFlag.AllowOutgoingTransactionType,
+                        OperationRestrictionFlag.BlockOutgoingTransactionType,
+                        (value) => Number(value) === transaction.type,
+                    )
+                        ? []
+                        : [
+                              violation(
+                                  'Failure_RestrictionAccount_Operation_Type_Prohibited',
+                                  `Account ${signer.plain()} is not allowed to announce transactions of type ${transaction.type}`,
+                              ),
+                          ],
+                    movements: [],
+                })),
+            ),
+        ];
+        if (transaction instanceof TransferTransaction) {
+            results.push(this.simulateTransfer(transaction, signer, violation));
+        } else if (transaction instanceof LockFundsTransaction) {
+            results.push(this.simulateLock(transaction.mosaic, signer, violation));
+        } else if (transaction instanceof SecretLockTransaction) {
+            results.push(
+                this.simulateLock(transaction.mosaic, signer, violation),
+                this.resolveAddress(transaction.recipientAddress).pipe(
+                    map((recipient) => ({
+                        violations: recipient ? [] : [TransactionSimulationService.unknownAlias(transaction.recipientAddress, violation)],
+                        movements: [],
+                    })),
+                ),
+            );
+        } else if (transaction instanceof MosaicSupplyChangeTransaction) {
+            results.push(this.simulateSupplyChange(transaction, signer, violation));
+        } else if (transaction instanceof AddressAliasTransaction || transaction instanceof MosaicAliasTransaction) {
+            results.push(this.simulateAlias(transaction, signer, violation));
+        }
+        return forkJoin(results).pipe(map((stepResults) => TransactionSimulationService.mergeResults(stepResults)));
+    }
+
+    /**
+     * @internal
+     * Checks the account restrictions of the sender and the recipient, and the mosaics transferred.
+     */
+    private simulateTransfer(transfer: TransferTransaction, sender: Address, violation: ViolationFactory): Observable<StepResult> {
+        return this.resolveAddress(transfer.recipientAddress).pipe(
+            mergeMap((recipient) => {
+                if (!recipient) {
+                    return of({
+                        violations: [TransactionSimulationService.unknownAlias(transfer.recipientAddress, violation)],
+                        movements: [],
+                    });
+                }
+                return forkJoin([this.getAccountRestrictions(sender), this.getAccountRestrictions(recipient)]).pipe(
+                    mergeMap(([senderRestrictions, recipientRestrictions]) => {
+                        const allowed =
+                            sender.equals(recipient) ||
+                            (TransactionSimulationService.isAllowed(
+                                senderRestrictions,
+                                AddressRestrictionFlag.AllowOutgoingAddress,
+                                AddressRestrictionFlag.BlockOutgoingAddress,
+                                (value) => recipient.equals(value),
+                            ) &&
+                                TransactionSimulationService.isAllowed(
+                                    recipientRestrictions,
+                                    AddressRestrictionFlag.AllowIncomingAddress,
+                                    AddressRestrictionFlag.BlockIncomingAddress,
+                                    (value) => sender.equals(value),
+                                ));
+                        const interaction: StepResult = {
+                            violations: allowed
+                                ? []
+                                : [
+                                      violation(
+                                          'Failure_RestrictionAccount_Address_Interaction_Prohibited',
+                                          `Account ${sender.plain()} is not allowed to interact with account ${recipient.plain()}`,
+                                      ),
+                                  ],
+                            movements: [],
+                        };
+                        return from(transfer.mosaics).pipe(
+                            concatMap((mosaic) => this.simulateMosaicTransfer(mosaic, sender, recipient, recipientRestrictions, violation)),
+                            toArray(),
+                            map((results) => TransactionSimulationService.mergeResults([interaction, ...results])),
+                        );
+                    }),
+                );
+            }),
+        );
+    }
+
+    /**
+     * @internal
+     * Checks a mosaic can go from the sender to the recipient.
+     */
+    private simulateMosaicTransfer(
+        mosaic: Mosaic,
+        sender: Address,
+        recipient: Address,
+        recipientRestrictions: AccountRestriction[],
+        violation: ViolationFactory,
+    ): Observable<StepResult> {
+        return this.resolveMosaicId(mosaic.id).pipe(
+            mergeMap((mosaicId) => {
+                if (!mosaicId) {
+                    return of({ violations: [TransactionSimulationService.unknownAlias(mosaic.id, violation)], movements: [] });
+                }
+                return this.getMosaic(mosaicId).pipe(
+                    mergeMap((mosaicInfo) => {
+                        const violations: TransactionViolation[] = [];
+                        if (
+                            mosaicInfo &&
+                            !mosaicInfo.isTransferable() &&
+                            !mosaicInfo.ownerAddress.equals(sender) &&
+                            !mosaicInfo.ownerAddress.equals(recipient)
+                        ) {
+                            violations.push(violation('Failure_Mosaic_Non_Transferable', `Mosaic ${mosaicId.toHex()} is not transferable`));
+                        }
+                        if (
+                            !TransactionSimulationService.isAllowed(
+                                recipientRestrictions,
+                                MosaicRestrictionFlag.AllowMosaic,
+                                MosaicRestrictionFlag.BlockMosaic,
+                                (value) => mosaicId.equals(value),
+                            )
+                        ) {
+                            violations.push(
+                                violation(
+                                    'Failure_RestrictionAccount_Mosaic_Transfer_Prohibited',
+                                    `Account ${recipient.plain()} does not accept mosaic ${mosaicId.toHex()}`,
+                                ),
+                            );
+                        }
+                        const mosaicRestrictions =
+                            mosaicInfo && mosaicInfo.isRestrictable()
+                                ? this.checkMosaicRestrictions(mosaicId, [sender, recipient])
+                                : of([]);
+                        return mosaicRestrictions.pipe(
+                            map((unauthorized) => ({
+                                violations: violations.concat(
+                                    unauthorized.map((address) =>
+                                        violation(
+                                            'Failure_RestrictionMosaic_Account_Unauthorized',
+                                            `Account ${address.plain()} is not authorized to move mosaic ${mosaicId.toHex()}`,
+                                        ),
+                                    ),
+                                ),
+                                movements: [{ sender, recipient, mosaicId, amount: mosaic.amount }],
+                            })),
+                        );
+                    }),
+                );
+            }),
+        );
+    }
+
+    /**
+     * @internal
+     * Finds the accounts not meeting the global restrictions of a mosaic.
+     */
+    private checkMosaicRestrictions(mosaicId: MosaicId, addresses: Address[]): Observable<Address[]> {
+        return this.restrictionMosaicRepository.getMosaicGlobalRestriction(mosaicId).pipe(
+            TransactionSimulationService.whenNotFound<MosaicGlobalRestriction, undefined>(undefined),
+            mergeMap((globalRestriction) => {
+                const rules = globalRestriction
+                    ? Array.from(globalRestriction.restrictions.entries()).filter(
+                          ([, rule]) => rule.restrictionType !== MosaicRestrictionType.NONE,
+                      )
+                    : [];
+                return from(addresses).pipe(
+                    concatMap((address) =>
+                        from(rules).pipe(
+                            concatMap(([key, rule]) => {
+                                // A reference mosaic id of 0 is the restricted mosaic itself.
+                                const referenceMosaicId = rule.referenceMosaicId.id.equals(UInt64.fromUint(0))
+                                    ? mosaicId
+                                    : rule.referenceMosaicId;
+                                return this.restrictionMosaicRepository.getMosaicAddressRestriction(referenceMosaicId, address).pipe(
+                                    map((addressRestriction) => addressRestriction.restrictions.get(key)),
+                                    TransactionSimulationService.whenNotFound<string | undefined, undefined>(undefined),
+                                    map((value) => value !== undefined && TransactionSimulationService.meetsRule(value, rule)),
+                                );
+                            }),
+                            toArray(),
+                            map((results): Address[] => (results.every((authorized) => authorized) ? [] : [address])),
+                        ),
+                    ),
+                    toArray(),
+                    map((unauthorized) => ([] as Address[]).concat(...unauthorized)),
+                );
+            }),
+        );
+    }
+
+    /**
+     * @internal
+     * Hash and secret locks take the locked mosaic from the signer.
+     */
+    private simulateLock(mosaic: Mosaic, signer: Address, violation: ViolationFactory): Observable<StepResult> {
+        return this.resolveMosaicId(mosaic.id).pipe(
+            map((mosaicId) =>
+                mosaicId
+                    ? { violations: [], movements: [{ sender: signer, mosaicId, amount: mosaic.amount }] }
+                    : { violations: [TransactionSimulationService.unknownAlias(mosaic.id, violation)], movements: [] },
+            ),
+        );
+    }
+
+    /**
+     * @internal
+     * Supply changes add the delta to or take it from the signer.
+     */
+    private simulateSupplyChange(
+        transaction: MosaicSupplyChangeTransaction,
+        signer: Address,
+        violation: ViolationFactory,
+    ): Observable<StepResult> {
+        return this.resolveMosaicId(transaction.mosaicId).pipe(
+            map((mosaicId) => {
+                if (!mosaicId) {
+                    return { violations: [TransactionSimulationService.unknownAlias(transaction.mosaicId, violation)], movements: [] };
+                }
+                const movement: BalanceMovement =
+                    transaction.action === MosaicSupplyChangeAction.Increase
+                        ? { recipient: signer, mosaicId, amount: transaction.delta }
+                        : { sender: signer, mosaicId, amount: transaction.delta };
+                return { violations: [], movements: [movement] };
+            }),
+        );
+    }
+
+    /**
+     * @internal
+     * The signer must own the namespace, and the mosaic when linking a mosaic. Only linked namespaces can be
+     * unlinked, from the same address or mosaic.
+     */
+    private simulateAlias(
+        transaction: AddressAliasTransaction | MosaicAliasTransaction,
+        signer: Address,
+        violation: ViolationFactory,
+    ): Observable<StepResult> {
+        const link = transaction.aliasAction === AliasAction.Link;
+        const mosaicInfo = link && transaction instanceof MosaicAliasTransaction ? this.getMosaic(transaction.mosaicId) : of(undefined);
+        const namespaceInfo = this.namespaceRepository
+            .getNamespace(transaction.namespaceId)
+            .pipe(TransactionSimulationService.whenNotFound<NamespaceInfo, undefined>(undefined));
+        return forkJoin([namespaceInfo, mosaicInfo]).pipe(
+            map(([namespace, mosaic]) => {
+                const name = transaction.namespaceId.fullName || transaction.namespaceId.toHex();
+                if (!namespace) {
+                    return { violations: [violation('Failure_Namespace_Unknown', `Namespace ${name} is unknown`)], movements: [] };
+                }
+                const violations: TransactionViolation[] = [];
+                if (!namespace.ownerAddress.equals(signer)) {
+                    violations.push(violation('Failure_Namespace_Owner_Conflict', `Namespace ${name} is not owned by ${signer.plain()}`));
+                }
+                if (mosaic && !mosaic.ownerAddress.equals(signer)) {
+                    violations.push(
+                        violation('Failure_Mosaic_Owner_Conflict', `Mosaic ${mosaic.id.toHex()} is not owned by ${signer.plain()}`),
+                    );
+                }
+                if (link && namespace.hasAlias()) {
+                    violations.push(violation('Failure_Namespace_Alias_Already_Exists', `Namespace ${name} is already linked`));
+                } else if (!link && !namespace.hasAlias()) {
+                    violations.push(violation('Failure_Namespace_Unknown_Alias', `Namespace ${name} is not linked`));
+                } else if (!link) {
+                    const linked =
+                        transaction instanceof AddressAliasTransaction
+                            ? transaction.address.equals(namespace.alias.address)
+                            : transaction.mosaicId.equals(namespace.alias.mosaicId);
+                    if (!linked) {
+                        violations.push(
+                            violation('Failure_Namespace_Alias_Inconsistent_Unlink_Data', `Namespace ${name} is linked to another alias`),
+                        );
+                    }
+                }
+                return { violations, movements: [] };
+            }),
+        );
+    }
+
+    /**
+     * @internal
+     * Applies the balance movements step by step to the current balances, finding the insufficient balances.
+     */
+    private applyMovements(steps: SimulationStep[], results: StepResult[]): Observable<[TransactionViolation[], BalanceChange[]]> {
+        const movements = results.map((result) => result.movements);
+        const addresses: Address[] = [];
+        ([] as BalanceMovement[]).concat(...movements).forEach((movement) =>
+            [movement.sender, movement.recipient].forEach((address) => {
+                if (address && !addresses.some((known) => known.equals(address))) {
+                    addresses.push(address);
+                }
+            }),
+        );
+        const accountInfos = addresses.length ? this.accountRepository.getAccountsInfo(addresses) : of([]);
+        return accountInfos.pipe(
+            map((infos) => {
+                const balances = new Map<string, BalanceChange>();
+                const getBalance = (address: Address, mosaicId: MosaicId): BalanceChange => {
+                    const key = `${address.plain()}/${mosaicId.toHex()}`;
+                    if (!balances.has(key)) {
+                        const info = infos.find((accountInfo) => accountInfo.address.equals(address));
+                        const mosaic = info && info.mosaics.find((accountMosaic) => mosaicId.equals(accountMosaic.id));
+                        const amount = mosaic ? mosaic.amount : UInt64.fromUint(0);
+                        balances.set(key, new BalanceChange(address, mosaicId, amount, amount));
+                    }
+                    return balances.get(key)!;
+                };
+                const setBalance = (change: BalanceChange, predictedBalance: UInt64): void => {
+                    balances.set(
+                        `${change.address.plain()}/${change.mosaicId.toHex()}`,
+                        new BalanceChange(change.address, change.mosaicId, change.balance, predictedBalance),
+                    );
+                };
+                const violations: TransactionViolation[] = [];
+                steps.forEach((step, stepIndex) =>
+                    movements[stepIndex].forEach((movement) => {
+                        if (movement.sender) {
+                            const change = getBalance(movement.sender, movement.mosaicId);
+                            if (change.predictedBalance.compare(movement.amount) < 0) {
+                                violations.push(
+                                    new TransactionViolation(
+                                        'Failure_Core_Insufficient_Balance',
+                                        `Account ${movement.sender.plain()} has ${change.predictedBalance.toString()} of mosaic ` +
+                                            `${movement.mosaicId.toHex()}, ${movement.amount.toString()} is required`,
+                                        step.transaction,
+                                        step.index,
+                                    ),
+                                );
+                                setBalance(change, UInt64.fromUint(0));
+                            } else {
+                                setBalance(change, change.predictedBalance.subtract(movement.amount));
+                            }
+                        }
+                        if (movement.recipient) {
+                            const change = getBalance(movement.recipient, movement.mosaicId);
+                            setBalance(change, change.predictedBalance.add(movement.amount));
+                        }
+                    }),
+                );
+                const changes = Array.from(balances.values()).filter((change) => !change.balance.equals(change.predictedBalance));
+                return [violations, changes] as [TransactionViolation[], BalanceChange[]];
+            }),
+        );
+    }
+
+    /**
+     * @internal
+     * The rental fee paid by namespace registrations and mosaic definitions.
+     */
+    private getRentalFee(transaction: Transaction, rentalFees?: RentalFees): UInt64 | undefined {
+        if (!rentalFees) {
+            return undefined;
+        }
+        if (transaction instanceof NamespaceRegistrationTransaction) {
+            return transaction.registrationType === NamespaceRegistrationType.RootNamespace
+                ? rentalFees.effectiveRootNamespaceRentalFeePerBlock.multiply(transaction.duration!)
+                : rentalFees.effectiveChildNamespaceRentalFee;
+        }
+        return transaction instanceof MosaicDefinitionTransaction ? rentalFees.effectiveMosaicRentalFee : undefined;
+    }
+
+    /**
+     * @internal
+     * The mosaic paying the fees. Fees are not simulated when the network doesn't define it.
+     */
+    private getCurrencyMosaicId(): Observable<MosaicId | undefined> {
+        return this.networkRepository.getNetworkProperties().pipe(
+            map((properties) => NetworkPropertyParser.getCurrencyMosaicId(properties)),
+            catchError(() => of(undefined)),
+        );
+    }
+
+    /**
+     * @internal
+     * Rental fees are not simulated when the node doesn't provide them.
+     */
+    private getRentalFees(): Observable<RentalFees | undefined> {
+        return this.networkRepository.getRentalFees().pipe(catchError(() => of(undefined)));
+    }
+
+    /**
+     * @internal
+     */
+    private getAccountRestrictions(address: Address): Observable<AccountRestriction[]> {
+        return this.restrictionAccountRepository
+            .getAccountRestrictions(address)
+            .pipe(TransactionSimulationService.whenNotFound<AccountRestriction[], AccountRestriction[]>([]));
+    }
+
+    /**
+     * @internal
+     */
+    private getMosaic(mosaicId: MosaicId): Observable<MosaicInfo | undefined> {
+        return this.mosaicRepository.getMosaic(mosaicId).pipe(TransactionSimulationService.whenNotFound<MosaicInfo, undefined>(undefined));
+    }
+
+    /**
+     * @internal
+     */
+    private resolveAddress(address: UnresolvedAddress): Observable<Address | undefined> {
+        if (address instanceof Address) {
+            return of(address);
+        }
+        return this.namespaceRepository.getLinkedAddress(address as NamespaceId).pipe(
+            map((linked) => linked || undefined),
+            TransactionSimulationService.whenNotFound<Address | undefined, undefined>(undefined),
+        );
+    }
+
+    /**
+     * @internal
+     */
+    private resolveMosaicId(mosaicId: UnresolvedMosaicId): Observable<MosaicId | undefined> {
+        if (mosaicId instanceof MosaicId) {
+            return of(mosaicId);
+        }
+        return this.namespaceRepository.getLinkedMosaicId(mosaicId as NamespaceId).pipe(
+            map((linked) => linked || undefined),
+            TransactionSimulationService.whenNotFound<MosaicId | undefined, undefined>(undefined),
+        );
+    }
+
+    /**
+     * @internal
+     * An account restriction allows a value when the allow list is empty or contains it, and the block list doesn't.
+     */
+    private static isAllowed(
+        restrictions: AccountRestriction[],
+        allowFlag: number,
+        blockFlag: number,
+        matches: (value: object) => boolean,
+    ): boolean {
+        const allowed = restrictions.find((restriction) => restriction.restrictionFlags === allowFlag);
+        const blocked = restrictions.find((restriction) => restriction.restrictionFlags === blockFlag);
+        return (!allowed || !allowed.values.length || allowed.values.some(matches)) && !(blocked && blocked.values.some(matches));
+    }
+
+    /**
+     * @internal
+     * Compares the restriction value of an account with the value of a global restriction rule.
+     */
+    private static meetsRule(value: string, rule: MosaicGlobalRestrictionItem): boolean {
+        const comparison = UInt64.fromNumericString(value).compare(UInt64.fromNumericString(rule.restrictionValue));
+        switch (rule.restrictionType) {
+            case MosaicRestrictionType.EQ:
+                return comparison === 0;
+            case MosaicRestrictionType.NE:
+                return comparison !== 0;
+            case MosaicRestrictionType.LT:
+                return comparison < 0;
+            case MosaicRestrictionType.LE:
+                return comparison <= 0;
+            case MosaicRestrictionType.GT:
+                return comparison > 0;
+            case MosaicRestrictionType.GE:
+                return comparison >= 0;
+            default:
+                return true;
+        }
+    }
+
+    /**
+     * @internal
+     * Only namespace ids fail to resolve.
+     */
+    private static unknownAlias(alias: UnresolvedAddress | UnresolvedMosaicId, violation: ViolationFactory): TransactionViolation {
+        const namespaceId = alias as NamespaceId;
+        return violation('Failure_Namespace_Unknown_Alias', `Alias ${namespaceId.fullName || namespaceId.toHex()} is not linked`);
+    }
+
+    /**
+     * @internal
+     */
+    private static mergeResults(results: StepResult[]): StepResult {
+        return {
+            violations: ([] as TransactionViolation[]).concat(...results.map((result) => result.violations)),
+            movements: ([] as BalanceMovement[]).concat(...results.map((result) => result.movements)),
+        };
+    }
+
+    /**
+     * @internal
+     * Emits the value instead of the not found errors, the other errors are raised.
+     */
+    private static whenNotFound<T, D>(value: D): OperatorFunction<T, T | D> {
+        return catchError((err) => {
+            if (err instanceof RepositoryError && err.statusCode === 404) {
+                return of(value);
+            }
+            return throwError(err);
+        });
+    }
+}
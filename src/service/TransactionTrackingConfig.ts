@@ -0,0 +1,38 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Configuration of the transaction tracking.
+ */
+export interface TransactionTrackingConfig {
+    /**
+     * Milliseconds between transaction status requests used when the listener misses an event. Defaults to 5000.
+     */
+    pollingInterval?: number;
+    /**
+     * Milliseconds to wait after the transaction deadline before failing with Failure_Core_Past_Deadline, it covers
+     * the clock difference with the node. Defaults to 30000.
+     */
+    deadlineGracePeriod?: number;
+    /**
+     * Announce the transaction again when it drops from the unconfirmed pool before its deadline. Defaults to false.
+     */
+    reannounce?: boolean;
+    /**
+     * The maximum number of times the transaction is announced again. Defaults to 3.
+     */
+    maxReannounces?: number;
+}
@@ -0,0 +1,39 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Transaction } from '../model/transaction/Transaction';
+import { TransactionStatusError } from '../model/transaction/TransactionStatusError';
+import { TransactionTrackingState } from './TransactionTrackingState';
+
+/**
+ * A progress event of a tracked transaction.
+ */
+export interface TransactionTrackingEvent {
+    readonly state: TransactionTrackingState;
+    readonly hash: string;
+    /**
+     * The number of times the transaction has been announced.
+     */
+    readonly announceCount: number;
+    /**
+     * The confirmed transaction, when the state is Confirmed.
+     */
+    readonly transaction?: Transaction;
+    /**
+     * The status error, when the state is Failed.
+     */
+    readonly error?: TransactionStatusError;
+}
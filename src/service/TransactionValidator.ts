@@ -0,0 +1,278 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { ZoneId } from 'js-joda';
+import { NetworkPropertyParser } from '../core/utils/NetworkPropertyParser';
+import { NamespaceRegistrationType } from '../model/namespace/NamespaceRegistrationType';
+import { NetworkConfiguration } from '../model/network/NetworkConfiguration';
+import { AggregateTransaction } from '../model/transaction/AggregateTransaction';
+import { MosaicDefinitionTransaction } from '../model/transaction/MosaicDefinitionTransaction';
+import { MultisigAccountModificationTransaction } from '../model/transaction/MultisigAccountModificationTransaction';
+import { NamespaceRegistrationTransaction } from '../model/transaction/NamespaceRegistrationTransaction';
+import { Transaction } from '../model/transaction/Transaction';
+import { TransactionType } from '../model/transaction/TransactionType';
+import { TransferTransaction } from '../model/transaction/TransferTransaction';
+import { UInt64 } from '../model/UInt64';
+import { TransactionViolation } from './TransactionViolation';
+
+/**
+ * Checks transactions against the limits of the network before signing them, finding the errors the node would
+ * otherwise report through the transaction status. The limits missing from the network configuration are not checked.
+ */
+export class TransactionValidator {
+    /**
+     * Valid namespace name, lower case alphanumeric characters, '_' and '-', starting with an alphanumeric character.
+     */
+    private static readonly NAMESPACE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+    /**
+     * Constructor
+     * @param networkConfiguration - the network properties, from NetworkRepository.getNetworkProperties()
+     */
+    constructor(private readonly networkConfiguration: NetworkConfiguration) {}
+
+    /**
+     * Validates a transaction and, for aggregates, their inner transactions.
+     * @param transaction - the transaction to validate
+     * @param now - the current time the deadline is checked against
+     * @returns {TransactionViolation[]} the violations, empty when the transaction is valid
+     */
+    public validate(transaction: Transaction, now: Date = new Date()): TransactionViolation[] {
+        const violations = this.validateDeadline(transaction, now).concat(this.validateTransaction(transaction));
+        if (transaction instanceof AggregateTransaction) {
+            transaction.innerTransactions.forEach((innerTransaction, index) =>
+                violations.push(...this.validateTransaction(innerTransaction, index)),
+            );
+        }
+        return violations;
+    }
+
+    /**
+     * @internal
+     * Validates the limits of a transaction by type.
+     */
+    private validateTransaction(transaction: Transaction, index?: number): TransactionViolation[] {
+        const violation = (code: string, message: string): TransactionViolation =>
+            new TransactionViolation(code, message, transaction, index);
+        if (transaction instanceof TransferTransaction) {
+            return this.validateTransfer(transaction, violation);
+        } else if (transaction instanceof AggregateTransaction) {
+            return this.validateAggregate(transaction, violation);
+        } else if (transaction instanceof MultisigAccountModificationTransaction) {
+            return this.validateMultisigModification(transaction, violation);
+        } else if (transaction instanceof NamespaceRegistrationTransaction) {
+            return this.validateNamespaceRegistration(transaction, violation);
+        } else if (transaction instanceof MosaicDefinitionTransaction) {
+            return this.validateMosaicDefinition(transaction, violation);
+        }
+        return [];
+    }
+
+    /**
+     * @internal
+     * The deadline must be in the future, within the max lifetime of the transaction.
+     */
+    private validateDeadline(transaction: Transaction, now: Date): TransactionViolation[] {
+        const deadline = transaction.deadline.value.atZone(ZoneId.SYSTEM).toInstant().toEpochMilli();
+        if (deadline <= now.getTime()) {
+            return [new TransactionViolation('Failure_Core_Past_Deadline', 'The deadline has already passed', transaction)];
+        }
+        const maxLifetime =
+            transaction.type === TransactionType.AGGREGATE_BONDED
+                ? this.networkConfiguration.plugins.aggregate?.maxBondedTransactionLifetime
+                : this.networkConfiguration.chain.maxTransactionLifetime;
+        if (maxLifetime && deadline > now.getTime() + NetworkPropertyParser.toSeconds(maxLifetime) * 1000) {
+            return [
+                new TransactionViolation(
+                    'Failure_Core_Future_Deadline',
+                    `The deadline exceeds the maximum transaction lifetime of ${maxLifetime}`,
+                    transaction,
+                ),
+            ];
+        }
+        return [];
+    }
+
+    /**
+     * @internal
+     */
+    private validateTransfer(
+        transaction: TransferTransaction,
+        violation: (code: string, message: string) => TransactionViolation,
+    ): TransactionViolation[] {
+        const violations: TransactionViolation[] = [];
+        const maxMessageSize = this.getNumber(this.networkConfiguration.plugins.transfer?.maxMessageSize);
+        const messageSize = transaction.getMessageBuffer().length;
+        if (maxMessageSize !== undefined && messageSize > maxMessageSize) {
+            violations.push(
+                violation(
+                    'Failure_Transfer_Message_Too_Large',
+                    `The message of ${messageSize} bytes exceeds the maximum message size of ${maxMessageSize} bytes`,
+                ),
+            );
+        }
+        const mosaicIds = transaction.mosaics.map((mosaic) => mosaic.id.toHex());
+        if (new Set(mosaicIds).size !== mosaicIds.length) {
+            violations.push(violation('Failure_Transfer_Out_Of_Order_Mosaics', 'The same mosaic is transferred more than once'));
+        }
+        return violations;
+    }
+
+    /**
+     * @internal
+     */
+    private validateAggregate(
+        transaction: AggregateTransaction,
+        violation: (code: string, message: string) => TransactionViolation,
+    ): TransactionViolation[] {
+        const violations: TransactionViolation[] = [];
+        const properties = this.networkConfiguration.plugins.aggregate;
+        const maxTransactions = this.getNumber(properties?.maxTransactionsPerAggregate);
+        if (!transaction.innerTransactions.length) {
+            violations.push(violation('Failure_Aggregate_No_Transactions', 'The aggregate has no inner transactions'));
+        } else if (maxTransactions !== undefined && transaction.innerTransactions.length > maxTransactions) {
+            violations.push(
+                violation(
+                    'Failure_Aggregate_Too_Many_Transactions',
+                    `The aggregate has ${transaction.innerTransactions.length} inner transactions, the maximum is ${maxTransactions}`,
+                ),
+            );
+        }
+        // The signer of the aggregate counts as a cosignature.
+        const cosignatures = transaction.cosignatures.length + 1;
+        const maxCosignatures = this.getNumber(properties?.maxCosignaturesPerAggregate);
+        if (maxCosignatures !== undefined && cosignatures > maxCosignatures) {
+            violations.push(
+                violation(
+                    'Failure_Aggregate_Too_Many_Cosignatures',
+                    `The aggregate has ${cosignatures} cosignatures, the maximum is ${maxCosignatures}`,
+                ),
+            );
+        }
+        return violations;
+    }
+
+    /**
+     * @internal
+     */
+    private validateMultisigModification(
+        transaction: MultisigAccountModificationTransaction,
+        violation: (code: string, message: string) => TransactionViolation,
+    ): TransactionViolation[] {
+        const maxCosignatories = this.getNumber(this.networkConfiguration.plugins.multisig?.maxCosignatoriesPerAccount);
+        if (maxCosignatories !== undefined && transaction.addressAdditions.length > maxCosignatories) {
+            return [
+                violation(
+                    'Failure_Multisig_Max_Cosignatories',
+                    `${transaction.addressAdditions.length} cosignatories are added, the maximum is ${maxCosignatories}`,
+                ),
+            ];
+        }
+        return [];
+    }
+
+    /**
+     * @internal
+     */
+    private validateNamespaceRegistration(
+        transaction: NamespaceRegistrationTransaction,
+        violation: (code: string, message: string) => TransactionViolation,
+    ): TransactionViolation[] {
+        const violations: TransactionViolation[] = [];
+        const properties = this.networkConfiguration.plugins.namespace;
+        const name = transaction.namespaceName;
+        const maxNameSize = this.getNumber(properties?.maxNameSize);
+        if (!TransactionValidator.NAMESPACE_NAME_PATTERN.test(name)) {
+            violations.push(violation('Failure_Namespace_Invalid_Name', `Namespace name ${name} has invalid characters`));
+        } else if (maxNameSize !== undefined && name.length > maxNameSize) {
+            violations.push(
+                violation('Failure_Namespace_Invalid_Name', `Namespace name ${name} exceeds the maximum name size of ${maxNameSize}`),
+            );
+        }
+        if (transaction.registrationType !== NamespaceRegistrationType.RootNamespace) {
+            return violations;
+        }
+        const reservedNames = (properties?.reservedRootNamespaceNames || '').split(',').map((reserved) => reserved.trim());
+        if (reservedNames.includes(name)) {
+            violations.push(violation('Failure_Namespace_Root_Name_Reserved', `Root namespace name ${name} is reserved`));
+        }
+        const duration = (transaction.duration || UInt64.fromUint(0)).compact();
+        const minDuration = this.getBlocks(properties?.minNamespaceDuration);
+        const maxDuration = this.getBlocks(properties?.maxNamespaceDuration);
+        if ((minDuration !== undefined && duration < minDuration) || (maxDuration !== undefined && duration > maxDuration)) {
+            violations.push(
+                violation(
+                    'Failure_Namespace_Invalid_Duration',
+                    `Namespace duration of ${duration} blocks is out of the ${properties?.minNamespaceDuration || 0} - ` +
+                        `${properties?.maxNamespaceDuration || 'unlimited'} range`,
+                ),
+            );
+        }
+        return violations;
+    }
+
+    /**
+     * @internal
+     */
+    private validateMosaicDefinition(
+        transaction: MosaicDefinitionTransaction,
+        violation: (code: string, message: string) => TransactionViolation,
+    ): TransactionViolation[] {
+        const violations: TransactionViolation[] = [];
+        const properties = this.networkConfiguration.plugins.mosaic;
+        const maxDivisibility = this.getNumber(properties?.maxMosaicDivisibility);
+        if (maxDivisibility !== undefined && transaction.divisibility > maxDivisibility) {
+            violations.push(
+                violation(
+                    'Failure_Mosaic_Invalid_Divisibility',
+                    `Mosaic divisibility ${transaction.divisibility} exceeds the maximum divisibility of ${maxDivisibility}`,
+                ),
+            );
+        }
+        // A duration of 0 is a mosaic that never expires.
+        const duration = transaction.duration.compact();
+        const maxDuration = this.getBlocks(properties?.maxMosaicDuration);
+        if (maxDuration !== undefined && duration > maxDuration) {
+            violations.push(
+                violation(
+                    'Failure_Mosaic_Invalid_Duration',
+                    `Mosaic duration of ${duration} blocks exceeds the maximum duration of ${properties?.maxMosaicDuration}`,
+                ),
+            );
+        }
+        return violations;
+    }
+
+    /**
+     * @internal
+     * Parses a numeric property, undefined when the network doesn't define it.
+     */
+    private getNumber(value?: string): number | undefined {
+        return value !== undefined ? NetworkPropertyParser.toNumber(value) : undefined;
+    }
+
+    /**
+     * @internal
+     * Converts a time span property into blocks, undefined when the network doesn't define it or the block time.
+     */
+    private getBlocks(timeSpan?: string): number | undefined {
+        const blockGenerationTargetTime = this.networkConfiguration.chain.blockGenerationTargetTime;
+        if (timeSpan === undefined || !blockGenerationTargetTime) {
+            return undefined;
+        }
+        return Math.floor(NetworkPropertyParser.toSeconds(timeSpan) / NetworkPropertyParser.toSeconds(blockGenerationTargetTime));
+    }
+}
@@ -0,0 +1,36 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Transaction } from '../model/transaction/Transaction';
+
+/**
+ * A rule of the network broken by a transaction, found by the {@link TransactionValidator} or the
+ * {@link TransactionSimulationService}.
+ */
+export class TransactionViolation {
+    /**
+     * @param code - the status code the node would reject the transaction with, e.g. `Failure_Transfer_Message_Too_Large`.
+     * @param message - the description of the violation.
+     * @param transaction - the transaction breaking the limit, the aggregate or one of its inner transactions.
+     * @param innerTransactionIndex - the index of the inner transaction in the aggregate, undefined for the validated transaction.
+     */
+    constructor(
+        public readonly code: string,
+        public readonly message: string,
+        public readonly transaction: Transaction,
+        public readonly innerTransactionIndex?: number,
+    ) {}
+}
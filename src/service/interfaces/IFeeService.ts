@@ -0,0 +1,41 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Observable } from 'rxjs';
+import { Transaction } from '../../model/transaction/Transaction';
+import { FeeEstimation } from '../FeeEstimation';
+import { FeeStrategy } from '../FeeStrategy';
+
+/**
+ * Fee Service Interface
+ */
+export interface IFeeService {
+    /**
+     * Estimates the max fee of a transaction
+     * @param transaction the transaction, aggregates include the cosignatures their inner signers require
+     * @param strategy the strategy used to pick the fee multiplier
+     * @param percentile the percentile (0 - 100) used by the custom strategy
+     */
+    estimate(transaction: Transaction, strategy?: FeeStrategy, percentile?: number): Observable<FeeEstimation>;
+
+    /**
+     * Estimates the max fee of a transaction and sets it
+     * @param transaction the transaction
+     * @param strategy the strategy used to pick the fee multiplier
+     * @param percentile the percentile (0 - 100) used by the custom strategy
+     */
+    setMaxFee<T extends Transaction>(transaction: T, strategy?: FeeStrategy, percentile?: number): Observable<T>;
+}
@@ -19,6 +19,8 @@ import { IListener } from '../../infrastructure/IListener';
 import { AggregateTransaction } from '../../model/transaction/AggregateTransaction';
 import { SignedTransaction } from '../../model/transaction/SignedTransaction';
 import { Transaction } from '../../model/transaction/Transaction';
+import { TransactionTrackingConfig } from '../TransactionTrackingConfig';
+import { TransactionTrackingEvent } from '../TransactionTrackingEvent';
 
 /**
  * Transaction Service Interface
@@ -34,7 +36,7 @@ export interface ITransactionService {
      *
      * This method announces a transaction while waiting for being confirmed by listing to the
      * /confirmed web socket. If an error to the given transaction is sent to the /status web
-     * socket, the TransactionStatusError is raised.
+     * socket, a {@link TransactionFailedError} describing the status is raised.
      *
      * Steps:
      *
@@ -57,7 +59,7 @@ export interface ITransactionService {
     /**
      * This method announces an aggregate bonded transaction while waiting for being added by
      * listing to the /aggregateBondedAdded web socket. If an error to the given transaction is sent
-     * to the /status web socket, the TransactionStatusError is raised.
+     * to the /status web socket, a {@link TransactionFailedError} describing the status is raised.
      * is raised.
      *
      * Steps:
@@ -81,7 +83,7 @@ export interface ITransactionService {
      *
      * This method announces an a hash lock transaction followed by a aggregate bonded transaction
      * while waiting for being confirmed by listing to the /confirmed and /aggregateBondedAdded web
-     * socket. If a status ws error is sent while processing any of the given transaction the TransactionStatusError is raised.
+     * socket. If a status ws error is sent while processing any of the given transaction a {@link TransactionFailedError} is raised.
      *
      * Announce aggregate bonded transaction with lock fund
      * @param signedHashLockTransaction Signed hash lock transaction.
@@ -94,4 +96,36 @@ export interface ITransactionService {
         signedAggregateTransaction: SignedTransaction,
         listener: IListener,
     ): Observable<AggregateTransaction>;
+
+    /**
+     * This method announces a transaction and tracks it until it's confirmed or failed, emitting the
+     * progress events.
+     *
+     * Steps:
+     *
+     * 1) It announces the transaction to the TransactionRepository and emits Announced.
+     *
+     * 2) It listens to the IListener's unconfirmedAdded, confirmed and status methods emitting
+     * Unconfirmed, Confirmed or Failed.
+     *
+     * 3) If the service has a TransactionStatusRepository, it polls the transaction status in case
+     * the web socket misses an event. When enabled, the transaction is announced again if it drops
+     * from the unconfirmed pool before its deadline.
+     *
+     * 4) If the transaction is not confirmed after its deadline plus the grace period, it emits Failed
+     * with Failure_Core_Past_Deadline. If the status cannot be checked at that point, the outcome is
+     * unknown and the observable errors with the repository error instead.
+     *
+     * The observable completes after Confirmed or Failed.
+     *
+     * @param signedTransaction Signed transaction to be announced.
+     * @param listener Websocket listener
+     * @param config the tracking configuration
+     * @returns {Observable<TransactionTrackingEvent>}
+     */
+    announceAndTrack(
+        signedTransaction: SignedTransaction,
+        listener: IListener,
+        config?: TransactionTrackingConfig,
+    ): Observable<TransactionTrackingEvent>;
 }
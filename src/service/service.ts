@@ -16,12 +16,56 @@
 
 export * from './AccountService';
 export * from './NamespaceService';
+export * from './NamespaceExpiryWarning';
+export * from './NamespacePortfolioEntry';
+export * from './NamespacePortfolioService';
+export * from './NamespaceRenewal';
 export * from './MosaicService';
+export * from './MosaicCreationService';
+export * from './MosaicCreationPlan';
+export * from './MosaicCreationSpec';
 export * from './AggregateTransactionService';
 export * from './MetadataTransactionService';
 export * from './MosaicRestrictionTransactionService';
 export * from './TransactionService';
+export * from './TransactionSimulation';
+export * from './TransactionSimulationService';
+export * from './TransactionValidator';
+export * from './TransactionViolation';
+export * from './MultisigTransactionService';
+export * from './MultisigTransactionPlan';
+export * from './MultisigCosignerLevel';
+export * from './CosignatureInboxService';
+export * from './AtomicSwapChain';
+export * from './AtomicSwapLocks';
+export * from './AtomicSwapLockTerms';
+export * from './AtomicSwapSecret';
+export * from './AtomicSwapService';
+export * from './HarvestingDelegation';
+export * from './HarvestingService';
+export * from './HarvestingSetup';
+export * from './HarvestingState';
+export * from './HarvestingStatus';
+export * from './BlockIncome';
+export * from './IncomeCategory';
+export * from './IncomeEntry';
+export * from './IncomeReport';
+export * from './IncomeReportService';
+export * from './IncomeTotal';
+export * from './AccountHistoryEntry';
+export * from './AccountHistoryService';
+export * from './TransactionDirection';
+export * from './AccountBalance';
+export * from './BalanceTracker';
+export * from './BalanceChange';
+export * from './TransactionTrackingConfig';
+export * from './TransactionTrackingEvent';
+export * from './TransactionTrackingState';
 export * from './BlockService';
+export * from './FeeService';
+export * from './FeeStrategy';
+export * from './FeeEstimation';
 export * from './interfaces/IAccountService';
 export * from './interfaces/IBlockService';
+export * from './interfaces/IFeeService';
 export * from './interfaces/ITransactionService';
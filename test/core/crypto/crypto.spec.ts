@@ -19,6 +19,27 @@ import { KeyPair } from '../../../src/core/crypto/KeyPair';
 import { Convert, Convert as convert } from '../../../src/core/format';
 
 describe('crypto tests', () => {
+    it('Can derive the same shared key on both sides', () => {
+        const sender = KeyPair.createKeyPairFromPrivateKeyString('E1C8521608F4896CA26A0C2DE739310EA4B06861D126CF4D6922064678A1969B');
+        const recipient = KeyPair.createKeyPairFromPrivateKeyString('A22A4BBF126A2D7D7ECE823174DFD184C5DE0FDE4CB2075D30CFA409F7EF8908');
+        const senderKey = Crypto.deriveSharedKey(Convert.uint8ToHex(sender.privateKey), Convert.uint8ToHex(recipient.publicKey));
+        const recipientKey = Crypto.deriveSharedKey(Convert.uint8ToHex(recipient.privateKey), Convert.uint8ToHex(sender.publicKey));
+        expect(senderKey.length).equal(32);
+        expect(Convert.uint8ToHex(senderKey)).equal(Convert.uint8ToHex(recipientKey));
+    });
+
+    it('Can encrypt and decrypt with AES-GCM', () => {
+        const key = Crypto.randomBytes(32);
+        const data = Convert.hexToUint8(Convert.utf8ToHex('NEM is awesome !'));
+        const additionalData = Convert.hexToUint8('0102');
+        const encrypted = Crypto.encryptGcm(key, data, additionalData);
+        expect(encrypted.length).equal(Crypto.GCM_IV_SIZE + Crypto.GCM_TAG_SIZE + data.length);
+        expect(Crypto.decryptGcm(key, encrypted, additionalData)).to.be.eql(data);
+        expect(() => Crypto.decryptGcm(key, encrypted, Convert.hexToUint8('0103'))).to.throw();
+        expect(() => Crypto.decryptGcm(Crypto.randomBytes(32), encrypted, additionalData)).to.throw();
+        expect(() => Crypto.decryptGcm(key, encrypted.slice(0, 20))).to.throw('Invalid AES-GCM payload size');
+    });
+
     it('Can encode and decode message', () => {
         const sender = KeyPair.createKeyPairFromPrivateKeyString('E1C8521608F4896CA26A0C2DE739310EA4B06861D126CF4D6922064678A1969B');
         const recipient = KeyPair.createKeyPairFromPrivateKeyString('A22A4BBF126A2D7D7ECE823174DFD184C5DE0FDE4CB2075D30CFA409F7EF8908');
@@ -0,0 +1,52 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { expect } from 'chai';
+import { ExtendedKey } from '../../../src/core/crypto/ExtendedKey';
+import { Convert } from '../../../src/core/format/Convert';
+
+describe('extended key', () => {
+    /**
+     * @see https://github.com/satoshilabs/slips/blob/master/slip-0010.md test vector 1 for ed25519
+     */
+    const seed = Convert.hexToUint8('000102030405060708090a0b0c0d0e0f');
+
+    it('can create master key from seed', () => {
+        const master = ExtendedKey.createFromSeed(seed);
+        expect(Convert.uint8ToHex(master.chainCode)).to.be.equal('90046A93DE5380A72B5E45010748567D5EA02BBF6522F979E05C0D8D8CA9FFFB');
+        expect(master.privateKeyHex).to.be.equal('2B4BE7F19EE27BBF30C667B642D5F4AA69FD169872F8FC3059C08EBAE2EB19E7');
+        expect(master.publicKeyHex).to.be.equal('A4B2856BFEC510ABAB89753FAC1AC0E1112364E7D250545963F135F2A33188ED');
+    });
+
+    it('can derive hardened child', () => {
+        const child = ExtendedKey.createFromSeed(seed).derive(0);
+        expect(Convert.uint8ToHex(child.chainCode)).to.be.equal('8B59AA11380B624E81507A27FEDDA59FEA6D0B779A778918A2FD3590E16E9C69');
+        expect(child.privateKeyHex).to.be.equal('68E0FE46DFB67E368C75379ACEC591DAD19DF3CDE26E63B93A8E704F1DADE7A3');
+        expect(child.publicKeyHex).to.be.equal('8C8A13DF77A28F3445213A0F432FDE644ACAA215FC72DCDF300D5EFAA85D350C');
+    });
+
+    it('can derive path', () => {
+        const master = ExtendedKey.createFromSeed(seed);
+        const child = master.derivePath([0, 1]);
+        expect(Convert.uint8ToHex(child.chainCode)).to.be.equal('A320425F77D1B5C2505A6B1B27382B37368EE640E3557C315416801243552F14');
+        expect(child.privateKeyHex).to.be.equal('B1D0BAD404BF35DA785A64CA1AC54B2617211D2777696FBFFAF208F746AE84F2');
+        expect(master.derive(ExtendedKey.HARDENED_OFFSET).privateKeyHex).to.be.equal(master.derive(0).privateKeyHex);
+    });
+
+    it('should throw error with invalid seed or index', () => {
+        expect(() => ExtendedKey.createFromSeed(new Uint8Array(8))).to.throw(Error, 'Seed has unexpected size: 8');
+        expect(() => ExtendedKey.createFromSeed(seed).derive(-1)).to.throw(Error, 'Invalid child index: -1');
+    });
+});
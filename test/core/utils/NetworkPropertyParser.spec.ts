@@ -0,0 +1,68 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { NetworkPropertyParser } from '../../../src/core/utils/NetworkPropertyParser';
+import { MosaicId } from '../../../src/model/mosaic/MosaicId';
+import { ChainProperties } from '../../../src/model/network/ChainProperties';
+import { NetworkConfiguration } from '../../../src/model/network/NetworkConfiguration';
+import { UInt64 } from '../../../src/model/UInt64';
+
+describe('NetworkPropertyParser', () => {
+    it('should parse numbers with digit separators', () => {
+        expect(NetworkPropertyParser.toNumber('1')).to.be.equal(1);
+        expect(NetworkPropertyParser.toNumber("1'024")).to.be.equal(1024);
+        expect(NetworkPropertyParser.toNumber("8'999'999'998'000'000")).to.be.equal(8999999998000000);
+    });
+
+    it('should throw on invalid numbers', () => {
+        expect(() => NetworkPropertyParser.toNumber('')).to.throw('Number  is not recognised.');
+        expect(() => NetworkPropertyParser.toNumber('abc')).to.throw('Number abc is not recognised.');
+    });
+
+    it('should parse amounts beyond the safe integer range', () => {
+        expect(NetworkPropertyParser.toUInt64("10'000'000").toString()).to.be.equal('10000000');
+        expect(NetworkPropertyParser.toUInt64("18'446'744'073'709'551'615").equals(UInt64.fromHex('FFFFFFFFFFFFFFFF'))).to.be.true;
+        expect(() => NetworkPropertyParser.toUInt64('-1')).to.throw('Number -1 is not recognised.');
+    });
+
+    it('should parse mosaic ids', () => {
+        const expected = new MosaicId('6BED913FA20223F8');
+        expect(NetworkPropertyParser.toMosaicId("0x6BED'913F'A202'23F8").equals(expected)).to.be.true;
+        expect(NetworkPropertyParser.toMosaicId('6BED913FA20223F8').equals(expected)).to.be.true;
+        expect(() => NetworkPropertyParser.toMosaicId('0x6BED')).to.throw('Mosaic id 0x6BED is not recognised.');
+    });
+
+    it('should get the currency mosaic id', () => {
+        const withCurrency = { chain: new ChainProperties(true, true, "0x6BED'913F'A202'23F8") } as NetworkConfiguration;
+        const withoutCurrency = { chain: new ChainProperties() } as NetworkConfiguration;
+        expect(NetworkPropertyParser.getCurrencyMosaicId(withCurrency)!.toHex()).to.be.equal('6BED913FA20223F8');
+        expect(NetworkPropertyParser.getCurrencyMosaicId(withoutCurrency)).to.be.undefined;
+    });
+
+    it('should parse time spans in seconds', () => {
+        expect(NetworkPropertyParser.toSeconds('500ms')).to.be.equal(0.5);
+        expect(NetworkPropertyParser.toSeconds('15s')).to.be.equal(15);
+        expect(NetworkPropertyParser.toSeconds('10m')).to.be.equal(600);
+        expect(NetworkPropertyParser.toSeconds('6h')).to.be.equal(21600);
+        expect(NetworkPropertyParser.toSeconds("3'650d")).to.be.equal(315360000);
+    });
+
+    it('should throw on invalid time spans', () => {
+        expect(() => NetworkPropertyParser.toSeconds('15')).to.throw('Time span 15 is not recognised.');
+        expect(() => NetworkPropertyParser.toSeconds('15w')).to.throw('Time span 15w is not recognised.');
+    });
+});
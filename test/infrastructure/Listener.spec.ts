@@ -17,8 +17,10 @@
 import { deepEqual } from 'assert';
 import { expect } from 'chai';
 import { Observable, of as observableOf } from 'rxjs';
+import { first } from 'rxjs/operators';
 import { deepEqual as deepEqualParam, instance, mock, verify, when } from 'ts-mockito';
 import { Listener, ListenerChannelName } from '../../src/infrastructure/Listener';
+import { ListenerConnectionState } from '../../src/infrastructure/ListenerConnectionState';
 import { NamespaceRepository } from '../../src/infrastructure/NamespaceRepository';
 import { Account } from '../../src/model/account/Account';
 import { AccountNames } from '../../src/model/account/AccountNames';
@@ -501,4 +503,202 @@ describe('Listener', () => {
             expect(reportedStatus[0].proofVerificationHash).to.be.equal(blockDTO.block.proofVerificationHash);
         });
     });
+
+    const address = Address.createFromEncoded('6026D27E1D0A26CA4E316F901E23E55C8711DB20DF300144');
+    let sockets: WebSocketMock[];
+
+    class WebSocketMock {
+        public readyState = 0;
+        public readonly sent: string[] = [];
+        public onclose: () => void;
+        public onmessage: (msg: any) => void;
+
+        constructor(public readonly url: string) {
+            sockets.push(this);
+        }
+
+        send(payload: string): void {
+            this.sent.push(payload);
+        }
+
+        receiveUid(uid: string): void {
+            this.readyState = 1;
+            this.onmessage({ data: JSON.stringify({ uid }) });
+        }
+
+        close(): void {
+            this.readyState = 3;
+            this.onclose();
+        }
+    }
+
+    const wait = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 10));
+
+    beforeEach(() => {
+        sockets = [];
+    });
+
+    describe('reconnect', () => {
+        it('should reconnect and resubscribe active channels', async () => {
+            const listener = new Listener('http://localhost:3000', namespaceRepo, WebSocketMock, { initialDelay: 0 });
+            const states: ListenerConnectionState[] = [];
+            listener.connectionState().subscribe((state) => states.push(state));
+
+            const opened = listener.open();
+            sockets[0].receiveUid('uid-1');
+            await opened;
+            listener.confirmed(address).subscribe();
+            expect(sockets[0].sent).to.be.deep.equal([`{"uid":"uid-1","subscribe":"confirmedAdded/${address.plain()}"}`]);
+
+            sockets[0].close();
+            expect(listener.isOpen()).to.be.false;
+            await wait();
+            expect(sockets.length).to.be.equal(2);
+            sockets[1].receiveUid('uid-2');
+            expect(sockets[1].sent).to.be.deep.equal([`{"uid":"uid-2","subscribe":"confirmedAdded/${address.plain()}"}`]);
+
+            listener.close();
+            expect(states).to.be.deep.equal([
+                ListenerConnectionState.Closed,
+                ListenerConnectionState.Connecting,
+                ListenerConnectionState.Open,
+                ListenerConnectionState.Reconnecting,
+                ListenerConnectionState.Open,
+                ListenerConnectionState.Closed,
+            ]);
+        });
+
+        it('should not reconnect when not configured', async () => {
+            const listener = new Listener('http://localhost:3000', namespaceRepo, WebSocketMock);
+            const opened = listener.open();
+            sockets[0].receiveUid('uid-1');
+            await opened;
+            sockets[0].close();
+            await wait();
+            expect(sockets.length).to.be.equal(1);
+            expect(await listener.connectionState().pipe(first()).toPromise()).to.be.equal(ListenerConnectionState.Closed);
+        });
+
+        it('should stop reconnecting after max attempts', async () => {
+            const listener = new Listener('http://localhost:3000', namespaceRepo, WebSocketMock, { initialDelay: 0, maxAttempts: 1 });
+            const opened = listener.open();
+            sockets[0].receiveUid('uid-1');
+            await opened;
+            sockets[0].close();
+            await wait();
+            sockets[1].close();
+            await wait();
+            expect(sockets.length).to.be.equal(2);
+            expect(await listener.connectionState().pipe(first()).toPromise()).to.be.equal(ListenerConnectionState.Closed);
+        });
+
+        it('should not reconnect after close', async () => {
+            const listener = new Listener('http://localhost:3000', namespaceRepo, WebSocketMock, { initialDelay: 5 });
+            const opened = listener.open();
+            sockets[0].receiveUid('uid-1');
+            await opened;
+            sockets[0].close();
+            expect(await listener.connectionState().pipe(first()).toPromise()).to.be.equal(ListenerConnectionState.Reconnecting);
+            listener.close();
+            await wait();
+            expect(sockets.length).to.be.equal(1);
+            expect(await listener.connectionState().pipe(first()).toPromise()).to.be.equal(ListenerConnectionState.Closed);
+        });
+        it('should cancel the pending reconnection when opened again', async () => {
+            const listener = new Listener('http://localhost:3000', namespaceRepo, WebSocketMock, { initialDelay: 5 });
+            const opened = listener.open();
+            sockets[0].receiveUid('uid-1');
+            await opened;
+            sockets[0].close();
+            expect(await listener.connectionState().pipe(first()).toPromise()).to.be.equal(ListenerConnectionState.Reconnecting);
+
+            const reopened = listener.open();
+            sockets[1].receiveUid('uid-2');
+            await reopened;
+            await wait();
+            expect(sockets.length).to.be.equal(2);
+            expect(await listener.connectionState().pipe(first()).toPromise()).to.be.equal(ListenerConnectionState.Open);
+            listener.close();
+        });
+    });
+
+    describe('channel subscriptions', () => {
+        const openListener = async (): Promise<Listener> => {
+            const listener = new Listener('http://localhost:3000', namespaceRepo, WebSocketMock);
+            const opened = listener.open();
+            sockets[0].receiveUid('uid-1');
+            await opened;
+            return listener;
+        };
+
+        it('should subscribe a channel once and unsubscribe it after the last observer', async () => {
+            const listener = await openListener();
+            const channel = `confirmedAdded/${address.plain()}`;
+            const observable = listener.confirmed(address);
+            expect(sockets[0].sent).to.be.deep.equal([]);
+
+            const subscription1 = observable.subscribe();
+            const subscription2 = listener.confirmed(address).subscribe();
+            expect(sockets[0].sent).to.be.deep.equal([`{"uid":"uid-1","subscribe":"${channel}"}`]);
+            expect(Array.from(listener.getActiveChannels())).to.be.deep.equal([[channel, 2]]);
+
+            subscription1.unsubscribe();
+            expect(sockets[0].sent.length).to.be.equal(1);
+            expect(Array.from(listener.getActiveChannels())).to.be.deep.equal([[channel, 1]]);
+
+            subscription2.unsubscribe();
+            expect(sockets[0].sent).to.be.deep.equal([
+                `{"uid":"uid-1","subscribe":"${channel}"}`,
+                `{"uid":"uid-1","unsubscribe":"${channel}"}`,
+            ]);
+            expect(listener.getActiveChannels().size).to.be.equal(0);
+
+            listener.confirmed(address).subscribe();
+            expect(sockets[0].sent.length).to.be.equal(3);
+            listener.close();
+        });
+
+        it('should count the channels separately', async () => {
+            const listener = await openListener();
+            const blocks = listener.newBlock().subscribe();
+            const status = listener.status(address).subscribe();
+            listener.unconfirmedAdded(address).subscribe();
+            expect(Array.from(listener.getActiveChannels().keys())).to.be.deep.equal([
+                'block',
+                `status/${address.plain()}`,
+                `unconfirmedAdded/${address.plain()}`,
+            ]);
+            blocks.unsubscribe();
+            status.unsubscribe();
+            expect(sockets[0].sent.slice(3)).to.be.deep.equal([
+                `{"uid":"uid-1","unsubscribe":"block"}`,
+                `{"uid":"uid-1","unsubscribe":"status/${address.plain()}"}`,
+            ]);
+            expect(Array.from(listener.getActiveChannels().keys())).to.be.deep.equal([`unconfirmedAdded/${address.plain()}`]);
+            listener.close();
+        });
+
+        it('should not send unsubscribe once closed', async () => {
+            const listener = await openListener();
+            const subscription = listener.confirmed(address).subscribe();
+            listener.close();
+            subscription.unsubscribe();
+            expect(sockets[0].sent.length).to.be.equal(1);
+            expect(listener.getActiveChannels().size).to.be.equal(0);
+        });
+
+        it('should not resubscribe channels without observers when reconnecting', async () => {
+            const listener = new Listener('http://localhost:3000', namespaceRepo, WebSocketMock, { initialDelay: 0 });
+            const opened = listener.open();
+            sockets[0].receiveUid('uid-1');
+            await opened;
+            listener.confirmed(address).subscribe();
+            listener.status(address).subscribe().unsubscribe();
+            sockets[0].close();
+            await wait();
+            sockets[1].receiveUid('uid-2');
+            expect(sockets[1].sent).to.be.deep.equal([`{"uid":"uid-2","subscribe":"confirmedAdded/${address.plain()}"}`]);
+            listener.close();
+        });
+    });
 });
@@ -14,6 +14,7 @@
  * limitations under the License.
  */
 import { expect } from 'chai';
+import { toArray } from 'rxjs/operators';
 import {
     MetadataDTO,
     MetadataEntriesDTO,
@@ -22,11 +23,14 @@ import {
     MetadataTypeEnum,
     Order,
 } from 'symbol-openapi-typescript-fetch-client';
-import { instance, mock, reset, when } from 'ts-mockito';
+import { deepEqual, instance, mock, reset, when } from 'ts-mockito';
 import { DtoMapping } from '../../src/core/utils/DtoMapping';
+import { MetadataSearchRoutesApi } from '../../src/infrastructure/metadata/MetadataSearchRoutesApi';
 import { MetadataHttp } from '../../src/infrastructure/MetadataHttp';
 import { MetadataRepository } from '../../src/infrastructure/MetadataRepository';
+import { MetadataPaginationStreamer } from '../../src/infrastructure/paginationStreamer/MetadataPaginationStreamer';
 import { QueryParams } from '../../src/infrastructure/QueryParams';
+import { Order as SearchOrder } from '../../src/infrastructure/searchCriteria/Order';
 import { Address } from '../../src/model/account/Address';
 import { Metadata } from '../../src/model/metadata/Metadata';
 import { MetadataType } from '../../src/model/metadata/MetadataType';
@@ -95,11 +99,14 @@ describe('MetadataHttp', () => {
         json: (): Promise<any> => Promise.reject({ theBodyError: 'internal error' }),
     };
     const metadataRoutesApi: MetadataRoutesApi = mock();
+    const metadataSearchRoutesApi: MetadataSearchRoutesApi = mock();
     const metadataRepository: MetadataRepository = DtoMapping.assign(new MetadataHttp(url), {
         metadataRoutesApi: instance(metadataRoutesApi),
+        metadataSearchRoutesApi: instance(metadataSearchRoutesApi),
     });
     before(() => {
         reset(metadataRoutesApi);
+        reset(metadataSearchRoutesApi);
     });
 
     function assertMetadataInfo(metadataInfo: Metadata, dto: MetadataDTO): void {
@@ -137,6 +144,77 @@ describe('MetadataHttp', () => {
         assertMetadataInfo(metadatas[2], metadataDTONamespace);
     });
 
+    it('searchMetadata', async () => {
+        when(
+            metadataSearchRoutesApi.searchMetadataEntries(
+                deepEqual({
+                    sourceAddress: address.plain(),
+                    targetAddress: undefined,
+                    scopedMetadataKey: '123451234512345A',
+                    targetId: mosaicId.toHex(),
+                    metadataType: MetadataTypeEnum.NUMBER_1,
+                    pageSize: 2,
+                    pageNumber: 1,
+                    offset: undefined,
+                    order: Order.Desc,
+                }),
+            ),
+        ).thenReturn(
+            Promise.resolve({
+                data: [metadataDTOMosaic, metadataDTOAddress],
+                pagination: { pageNumber: 1, pageSize: 2, totalEntries: 3, totalPages: 2 },
+            }),
+        );
+        const page = await metadataRepository
+            .searchMetadata({
+                sourceAddress: address,
+                scopedMetadataKey: '123451234512345A',
+                targetId: mosaicId,
+                metadataType: MetadataType.Mosaic,
+                pageSize: 2,
+                pageNumber: 1,
+                order: SearchOrder.Desc,
+            })
+            .toPromise();
+        expect(page.pageNumber).to.be.equals(1);
+        expect(page.totalPages).to.be.equals(2);
+        expect(page.data.length).to.be.equals(2);
+        assertMetadataInfo(page.data[0], metadataDTOMosaic);
+        assertMetadataInfo(page.data[1], metadataDTOAddress);
+    });
+
+    it('searchMetadata using the streamer', async () => {
+        const criteria = (pageNumber: number): any => ({
+            sourceAddress: undefined,
+            targetAddress: address.plain(),
+            scopedMetadataKey: undefined,
+            targetId: undefined,
+            metadataType: undefined,
+            pageSize: 2,
+            pageNumber,
+            offset: undefined,
+            order: undefined,
+        });
+        when(metadataSearchRoutesApi.searchMetadataEntries(deepEqual(criteria(1)))).thenReturn(
+            Promise.resolve({
+                data: [metadataDTOMosaic, metadataDTOAddress],
+                pagination: { pageNumber: 1, pageSize: 2, totalEntries: 3, totalPages: 2 },
+            }),
+        );
+        when(metadataSearchRoutesApi.searchMetadataEntries(deepEqual(criteria(2)))).thenReturn(
+            Promise.resolve({
+                data: [metadataDTONamespace],
+                pagination: { pageNumber: 2, pageSize: 2, totalEntries: 3, totalPages: 2 },
+            }),
+        );
+        const metadatas = await new MetadataPaginationStreamer(metadataRepository)
+            .search({ targetAddress: address, pageSize: 2 })
+            .pipe(toArray())
+            .toPromise();
+        expect(metadatas.length).to.be.equals(3);
+        assertMetadataInfo(metadatas[2], metadataDTONamespace);
+    });
+
     it('getAccountMetadataByKey', async () => {
         when(metadataRoutesApi.getAccountMetadataByKey(address.plain(), 'aaa')).thenReturn(Promise.resolve(metadataEntriesDTO));
         const metadatas = await metadataRepository.getAccountMetadataByKey(address, 'aaa').toPromise();
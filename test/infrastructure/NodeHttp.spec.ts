@@ -31,6 +31,7 @@ import {
 import { instance, mock, reset, when } from 'ts-mockito';
 import { DtoMapping } from '../../src/core/utils/DtoMapping';
 import { NodeHttp } from '../../src/infrastructure/NodeHttp';
+import { RepositoryError } from '../../src/infrastructure/RepositoryError';
 import { NetworkType } from '../../src/model/network/NetworkType';
 
 describe('NodeHttp', () => {
@@ -161,6 +162,10 @@ describe('NodeHttp', () => {
             await nodeRepository.getStorageInfo().toPromise();
         } catch (e) {
             expect(e.message).to.deep.equals('{"statusCode":500,"statusMessage":"Some Error","body":"The Body"}');
+            expect(e).to.be.instanceOf(RepositoryError);
+            expect(e.statusCode).to.be.equal(500);
+            expect(e.statusMessage).to.be.equal('Some Error');
+            expect(e.body).to.be.equal('The Body');
         }
     });
 
@@ -22,15 +22,23 @@ import {
     AccountRestrictionsInfoDTO,
     MerklePathItemDTO,
     MerkleProofInfoDTO,
+    Order,
     PositionEnum,
     ReceiptRoutesApi,
+    ReceiptTypeEnum,
+    ResolutionStatementDTO,
     StatementsDTO,
+    TransactionStatementDTO,
 } from 'symbol-openapi-typescript-fetch-client';
-import { instance, mock, reset, when } from 'ts-mockito';
+import { anything, deepEqual, instance, mock, reset, when } from 'ts-mockito';
 import { DtoMapping } from '../../src/core/utils/DtoMapping';
+import { StatementRoutesApi } from '../../src/infrastructure/receipt/StatementRoutesApi';
+import { RepositoryError } from '../../src/infrastructure/RepositoryError';
+import { SearchPage } from '../../src/infrastructure/SearchRoutesApi';
 import { ReceiptHttp } from '../../src/infrastructure/ReceiptHttp';
+import { Order as SearchOrder } from '../../src/infrastructure/searchCriteria/Order';
 import { PublicAccount } from '../../src/model/account/PublicAccount';
-import { UInt64 } from '../../src/model/model';
+import { BalanceTransferReceipt, MosaicId, ReceiptType, ResolutionType, UInt64 } from '../../src/model/model';
 import { NetworkType } from '../../src/model/network/NetworkType';
 
 describe('ReceiptHttp', () => {
@@ -42,8 +50,10 @@ describe('ReceiptHttp', () => {
     const url = 'http://someHost';
     const response: http.IncomingMessage = mock();
     const receiptRoutesApi: ReceiptRoutesApi = mock();
+    const statementRoutesApi: StatementRoutesApi = mock();
     const receiptRepository = DtoMapping.assign(new ReceiptHttp(url, NetworkType.MIJIN_TEST), {
         receiptRoutesApi: instance(receiptRoutesApi),
+        statementRoutesApi: instance(statementRoutesApi),
     });
 
     const restrictionInfo = {} as AccountRestrictionsInfoDTO;
@@ -59,6 +69,7 @@ describe('ReceiptHttp', () => {
     before(() => {
         reset(response);
         reset(receiptRoutesApi);
+        reset(statementRoutesApi);
     });
 
     it('getBlockReceipt', async () => {
@@ -107,4 +118,139 @@ describe('ReceiptHttp', () => {
             .toPromise()
             .catch((error) => expect(error).not.to.be.undefined);
     });
+
+    const pagination = { pageNumber: 1, pageSize: 10, totalEntries: 1, totalPages: 1 };
+    const emptyQuery = {
+        height: undefined,
+        fromHeight: undefined,
+        toHeight: undefined,
+        pageSize: undefined,
+        pageNumber: undefined,
+        offset: undefined,
+        order: undefined,
+    };
+
+    it('searchReceipts', async () => {
+        const statementPage: SearchPage<TransactionStatementDTO> = {
+            data: [
+                {
+                    statement: {
+                        height: '52',
+                        source: { primaryId: 1, secondaryId: 0 },
+                        receipts: [
+                            {
+                                version: 1,
+                                type: ReceiptTypeEnum.NUMBER_4685,
+                                senderAddress: address.encoded(),
+                                recipientAddress: address.encoded(),
+                                mosaicId: '85BBEA6CC462B244',
+                                amount: '1000',
+                            },
+                        ],
+                    },
+                },
+            ],
+            pagination,
+        };
+        when(
+            statementRoutesApi.searchReceipts(
+                deepEqual({
+                    height: undefined,
+                    fromHeight: '50',
+                    toHeight: undefined,
+                    pageSize: 10,
+                    pageNumber: undefined,
+                    offset: undefined,
+                    order: Order.Desc,
+                    receiptType: [ReceiptTypeEnum.NUMBER_4685],
+                    recipientAddress: address.plain(),
+                    senderAddress: undefined,
+                    targetAddress: undefined,
+                    artifactId: '85BBEA6CC462B244',
+                }),
+            ),
+        ).thenReturn(Promise.resolve(statementPage));
+
+        const page = await receiptRepository
+            .searchReceipts({
+                fromHeight: UInt64.fromUint(50),
+                pageSize: 10,
+                order: SearchOrder.Desc,
+                receiptTypes: [ReceiptType.Mosaic_Rental_Fee],
+                recipientAddress: address,
+                artifactId: new MosaicId('85BBEA6CC462B244'),
+            })
+            .toPromise();
+        expect(page.pageNumber).to.be.equal(1);
+        expect(page.data.length).to.be.equal(1);
+        expect(page.data[0].height.toString()).to.be.equal('52');
+        expect(page.data[0].source.primaryId).to.be.equal(1);
+        const receipt = page.data[0].receipts[0] as BalanceTransferReceipt;
+        expect(receipt.recipientAddress.equals(address)).to.be.true;
+        expect(receipt.amount.toString()).to.be.equal('1000');
+    });
+
+    it('searchAddressResolutionStatements', async () => {
+        const statementPage: SearchPage<ResolutionStatementDTO> = {
+            data: [
+                {
+                    statement: {
+                        height: '52',
+                        unresolved: '9103B60AAF2762688300000000000000000000000000000000',
+                        resolutionEntries: [{ source: { primaryId: 1, secondaryId: 0 }, resolved: address.encoded() }],
+                    },
+                },
+            ],
+            pagination,
+        };
+        when(statementRoutesApi.searchAddressResolutionStatements(deepEqual({ ...emptyQuery, height: '52' }))).thenReturn(
+            Promise.resolve(statementPage),
+        );
+
+        const page = await receiptRepository.searchAddressResolutionStatements({ height: UInt64.fromUint(52) }).toPromise();
+        expect(page.data.length).to.be.equal(1);
+        expect(page.data[0].resolutionType).to.be.equal(ResolutionType.Address);
+        expect(page.data[0].height.toString()).to.be.equal('52');
+        expect((page.data[0].resolutionEntries[0].resolved as any).equals(address)).to.be.true;
+    });
+
+    it('searchMosaicResolutionStatements', async () => {
+        const statementPage: SearchPage<ResolutionStatementDTO> = {
+            data: [
+                {
+                    statement: {
+                        height: '52',
+                        unresolved: '85BBEA6CC462B244',
+                        resolutionEntries: [{ source: { primaryId: 1, secondaryId: 0 }, resolved: '941299B2B7E1291C' }],
+                    },
+                },
+            ],
+            pagination,
+        };
+        when(statementRoutesApi.searchMosaicResolutionStatements(deepEqual(emptyQuery))).thenReturn(Promise.resolve(statementPage));
+
+        const page = await receiptRepository.searchMosaicResolutionStatements({}).toPromise();
+        expect(page.data.length).to.be.equal(1);
+        expect(page.data[0].resolutionType).to.be.equal(ResolutionType.Mosaic);
+        expect((page.data[0].resolutionEntries[0].resolved as MosaicId).toHex()).to.be.equal('941299B2B7E1291C');
+    });
+
+    it('searchMosaicResolutionStatements - receipt criteria', async () => {
+        try {
+            await receiptRepository.searchMosaicResolutionStatements({ artifactId: new MosaicId('941299B2B7E1291C') }).toPromise();
+            expect.fail('Search should have failed');
+        } catch (e) {
+            expect(e).to.be.instanceOf(RepositoryError);
+            expect(e.statusCode).to.be.equal(409);
+            expect(e.code).to.be.equal('InvalidArgument');
+        }
+    });
+
+    it('searchReceipts - Error', async () => {
+        when(statementRoutesApi.searchReceipts(anything())).thenReject(new Error('Mocked Error'));
+        await receiptRepository
+            .searchReceipts({})
+            .toPromise()
+            .catch((error) => expect(error).not.to.be.undefined);
+    });
 });
@@ -0,0 +1,39 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { RepositoryError } from '../../src/infrastructure/RepositoryError';
+
+describe('RepositoryError', () => {
+    it('should keep the call error as json message', () => {
+        const body = JSON.stringify({ code: 'ResourceNotFound', message: 'no resource exists with id' });
+        const error = new RepositoryError({ statusCode: 404, statusMessage: 'Not Found', body });
+        expect(error).to.be.instanceOf(Error);
+        expect(error.name).to.be.equal('RepositoryError');
+        expect(JSON.parse(error.message)).to.be.deep.equal({ statusCode: 404, statusMessage: 'Not Found', body });
+        expect(error.statusCode).to.be.equal(404);
+        expect(error.statusMessage).to.be.equal('Not Found');
+        expect(error.body).to.be.equal(body);
+        expect(error.code).to.be.equal('ResourceNotFound');
+        expect(error.isNotFound()).to.be.true;
+    });
+
+    it('should accept bodies that are not json', () => {
+        const error = new RepositoryError({ statusCode: 500, statusMessage: 'Internal Server Error', body: 'Some body text' });
+        expect(error.code).to.be.undefined;
+        expect(error.isNotFound()).to.be.false;
+    });
+});
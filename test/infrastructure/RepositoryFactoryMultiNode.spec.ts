@@ -0,0 +1,174 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { expect } from 'chai';
+import { of as observableOf, throwError } from 'rxjs';
+import { NodeStatusEnum } from 'symbol-openapi-typescript-fetch-client';
+import { instance, mock, verify, when } from 'ts-mockito';
+import { AccountRepository } from '../../src/infrastructure/AccountRepository';
+import { ChainRepository } from '../../src/infrastructure/ChainRepository';
+import { IListener } from '../../src/infrastructure/IListener';
+import { NodeRepository } from '../../src/infrastructure/NodeRepository';
+import { RepositoryError } from '../../src/infrastructure/RepositoryError';
+import { RepositoryFactory } from '../../src/infrastructure/RepositoryFactory';
+import { RepositoryFactoryMultiNode } from '../../src/infrastructure/RepositoryFactoryMultiNode';
+import { AccountInfo } from '../../src/model/account/AccountInfo';
+import { Address } from '../../src/model/account/Address';
+import { NetworkType } from '../../src/model/network/NetworkType';
+import { NodeHealth } from '../../src/model/node/NodeHealth';
+import { UInt64 } from '../../src/model/UInt64';
+
+describe('RepositoryFactoryMultiNode', () => {
+    const address = Address.createFromRawAddress('SATNE7Q5BITMUTRRN6IB4I7FLSDRDWZA37JGO5Q');
+    const serverError = new RepositoryError({ statusCode: 503, statusMessage: 'Service Unavailable', body: '' });
+    const notFoundError = new RepositoryError({ statusCode: 404, statusMessage: 'Not Found', body: '' });
+
+    interface NodeMock {
+        factory: RepositoryFactory;
+        accountRepository: AccountRepository;
+        listener: IListener;
+    }
+
+    const createNode = (healthy: boolean | undefined, height: number, account: AccountInfo | Error): NodeMock => {
+        const factoryMock: RepositoryFactory = mock();
+        const nodeRepositoryMock: NodeRepository = mock();
+        const chainRepositoryMock: ChainRepository = mock();
+        const accountRepositoryMock: AccountRepository = mock();
+        const listener: IListener = instance(mock());
+        if (healthy === undefined) {
+            when(nodeRepositoryMock.getNodeHealth()).thenReturn(throwError(new Error('connect ECONNREFUSED')));
+        } else {
+            const status = healthy ? NodeStatusEnum.Up : NodeStatusEnum.Down;
+            when(nodeRepositoryMock.getNodeHealth()).thenReturn(observableOf(new NodeHealth(NodeStatusEnum.Up, status)));
+        }
+        when(chainRepositoryMock.getBlockchainHeight()).thenReturn(observableOf(UInt64.fromUint(height)));
+        when(accountRepositoryMock.getAccountInfo(address)).thenReturn(
+            account instanceof Error ? throwError(account) : observableOf(account),
+        );
+        when(factoryMock.createNodeRepository()).thenReturn(instance(nodeRepositoryMock));
+        when(factoryMock.createChainRepository()).thenReturn(instance(chainRepositoryMock));
+        when(factoryMock.createAccountRepository()).thenReturn(instance(accountRepositoryMock));
+        when(factoryMock.createListener()).thenReturn(listener);
+        return { factory: instance(factoryMock), accountRepository: accountRepositoryMock, listener };
+    };
+
+    const createFactory = (nodes: { [url: string]: NodeMock }): RepositoryFactoryMultiNode => {
+        return new (class RepositoryFactoryMultiNodeForTest extends RepositoryFactoryMultiNode {
+            protected createNodeRepositoryFactory(url: string): RepositoryFactory {
+                return nodes[url].factory;
+            }
+        })(Object.keys(nodes), { networkType: NetworkType.MIJIN_TEST, generationHash: 'testHash' });
+    };
+
+    it('should throw error when no url is provided', () => {
+        expect(() => new RepositoryFactoryMultiNode([])).to.throw(Error, 'At least one node url must be provided');
+    });
+
+    it('should rank nodes by health and height', async () => {
+        const factory = createFactory({
+            down: createNode(false, 20, serverError),
+            offline: createNode(undefined, 30, serverError),
+            behind: createNode(true, 10, serverError),
+            best: createNode(true, 12, serverError),
+        });
+        const ranking = await factory.rankNodes().toPromise();
+        expect(ranking.map((node) => node.url)).to.be.deep.equal(['best', 'behind', 'down', 'offline']);
+        expect(ranking[0].healthy).to.be.true;
+        expect(ranking[0].height!.compact()).to.be.equal(12);
+        expect(ranking[3].healthy).to.be.false;
+        expect(ranking[3].height).to.be.undefined;
+    });
+
+    it('should call the best node', async () => {
+        const accountInfo = {} as AccountInfo;
+        const nodes = { behind: createNode(true, 10, serverError), best: createNode(true, 12, accountInfo) };
+        const factory = createFactory(nodes);
+        const result = await factory.createAccountRepository().getAccountInfo(address).toPromise();
+        expect(result).to.be.equal(accountInfo);
+        verify(nodes.behind.accountRepository.getAccountInfo(address)).never();
+        expect(factory.createListener()).to.be.equal(nodes.best.listener);
+    });
+
+    it('should fail over on server errors', async () => {
+        const accountInfo = {} as AccountInfo;
+        const nodes = { best: createNode(true, 12, serverError), behind: createNode(true, 10, accountInfo) };
+        const factory = createFactory(nodes);
+        const result = await factory.createAccountRepository().getAccountInfo(address).toPromise();
+        expect(result).to.be.equal(accountInfo);
+        expect(factory.getRankedUrls()).to.be.deep.equal(['behind', 'best']);
+        expect(factory.createListener()).to.be.equal(nodes.behind.listener);
+    });
+
+    it('should not fail over on client errors', async () => {
+        const nodes = { best: createNode(true, 12, notFoundError), behind: createNode(true, 10, {} as AccountInfo) };
+        const factory = createFactory(nodes);
+        try {
+            await factory.createAccountRepository().getAccountInfo(address).toPromise();
+            expect.fail('Call should have failed');
+        } catch (e) {
+            expect(e).to.be.equal(notFoundError);
+        }
+        verify(nodes.behind.accountRepository.getAccountInfo(address)).never();
+        expect(factory.getRankedUrls()).to.be.deep.equal(['best', 'behind']);
+    });
+
+    it('should not fail over on programming errors', async () => {
+        const typeError = new TypeError('Cannot read property of undefined');
+        const nodes = { best: createNode(true, 12, typeError), behind: createNode(true, 10, {} as AccountInfo) };
+        const factory = createFactory(nodes);
+        try {
+            await factory.createAccountRepository().getAccountInfo(address).toPromise();
+            expect.fail('Call should have failed');
+        } catch (e) {
+            expect(e).to.be.equal(typeError);
+        }
+        verify(nodes.behind.accountRepository.getAccountInfo(address)).never();
+    });
+
+    it('should raise the last error when all the nodes fail', async () => {
+        const factory = createFactory({ best: createNode(true, 12, serverError), behind: createNode(true, 10, serverError) });
+        try {
+            await factory.createAccountRepository().getAccountInfo(address).toPromise();
+            expect.fail('Call should have failed');
+        } catch (e) {
+            expect(e).to.be.equal(serverError);
+        }
+    });
+
+    it('should wrap every repository method', () => {
+        const factory = createFactory({ best: createNode(true, 12, serverError) });
+        expect(Object.keys(factory.createAccountRepository())).to.have.members(['getAccountInfo', 'getAccountsInfo', 'search']);
+        expect(Object.keys(factory.createChainRepository())).to.have.members(['getBlockchainHeight', 'getChainScore']);
+    });
+
+    it('should detect failover errors', () => {
+        expect(RepositoryFactoryMultiNode.isFailoverError(serverError)).to.be.true;
+        expect(RepositoryFactoryMultiNode.isFailoverError(new RepositoryError({ statusCode: 0, statusMessage: 'Unknown Error', body: '' })))
+            .to.be.true;
+        const fetchError = new Error('request to http://localhost:3000 failed');
+        fetchError.name = 'FetchError';
+        expect(RepositoryFactoryMultiNode.isFailoverError(fetchError)).to.be.true;
+        expect(RepositoryFactoryMultiNode.isFailoverError(new TypeError('Cannot read property of undefined'))).to.be.false;
+        expect(RepositoryFactoryMultiNode.isFailoverError(new Error('request to http://localhost:3000 failed'))).to.be.false;
+        expect(RepositoryFactoryMultiNode.isFailoverError(notFoundError)).to.be.false;
+        expect(RepositoryFactoryMultiNode.isFailoverError('some error')).to.be.false;
+    });
+
+    it('should use the configured network type and generation hash', async () => {
+        const factory = createFactory({ best: createNode(true, 12, serverError) });
+        expect(await factory.getNetworkType().toPromise()).to.be.equal(NetworkType.MIJIN_TEST);
+        expect(await factory.getGenerationHash().toPromise()).to.be.equal('testHash');
+    });
+});
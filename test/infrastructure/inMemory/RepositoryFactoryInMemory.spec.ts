@@ -0,0 +1,210 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { toArray } from 'rxjs/operators';
+import { InMemoryStore } from '../../../src/infrastructure/inMemory/InMemoryStore';
+import { RepositoryFactoryInMemory } from '../../../src/infrastructure/inMemory/RepositoryFactoryInMemory';
+import { Order } from '../../../src/infrastructure/searchCriteria/Order';
+import { TransactionGroup } from '../../../src/infrastructure/TransactionGroup';
+import { Account } from '../../../src/model/account/Account';
+import { AccountInfo } from '../../../src/model/account/AccountInfo';
+import { AccountType } from '../../../src/model/account/AccountType';
+import { Address } from '../../../src/model/account/Address';
+import { MultisigAccountInfo } from '../../../src/model/account/MultisigAccountInfo';
+import { SupplementalPublicKeys } from '../../../src/model/account/SupplementalPublicKeys';
+import { PlainMessage } from '../../../src/model/message/PlainMessage';
+import { Mosaic } from '../../../src/model/mosaic/Mosaic';
+import { MosaicId } from '../../../src/model/mosaic/MosaicId';
+import { NamespaceId } from '../../../src/model/namespace/NamespaceId';
+import { NetworkType } from '../../../src/model/network/NetworkType';
+import { Deadline } from '../../../src/model/transaction/Deadline';
+import { TransactionStatusError } from '../../../src/model/transaction/TransactionStatusError';
+import { TransferTransaction } from '../../../src/model/transaction/TransferTransaction';
+import { UInt64 } from '../../../src/model/UInt64';
+import { TransactionService } from '../../../src/service/TransactionService';
+
+describe('RepositoryFactoryInMemory', () => {
+    const networkType = NetworkType.MIJIN_TEST;
+    const generationHash = '57F7DA205008026C776CB6AED843393F04CD458E0AA2D9F1D5F31A402072B2D6';
+    const mosaicId = new MosaicId('0DC67FBE1CAD29E3');
+    const sender = Account.generateNewAccount(networkType);
+    const recipient = Account.generateNewAccount(networkType);
+
+    const createAccountInfo = (address: Address, amount: number): AccountInfo =>
+        new AccountInfo(
+            address,
+            UInt64.fromUint(1),
+            '0'.repeat(64),
+            UInt64.fromUint(0),
+            AccountType.Unlinked,
+            new SupplementalPublicKeys(),
+            [],
+            [new Mosaic(mosaicId, UInt64.fromUint(amount))],
+            UInt64.fromUint(0),
+            UInt64.fromUint(0),
+        );
+
+    const createTransfer = (amount: number): TransferTransaction =>
+        TransferTransaction.create(
+            Deadline.create(),
+            recipient.address,
+            [new Mosaic(mosaicId, UInt64.fromUint(amount))],
+            PlainMessage.create('test'),
+            networkType,
+        );
+
+    let store: InMemoryStore;
+    let factory: RepositoryFactoryInMemory;
+
+    beforeEach(() => {
+        store = new InMemoryStore(networkType, generationHash).addAccounts(createAccountInfo(sender.address, 100));
+        factory = new RepositoryFactoryInMemory(store);
+    });
+
+    it('should return the network type and generation hash', async () => {
+        expect(await factory.getNetworkType().toPromise()).to.be.equal(networkType);
+        expect(await factory.getGenerationHash().toPromise()).to.be.equal(generationHash);
+    });
+
+    it('should return the seeded accounts', async () => {
+        const accountInfo = await factory.createAccountRepository().getAccountInfo(sender.address).toPromise();
+        expect(accountInfo.mosaics[0].amount.compact()).to.be.equal(100);
+    });
+
+    it('should raise a 404 error when the account is unknown', async () => {
+        try {
+            await factory.createAccountRepository().getAccountInfo(recipient.address).toPromise();
+            expect.fail('Should have failed');
+        } catch (e) {
+            expect(JSON.parse(e.message).statusCode).to.be.equal(404);
+        }
+    });
+
+    it('should reject resolution statement searches by receipt criteria', async () => {
+        try {
+            await factory.createReceiptRepository().searchAddressResolutionStatements({ senderAddress: sender.address }).toPromise();
+            expect.fail('Should have failed');
+        } catch (e) {
+            expect(e.statusCode).to.be.equal(409);
+            expect(e.code).to.be.equal('InvalidArgument');
+        }
+    });
+
+    it('should page the search results', async () => {
+        store.addAccounts(createAccountInfo(recipient.address, 5));
+        const page = await factory.createAccountRepository().search({ pageSize: 1, pageNumber: 2, order: Order.Desc }).toPromise();
+        expect(page.data.length).to.be.equal(1);
+        expect(page.data[0].address.plain()).to.be.equal(sender.address.plain());
+        expect(page.totalEntries).to.be.equal(2);
+        expect(page.totalPages).to.be.equal(2);
+    });
+
+    it('should announce and confirm a transfer moving the balances', async () => {
+        const listener = factory.createListener();
+        await listener.open();
+        const signedTransaction = sender.sign(createTransfer(40), generationHash);
+        const service = new TransactionService(factory.createTransactionRepository(), factory.createReceiptRepository());
+
+        const transaction = await service.announce(signedTransaction, listener).toPromise();
+
+        expect(transaction.transactionInfo!.hash).to.be.equal(signedTransaction.hash);
+        expect(transaction.transactionInfo!.height.compact()).to.be.equal(2);
+        const accounts = await factory.createAccountRepository().getAccountsInfo([sender.address, recipient.address]).toPromise();
+        expect(accounts.map((a) => a.mosaics[0].amount.compact())).to.deep.equal([60, 40]);
+        const status = await factory.createTransactionStatusRepository().getTransactionStatus(signedTransaction.hash).toPromise();
+        expect(status.group).to.be.equal('confirmed');
+        const page = await factory
+            .createTransactionRepository()
+            .search({ group: TransactionGroup.Confirmed, recipientAddress: recipient.address })
+            .toPromise();
+        expect(page.data.length).to.be.equal(1);
+        listener.close();
+    });
+
+    it('should reject a transfer without enough balance', async () => {
+        store.autoConfirm = false;
+        const listener = factory.createListener();
+        await listener.open();
+        const signedTransaction = sender.sign(createTransfer(101), generationHash);
+        const errors = listener.status(sender.address, signedTransaction.hash).pipe(toArray()).toPromise();
+
+        await factory.createTransactionRepository().announce(signedTransaction).toPromise();
+        store.confirmTransactions();
+        store.events.complete();
+
+        const statusErrors: TransactionStatusError[] = await errors;
+        expect(statusErrors.length).to.be.equal(1);
+        expect(statusErrors[0].code).to.be.equal('Failure_Core_Insufficient_Balance');
+        const accountInfo = await factory.createAccountRepository().getAccountInfo(sender.address).toPromise();
+        expect(accountInfo.mosaics[0].amount.compact()).to.be.equal(100);
+    });
+
+    it('should reject a transfer to an unknown alias', async () => {
+        store.autoConfirm = false;
+        const listener = factory.createListener();
+        await listener.open();
+        const transfer = TransferTransaction.create(
+            Deadline.create(),
+            new NamespaceId('unknown'),
+            [new Mosaic(mosaicId, UInt64.fromUint(10))],
+            PlainMessage.create('test'),
+            networkType,
+        );
+        const signedTransaction = sender.sign(transfer, generationHash);
+        const errors = listener.status(sender.address, signedTransaction.hash).pipe(toArray()).toPromise();
+
+        await factory.createTransactionRepository().announce(signedTransaction).toPromise();
+        store.confirmTransactions();
+        store.events.complete();
+
+        const statusErrors: TransactionStatusError[] = await errors;
+        expect(statusErrors.map((error) => error.code)).to.be.deep.equal(['Failure_Namespace_Unknown_Alias']);
+        const accountInfo = await factory.createAccountRepository().getAccountInfo(sender.address).toPromise();
+        expect(accountInfo.mosaics[0].amount.compact()).to.be.equal(100);
+    });
+
+    it('should count the listener channel observers', async () => {
+        const listener = factory.createListener();
+        await listener.open();
+        const subscription1 = listener.confirmed(sender.address).subscribe();
+        const subscription2 = listener.confirmed(sender.address).subscribe();
+        listener.newBlock().subscribe();
+        expect(Array.from(listener.getActiveChannels())).to.deep.equal([
+            [`confirmedAdded/${sender.address.plain()}`, 2],
+            ['block', 1],
+        ]);
+        subscription1.unsubscribe();
+        subscription2.unsubscribe();
+        expect(Array.from(listener.getActiveChannels())).to.deep.equal([['block', 1]]);
+        listener.close();
+    });
+
+    it('should compute the multisig graph from the multisig entries', async () => {
+        const cosigner = Account.generateNewAccount(networkType);
+        store.addMultisigAccounts(
+            new MultisigAccountInfo(sender.address, 1, 1, [recipient.address], []),
+            new MultisigAccountInfo(recipient.address, 1, 1, [cosigner.address], []),
+        );
+
+        const graph = await factory.createMultisigRepository().getMultisigAccountGraphInfo(sender.address).toPromise();
+
+        expect(Array.from(graph.multisigEntries.keys())).to.deep.equal([0, 1, 2]);
+        expect(graph.multisigEntries.get(2)![0].accountAddress.plain()).to.be.equal(cosigner.address.plain());
+        const cosignerGraph = await factory.createMultisigRepository().getMultisigAccountGraphInfo(cosigner.address).toPromise();
+        expect(Array.from(cosignerGraph.multisigEntries.keys()).sort((a, b) => a - b)).to.deep.equal([-2, -1, 0]);
+    });
+});
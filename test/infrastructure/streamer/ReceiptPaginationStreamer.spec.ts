@@ -0,0 +1,126 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { toArray } from 'rxjs/operators';
+import { InMemoryStore } from '../../../src/infrastructure/inMemory/InMemoryStore';
+import { RepositoryFactoryInMemory } from '../../../src/infrastructure/inMemory/RepositoryFactoryInMemory';
+import { ReceiptPaginationStreamer } from '../../../src/infrastructure/paginationStreamer/ReceiptPaginationStreamer';
+import { Account } from '../../../src/model/account/Account';
+import { MosaicId } from '../../../src/model/mosaic/MosaicId';
+import { NetworkType } from '../../../src/model/network/NetworkType';
+import { BalanceChangeReceipt } from '../../../src/model/receipt/BalanceChangeReceipt';
+import { BalanceTransferReceipt } from '../../../src/model/receipt/BalanceTransferReceipt';
+import { ReceiptSource } from '../../../src/model/receipt/ReceiptSource';
+import { ReceiptType } from '../../../src/model/receipt/ReceiptType';
+import { ReceiptVersion } from '../../../src/model/receipt/ReceiptVersion';
+import { ResolutionEntry } from '../../../src/model/receipt/ResolutionEntry';
+import { ResolutionStatement } from '../../../src/model/receipt/ResolutionStatement';
+import { ResolutionType } from '../../../src/model/receipt/ResolutionType';
+import { Statement } from '../../../src/model/receipt/Statement';
+import { TransactionStatement } from '../../../src/model/receipt/TransactionStatement';
+import { UInt64 } from '../../../src/model/UInt64';
+
+describe('ReceiptPaginationStreamer', () => {
+    const networkType = NetworkType.MIJIN_TEST;
+    const mosaicId = new MosaicId('0DC67FBE1CAD29E3');
+    const harvester = Account.generateNewAccount(networkType).address;
+    const sender = Account.generateNewAccount(networkType).address;
+
+    const createStatement = (height: number): Statement => {
+        const blockHeight = UInt64.fromUint(height);
+        const harvestFee = new BalanceChangeReceipt(
+            harvester,
+            mosaicId,
+            UInt64.fromUint(height),
+            ReceiptVersion.BALANCE_CHANGE,
+            ReceiptType.Harvest_Fee,
+        );
+        const rentalFee = new BalanceTransferReceipt(
+            sender,
+            harvester,
+            mosaicId,
+            UInt64.fromUint(10),
+            ReceiptVersion.BALANCE_TRANSFER,
+            ReceiptType.Mosaic_Rental_Fee,
+        );
+        const transactionStatements = [new TransactionStatement(blockHeight, new ReceiptSource(0, 0), [harvestFee])];
+        if (height % 2 === 0) {
+            transactionStatements.push(new TransactionStatement(blockHeight, new ReceiptSource(1, 0), [rentalFee]));
+        }
+        const mosaicResolution = new ResolutionStatement(ResolutionType.Mosaic, blockHeight, mosaicId, [
+            new ResolutionEntry(mosaicId, new ReceiptSource(1, 0)),
+        ]);
+        return new Statement(transactionStatements, [], [mosaicResolution]);
+    };
+
+    const createStreamer = (): ReceiptPaginationStreamer => {
+        const store = new InMemoryStore(networkType, '57F7DA205008026C776CB6AED843393F04CD458E0AA2D9F1D5F31A402072B2D6');
+        [...Array(25).keys()].forEach((index) => store.addStatement(UInt64.fromUint(index + 1), createStatement(index + 1)));
+        return new ReceiptPaginationStreamer(new RepositoryFactoryInMemory(store).createReceiptRepository());
+    };
+
+    it('should stream the transaction statements through all the pages', async () => {
+        const statements = await createStreamer().transactionStatements().search({ pageSize: 10 }).pipe(toArray()).toPromise();
+        expect(statements.length).to.be.equal(37);
+        expect(statements[0].height.compact()).to.be.equal(1);
+        expect(statements[36].height.compact()).to.be.equal(25);
+    });
+
+    it('should filter the transaction statements by receipt type, address and height range', async () => {
+        const statements = await createStreamer()
+            .transactionStatements()
+            .search({
+                pageSize: 2,
+                fromHeight: UInt64.fromUint(5),
+                toHeight: UInt64.fromUint(12),
+                receiptTypes: [ReceiptType.Mosaic_Rental_Fee],
+                recipientAddress: harvester,
+            })
+            .pipe(toArray())
+            .toPromise();
+        expect(statements.map((statement) => statement.height.compact())).to.be.eql([6, 8, 10, 12]);
+        expect(statements.every((statement) => statement.receipts[0].type === ReceiptType.Mosaic_Rental_Fee)).to.be.true;
+    });
+
+    it('should not return statements without any receipt of the sender', async () => {
+        const statements = await createStreamer().transactionStatements().search({ senderAddress: harvester }).pipe(toArray()).toPromise();
+        expect(statements.length).to.be.equal(0);
+    });
+
+    it('should stream the resolution statements filtered by height', async () => {
+        const streamer = createStreamer();
+        const mosaicResolutions = await streamer
+            .mosaicResolutionStatements()
+            .search({ height: UInt64.fromUint(3) })
+            .pipe(toArray())
+            .toPromise();
+        expect(mosaicResolutions.length).to.be.equal(1);
+        expect(mosaicResolutions[0].height.compact()).to.be.equal(3);
+        const addressResolutions = await streamer.addressResolutionStatements().search({}).pipe(toArray()).toPromise();
+        expect(addressResolutions.length).to.be.equal(0);
+    });
+
+    it('should reject resolution statement searches by receipt criteria', async () => {
+        try {
+            await createStreamer().mosaicResolutionStatements().search({ artifactId: mosaicId }).pipe(toArray()).toPromise();
+            expect.fail('Search should have failed');
+        } catch (e) {
+            expect(e.statusCode).to.be.equal(409);
+            expect(e.code).to.be.equal('InvalidArgument');
+        }
+    });
+});
@@ -234,5 +234,20 @@ describe('Uint64', () => {
                 other.subtract(value);
             }).to.throw(Error, 'Unsigned substraction result cannot be negative.');
         });
+
+        it('should return multiplied value', () => {
+            const value = UInt64.fromNumericString('4294967296');
+            const other = UInt64.fromUint(5000);
+            const result = value.multiply(other);
+            expect(result.toString()).to.be.equal('21474836480000');
+            expect(UInt64.fromUint(0).multiply(other).compact()).to.be.equal(0);
+        });
+
+        it('should throw when the multiplied value exceeds 64 bits', () => {
+            const value = UInt64.fromNumericString('4294967296');
+            expect(() => {
+                value.multiply(value);
+            }).to.throw(Error, 'Unsigned multiplication result cannot exceed 64 bits.');
+        });
     });
 });
@@ -25,6 +25,7 @@ import { AggregateTransaction } from '../../../src/model/transaction/AggregateTr
 import { CosignatureTransaction } from '../../../src/model/transaction/CosignatureTransaction';
 import { CosignatureSignedTransaction } from '../../../src/model/transaction/CosignatureSignedTransaction';
 import { TransactionMapping } from '../../../src/core/utils/TransactionMapping';
+import { Convert } from '../../../src/core/format/Convert';
 
 describe('Account', () => {
     const accountInformation = {
@@ -111,6 +112,16 @@ describe('Account', () => {
         expect(signedTransaction.payload.length).to.be.greaterThan(0);
     });
 
+    it('should be a signer', async () => {
+        const account = Account.createFromPrivateKey(accountInformation.privateKey, NetworkType.MIJIN_TEST);
+        const data = Convert.hexToUint8(Convert.utf8ToHex('catapult rocks!'));
+        const publicAccount = await account.getPublicAccount();
+        expect(publicAccount.equals(account.publicAccount)).to.be.true;
+        const signature = await account.sign(data);
+        expect(Convert.uint8ToHex(signature)).to.be.equal(account.signData('catapult rocks!'));
+        expect(publicAccount.verifySignature('catapult rocks!', Convert.uint8ToHex(signature))).to.be.true;
+    });
+
     describe('signData', () => {
         it('utf-8', () => {
             const account = Account.createFromPrivateKey(
@@ -0,0 +1,79 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import {
+    Account,
+    AggregateTransaction,
+    CosignatureTransaction,
+    Deadline,
+    NetworkType,
+    PlainMessage,
+    PublicAccount,
+    Signer,
+    TransferTransaction,
+} from '../../../index';
+
+describe('Signer', () => {
+    const networkType = NetworkType.MIJIN_TEST;
+    const generationHash = '57F7DA205008026C776CB6AED843393F04CD458E0AA2D9F1D5F31A402072B2D6';
+    const initiator = Account.generateNewAccount(networkType);
+    const cosigner = Account.generateNewAccount(networkType);
+
+    const externalSigner = (account: Account): Signer => ({
+        getPublicAccount: (): Promise<PublicAccount> => Promise.resolve(account.publicAccount),
+        sign: (data: Uint8Array): Promise<Uint8Array> => account.sign(data),
+    });
+
+    const aggregate = (): AggregateTransaction =>
+        AggregateTransaction.createComplete(
+            Deadline.create(),
+            [
+                TransferTransaction.create(Deadline.create(), initiator.address, [], PlainMessage.create('a'), networkType).toAggregate(
+                    cosigner.publicAccount,
+                ),
+            ],
+            networkType,
+            [],
+        );
+
+    it('should sign transactions through the public entry points', async () => {
+        const transfer = TransferTransaction.create(Deadline.create(), cosigner.address, [], PlainMessage.create('b'), networkType);
+        const signed = await transfer.signWith(externalSigner(initiator), generationHash);
+        expect(signed.payload).to.be.equal(initiator.sign(transfer, generationHash).payload);
+    });
+
+    it('should sign aggregates with cosignatories through the public entry points', async () => {
+        const transaction = aggregate();
+        const signed = await transaction.signTransactionWithCosignatories(
+            externalSigner(initiator),
+            [externalSigner(cosigner)],
+            generationHash,
+        );
+        expect(signed.payload).to.be.equal(initiator.signTransactionWithCosignatories(transaction, [cosigner], generationHash).payload);
+    });
+
+    it('should sign aggregates given the cosignatures through the public entry points', async () => {
+        const transaction = aggregate();
+        const cosignature = await CosignatureTransaction.signTransactionPayload(
+            externalSigner(cosigner),
+            initiator.sign(transaction, generationHash).payload,
+            generationHash,
+        );
+        const signed = await transaction.signTransactionGivenSignatures(externalSigner(initiator), [cosignature], generationHash);
+        expect(signed.payload).to.be.equal(initiator.signTransactionWithCosignatories(transaction, [cosigner], generationHash).payload);
+    });
+});
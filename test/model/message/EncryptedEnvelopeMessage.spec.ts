@@ -0,0 +1,113 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { Convert } from '../../../src/core/format/Convert';
+import { CreateTransactionFromDTO } from '../../../src/infrastructure/transaction/CreateTransactionFromDTO';
+import { Account } from '../../../src/model/account/Account';
+import { EncryptedEnvelopeMessage } from '../../../src/model/message/EncryptedEnvelopeMessage';
+import { MessageType } from '../../../src/model/message/MessageType';
+import { NetworkType } from '../../../src/model/network/NetworkType';
+import { Deadline } from '../../../src/model/transaction/Deadline';
+import { TransferTransaction } from '../../../src/model/transaction/TransferTransaction';
+
+describe('EncryptedEnvelopeMessage', () => {
+    const networkType = NetworkType.MIJIN_TEST;
+    const sender = Account.createFromPrivateKey('2602F4236B199B3DF762B2AAB46FC3B77D8DDB214F0B62538D3827576C46C108', networkType);
+    const recipient = Account.createFromPrivateKey('B72F2950498111BADF276D6D9D5E345F04E0D5C9B8342DA983C3395B4CF18F08', networkType);
+    const auditor = Account.generateNewAccount(networkType);
+    const outsider = Account.generateNewAccount(networkType);
+
+    it('should be readable by every recipient and the sender', () => {
+        const message = EncryptedEnvelopeMessage.create(
+            'memo: invoice 42 ✓',
+            [recipient.publicAccount, auditor.publicAccount],
+            sender.privateKey,
+        );
+        expect(message.type).to.be.equal(MessageType.EncryptedEnvelopeMessage);
+        expect(message.isBinary()).to.be.false;
+        expect(message.getRecipientPublicKeys()).to.be.eql([recipient.publicKey, auditor.publicKey]);
+        [recipient, auditor, sender].forEach((account) => {
+            expect(EncryptedEnvelopeMessage.decrypt(message, account.privateKey, sender.publicAccount).payload).to.be.equal(
+                'memo: invoice 42 ✓',
+            );
+        });
+    });
+
+    it('should not be readable by other accounts', () => {
+        const message = EncryptedEnvelopeMessage.create('secret', [recipient.publicAccount], sender.privateKey);
+        expect(() => EncryptedEnvelopeMessage.decrypt(message, outsider.privateKey, sender.publicAccount)).to.throw(
+            'The account is not a recipient of the message',
+        );
+        // a recipient using the wrong sender cannot derive the shared key
+        expect(() => EncryptedEnvelopeMessage.decrypt(message, recipient.privateKey, outsider.publicAccount)).to.throw();
+    });
+
+    it('should encrypt binary content', () => {
+        const content = new Uint8Array([0, 1, 2, 253, 254, 255]);
+        const message = EncryptedEnvelopeMessage.create(content, [recipient.publicAccount], sender.privateKey);
+        expect(message.isBinary()).to.be.true;
+        expect(EncryptedEnvelopeMessage.decryptBytes(message, recipient.privateKey, sender.publicAccount)).to.be.eql(content);
+        expect(() => EncryptedEnvelopeMessage.decrypt(message, recipient.privateKey, sender.publicAccount)).to.throw();
+    });
+
+    it('should detect altered payloads', () => {
+        const message = EncryptedEnvelopeMessage.create('secret', [recipient.publicAccount], sender.privateKey);
+        const payload = Convert.hexToUint8(message.payload);
+        payload[payload.length - 1] ^= 1;
+        expect(() =>
+            EncryptedEnvelopeMessage.decrypt(
+                new EncryptedEnvelopeMessage(Convert.uint8ToHex(payload)),
+                recipient.privateKey,
+                sender.publicAccount,
+            ),
+        ).to.throw();
+        expect(() => new EncryptedEnvelopeMessage('02').isBinary()).to.throw('Invalid envelope message payload');
+    });
+
+    it('should validate the recipients', () => {
+        expect(() => EncryptedEnvelopeMessage.create('secret', [], sender.privateKey)).to.throw();
+        expect(() => new EncryptedEnvelopeMessage('not hex')).to.throw();
+    });
+
+    it('should not exceed the maximum message size', () => {
+        // header (3) + recipient (92) + iv and tag (28) leave 900 bytes of content
+        expect(
+            EncryptedEnvelopeMessage.create(new Uint8Array(900), [recipient.publicAccount], sender.privateKey).payload.length,
+        ).to.be.equal(1023 * 2);
+        expect(() => EncryptedEnvelopeMessage.create(new Uint8Array(901), [recipient.publicAccount], sender.privateKey)).to.throw(
+            'Message of 1024 bytes exceeds the maximum message size of 1023 bytes',
+        );
+    });
+
+    it('should be decoded from transaction payloads and DTOs', () => {
+        const message = EncryptedEnvelopeMessage.create('secret', [recipient.publicAccount, auditor.publicAccount], sender.privateKey);
+        const transferTransaction = TransferTransaction.create(Deadline.create(), recipient.address, [], message, networkType);
+        const signedTransaction = sender.sign(transferTransaction, '57F7DA205008026C776CB6AED843393F04CD458E0AA2D9F1D5F31A402072B2D6');
+
+        const fromPayload = TransferTransaction.createFromPayload(signedTransaction.payload) as TransferTransaction;
+        expect(fromPayload.message).to.be.instanceof(EncryptedEnvelopeMessage);
+        expect(fromPayload.message.payload).to.be.equal(message.payload);
+        expect(
+            EncryptedEnvelopeMessage.decrypt(fromPayload.message as EncryptedEnvelopeMessage, auditor.privateKey, sender.publicAccount)
+                .payload,
+        ).to.be.equal('secret');
+
+        const fromDTO = CreateTransactionFromDTO({ transaction: transferTransaction.toJSON().transaction }) as TransferTransaction;
+        expect(fromDTO.message).to.be.instanceof(EncryptedEnvelopeMessage);
+        expect(fromDTO.message.payload).to.be.equal(message.payload);
+    });
+});
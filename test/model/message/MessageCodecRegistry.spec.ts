@@ -0,0 +1,125 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { Convert } from '../../../src/core/format/Convert';
+import { CreateTransactionFromDTO } from '../../../src/infrastructure/transaction/CreateTransactionFromDTO';
+import { Account } from '../../../src/model/account/Account';
+import { BinaryMessageCodec } from '../../../src/model/message/BinaryMessageCodec';
+import { Invoice } from '../../../src/model/message/Invoice';
+import { InvoiceMessageCodec } from '../../../src/model/message/InvoiceMessageCodec';
+import { JsonMessageCodec } from '../../../src/model/message/JsonMessageCodec';
+import { MessageCodec } from '../../../src/model/message/MessageCodec';
+import { MessageCodecRegistry } from '../../../src/model/message/MessageCodecRegistry';
+import { MessageType } from '../../../src/model/message/MessageType';
+import { PlainMessage } from '../../../src/model/message/PlainMessage';
+import { TypedMessage } from '../../../src/model/message/TypedMessage';
+import { NetworkType } from '../../../src/model/network/NetworkType';
+import { TransferNetworkProperties } from '../../../src/model/network/TransferNetworkProperties';
+import { Deadline } from '../../../src/model/transaction/Deadline';
+import { TransferTransaction } from '../../../src/model/transaction/TransferTransaction';
+import { UInt64 } from '../../../src/model/UInt64';
+
+describe('MessageCodecRegistry', () => {
+    const networkType = NetworkType.MIJIN_TEST;
+    const account = Account.generateNewAccount(networkType);
+    const json = new JsonMessageCodec();
+    const binary = new BinaryMessageCodec();
+    const invoiceCodec = new InvoiceMessageCodec();
+
+    const transferWith = (message: TypedMessage): TransferTransaction =>
+        TransferTransaction.create(Deadline.create(), account.address, [], message, networkType);
+
+    it('should encode and decode json values', () => {
+        const registry = new MessageCodecRegistry();
+        const message = registry.encode(json, { orderId: 42, items: ['a', 'ü'] });
+        expect(message.type).to.be.equal(MessageType.TypedMessage);
+        expect(message.codecId).to.be.equal(json.id);
+        expect(registry.decode(message)).to.be.eql({ orderId: 42, items: ['a', 'ü'] });
+    });
+
+    it('should encode and decode binary values', () => {
+        const registry = new MessageCodecRegistry();
+        const message = registry.encode(binary, Convert.hexToUint8('00FF10'));
+        expect(message.payload).to.be.equal('0200FF10');
+        expect(Convert.uint8ToHex(registry.decode(message, binary))).to.be.equal('00FF10');
+    });
+
+    it('should encode and decode invoices', () => {
+        const registry = new MessageCodecRegistry();
+        const dueDate = new Date('2030-01-31T12:00:00.000Z');
+        const message = registry.encode(invoiceCodec, new Invoice(UInt64.fromNumericString('123456789012'), 'INV-2030-001', dueDate));
+        expect(message.getData().length).to.be.equal(12 + 12);
+        const invoice = registry.decode(message, invoiceCodec);
+        expect(invoice.amount.toString()).to.be.equal('123456789012');
+        expect(invoice.reference).to.be.equal('INV-2030-001');
+        expect(invoice.dueDate.getTime()).to.be.equal(dueDate.getTime());
+        expect(() => invoiceCodec.decode(new Uint8Array(4))).to.throw('Invalid invoice size');
+        expect(() => invoiceCodec.encode(new Invoice(UInt64.fromUint(1), '', new Date(-1000)))).to.throw();
+    });
+
+    it('should decode the message of transfer transactions', () => {
+        const registry = new MessageCodecRegistry();
+        const transferTransaction = transferWith(registry.encode(json, { reference: 'abc' }));
+        const signedTransaction = account.sign(transferTransaction, '57F7DA205008026C776CB6AED843393F04CD458E0AA2D9F1D5F31A402072B2D6');
+
+        const fromPayload = TransferTransaction.createFromPayload(signedTransaction.payload) as TransferTransaction;
+        expect(registry.canDecode(fromPayload.message)).to.be.true;
+        expect(registry.decode(fromPayload.message)).to.be.eql({ reference: 'abc' });
+
+        const fromDTO = CreateTransactionFromDTO({ transaction: transferTransaction.toJSON().transaction }) as TransferTransaction;
+        expect(registry.decode(fromDTO.message, json)).to.be.eql({ reference: 'abc' });
+    });
+
+    it('should enforce the network message size', () => {
+        const registry = new MessageCodecRegistry();
+        expect(registry.maxMessageSize).to.be.equal(1023);
+        expect(registry.encode(binary, new Uint8Array(1022)).getData().length).to.be.equal(1022);
+        expect(() => registry.encode(binary, new Uint8Array(1023))).to.throw(
+            'Message of 1024 bytes exceeds the maximum message size of 1023 bytes',
+        );
+        const smallRegistry = new MessageCodecRegistry(new TransferNetworkProperties("1'00"));
+        expect(smallRegistry.maxMessageSize).to.be.equal(99);
+        expect(() => smallRegistry.encode(binary, new Uint8Array(99))).to.throw();
+    });
+
+    it('should register custom codecs', () => {
+        const upperCase: MessageCodec<string> = {
+            id: 0x80,
+            name: 'uppercase',
+            encode: (value: string): Uint8Array => Convert.hexToUint8(Convert.utf8ToHex(value.toUpperCase())),
+            decode: (data: Uint8Array): string => Convert.uint8ToUtf8(data),
+        };
+        const registry = new MessageCodecRegistry();
+        expect(() => registry.encode(upperCase, 'abc')).to.throw('Codec uppercase is not registered');
+        registry.register(upperCase);
+        expect(registry.getCodec(0x80)).to.be.equal(upperCase);
+        expect(registry.decode(registry.encode(upperCase, 'abc'))).to.be.equal('ABC');
+        expect(() => registry.register({ ...upperCase, name: 'other' })).to.throw('Codec id 128 is already used by codec uppercase');
+        expect(() => registry.register({ ...upperCase, id: 256 })).to.throw('Invalid codec id 256');
+    });
+
+    it('should reject messages it cannot decode', () => {
+        const registry = new MessageCodecRegistry();
+        expect(registry.canDecode(PlainMessage.create('hello'))).to.be.false;
+        expect(() => registry.decode(PlainMessage.create('hello'))).to.throw('Message of type 0 is not a typed message');
+        expect(registry.canDecode(TypedMessage.create(0x99, new Uint8Array(0)))).to.be.false;
+        expect(() => registry.decode(TypedMessage.create(0x99, new Uint8Array(0)))).to.throw('Unknown codec id 153');
+        expect(registry.canDecode(TypedMessage.createFromPayload(''))).to.be.false;
+        expect(() => registry.decode(TypedMessage.createFromPayload(''))).to.throw('Message has no codec id');
+        expect(() => registry.decode(registry.encode(json, 1), binary)).to.throw('Message encoded with codec json instead of binary');
+    });
+});
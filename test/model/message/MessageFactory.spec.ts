@@ -0,0 +1,72 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { Convert } from '../../../src/core/format/Convert';
+import { Account } from '../../../src/model/account/Account';
+import { EncryptedEnvelopeMessage } from '../../../src/model/message/EncryptedEnvelopeMessage';
+import { EncryptedMessage } from '../../../src/model/message/EncryptedMessage';
+import { Message } from '../../../src/model/message/Message';
+import { MessageFactory } from '../../../src/model/message/MessageFactory';
+import { MessageType } from '../../../src/model/message/MessageType';
+import { PersistentHarvestingDelegationMessage } from '../../../src/model/message/PersistentHarvestingDelegationMessage';
+import { EmptyMessage, PlainMessage } from '../../../src/model/message/PlainMessage';
+import { TypedMessage } from '../../../src/model/message/TypedMessage';
+import { NetworkType } from '../../../src/model/network/NetworkType';
+
+describe('MessageFactory', () => {
+    const networkType = NetworkType.MIJIN_TEST;
+    const sender = Account.generateNewAccount(networkType);
+    const recipient = Account.generateNewAccount(networkType);
+
+    const serialize = (message: Message, hexPayload = false): Uint8Array =>
+        Convert.hexToUint8(
+            message.type.toString(16).padStart(2, '0') + (hexPayload ? message.payload : Convert.utf8ToHex(message.payload)),
+        );
+
+    it('should create each message type from its bytes', () => {
+        const plain = MessageFactory.createMessageFromBuffer(serialize(PlainMessage.create('hello')));
+        expect(plain).to.be.instanceof(PlainMessage);
+        expect(plain.payload).to.be.equal('hello');
+
+        const encryptedMessage = sender.encryptMessage('hello', recipient.publicAccount);
+        const encrypted = MessageFactory.createMessageFromBuffer(serialize(encryptedMessage));
+        expect(encrypted).to.be.instanceof(EncryptedMessage);
+        expect(recipient.decryptMessage(encrypted as EncryptedMessage, sender.publicAccount).payload).to.be.equal('hello');
+
+        const envelopeMessage = EncryptedEnvelopeMessage.create('hello', [recipient.publicAccount], sender.privateKey);
+        const envelope = MessageFactory.createMessageFromBuffer(serialize(envelopeMessage, true));
+        expect(envelope).to.be.instanceof(EncryptedEnvelopeMessage);
+        expect(envelope.payload).to.be.equal(envelopeMessage.payload);
+
+        const delegationMessage = PersistentHarvestingDelegationMessage.create(sender.privateKey, recipient.publicKey, networkType);
+        const delegation = MessageFactory.createMessageFromBuffer(Convert.hexToUint8(delegationMessage.payload));
+        expect(delegation).to.be.instanceof(PersistentHarvestingDelegationMessage);
+        expect(delegation.payload).to.be.equal(delegationMessage.payload);
+    });
+
+    it('should create a typed message without codec id from its type byte only', () => {
+        const message = MessageFactory.createMessageFromBuffer(new Uint8Array([MessageType.TypedMessage]));
+        expect(message).to.be.instanceof(TypedMessage);
+        expect(message.payload).to.be.equal('');
+        expect((message as TypedMessage).codecId).to.be.undefined;
+        expect((message as TypedMessage).getData().length).to.be.equal(0);
+    });
+
+    it('should create an empty message from empty bytes', () => {
+        expect(MessageFactory.createMessageFromBuffer(new Uint8Array(0))).to.be.equal(EmptyMessage);
+    });
+});
@@ -79,4 +79,9 @@ describe('MosaicAmountView', () => {
         const mosaicAmountView = new MosaicAmountView(mosaicInfo, UInt64.fromUint(100));
         expect(mosaicAmountView.fullName()).to.be.equal(new MosaicId([3294802500, 2243684972]).toHex());
     });
+
+    it('should return the namespace name as full name when known', () => {
+        const mosaicAmountView = new MosaicAmountView(mosaicInfo, UInt64.fromUint(100), 'cat.currency');
+        expect(mosaicAmountView.fullName()).to.be.equal('cat.currency');
+    });
 });
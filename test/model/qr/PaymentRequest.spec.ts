@@ -0,0 +1,123 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { Account } from '../../../src/model/account/Account';
+import { Address } from '../../../src/model/account/Address';
+import { EncryptedMessage } from '../../../src/model/message/EncryptedMessage';
+import { PlainMessage } from '../../../src/model/message/PlainMessage';
+import { Mosaic } from '../../../src/model/mosaic/Mosaic';
+import { MosaicId } from '../../../src/model/mosaic/MosaicId';
+import { NamespaceId } from '../../../src/model/namespace/NamespaceId';
+import { NetworkType } from '../../../src/model/network/NetworkType';
+import { PaymentRequest } from '../../../src/model/qr/PaymentRequest';
+import { Deadline } from '../../../src/model/transaction/Deadline';
+import { TransferTransaction } from '../../../src/model/transaction/TransferTransaction';
+import { UInt64 } from '../../../src/model/UInt64';
+
+describe('PaymentRequest', () => {
+    const networkType = NetworkType.MIJIN_TEST;
+    const generationHash = '57F7DA205008026C776CB6AED843393F04CD458E0AA2D9F1D5F31A402072B2D6';
+    const recipient = Account.generateNewAccount(networkType);
+    const currency = new MosaicId('0DC67FBE1CAD29E3');
+
+    it('should round trip a payment URI', () => {
+        const request = new PaymentRequest(
+            recipient.address,
+            [new Mosaic(currency, UInt64.fromUint(1500000)), new Mosaic(new NamespaceId('cat.token'), UInt64.fromUint(2))],
+            'order #42 & co',
+            networkType,
+            generationHash,
+        );
+        const uri = request.toURI();
+        expect(uri).to.be.equal(
+            `symbol:${recipient.address.plain()}?network=${networkType}&generationHash=${generationHash}` +
+                `&mosaic=0DC67FBE1CAD29E3%3A1500000&mosaic=%40cat.token%3A2&message=order+%2342+%26+co`,
+        );
+        const decoded = PaymentRequest.createFromURI(uri);
+        expect((decoded.recipient as Address).equals(recipient.address)).to.be.true;
+        expect(decoded.mosaics.map((mosaic) => [mosaic.id.toHex(), mosaic.amount.toString()])).to.be.eql([
+            [currency.toHex(), '1500000'],
+            [new NamespaceId('cat.token').toHex(), '2'],
+        ]);
+        expect((decoded.mosaics[1].id as NamespaceId).fullName).to.be.equal('cat.token');
+        expect(decoded.message).to.be.equal('order #42 & co');
+        expect(decoded.networkType).to.be.equal(networkType);
+        expect(decoded.generationHash).to.be.equal(generationHash);
+    });
+
+    it('should encode namespace recipients with their names or ids', () => {
+        const named = new PaymentRequest(new NamespaceId('alice'), [], '', networkType, generationHash);
+        expect(named.toURI()).to.be.equal(`symbol:%40alice?network=${networkType}&generationHash=${generationHash}`);
+        expect((PaymentRequest.createFromURI(named.toURI()).recipient as NamespaceId).fullName).to.be.equal('alice');
+
+        const id = NamespaceId.createFromEncoded(new NamespaceId('alice').toHex());
+        const decoded = PaymentRequest.createFromURI(new PaymentRequest(id, [], '', networkType, generationHash).toURI());
+        expect((decoded.recipient as NamespaceId).equals(new NamespaceId('alice'))).to.be.true;
+    });
+
+    it('should convert to and from transfer transactions', () => {
+        const request = new PaymentRequest(
+            recipient.address,
+            [new Mosaic(currency, UInt64.fromUint(10))],
+            'memo',
+            networkType,
+            generationHash,
+        );
+        const deadline = Deadline.create();
+        const transaction = request.toTransaction(deadline, UInt64.fromUint(2000));
+        expect(transaction.recipientAddress.equals(recipient.address)).to.be.true;
+        expect(transaction.mosaics[0].amount.compact()).to.be.equal(10);
+        expect(transaction.message.payload).to.be.equal('memo');
+        expect(transaction.maxFee.compact()).to.be.equal(2000);
+        expect(transaction.deadline).to.be.equal(deadline);
+        expect(transaction.signature).to.be.undefined;
+
+        const fromTransaction = PaymentRequest.createFromTransaction(transaction, generationHash);
+        expect(fromTransaction.toURI()).to.be.equal(request.toURI());
+
+        const encrypted = TransferTransaction.create(
+            deadline,
+            recipient.address,
+            [],
+            new EncryptedMessage('00', recipient.publicAccount),
+            networkType,
+        );
+        expect(() => PaymentRequest.createFromTransaction(encrypted, generationHash)).to.throw();
+    });
+
+    it('should reject invalid payment URIs', () => {
+        expect(() => PaymentRequest.createFromURI('bitcoin:abc')).to.throw('Payment URI must start with symbol:');
+        expect(() => PaymentRequest.createFromURI(`symbol:${recipient.address.plain()}`)).to.throw();
+        expect(() =>
+            PaymentRequest.createFromURI(
+                `symbol:${recipient.address.plain()}?network=${networkType}&generationHash=${generationHash}&mosaic=${currency.toHex()}:-1`,
+            ),
+        ).to.throw('Invalid payment request mosaic');
+        expect(() =>
+            PaymentRequest.createFromURI(
+                `symbol:${recipient.address.plain()}?network=${NetworkType.TEST_NET}&generationHash=${generationHash}`,
+            ),
+        ).to.throw(`doesn't belong to network`);
+        expect(() => PaymentRequest.createFromURI(`symbol:%40alice?network=abc&generationHash=${generationHash}`)).to.throw(
+            'Unsupported network abc',
+        );
+        expect(() => PaymentRequest.createFromURI(`symbol:%40alice?network=999&generationHash=${generationHash}`)).to.throw(
+            'Unsupported network 999',
+        );
+        expect(() => new PaymentRequest(recipient.address, [], PlainMessage.create('').payload, NetworkType.MAIN_NET, '')).to.throw();
+    });
+});
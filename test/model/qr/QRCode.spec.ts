@@ -0,0 +1,111 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { Account } from '../../../src/model/account/Account';
+import { Address } from '../../../src/model/account/Address';
+import { PlainMessage } from '../../../src/model/message/PlainMessage';
+import { Mosaic } from '../../../src/model/mosaic/Mosaic';
+import { MosaicId } from '../../../src/model/mosaic/MosaicId';
+import { NetworkType } from '../../../src/model/network/NetworkType';
+import { PaymentRequest } from '../../../src/model/qr/PaymentRequest';
+import { QRCode } from '../../../src/model/qr/QRCode';
+import { QRCodeType } from '../../../src/model/qr/QRCodeType';
+import { AggregateTransaction } from '../../../src/model/transaction/AggregateTransaction';
+import { Deadline } from '../../../src/model/transaction/Deadline';
+import { TransferTransaction } from '../../../src/model/transaction/TransferTransaction';
+import { UInt64 } from '../../../src/model/UInt64';
+import { Password } from '../../../src/model/wallet/Password';
+import { SimpleWallet } from '../../../src/model/wallet/SimpleWallet';
+
+describe('QRCode', () => {
+    const networkType = NetworkType.MIJIN_TEST;
+    const generationHash = '57F7DA205008026C776CB6AED843393F04CD458E0AA2D9F1D5F31A402072B2D6';
+    const account = Account.generateNewAccount(networkType);
+    const cosigner = Account.generateNewAccount(networkType);
+
+    it('should share payment requests', () => {
+        const request = new PaymentRequest(
+            account.address,
+            [new Mosaic(new MosaicId('0DC67FBE1CAD29E3'), UInt64.fromUint(5))],
+            'coffee',
+            networkType,
+            generationHash,
+        );
+        const json = QRCode.createPaymentRequest(request).toJSONString();
+        expect(JSON.parse(json)).to.be.eql({
+            v: 1,
+            type: QRCodeType.PaymentRequest,
+            network_id: networkType,
+            chain_id: generationHash,
+            data: { recipient: account.address.plain(), mosaics: [{ id: '0DC67FBE1CAD29E3', amount: '5' }], message: 'coffee' },
+        });
+        const scanned = QRCode.createFromJSON(json).getPaymentRequest();
+        expect(scanned.toURI()).to.be.equal(request.toURI());
+        expect((scanned.toTransaction().recipientAddress as Address).equals(account.address)).to.be.true;
+    });
+
+    it('should export accounts', () => {
+        const password = new Password('password123');
+        const wallet = SimpleWallet.createFromPrivateKey('wallet', password, account.privateKey, networkType);
+        const qrCode = QRCode.createFromJSON(QRCode.createExportAccount(wallet, generationHash).toJSONString());
+        expect(qrCode.type).to.be.equal(QRCodeType.ExportAccount);
+        const imported = qrCode.getSimpleWallet();
+        expect(imported.name).to.be.equal('wallet');
+        expect(imported.open(password).privateKey).to.be.equal(account.privateKey);
+    });
+
+    it('should export unsigned transactions for cosigners', () => {
+        const aggregate = AggregateTransaction.createBonded(
+            Deadline.create(),
+            [
+                TransferTransaction.create(Deadline.create(), cosigner.address, [], PlainMessage.create('a'), networkType).toAggregate(
+                    account.publicAccount,
+                ),
+            ],
+            networkType,
+            [],
+            UInt64.fromUint(100),
+        );
+        const qrCode = QRCode.createFromJSON(QRCode.createExportTransaction(aggregate, generationHash).toJSONString());
+        const transaction = qrCode.getTransaction() as AggregateTransaction;
+        expect(transaction.serialize()).to.be.equal(aggregate.serialize());
+        expect(cosigner.sign(transaction, generationHash).hash).to.be.equal(cosigner.sign(aggregate, generationHash).hash);
+    });
+
+    it('should reject invalid QR codes', () => {
+        const valid = { v: 1, type: QRCodeType.PaymentRequest, network_id: networkType, chain_id: generationHash, data: {} };
+        expect(() => QRCode.createFromJSON('not json')).to.throw('QR code content is not valid JSON');
+        expect(() => QRCode.createFromJSON(JSON.stringify({ ...valid, v: 2 }))).to.throw('Unsupported QR code version 2');
+        expect(() => QRCode.createFromJSON(JSON.stringify({ ...valid, type: 'PaymentRequest' }))).to.throw('Unsupported QR code type');
+        expect(() => QRCode.createFromJSON(JSON.stringify({ ...valid, network_id: 1 }))).to.throw();
+        expect(() => QRCode.createFromJSON(JSON.stringify(valid)).getSimpleWallet()).to.throw(
+            "QR code of type 1 doesn't contain a ExportAccount",
+        );
+        expect(() => QRCode.createFromJSON(JSON.stringify(valid)).getPaymentRequest()).to.throw('Invalid payment request');
+        expect(() =>
+            QRCode.createFromJSON(
+                JSON.stringify({ ...valid, data: { recipient: account.address.plain(), mosaics: [] } }),
+            ).getPaymentRequest(),
+        ).to.throw('Invalid payment request');
+        expect(() => QRCode.createFromJSON(JSON.stringify({ ...valid, type: QRCodeType.ExportAccount })).getSimpleWallet()).to.throw(
+            'Invalid exported account',
+        );
+        expect(() => QRCode.createFromJSON(JSON.stringify({ ...valid, type: QRCodeType.ExportTransaction })).getTransaction()).to.throw(
+            'Invalid exported transaction',
+        );
+    });
+});
@@ -22,6 +22,7 @@ import { CreateTransactionFromDTO } from '../../../src/infrastructure/transactio
 import { Account } from '../../../src/model/account/Account';
 import { Address } from '../../../src/model/account/Address';
 import { PublicAccount } from '../../../src/model/account/PublicAccount';
+import { Signer } from '../../../src/model/account/Signer';
 import { PlainMessage } from '../../../src/model/message/PlainMessage';
 import { Mosaic } from '../../../src/model/mosaic/Mosaic';
 import { MosaicFlags } from '../../../src/model/mosaic/MosaicFlags';
@@ -52,6 +53,10 @@ import { UInt64 } from '../../../src/model/UInt64';
 import { Cosignatory2Account, CosignatoryAccount, MultisigAccount, TestingAccount } from '../../conf/conf.spec';
 
 describe('AggregateTransaction', () => {
+    const externalSigner = (signerAccount: Account): Signer => ({
+        getPublicAccount: (): Promise<PublicAccount> => signerAccount.getPublicAccount(),
+        sign: (data: Uint8Array): Promise<Uint8Array> => signerAccount.sign(data),
+    });
     let account: Account;
     const generationHash = '57F7DA205008026C776CB6AED843393F04CD458E0AA2D9F1D5F31A402072B2D6';
     let statement: Statement;
@@ -505,6 +510,51 @@ describe('AggregateTransaction', () => {
         expect(standardCosignedTransaction.hash).to.be.equal(signedTransaction.hash);
     });
 
+    it('should sign with external signers', async () => {
+        const transferTransaction = TransferTransaction.create(
+            Deadline.create(),
+            Address.createFromRawAddress('SATNE7Q5BITMUTRRN6IB4I7FLSDRDWZA34I2PMQ'),
+            [],
+            PlainMessage.create('test-message'),
+            NetworkType.MIJIN_TEST,
+        );
+        const aggregateTransaction = AggregateTransaction.createComplete(
+            Deadline.create(),
+            [transferTransaction.toAggregate(MultisigAccount.publicAccount)],
+            NetworkType.MIJIN_TEST,
+            [],
+        );
+        const expected = aggregateTransaction.signTransactionWithCosignatories(CosignatoryAccount, [Cosignatory2Account], generationHash);
+
+        const signedTransaction = await aggregateTransaction.signTransactionWithCosignatories(
+            externalSigner(CosignatoryAccount),
+            [externalSigner(Cosignatory2Account)],
+            generationHash,
+        );
+        expect(signedTransaction.payload).to.be.equal(expected.payload);
+        expect(signedTransaction.hash).to.be.equal(expected.hash);
+        expect(signedTransaction.signerPublicKey).to.be.equal(CosignatoryAccount.publicKey);
+
+        const mixedSignedTransaction = await aggregateTransaction.signTransactionWithCosignatories(
+            CosignatoryAccount,
+            [externalSigner(Cosignatory2Account)],
+            generationHash,
+        );
+        expect(mixedSignedTransaction.payload).to.be.equal(expected.payload);
+
+        const cosignature = await CosignatureTransaction.signTransactionPayload(
+            externalSigner(Cosignatory2Account),
+            aggregateTransaction.signWith(CosignatoryAccount, generationHash).payload,
+            generationHash,
+        );
+        const givenSignaturesTransaction = await aggregateTransaction.signTransactionGivenSignatures(
+            externalSigner(CosignatoryAccount),
+            [cosignature],
+            generationHash,
+        );
+        expect(givenSignaturesTransaction.payload).to.be.equal(expected.payload);
+    });
+
     it('Should be able to add innertransactions to current aggregate tx', () => {
         const transferTx1 = TransferTransaction.create(
             Deadline.create(),
@@ -17,6 +17,8 @@
 import { expect } from 'chai';
 import { CreateTransactionFromDTO } from '../../../src/infrastructure/transaction/CreateTransactionFromDTO';
 import { Account } from '../../../src/model/account/Account';
+import { PublicAccount } from '../../../src/model/account/PublicAccount';
+import { Signer } from '../../../src/model/account/Signer';
 import { PlainMessage } from '../../../src/model/message/PlainMessage';
 import { NetworkType } from '../../../src/model/network/NetworkType';
 import { AggregateTransaction } from '../../../src/model/transaction/AggregateTransaction';
@@ -26,6 +28,10 @@ import { TransferTransaction } from '../../../src/model/transaction/TransferTran
 import { TestingAccount } from '../../conf/conf.spec';
 
 describe('CosignatureTransaction', () => {
+    const externalSigner = (signerAccount: Account): Signer => ({
+        getPublicAccount: (): Promise<PublicAccount> => signerAccount.getPublicAccount(),
+        sign: (data: Uint8Array): Promise<Uint8Array> => signerAccount.sign(data),
+    });
     let account: Account;
     const generationHash = '57F7DA205008026C776CB6AED843393F04CD458E0AA2D9F1D5F31A402072B2D6';
     before(() => {
@@ -119,4 +125,21 @@ describe('CosignatureTransaction', () => {
         expect(signedTx.signerPublicKey).to.be.equal(account.publicKey);
         expect(signedTx.version.toString()).to.be.equal('0');
     });
+
+    it('should cosign with an external signer', async () => {
+        const txPayload = TransferTransaction.create(
+            Deadline.create(),
+            account.address,
+            [],
+            PlainMessage.create('a to b'),
+            NetworkType.MIJIN_TEST,
+        ).serialize();
+
+        const signedTx = await CosignatureTransaction.signTransactionPayload(externalSigner(account), txPayload, generationHash);
+        const expected = CosignatureTransaction.signTransactionPayload(account, txPayload, generationHash);
+
+        expect(signedTx.parentHash).to.be.equal(expected.parentHash);
+        expect(signedTx.signature).to.be.equal(expected.signature);
+        expect(signedTx.signerPublicKey).to.be.equal(account.publicKey);
+    });
 });
@@ -18,12 +18,13 @@ import { EmbeddedTransactionBuilder, TransactionBuilder } from 'catbuffer-typesc
 import { expect } from 'chai';
 import { Convert } from '../../../src/core/format/Convert';
 import { Account } from '../../../src/model/account/Account';
+import { PublicAccount } from '../../../src/model/account/PublicAccount';
+import { Signer } from '../../../src/model/account/Signer';
 import { Address } from '../../../src/model/account/Address';
 import { PlainMessage } from '../../../src/model/message/PlainMessage';
 import { NetworkType } from '../../../src/model/network/NetworkType';
 import { AggregateTransaction } from '../../../src/model/transaction/AggregateTransaction';
 import { Deadline } from '../../../src/model/transaction/Deadline';
-import { SignedTransaction } from '../../../src/model/transaction/SignedTransaction';
 import { Transaction } from '../../../src/model/transaction/Transaction';
 import { TransactionInfo } from '../../../src/model/transaction/TransactionInfo';
 import { TransactionType } from '../../../src/model/transaction/TransactionType';
@@ -40,8 +41,13 @@ describe('Transaction', () => {
         account = TestingAccount;
     });
 
+    const externalSigner = (signerAccount: Account): Signer => ({
+        getPublicAccount: (): Promise<PublicAccount> => signerAccount.getPublicAccount(),
+        sign: (data: Uint8Array): Promise<Uint8Array> => signerAccount.sign(data),
+    });
+
     class FakeTransaction extends Transaction {
-        public signWith(): SignedTransaction {
+        public signWith(): never {
             throw new Error('Method not implemented.');
         }
 
@@ -391,4 +397,20 @@ describe('Transaction', () => {
         expect((tx as Transaction).isSigned(account.address)).to.be.true;
         expect((tx as Transaction).isSigned(Address.createFromRawAddress('SATNE7Q5BITMUTRRN6IB4I7FLSDRDWZA34I2PMQ'))).to.be.false;
     });
+
+    it('should sign with an external signer', async () => {
+        const tx = TransferTransaction.create(
+            Deadline.create(),
+            Address.createFromRawAddress('SATNE7Q5BITMUTRRN6IB4I7FLSDRDWZA34I2PMQ'),
+            [],
+            PlainMessage.create('test-message'),
+            NetworkType.MIJIN_TEST,
+        );
+        const generationHash = '57F7DA205008026C776CB6AED843393F04CD458E0AA2D9F1D5F31A402072B2D6';
+        const signed = await tx.signWith(externalSigner(account), generationHash);
+        const expected = tx.signWith(account, generationHash);
+        expect(signed.payload).to.be.equal(expected.payload);
+        expect(signed.hash).to.be.equal(expected.hash);
+        expect(signed.signerPublicKey).to.be.equal(account.publicKey);
+    });
 });
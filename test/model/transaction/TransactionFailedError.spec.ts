@@ -0,0 +1,53 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { Account } from '../../../src/model/account/Account';
+import { NetworkType } from '../../../src/model/network/NetworkType';
+import { Deadline } from '../../../src/model/transaction/Deadline';
+import { TransactionFailedError } from '../../../src/model/transaction/TransactionFailedError';
+import { TransactionStatusError } from '../../../src/model/transaction/TransactionStatusError';
+import { TransactionStatusGroup } from '../../../src/model/transaction/TransactionStatusGroup';
+
+describe('TransactionFailedError', () => {
+    const address = Account.generateNewAccount(NetworkType.MIJIN_TEST).address;
+    const hash = 'A'.repeat(64);
+    const deadline = Deadline.create();
+
+    it('should describe the status error', () => {
+        const error = new TransactionFailedError(
+            new TransactionStatusError(address, hash, 'Failure_Aggregate_Missing_Cosignatures', deadline),
+        );
+        expect(error).to.be.instanceOf(Error);
+        expect(error.name).to.be.equal('TransactionFailedError');
+        expect(error.code).to.be.equal('Failure_Aggregate_Missing_Cosignatures');
+        expect(error.hash).to.be.equal(hash);
+        expect(error.address).to.be.equal(address);
+        expect(error.deadline).to.be.equal(deadline);
+        expect(error.group).to.be.equal(TransactionStatusGroup.Aggregate);
+        expect(error.description).to.be.equal('A required cosignature is missing.');
+        expect(error.retryable).to.be.false;
+        expect(error.suggestedFix).to.be.equal('Collect the missing cosignatures or announce the aggregate as bonded.');
+        expect(error.message).to.be.equal('Failure_Aggregate_Missing_Cosignatures');
+    });
+
+    it('should describe unknown status codes', () => {
+        const error = new TransactionFailedError(new TransactionStatusError(address, hash, 'Failure_Something_New', deadline));
+        expect(error.code).to.be.equal('Failure_Something_New');
+        expect(error.group).to.be.equal(TransactionStatusGroup.Core);
+        expect(error.retryable).to.be.false;
+    });
+});
@@ -0,0 +1,85 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { TransactionStatusEnum } from 'symbol-openapi-typescript-fetch-client';
+import { TransactionStatusCatalog } from '../../../src/model/transaction/TransactionStatusCatalog';
+import { TransactionStatusGroup } from '../../../src/model/transaction/TransactionStatusGroup';
+
+describe('TransactionStatusCatalog', () => {
+    it('should describe a status code', () => {
+        const status = TransactionStatusCatalog.describe('Failure_Core_Insufficient_Balance');
+        expect(status.code).to.be.equal('Failure_Core_Insufficient_Balance');
+        expect(status.group).to.be.equal(TransactionStatusGroup.Core);
+        expect(status.description).to.be.equal(
+            'The account does not have enough balance for the amounts sent, the fees or the rental fees.',
+        );
+        expect(status.retryable).to.be.false;
+        expect(status.suggestedFix).to.be.equal('Fund the account or reduce the amounts and the max fee.');
+
+        expect(TransactionStatusCatalog.describe('Failure_LockHash_Unknown_Hash').retryable).to.be.true;
+    });
+
+    it('should group the status codes by plugin', () => {
+        const groups = {
+            Failure_Hash_Already_Exists: TransactionStatusGroup.Core,
+            Failure_AccountLink_Unknown_Link: TransactionStatusGroup.AccountLink,
+            Failure_Aggregate_Missing_Cosignatures: TransactionStatusGroup.Aggregate,
+            Failure_LockHash_Inactive_Hash: TransactionStatusGroup.Lock,
+            Failure_LockSecret_Secret_Mismatch: TransactionStatusGroup.Lock,
+            Failure_Metadata_Value_Too_Large: TransactionStatusGroup.Metadata,
+            Failure_Mosaic_Non_Transferable: TransactionStatusGroup.Mosaic,
+            Failure_Multisig_Loop: TransactionStatusGroup.Multisig,
+            Failure_Namespace_Expired: TransactionStatusGroup.Namespace,
+            Failure_RestrictionAccount_Operation_Type_Prohibited: TransactionStatusGroup.Restriction,
+            Failure_RestrictionMosaic_Account_Unauthorized: TransactionStatusGroup.Restriction,
+            Failure_Transfer_Message_Too_Large: TransactionStatusGroup.Transfer,
+            Failure_Chain_Unconfirmed_Cache_Too_Full: TransactionStatusGroup.Node,
+            Neutral_Consumer_Hash_In_Recency_Cache: TransactionStatusGroup.Node,
+            Failure_Extension_Read_Rate_Limit_Exceeded: TransactionStatusGroup.Node,
+        };
+        Object.keys(groups).forEach((code) => expect(TransactionStatusCatalog.describe(code).group, code).to.be.equal(groups[code]));
+    });
+
+    it('should describe every catapult status code', () => {
+        const codes = Object.keys(TransactionStatusEnum).map((key) => TransactionStatusEnum[key]);
+        const statuses = TransactionStatusCatalog.getAll();
+        expect(statuses.map((status) => status.code)).to.have.members(codes);
+        statuses.forEach((status) => {
+            expect(status.description, status.code).to.not.be.empty;
+            expect(status.suggestedFix, status.code).to.not.be.empty;
+        });
+    });
+
+    it('should filter the status codes by group', () => {
+        const statuses = TransactionStatusCatalog.getAll(TransactionStatusGroup.Metadata);
+        expect(statuses.map((status) => status.code)).to.be.deep.equal([
+            'Failure_Metadata_Value_Too_Small',
+            'Failure_Metadata_Value_Too_Large',
+            'Failure_Metadata_Value_Size_Delta_Too_Large',
+            'Failure_Metadata_Value_Size_Delta_Mismatch',
+            'Failure_Metadata_Value_Change_Irreversible',
+        ]);
+    });
+
+    it('should describe unknown status codes', () => {
+        const status = TransactionStatusCatalog.describe('Failure_Mosaic_Something_New');
+        expect(status.group).to.be.equal(TransactionStatusGroup.Mosaic);
+        expect(status.description).to.be.equal('The transaction was rejected with status Failure_Mosaic_Something_New.');
+        expect(status.retryable).to.be.false;
+        expect(TransactionStatusCatalog.describe('Unknown').group).to.be.equal(TransactionStatusGroup.Core);
+    });
+});
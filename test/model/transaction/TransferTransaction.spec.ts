@@ -19,10 +19,13 @@ import { Convert } from '../../../src/core/format';
 import { CreateTransactionFromPayload } from '../../../src/infrastructure/transaction/CreateTransactionFromPayload';
 import { Account } from '../../../src/model/account/Account';
 import { Address } from '../../../src/model/account/Address';
+import { EncryptedEnvelopeMessage } from '../../../src/model/message/EncryptedEnvelopeMessage';
+import { Message } from '../../../src/model/message/Message';
 import { MessageMarker } from '../../../src/model/message/MessageMarker';
 import { MessageType } from '../../../src/model/message/MessageType';
 import { PersistentHarvestingDelegationMessage } from '../../../src/model/message/PersistentHarvestingDelegationMessage';
 import { PlainMessage } from '../../../src/model/message/PlainMessage';
+import { TypedMessage } from '../../../src/model/message/TypedMessage';
 import { Mosaic } from '../../../src/model/mosaic/Mosaic';
 import { MosaicId } from '../../../src/model/mosaic/MosaicId';
 import { NetworkCurrencyLocal } from '../../../src/model/mosaic/NetworkCurrencyLocal';
@@ -279,6 +282,20 @@ describe('TransferTransaction', () => {
             .be.true;
     });
 
+    it('should keep the persistentDelegationRequestTransaction message when created from payload', () => {
+        const transferTransaction = TransferTransaction.create(
+            Deadline.create(),
+            Address.createFromRawAddress('SATNE7Q5BITMUTRRN6IB4I7FLSDRDWZA34I2PMQ'),
+            [],
+            PersistentHarvestingDelegationMessage.create(delegatedPrivateKey, recipientPublicKey, NetworkType.MIJIN_TEST),
+            NetworkType.MIJIN_TEST,
+        );
+        const signedTransaction = transferTransaction.signWith(account, generationHash);
+        const transaction = TransferTransaction.createFromPayload(signedTransaction.payload) as TransferTransaction;
+        expect(transaction.message.type).to.be.equal(MessageType.PersistentHarvestingDelegationMessage);
+        expect(transaction.message.payload).to.be.equal(transferTransaction.message.payload);
+    });
+
     it('should throw exception with mosaic provided when creating persistentDelegationRequestTransaction', () => {
         expect(() => {
             TransferTransaction.create(
@@ -315,6 +332,26 @@ describe('TransferTransaction', () => {
         }).to.throw();
     });
 
+    it('should throw exception when the typed or envelope message exceeds the maximum message size', () => {
+        const create = (message: Message): TransferTransaction =>
+            TransferTransaction.create(
+                Deadline.create(),
+                Address.createFromRawAddress('SATNE7Q5BITMUTRRN6IB4I7FLSDRDWZA34I2PMQ'),
+                [],
+                message,
+                NetworkType.MIJIN_TEST,
+            );
+        expect(create(TypedMessage.create(0x02, new Uint8Array(1022))).message.payload.length).to.be.equal(1023 * 2);
+        expect(() => create(TypedMessage.create(0x02, new Uint8Array(1023)))).to.throw(
+            Error,
+            'Message of 1024 bytes exceeds the maximum message size of 1023 bytes',
+        );
+        expect(() => create(new EncryptedEnvelopeMessage('01'.repeat(1024)))).to.throw(
+            Error,
+            'Message of 1024 bytes exceeds the maximum message size of 1023 bytes',
+        );
+    });
+
     it('should sort the Mosaic array', () => {
         const mosaics = [
             new Mosaic(new MosaicId(UInt64.fromUint(200).toDTO()), UInt64.fromUint(0)),
@@ -0,0 +1,37 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { DerivationPath } from '../../../src/model/wallet/DerivationPath';
+
+describe('DerivationPath', () => {
+    it('should parse a hardened path', () => {
+        const path = DerivationPath.createFromString("m/44'/4343'/2'/0'/0'");
+        expect(path.indexes).to.be.deep.equal([44, 4343, 2, 0, 0]);
+        expect(path.toString()).to.be.equal("m/44'/4343'/2'/0'/0'");
+    });
+
+    it('should create account path', () => {
+        expect(DerivationPath.createForAccount(5).toString()).to.be.equal("m/44'/4343'/5'/0'/0'");
+        expect(DerivationPath.createForAccount(5, 1).toString()).to.be.equal("m/44'/1'/5'/0'/0'");
+    });
+
+    it('should throw error with invalid path', () => {
+        expect(() => DerivationPath.createFromString("44'/4343'")).to.throw(Error, 'must start with m');
+        expect(() => DerivationPath.createFromString("m/44'/4343/0'")).to.throw(Error, 'non hardened level 4343');
+        expect(() => DerivationPath.createFromString("m/2147483648'")).to.throw(Error, 'out of range');
+    });
+});
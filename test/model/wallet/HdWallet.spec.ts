@@ -0,0 +1,69 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { NetworkType } from '../../../src/model/network/NetworkType';
+import { HdWallet } from '../../../src/model/wallet/HdWallet';
+import { MnemonicPassPhrase } from '../../../src/model/wallet/MnemonicPassPhrase';
+import { Password } from '../../../src/model/wallet/Password';
+
+describe('HdWallet', () => {
+    const password = new Password('password');
+    const mnemonic = new MnemonicPassPhrase(
+        'uniform promote eyebrow frequent mother order evolve spell elite lady clarify accuse annual tenant rotate walnut wisdom render before million scrub scan crush sense',
+    );
+
+    it('should create a new hd wallet', () => {
+        const hdWallet = HdWallet.create('wallet-name', password, NetworkType.MIJIN_TEST);
+        expect(hdWallet.name).to.be.equal('wallet-name');
+        expect(hdWallet.networkType).to.be.equal(NetworkType.MIJIN_TEST);
+        expect(hdWallet.schema).to.be.equal('hd_v1');
+        expect(hdWallet.getMnemonic(password).isValid()).to.be.true;
+    });
+
+    it('should create a hd wallet from mnemonic', () => {
+        const hdWallet = HdWallet.createFromMnemonic('wallet-name', password, mnemonic, NetworkType.MIJIN_TEST);
+        expect(hdWallet.getMnemonic(password).plain).to.be.equal(mnemonic.plain);
+        expect(hdWallet.open(password).address.plain()).to.be.equal(hdWallet.address.plain());
+    });
+
+    it('should derive deterministic accounts per index', () => {
+        const hdWallet = HdWallet.createFromMnemonic('wallet-name', password, mnemonic, NetworkType.MIJIN_TEST);
+        const otherWallet = HdWallet.createFromMnemonic('other-name', new Password('password2'), mnemonic, NetworkType.MIJIN_TEST);
+        const accounts = hdWallet.openAccounts(password, 0, 3);
+        expect(accounts.length).to.be.equal(3);
+        expect(new Set(accounts.map((a) => a.privateKey)).size).to.be.equal(3);
+        expect(accounts[0].privateKey).to.be.equal(hdWallet.open(password).privateKey);
+        expect(accounts[2].privateKey).to.be.equal(otherWallet.openAccount(new Password('password2'), 2).privateKey);
+        accounts.forEach((account) => expect(account.networkType).to.be.equal(NetworkType.MIJIN_TEST));
+    });
+
+    it('should open a hd wallet from a DTO', () => {
+        const hdWallet = HdWallet.createFromMnemonic('wallet-name', password, mnemonic, NetworkType.MIJIN_TEST);
+        const hdWalletDTO = hdWallet.toDTO();
+        expect(hdWalletDTO).to.deep.equal(JSON.parse(JSON.stringify(hdWallet)));
+        const hdWallet2 = HdWallet.createFromDTO(hdWalletDTO);
+        expect(hdWallet2.openAccount(password, 1)).to.deep.equal(hdWallet.openAccount(password, 1));
+    });
+
+    it('should throw error with wrong password or invalid mnemonic', () => {
+        const hdWallet = HdWallet.createFromMnemonic('wallet-name', password, mnemonic, NetworkType.MIJIN_TEST);
+        expect(() => hdWallet.open(new Password('wrong-password'))).to.throw(Error, 'the password is invalid');
+        expect(() =>
+            HdWallet.createFromMnemonic('wallet-name', password, new MnemonicPassPhrase('abandon about'), NetworkType.MIJIN_TEST),
+        ).to.throw(Error, 'Mnemonic pass phrase is not valid');
+    });
+});
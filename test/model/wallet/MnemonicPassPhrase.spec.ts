@@ -0,0 +1,73 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { Convert } from '../../../src/core/format/Convert';
+import { MnemonicPassPhrase } from '../../../src/model/wallet/MnemonicPassPhrase';
+
+describe('MnemonicPassPhrase', () => {
+    const vectorMnemonic = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+    it('should create a random 24 words mnemonic', () => {
+        const mnemonic = MnemonicPassPhrase.createRandom();
+        expect(mnemonic.toArray().length).to.be.equal(24);
+        expect(mnemonic.language).to.be.equal('english');
+        expect(mnemonic.isValid()).to.be.true;
+    });
+
+    it('should create a random 12 words mnemonic in another language', () => {
+        const mnemonic = MnemonicPassPhrase.createRandom('spanish', 128);
+        expect(mnemonic.language).to.be.equal('spanish');
+        expect(mnemonic.toArray().length).to.be.equal(12);
+        expect(mnemonic.isValid()).to.be.true;
+    });
+
+    it('should split japanese mnemonics on the ideographic space', () => {
+        const mnemonic = MnemonicPassPhrase.createRandom('japanese', 128);
+        expect(mnemonic.plain).to.contain('\u3000');
+        expect(mnemonic.toArray().length).to.be.equal(12);
+        expect(mnemonic.toArray().every((word) => word.length > 0 && !/\s/u.test(word))).to.be.true;
+        expect(new MnemonicPassPhrase(` ${mnemonic.plain}\n`, 'japanese').toArray()).to.be.deep.equal(mnemonic.toArray());
+    });
+
+    it('should create from entropy and back', () => {
+        const mnemonic = MnemonicPassPhrase.createFromEntropy('00000000000000000000000000000000');
+        expect(mnemonic.plain).to.be.equal(vectorMnemonic);
+        expect(mnemonic.toEntropy()).to.be.equal('00000000000000000000000000000000');
+    });
+
+    /**
+     * @see https://github.com/trezor/python-mnemonic/blob/master/vectors.json
+     */
+    it('should derive seed', () => {
+        const seed = new MnemonicPassPhrase(vectorMnemonic).toSeed('TREZOR');
+        expect(Convert.uint8ToHex(seed)).to.be.equal(
+            'C55257C360C07C72029AEBC1B53C05ED0362ADA38EAD3E3E9EFA3708E5349553' +
+                '1F09A6987599D18264C1E1C92F2CF141630C7A3C4AB7C81B2F001698E7463B04',
+        );
+    });
+
+    it('should validate checksum', () => {
+        const mnemonic = new MnemonicPassPhrase(vectorMnemonic.replace('about', 'abandon'));
+        expect(mnemonic.isValid()).to.be.false;
+        expect(() => mnemonic.toSeed()).to.throw(Error, 'Mnemonic pass phrase is not valid');
+    });
+
+    it('should throw error with invalid language or strength', () => {
+        expect(() => new MnemonicPassPhrase(vectorMnemonic, 'klingon')).to.throw(Error, 'Language klingon is not supported');
+        expect(() => MnemonicPassPhrase.createRandom('english', 100)).to.throw(Error, 'Invalid strength 100');
+    });
+});
@@ -0,0 +1,255 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { toArray } from 'rxjs/operators';
+import { InMemoryStore } from '../../src/infrastructure/inMemory/InMemoryStore';
+import { RepositoryFactoryInMemory } from '../../src/infrastructure/inMemory/RepositoryFactoryInMemory';
+import { Account } from '../../src/model/account/Account';
+import { AccountInfo } from '../../src/model/account/AccountInfo';
+import { AccountType } from '../../src/model/account/AccountType';
+import { Address } from '../../src/model/account/Address';
+import { SupplementalPublicKeys } from '../../src/model/account/SupplementalPublicKeys';
+import { PlainMessage } from '../../src/model/message/PlainMessage';
+import { Mosaic } from '../../src/model/mosaic/Mosaic';
+import { MosaicFlags } from '../../src/model/mosaic/MosaicFlags';
+import { MosaicId } from '../../src/model/mosaic/MosaicId';
+import { MosaicInfo } from '../../src/model/mosaic/MosaicInfo';
+import { Alias } from '../../src/model/namespace/Alias';
+import { AddressAlias } from '../../src/model/namespace/AddressAlias';
+import { MosaicAlias } from '../../src/model/namespace/MosaicAlias';
+import { NamespaceId } from '../../src/model/namespace/NamespaceId';
+import { NamespaceInfo } from '../../src/model/namespace/NamespaceInfo';
+import { NetworkType } from '../../src/model/network/NetworkType';
+import { ReceiptSource } from '../../src/model/receipt/ReceiptSource';
+import { ResolutionEntry } from '../../src/model/receipt/ResolutionEntry';
+import { ResolutionStatement } from '../../src/model/receipt/ResolutionStatement';
+import { ResolutionType } from '../../src/model/receipt/ResolutionType';
+import { Statement } from '../../src/model/receipt/Statement';
+import { AggregateTransaction } from '../../src/model/transaction/AggregateTransaction';
+import { Deadline } from '../../src/model/transaction/Deadline';
+import { Transaction } from '../../src/model/transaction/Transaction';
+import { TransferTransaction } from '../../src/model/transaction/TransferTransaction';
+import { UInt64 } from '../../src/model/UInt64';
+import { AccountHistoryService } from '../../src/service/AccountHistoryService';
+import { TransactionDirection } from '../../src/service/TransactionDirection';
+
+describe('AccountHistoryService', () => {
+    const networkType = NetworkType.MIJIN_TEST;
+    const generationHash = '57F7DA205008026C776CB6AED843393F04CD458E0AA2D9F1D5F31A402072B2D6';
+    const currency = new MosaicId('0DC67FBE1CAD29E3');
+    const currencyAlias = new NamespaceId('cat.currency');
+    const bobAlias = new NamespaceId('bob');
+    const alice = Account.generateNewAccount(networkType);
+    const bob = Account.generateNewAccount(networkType);
+    const carol = Account.generateNewAccount(networkType).address;
+
+    let store: InMemoryStore;
+    let factory: RepositoryFactoryInMemory;
+    let service: AccountHistoryService;
+
+    const accountInfo = (address: Address, amount: number): AccountInfo =>
+        new AccountInfo(
+            address,
+            UInt64.fromUint(1),
+            '0'.repeat(64),
+            UInt64.fromUint(0),
+            AccountType.Unlinked,
+            new SupplementalPublicKeys(),
+            [],
+            [new Mosaic(currency, UInt64.fromUint(amount))],
+            UInt64.fromUint(0),
+            UInt64.fromUint(0),
+        );
+
+    const namespaceInfo = (namespaceId: NamespaceId, alias: Alias): NamespaceInfo =>
+        new NamespaceInfo(
+            true,
+            0,
+            '1',
+            0,
+            1,
+            [namespaceId],
+            new NamespaceId([0, 0]),
+            alice.address,
+            UInt64.fromUint(1),
+            UInt64.fromUint(1000),
+            alias,
+        );
+
+    const transfer = (recipient: Address | NamespaceId, mosaicId: MosaicId | NamespaceId, amount: number): TransferTransaction =>
+        TransferTransaction.create(
+            Deadline.create(),
+            recipient,
+            [new Mosaic(mosaicId, UInt64.fromUint(amount))],
+            PlainMessage.create('history'),
+            networkType,
+        );
+
+    const confirm = async (transaction: Transaction, account: Account): Promise<string> => {
+        const signedTransaction = account.sign(transaction, generationHash);
+        await factory.createTransactionRepository().announce(signedTransaction).toPromise();
+        store.confirmTransactions();
+        return signedTransaction.hash;
+    };
+
+    beforeEach(() => {
+        store = new InMemoryStore(networkType, generationHash);
+        store.autoConfirm = false;
+        store.feeMultiplier = 10;
+        store
+            .addAccounts(accountInfo(alice.address, 10000000), accountInfo(bob.address, 10000000))
+            .addMosaics(
+                new MosaicInfo(
+                    '1',
+                    currency,
+                    UInt64.fromUint(100000000),
+                    UInt64.fromUint(1),
+                    alice.address,
+                    1,
+                    new MosaicFlags(1),
+                    6,
+                    UInt64.fromUint(0),
+                ),
+            )
+            .addNamespace(namespaceInfo(currencyAlias, new MosaicAlias(currency)), 'cat.currency')
+            .addNamespace(namespaceInfo(bobAlias, new AddressAlias(bob.address)), 'bob');
+        factory = new RepositoryFactoryInMemory(store);
+        service = new AccountHistoryService(factory);
+    });
+
+    it('should resolve the aliases of the transactions and add the names and relative amounts', async () => {
+        const hash = await confirm(transfer(bobAlias, currencyAlias, 1500000), alice);
+        const height = store.chainHeight;
+        store.addStatement(
+            height,
+            new Statement(
+                [],
+                [
+                    new ResolutionStatement(ResolutionType.Address, height, bobAlias, [
+                        new ResolutionEntry(bob.address, new ReceiptSource(1, 0)),
+                    ]),
+                ],
+                [
+                    new ResolutionStatement(ResolutionType.Mosaic, height, currencyAlias, [
+                        new ResolutionEntry(currency, new ReceiptSource(1, 0)),
+                    ]),
+                ],
+            ),
+        );
+
+        const entries = await service.getHistory(alice.address).pipe(toArray()).toPromise();
+        expect(entries.length).to.be.equal(1);
+        const entry = entries[0];
+        expect(entry.hash).to.be.equal(hash);
+        expect(entry.height.equals(height)).to.be.true;
+        expect(entry.direction).to.be.equal(TransactionDirection.Outgoing);
+        expect(entry.signerAddress.equals(alice.address)).to.be.true;
+        expect(entry.signerName).to.be.undefined;
+        expect((entry.recipientAddress as Address).equals(bob.address)).to.be.true;
+        expect(entry.recipientName).to.be.equal('bob');
+        expect(entry.mosaics.map((mosaic) => [mosaic.fullName(), mosaic.relativeAmount()])).to.be.eql([['cat.currency', 1.5]]);
+        expect(entry.fee!.compact()).to.be.equal(entry.transaction.size * 10);
+        expect(entry.aggregate).to.be.undefined;
+    });
+
+    it('should keep the aliases when the block statements cannot resolve them', async () => {
+        await confirm(transfer(bobAlias, currency, 1), alice);
+        await confirm(transfer(bob.address, currencyAlias, 2), alice);
+        const entries = await service.getHistory(alice.address).pipe(toArray()).toPromise();
+        expect(entries.length).to.be.equal(2);
+        expect((entries[0].recipientAddress as NamespaceId).equals(bobAlias)).to.be.true;
+        expect(entries[0].direction).to.be.equal(TransactionDirection.Outgoing);
+        expect(entries[0].mosaics.map((mosaic) => mosaic.amount.compact())).to.be.eql([1]);
+        expect(entries[0].unresolvedMosaics).to.be.empty;
+        expect(entries[1].mosaics).to.be.empty;
+        expect(entries[1].unresolvedMosaics.map((mosaic) => [mosaic.id.toHex(), mosaic.amount.compact()])).to.be.eql([
+            [currencyAlias.toHex(), 2],
+        ]);
+    });
+
+    it('should flatten the inner transactions of aggregates', async () => {
+        const aggregate = AggregateTransaction.createComplete(
+            Deadline.create(),
+            [
+                transfer(alice.address, currency, 2000000).toAggregate(bob.publicAccount),
+                transfer(carol, currency, 1).toAggregate(bob.publicAccount),
+                transfer(bob.address, currency, 3).toAggregate(alice.publicAccount),
+            ],
+            networkType,
+            [],
+        );
+        const hash = await confirm(aggregate, bob);
+
+        const entries = await service.getHistory(alice.address).pipe(toArray()).toPromise();
+        expect(entries.map((entry) => [entry.hash, entry.transaction.transactionInfo!.index, entry.direction])).to.be.eql([
+            [hash, 0, TransactionDirection.Incoming],
+            [hash, 2, TransactionDirection.Outgoing],
+        ]);
+        expect(entries.every((entry) => entry.aggregate!.transactionInfo!.hash === hash)).to.be.true;
+        expect(entries[0].signerName).to.be.equal('bob');
+        expect(entries[0].mosaics.map((mosaic) => [mosaic.fullName(), mosaic.relativeAmount()])).to.be.eql([['cat.currency', 2]]);
+        expect(entries.every((entry) => entry.fee === undefined)).to.be.true;
+
+        const bobEntries = await service.getHistory(bob.address).pipe(toArray()).toPromise();
+        expect(bobEntries.map((entry) => (entry.fee ? entry.fee.compact() : undefined))).to.be.eql([
+            aggregate.size * 10,
+            undefined,
+            undefined,
+        ]);
+        expect(bobEntries.map((entry) => entry.direction)).to.be.eql([
+            TransactionDirection.Outgoing,
+            TransactionDirection.Outgoing,
+            TransactionDirection.Incoming,
+        ]);
+    });
+
+    it('should add an entry for the aggregates the account only signs and pays', async () => {
+        const aggregate = AggregateTransaction.createComplete(
+            Deadline.create(),
+            [transfer(carol, currency, 1).toAggregate(alice.publicAccount)],
+            networkType,
+            [],
+        );
+        const hash = await confirm(aggregate, bob);
+
+        const entries = await service.getHistory(bob.address).pipe(toArray()).toPromise();
+        expect(entries.length).to.be.equal(1);
+        expect(entries[0].hash).to.be.equal(hash);
+        expect(entries[0].transaction).to.be.instanceOf(AggregateTransaction);
+        expect(entries[0].aggregate).to.be.undefined;
+        expect(entries[0].direction).to.be.equal(TransactionDirection.Outgoing);
+        expect(entries[0].fee!.compact()).to.be.equal(aggregate.size * 10);
+
+        const aliceEntries = await service.getHistory(alice.address).pipe(toArray()).toPromise();
+        expect(aliceEntries.map((entry) => [entry.transaction.transactionInfo!.index, entry.aggregate!.transactionInfo!.hash])).to.be.eql([
+            [0, hash],
+        ]);
+    });
+
+    it('should process the transactions in batches of the page size', async () => {
+        await confirm(transfer(bob.address, currency, 1), alice);
+        await confirm(transfer(alice.address, currency, 2), bob);
+        await confirm(transfer(alice.address, currency, 3), alice);
+        const entries = await service.getHistory(alice.address, { pageSize: 2 }).pipe(toArray()).toPromise();
+        expect(entries.map((entry) => [entry.mosaics[0].amount.compact(), entry.direction])).to.be.eql([
+            [1, TransactionDirection.Outgoing],
+            [2, TransactionDirection.Incoming],
+            [3, TransactionDirection.Self],
+        ]);
+        expect(entries.map((entry) => !!entry.fee)).to.be.eql([true, false, true]);
+    });
+});
@@ -0,0 +1,345 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { toArray } from 'rxjs/operators';
+import { LockHashUtils } from '../../src/core/utils/LockHashUtils';
+import { Convert } from '../../src/core/format/Convert';
+import { InMemoryStore } from '../../src/infrastructure/inMemory/InMemoryStore';
+import { RepositoryFactoryInMemory } from '../../src/infrastructure/inMemory/RepositoryFactoryInMemory';
+import { Account } from '../../src/model/account/Account';
+import { Mosaic } from '../../src/model/mosaic/Mosaic';
+import { MosaicId } from '../../src/model/mosaic/MosaicId';
+import { ChainProperties } from '../../src/model/network/ChainProperties';
+import { NetworkConfiguration } from '../../src/model/network/NetworkConfiguration';
+import { NetworkProperties } from '../../src/model/network/NetworkProperties';
+import { NetworkType } from '../../src/model/network/NetworkType';
+import { PluginProperties } from '../../src/model/network/PluginProperties';
+import { SecretLockNetworkProperties } from '../../src/model/network/SecretLockNetworkProperties';
+import { BalanceChangeReceipt } from '../../src/model/receipt/BalanceChangeReceipt';
+import { ReceiptSource } from '../../src/model/receipt/ReceiptSource';
+import { ReceiptType } from '../../src/model/receipt/ReceiptType';
+import { ReceiptVersion } from '../../src/model/receipt/ReceiptVersion';
+import { Statement } from '../../src/model/receipt/Statement';
+import { TransactionStatement } from '../../src/model/receipt/TransactionStatement';
+import { LockHashAlgorithm } from '../../src/model/transaction/LockHashAlgorithm';
+import { Deadline } from '../../src/model/transaction/Deadline';
+import { SecretLockTransaction } from '../../src/model/transaction/SecretLockTransaction';
+import { Transaction } from '../../src/model/transaction/Transaction';
+import { UInt64 } from '../../src/model/UInt64';
+import { AtomicSwapChain } from '../../src/service/AtomicSwapChain';
+import { AtomicSwapLockTerms } from '../../src/service/AtomicSwapLockTerms';
+import { AtomicSwapService } from '../../src/service/AtomicSwapService';
+
+describe('AtomicSwapService', () => {
+    const networkType = NetworkType.MIJIN_TEST;
+    const initiatorMosaicId = new MosaicId('0DC67FBE1CAD29E3');
+    const participantMosaicId = new MosaicId('6BED913FA20223F8');
+
+    /**
+     * The initiator and participant have one account on each chain.
+     */
+    const initiator = Account.generateNewAccount(networkType);
+    const participant = Account.generateNewAccount(networkType);
+
+    let initiatorStore: InMemoryStore;
+    let participantStore: InMemoryStore;
+    let initiatorFactory: RepositoryFactoryInMemory;
+    let participantFactory: RepositoryFactoryInMemory;
+    let service: AtomicSwapService;
+
+    const networkProperties = (blockGenerationTargetTime: string): NetworkConfiguration =>
+        new NetworkConfiguration(
+            new NetworkProperties(),
+            new ChainProperties(undefined, undefined, undefined, undefined, blockGenerationTargetTime),
+            new PluginProperties(undefined, undefined, undefined, new SecretLockNetworkProperties('1d', '0', '1024')),
+        );
+
+    const announce = async (factory: RepositoryFactoryInMemory, transaction: Transaction, account: Account): Promise<void> => {
+        const generationHash = await factory.getGenerationHash().toPromise();
+        await factory.createTransactionRepository().announce(account.sign(transaction, generationHash)).toPromise();
+    };
+
+    beforeEach(() => {
+        initiatorStore = new InMemoryStore(networkType, '57F7DA205008026C776CB6AED843393F04CD458E0AA2D9F1D5F31A402072B2D6');
+        initiatorStore.networkProperties = networkProperties('15s');
+        participantStore = new InMemoryStore(networkType, '8B3C2B3C7B4E0A4E6D0E8C6E4F3A2A1B0C9D8E7F6A5B4C3D2E1F0A9B8C7D6E5F');
+        participantStore.networkProperties = networkProperties('30s');
+        initiatorFactory = new RepositoryFactoryInMemory(initiatorStore);
+        participantFactory = new RepositoryFactoryInMemory(participantStore);
+        service = new AtomicSwapService(initiatorFactory, participantFactory);
+    });
+
+    it('should create a proof and its secret', () => {
+        [LockHashAlgorithm.Op_Sha3_256, LockHashAlgorithm.Op_Hash_160, LockHashAlgorithm.Op_Hash_256].forEach((hashAlgorithm) => {
+            const secret = AtomicSwapService.createSecret(hashAlgorithm, 20);
+            expect(secret.hashAlgorithm).to.be.equal(hashAlgorithm);
+            expect(secret.proof.length).to.be.equal(40);
+            expect(secret.secret).to.be.equal(LockHashUtils.Hash(hashAlgorithm, Convert.hexToUint8(secret.proof)));
+        });
+        expect(AtomicSwapService.createSecret().secret).not.to.be.equal(AtomicSwapService.createSecret().secret);
+    });
+
+    it('should create the locks with asymmetric durations', async () => {
+        const secret = AtomicSwapService.createSecret();
+        const locks = await service
+            .createLocks(
+                secret.hashAlgorithm,
+                secret.secret,
+                new Mosaic(initiatorMosaicId, UInt64.fromUint(10)),
+                participant.address,
+                new Mosaic(participantMosaicId, UInt64.fromUint(20)),
+                initiator.address,
+                UInt64.fromUint(100),
+            )
+            .toPromise();
+        expect(locks.participantLock.duration.compact()).to.be.equal(100);
+        // twice the participant lock time, 2 * 100 blocks * 30s, in blocks of 15s.
+        expect(locks.initiatorLock.duration.compact()).to.be.equal(400);
+        expect(locks.initiatorLock.recipientAddress.equals(participant.address)).to.be.true;
+        expect(locks.initiatorLock.mosaic.id.equals(initiatorMosaicId)).to.be.true;
+        expect(locks.participantLock.recipientAddress.equals(initiator.address)).to.be.true;
+        expect(locks.participantLock.mosaic.id.equals(participantMosaicId)).to.be.true;
+        expect(locks.initiatorLock.secret).to.be.equal(secret.secret);
+        expect(locks.participantLock.secret).to.be.equal(secret.secret);
+    });
+
+    it('should not create locks exceeding the maxSecretLockDuration', async () => {
+        const secret = AtomicSwapService.createSecret();
+        try {
+            await service
+                .createLocks(
+                    secret.hashAlgorithm,
+                    secret.secret,
+                    new Mosaic(initiatorMosaicId, UInt64.fromUint(10)),
+                    participant.address,
+                    new Mosaic(participantMosaicId, UInt64.fromUint(20)),
+                    initiator.address,
+                    UInt64.fromUint(2000),
+                )
+                .toPromise();
+            expect.fail('Should have failed');
+        } catch (e) {
+            expect(e.message).to.be.equal('Lock duration of 8000 blocks exceeds the maxSecretLockDuration 1d.');
+        }
+    });
+
+    it('should run the swap watching the locks and the proof', async () => {
+        const secret = AtomicSwapService.createSecret(LockHashAlgorithm.Op_Hash_160);
+        const initiatorListener = initiatorFactory.createListener();
+        const participantListener = participantFactory.createListener();
+        await initiatorListener.open();
+        await participantListener.open();
+        const locks = await service
+            .createLocks(
+                secret.hashAlgorithm,
+                secret.secret,
+                new Mosaic(initiatorMosaicId, UInt64.fromUint(10)),
+                participant.address,
+                new Mosaic(participantMosaicId, UInt64.fromUint(20)),
+                initiator.address,
+                UInt64.fromUint(100),
+            )
+            .toPromise();
+
+        // The initiator lock is already confirmed when the participant starts watching.
+        await announce(initiatorFactory, locks.initiatorLock, initiator);
+        initiatorStore.confirmTransactions();
+        const initiatorLock = await service
+            .watchLock(
+                AtomicSwapChain.Initiator,
+                secret.hashAlgorithm,
+                secret.secret,
+                participant.address,
+                new AtomicSwapLockTerms(
+                    initiatorMosaicId,
+                    UInt64.fromUint(10),
+                    UInt64.fromUint(400),
+                    UInt64.fromUint(400),
+                    initiator.address,
+                ),
+                initiatorListener,
+            )
+            .toPromise();
+        expect(initiatorLock.signer!.publicKey).to.be.equal(initiator.publicKey);
+
+        // The initiator waits for the participant lock.
+        const participantLock = service
+            .watchLock(
+                AtomicSwapChain.Participant,
+                secret.hashAlgorithm,
+                secret.secret,
+                initiator.address,
+                new AtomicSwapLockTerms(
+                    participantMosaicId,
+                    UInt64.fromUint(20),
+                    UInt64.fromUint(1),
+                    UInt64.fromUint(100),
+                    participant.address,
+                ),
+                participantListener,
+            )
+            .toPromise();
+        await announce(participantFactory, locks.participantLock, participant);
+        participantStore.confirmTransactions();
+        expect((await participantLock).signer!.publicKey).to.be.equal(participant.publicKey);
+
+        // The participant learns the proof published by the initiator.
+        const revealed = service
+            .watchProof(AtomicSwapChain.Participant, secret.hashAlgorithm, secret.secret, initiator.address, participantListener)
+            .toPromise();
+        const signedProof = await service.announceProof(AtomicSwapChain.Participant, secret, initiator.address, initiator).toPromise();
+        expect(signedProof.signerPublicKey).to.be.equal(initiator.publicKey);
+        participantStore.confirmTransactions();
+        expect((await revealed).proof).to.be.equal(secret.proof);
+        initiatorListener.close();
+        participantListener.close();
+    });
+
+    describe('watchLock', () => {
+        const secret = AtomicSwapService.createSecret();
+        const terms = new AtomicSwapLockTerms(
+            initiatorMosaicId,
+            UInt64.fromUint(10),
+            UInt64.fromUint(100),
+            UInt64.fromUint(200),
+            initiator.address,
+        );
+
+        const createLock = (mosaicId: MosaicId, amount: number, duration: number): SecretLockTransaction =>
+            SecretLockTransaction.create(
+                Deadline.create(),
+                new Mosaic(mosaicId, UInt64.fromUint(amount)),
+                UInt64.fromUint(duration),
+                secret.hashAlgorithm,
+                secret.secret,
+                participant.address,
+                networkType,
+            );
+
+        const watchLock = async (lock: SecretLockTransaction, signer = initiator): Promise<SecretLockTransaction[]> => {
+            const listener = initiatorFactory.createListener();
+            await listener.open();
+            const locks: SecretLockTransaction[] = [];
+            const subscription = service
+                .watchLock(AtomicSwapChain.Initiator, secret.hashAlgorithm, secret.secret, participant.address, terms, listener)
+                .subscribe((watched) => locks.push(watched));
+            await announce(initiatorFactory, lock, signer);
+            initiatorStore.confirmTransactions();
+            subscription.unsubscribe();
+            listener.close();
+            return locks;
+        };
+
+        it('should accept a lock meeting the terms', async () => {
+            const locks = await watchLock(createLock(initiatorMosaicId, 10, 150));
+            expect(locks.length).to.be.equal(1);
+            expect(locks[0].mosaic.amount.compact()).to.be.equal(10);
+        });
+
+        it('should ignore a lock of another mosaic', async () => {
+            expect(await watchLock(createLock(participantMosaicId, 10, 150))).to.be.empty;
+        });
+
+        it('should ignore a lock with a smaller amount', async () => {
+            expect(await watchLock(createLock(initiatorMosaicId, 9, 150))).to.be.empty;
+        });
+
+        it('should ignore a lock with an unsafe duration', async () => {
+            expect(await watchLock(createLock(initiatorMosaicId, 10, 99))).to.be.empty;
+            expect(await watchLock(createLock(initiatorMosaicId, 10, 201))).to.be.empty;
+        });
+
+        it('should ignore a lock of another sender', async () => {
+            expect(await watchLock(createLock(initiatorMosaicId, 10, 150), participant)).to.be.empty;
+        });
+
+        it('should check the remaining blocks of an already confirmed lock', async () => {
+            await announce(initiatorFactory, createLock(initiatorMosaicId, 10, 150), initiator);
+            const lockHeight = initiatorStore.confirmTransactions();
+            const listener = initiatorFactory.createListener();
+            await listener.open();
+            const watchAfter = (blocks: number): SecretLockTransaction[] => {
+                initiatorStore.chainHeight = lockHeight.add(UInt64.fromUint(blocks));
+                const locks: SecretLockTransaction[] = [];
+                service
+                    .watchLock(AtomicSwapChain.Initiator, secret.hashAlgorithm, secret.secret, participant.address, terms, listener)
+                    .subscribe((watched) => locks.push(watched))
+                    .unsubscribe();
+                return locks;
+            };
+            // 100 blocks left
+            expect(watchAfter(50).length).to.be.equal(1);
+            // 60 blocks left, not enough to claim it
+            expect(watchAfter(90)).to.be.empty;
+            // expired
+            expect(watchAfter(150)).to.be.empty;
+            listener.close();
+        });
+    });
+
+    it('should notice the refund of an expired lock', async () => {
+        const secret = AtomicSwapService.createSecret();
+        const listener = initiatorFactory.createListener();
+        await listener.open();
+        const mosaic = new Mosaic(initiatorMosaicId, UInt64.fromUint(10));
+        await announce(
+            initiatorFactory,
+            SecretLockTransaction.create(
+                Deadline.create(),
+                mosaic,
+                UInt64.fromUint(5),
+                secret.hashAlgorithm,
+                secret.secret,
+                participant.address,
+                networkType,
+            ),
+            initiator,
+        );
+        initiatorStore.confirmTransactions();
+        const lock = await service
+            .watchLock(
+                AtomicSwapChain.Initiator,
+                secret.hashAlgorithm,
+                secret.secret,
+                participant.address,
+                new AtomicSwapLockTerms(initiatorMosaicId, UInt64.fromUint(10), UInt64.fromUint(5), UInt64.fromUint(5)),
+                listener,
+            )
+            .toPromise();
+
+        const expirationHeight = lock.transactionInfo!.height.add(UInt64.fromUint(5));
+        const refund = new BalanceChangeReceipt(
+            initiator.address,
+            initiatorMosaicId,
+            mosaic.amount,
+            ReceiptVersion.BALANCE_CHANGE,
+            ReceiptType.LockSecret_Expired,
+        );
+        initiatorStore.addStatement(
+            expirationHeight,
+            new Statement([new TransactionStatement(expirationHeight, new ReceiptSource(0, 0), [refund])], [], []),
+        );
+        initiatorStore.chainHeight = expirationHeight;
+        const receipts = await service.watchRefund(AtomicSwapChain.Initiator, lock, listener).pipe(toArray()).toPromise();
+        expect(receipts).to.be.eql([refund]);
+
+        initiatorStore.statements.clear();
+        const claimed = await service.watchRefund(AtomicSwapChain.Initiator, lock, listener).pipe(toArray()).toPromise();
+        expect(claimed.length).to.be.equal(0);
+        listener.close();
+    });
+});
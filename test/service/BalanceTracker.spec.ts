@@ -0,0 +1,270 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { Observable, Subject, throwError } from 'rxjs';
+import { take } from 'rxjs/operators';
+import { IListener } from '../../src/infrastructure/IListener';
+import { InMemoryStore } from '../../src/infrastructure/inMemory/InMemoryStore';
+import { RepositoryFactoryInMemory } from '../../src/infrastructure/inMemory/RepositoryFactoryInMemory';
+import { ReceiptRepository } from '../../src/infrastructure/ReceiptRepository';
+import { RepositoryError } from '../../src/infrastructure/RepositoryError';
+import { Account } from '../../src/model/account/Account';
+import { AccountInfo } from '../../src/model/account/AccountInfo';
+import { AccountType } from '../../src/model/account/AccountType';
+import { Address } from '../../src/model/account/Address';
+import { SupplementalPublicKeys } from '../../src/model/account/SupplementalPublicKeys';
+import { PlainMessage } from '../../src/model/message/PlainMessage';
+import { Mosaic } from '../../src/model/mosaic/Mosaic';
+import { MosaicFlags } from '../../src/model/mosaic/MosaicFlags';
+import { MosaicId } from '../../src/model/mosaic/MosaicId';
+import { MosaicInfo } from '../../src/model/mosaic/MosaicInfo';
+import { ChainProperties } from '../../src/model/network/ChainProperties';
+import { NetworkConfiguration } from '../../src/model/network/NetworkConfiguration';
+import { NetworkProperties } from '../../src/model/network/NetworkProperties';
+import { NetworkType } from '../../src/model/network/NetworkType';
+import { PluginProperties } from '../../src/model/network/PluginProperties';
+import { BalanceChangeReceipt } from '../../src/model/receipt/BalanceChangeReceipt';
+import { ReceiptSource } from '../../src/model/receipt/ReceiptSource';
+import { ReceiptType } from '../../src/model/receipt/ReceiptType';
+import { ReceiptVersion } from '../../src/model/receipt/ReceiptVersion';
+import { Statement } from '../../src/model/receipt/Statement';
+import { TransactionStatement } from '../../src/model/receipt/TransactionStatement';
+import { NewBlock } from '../../src/model/blockchain/NewBlock';
+import { Deadline } from '../../src/model/transaction/Deadline';
+import { Transaction } from '../../src/model/transaction/Transaction';
+import { TransferTransaction } from '../../src/model/transaction/TransferTransaction';
+import { UInt64 } from '../../src/model/UInt64';
+import { AccountBalance } from '../../src/service/AccountBalance';
+import { BalanceTracker } from '../../src/service/BalanceTracker';
+import { MosaicAmountView } from '../../src/service/MosaicAmountView';
+
+describe('BalanceTracker', () => {
+    const networkType = NetworkType.MIJIN_TEST;
+    const generationHash = '57F7DA205008026C776CB6AED843393F04CD458E0AA2D9F1D5F31A402072B2D6';
+    const currency = new MosaicId('0DC67FBE1CAD29E3');
+    const token = new MosaicId('6BED913FA20223F8');
+    const alice = Account.generateNewAccount(networkType);
+    const bob = Account.generateNewAccount(networkType);
+
+    let store: InMemoryStore;
+    let factory: RepositoryFactoryInMemory;
+    let listener: IListener;
+    let balances: AccountBalance[];
+
+    const accountInfo = (address: Address, ...mosaics: Mosaic[]): AccountInfo =>
+        new AccountInfo(
+            address,
+            UInt64.fromUint(1),
+            '0'.repeat(64),
+            UInt64.fromUint(0),
+            AccountType.Unlinked,
+            new SupplementalPublicKeys(),
+            [],
+            mosaics,
+            UInt64.fromUint(0),
+            UInt64.fromUint(0),
+        );
+
+    const mosaicInfo = (mosaicId: MosaicId): MosaicInfo =>
+        new MosaicInfo(
+            '1',
+            mosaicId,
+            UInt64.fromUint(100000),
+            UInt64.fromUint(1),
+            alice.address,
+            1,
+            new MosaicFlags(1),
+            0,
+            UInt64.fromUint(0),
+        );
+
+    const transfer = (recipient: Address, amount: number, maxFee = 0): TransferTransaction =>
+        TransferTransaction.create(
+            Deadline.create(),
+            recipient,
+            [new Mosaic(currency, UInt64.fromUint(amount))],
+            PlainMessage.create(''),
+            networkType,
+            UInt64.fromUint(maxFee),
+        );
+
+    const tick = (): Promise<void> => new Promise((resolve) => setTimeout(resolve));
+
+    const announce = async (transaction: TransferTransaction, account: Account): Promise<number> => {
+        const signedTransaction = account.sign(transaction, generationHash);
+        await factory.createTransactionRepository().announce(signedTransaction).toPromise();
+        await tick();
+        return transaction.size;
+    };
+
+    const amounts = (views: MosaicAmountView[]): any[] => views.map((view) => [view.mosaicInfo.id.toHex(), view.amount.compact()]);
+
+    const last = (): AccountBalance => balances[balances.length - 1];
+
+    beforeEach(async () => {
+        store = new InMemoryStore(networkType, generationHash);
+        store.autoConfirm = false;
+        store.feeMultiplier = 1;
+        store.networkProperties = new NetworkConfiguration(
+            new NetworkProperties(),
+            new ChainProperties(undefined, undefined, "0x0DC6'7FBE'1CAD'29E3"),
+            new PluginProperties(),
+        );
+        store
+            .addAccounts(accountInfo(alice.address, new Mosaic(currency, UInt64.fromUint(1000)), new Mosaic(token, UInt64.fromUint(5))))
+            .addMosaics(mosaicInfo(currency), mosaicInfo(token));
+        factory = new RepositoryFactoryInMemory(store);
+        listener = factory.createListener();
+        await listener.open();
+        balances = [];
+    });
+
+    afterEach(() => {
+        listener.close();
+    });
+
+    it('should track the pending and confirmed balances', async () => {
+        const subscription = new BalanceTracker(factory, listener).track(alice.address).subscribe((balance) => balances.push(balance));
+        await tick();
+        expect(amounts(last().confirmed)).to.be.eql([
+            [currency.toHex(), 1000],
+            [token.toHex(), 5],
+        ]);
+        expect(amounts(last().pending)).to.be.eql(amounts(last().confirmed));
+
+        const size = await announce(transfer(bob.address, 100, 500), alice);
+        expect(amounts(last().confirmed)[0]).to.be.eql([currency.toHex(), 1000]);
+        expect(amounts(last().pending)[0]).to.be.eql([currency.toHex(), 400]);
+
+        store.confirmTransactions();
+        await tick();
+        expect(amounts(last().confirmed)[0]).to.be.eql([currency.toHex(), 900 - size]);
+        expect(amounts(last().pending)).to.be.eql(amounts(last().confirmed));
+        subscription.unsubscribe();
+    });
+
+    it('should apply the incoming transfers and the receipts of the new blocks', async () => {
+        store.addAccounts(accountInfo(bob.address, new Mosaic(currency, UInt64.fromUint(50))));
+        const subscription = new BalanceTracker(factory, listener).track(alice.address).subscribe((balance) => balances.push(balance));
+        await tick();
+        const height = store.chainHeight.add(UInt64.fromUint(1));
+        store.addStatement(
+            height,
+            new Statement(
+                [
+                    new TransactionStatement(height, new ReceiptSource(0, 0), [
+                        new BalanceChangeReceipt(
+                            alice.address,
+                            currency,
+                            UInt64.fromUint(7),
+                            ReceiptVersion.BALANCE_CHANGE,
+                            ReceiptType.Harvest_Fee,
+                        ),
+                        new BalanceChangeReceipt(
+                            bob.address,
+                            currency,
+                            UInt64.fromUint(9),
+                            ReceiptVersion.BALANCE_CHANGE,
+                            ReceiptType.Harvest_Fee,
+                        ),
+                    ]),
+                ],
+                [],
+                [],
+            ),
+        );
+        await announce(transfer(alice.address, 30), bob);
+        expect(amounts(last().pending)[0]).to.be.eql([currency.toHex(), 1030]);
+        store.confirmTransactions();
+        await tick();
+        expect(amounts(last().confirmed)[0]).to.be.eql([currency.toHex(), 1037]);
+        expect(amounts(last().pending)[0]).to.be.eql([currency.toHex(), 1037]);
+        subscription.unsubscribe();
+    });
+
+    it('should reload the account info when the block receipts cannot be loaded', async () => {
+        store.addAccounts(accountInfo(bob.address, new Mosaic(currency, UInt64.fromUint(50))));
+        const receiptRepository = factory.createReceiptRepository();
+        receiptRepository.getBlockReceipts = (): Observable<Statement> =>
+            throwError(new RepositoryError({ statusCode: 500, statusMessage: 'Internal Server Error', body: '' }));
+        factory.createReceiptRepository = (): ReceiptRepository => receiptRepository;
+        const subscription = new BalanceTracker(factory, listener).track(alice.address).subscribe((balance) => balances.push(balance));
+        await tick();
+        // A harvest fee the tracker cannot see without the receipts.
+        store.addAccounts(accountInfo(alice.address, new Mosaic(currency, UInt64.fromUint(1007)), new Mosaic(token, UInt64.fromUint(5))));
+        await announce(transfer(alice.address, 30), bob);
+        store.confirmTransactions();
+        await tick();
+        expect(amounts(last().confirmed)).to.have.deep.members([
+            [currency.toHex(), 1037],
+            [token.toHex(), 5],
+        ]);
+        expect(amounts(last().pending)).to.have.deep.members(amounts(last().confirmed));
+        subscription.unsubscribe();
+    });
+
+    it('should not apply again the blocks already in the loaded account info', async () => {
+        store.addAccounts(accountInfo(bob.address, new Mosaic(currency, UInt64.fromUint(50))));
+        const pastBlock = listener.newBlock().pipe(take(1)).toPromise();
+        const pastTransfer = listener.confirmed(alice.address).pipe(take(1)).toPromise();
+        await announce(transfer(alice.address, 30), bob);
+        const height = store.confirmTransactions();
+        store.addStatement(
+            height,
+            new Statement(
+                [
+                    new TransactionStatement(height, new ReceiptSource(0, 0), [
+                        new BalanceChangeReceipt(
+                            alice.address,
+                            currency,
+                            UInt64.fromUint(7),
+                            ReceiptVersion.BALANCE_CHANGE,
+                            ReceiptType.Harvest_Fee,
+                        ),
+                    ]),
+                ],
+                [],
+                [],
+            ),
+        );
+        // The listener events of the block arrive after the account info is loaded.
+        const blocks = new Subject<NewBlock>();
+        const confirmed = new Subject<Transaction>();
+        listener.newBlock = (): Observable<NewBlock> => blocks;
+        listener.confirmed = (): Observable<Transaction> => confirmed;
+        const subscription = new BalanceTracker(factory, listener).track(alice.address).subscribe((balance) => balances.push(balance));
+        await tick();
+        expect(amounts(last().confirmed)).to.deep.include([currency.toHex(), 1030]);
+
+        confirmed.next(await pastTransfer);
+        blocks.next(await pastBlock);
+        await tick();
+        expect(amounts(last().confirmed)).to.deep.include([currency.toHex(), 1030]);
+        subscription.unsubscribe();
+    });
+
+    it('should start from the unconfirmed transactions and unknown accounts', async () => {
+        store.addAccounts(accountInfo(bob.address, new Mosaic(currency, UInt64.fromUint(50))));
+        const carol = Account.generateNewAccount(networkType);
+        await announce(transfer(carol.address, 20), bob);
+        const subscription = new BalanceTracker(factory, listener).track(carol.address).subscribe((balance) => balances.push(balance));
+        await tick();
+        expect(amounts(last().confirmed)).to.be.eql([]);
+        expect(amounts(last().pending)).to.be.eql([[currency.toHex(), 20]]);
+        subscription.unsubscribe();
+    });
+});
@@ -0,0 +1,196 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { AsyncSubject, Observable, ReplaySubject } from 'rxjs';
+import { mergeMap } from 'rxjs/operators';
+import { InMemoryStore } from '../../src/infrastructure/inMemory/InMemoryStore';
+import { RepositoryFactoryInMemory } from '../../src/infrastructure/inMemory/RepositoryFactoryInMemory';
+import { Page } from '../../src/infrastructure/Page';
+import { TransactionGroup } from '../../src/infrastructure/TransactionGroup';
+import { TransactionRepository } from '../../src/infrastructure/TransactionRepository';
+import { Account } from '../../src/model/account/Account';
+import { MultisigAccountInfo } from '../../src/model/account/MultisigAccountInfo';
+import { PlainMessage } from '../../src/model/message/PlainMessage';
+import { NetworkType } from '../../src/model/network/NetworkType';
+import { AggregateTransaction } from '../../src/model/transaction/AggregateTransaction';
+import { Deadline } from '../../src/model/transaction/Deadline';
+import { SignedTransaction } from '../../src/model/transaction/SignedTransaction';
+import { Transaction } from '../../src/model/transaction/Transaction';
+import { TransferTransaction } from '../../src/model/transaction/TransferTransaction';
+import { CosignatureInboxService } from '../../src/service/CosignatureInboxService';
+
+describe('CosignatureInboxService', () => {
+    const networkType = NetworkType.MIJIN_TEST;
+    const generationHash = '57F7DA205008026C776CB6AED843393F04CD458E0AA2D9F1D5F31A402072B2D6';
+
+    /**
+     * multisig2 (1/1): multisig1
+     * multisig1 (2/2): cosigner1, cosigner2
+     */
+    const cosigner1 = Account.generateNewAccount(networkType);
+    const cosigner2 = Account.generateNewAccount(networkType);
+    const stranger = Account.generateNewAccount(networkType);
+    const multisig1 = Account.generateNewAccount(networkType);
+    const multisig2 = Account.generateNewAccount(networkType);
+
+    let store: InMemoryStore;
+    let factory: RepositoryFactoryInMemory;
+    let service: CosignatureInboxService;
+
+    const createBonded = (initiator: Account, signer: Account): SignedTransaction => {
+        const transfer = TransferTransaction.create(Deadline.create(), stranger.address, [], PlainMessage.create('inbox'), networkType);
+        const aggregate = AggregateTransaction.createBonded(
+            Deadline.create(),
+            [transfer.toAggregate(signer.publicAccount)],
+            networkType,
+            [],
+        );
+        return initiator.sign(aggregate, generationHash);
+    };
+
+    const announce = (signedTransaction: SignedTransaction): Promise<unknown> =>
+        factory.createTransactionRepository().announceAggregateBonded(signedTransaction).toPromise();
+
+    const getPartial = (hash: string): Promise<AggregateTransaction> =>
+        factory.createTransactionRepository().getTransaction(hash, TransactionGroup.Partial).toPromise() as Promise<AggregateTransaction>;
+
+    beforeEach(() => {
+        store = new InMemoryStore(networkType, generationHash).addMultisigAccounts(
+            new MultisigAccountInfo(multisig2.address, 1, 1, [multisig1.address], []),
+            new MultisigAccountInfo(multisig1.address, 2, 2, [cosigner1.address, cosigner2.address], [multisig2.address]),
+        );
+        factory = new RepositoryFactoryInMemory(store);
+        service = new CosignatureInboxService(factory);
+    });
+
+    it('should find the partial transactions of the multisig accounts the cosigner has not signed', async () => {
+        const signedTransaction = createBonded(cosigner2, multisig2);
+        await announce(signedTransaction);
+        await announce(createBonded(stranger, stranger));
+
+        const pending1 = await service.searchPending(cosigner1.publicAccount).toPromise();
+        const pending2 = await service.searchPending(cosigner2.publicAccount).toPromise();
+        const pendingStranger = await service.searchPending(stranger.publicAccount).toPromise();
+
+        expect(pending1.map((t) => t.transactionInfo!.hash)).to.deep.equal([signedTransaction.hash]);
+        expect(pending2).to.be.empty;
+        expect(pendingStranger).to.be.empty;
+    });
+
+    it('should cosign a partial transaction', async () => {
+        const signedTransaction = createBonded(cosigner2, multisig1);
+        await announce(signedTransaction);
+
+        await service.cosign(await getPartial(signedTransaction.hash), cosigner1).toPromise();
+
+        const partial = await getPartial(signedTransaction.hash);
+        expect(partial.signedByAccount(cosigner1.publicAccount)).to.be.true;
+        expect(await service.searchPending(cosigner1.publicAccount).toPromise()).to.be.empty;
+    });
+
+    it('should keep the pending transactions up to date', async () => {
+        const listener = factory.createListener();
+        await listener.open();
+        const existing = createBonded(cosigner2, multisig1);
+        await announce(existing);
+        const emissions: string[][] = [];
+        const subscription = service
+            .watchPending(cosigner1.publicAccount, listener)
+            .subscribe((pending) => emissions.push(pending.map((t) => t.transactionInfo!.hash!)));
+
+        const added = createBonded(cosigner2, multisig2);
+        await announce(added);
+        await announce(createBonded(stranger, stranger));
+        await service.cosign(await getPartial(existing.hash), cosigner1).toPromise();
+        store.rejectTransaction(added.hash, 'Failure_Core_Past_Deadline');
+        subscription.unsubscribe();
+
+        expect(emissions).to.deep.equal([[existing.hash], [existing.hash, added.hash], [added.hash], []]);
+    });
+
+    it('should apply the listener changes received during the initial search', async () => {
+        const listener = factory.createListener();
+        await listener.open();
+        const kept = createBonded(cosigner2, multisig1);
+        const cosigned = createBonded(cosigner2, multisig1);
+        const rejected = createBonded(cosigner2, multisig2);
+        await announce(kept);
+        await announce(cosigned);
+        await announce(rejected);
+        const searchGate = new AsyncSubject<void>();
+        const transactionRepository = factory.createTransactionRepository();
+        const search = transactionRepository.search.bind(transactionRepository);
+        // The search results are taken right away but they arrive once the gate opens.
+        transactionRepository.search = (criteria): Observable<Page<Transaction>> => {
+            const snapshot = new ReplaySubject<Page<Transaction>>();
+            search(criteria).subscribe(snapshot);
+            return searchGate.pipe(mergeMap(() => snapshot));
+        };
+        const delayedFactory = new (class extends RepositoryFactoryInMemory {
+            createTransactionRepository(): TransactionRepository {
+                return transactionRepository;
+            }
+        })(store);
+        const emissions: string[][] = [];
+        const subscription = new CosignatureInboxService(delayedFactory)
+            .watchPending(cosigner1.publicAccount, listener)
+            .subscribe((pending) => emissions.push(pending.map((t) => t.transactionInfo!.hash!)));
+
+        await service.cosign(await getPartial(cosigned.hash), cosigner1).toPromise();
+        store.rejectTransaction(rejected.hash, 'Failure_Core_Past_Deadline');
+        expect(emissions).to.be.empty;
+        searchGate.next();
+        searchGate.complete();
+        subscription.unsubscribe();
+
+        expect(emissions).to.deep.equal([[kept.hash]]);
+    });
+
+    it('should not report the transactions whose approval is already met', async () => {
+        const multisig3 = Account.generateNewAccount(networkType);
+        store.addMultisigAccounts(new MultisigAccountInfo(multisig3.address, 1, 1, [cosigner1.address, cosigner2.address], []));
+        const approved = createBonded(cosigner2, multisig3);
+        const notApproved = createBonded(cosigner2, multisig1);
+        await announce(approved);
+        await announce(notApproved);
+
+        const pending = await service.searchPending(cosigner1.publicAccount).toPromise();
+
+        expect(pending.map((t) => t.transactionInfo!.hash)).to.deep.equal([notApproved.hash]);
+    });
+
+    it('should remove a pending transaction once other cosignatures meet the approval', async () => {
+        const cosigner3 = Account.generateNewAccount(networkType);
+        const multisig3 = Account.generateNewAccount(networkType);
+        store.addMultisigAccounts(
+            new MultisigAccountInfo(multisig3.address, 2, 2, [cosigner1.address, cosigner2.address, cosigner3.address], []),
+        );
+        const listener = factory.createListener();
+        await listener.open();
+        const signedTransaction = createBonded(cosigner2, multisig3);
+        await announce(signedTransaction);
+        const emissions: string[][] = [];
+        const subscription = service
+            .watchPending(cosigner1.publicAccount, listener)
+            .subscribe((pending) => emissions.push(pending.map((t) => t.transactionInfo!.hash!)));
+
+        await service.cosign(await getPartial(signedTransaction.hash), cosigner3).toPromise();
+        subscription.unsubscribe();
+
+        expect(emissions).to.deep.equal([[signedTransaction.hash], []]);
+    });
+});
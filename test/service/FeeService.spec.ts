@@ -0,0 +1,136 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { InMemoryStore } from '../../src/infrastructure/inMemory/InMemoryStore';
+import { RepositoryFactoryInMemory } from '../../src/infrastructure/inMemory/RepositoryFactoryInMemory';
+import { Account } from '../../src/model/account/Account';
+import { MultisigAccountInfo } from '../../src/model/account/MultisigAccountInfo';
+import { PlainMessage } from '../../src/model/message/PlainMessage';
+import { NetworkType } from '../../src/model/network/NetworkType';
+import { TransactionFees } from '../../src/model/network/TransactionFees';
+import { AggregateTransaction } from '../../src/model/transaction/AggregateTransaction';
+import { Deadline } from '../../src/model/transaction/Deadline';
+import { TransferTransaction } from '../../src/model/transaction/TransferTransaction';
+import { FeeService } from '../../src/service/FeeService';
+import { FeeStrategy } from '../../src/service/FeeStrategy';
+
+describe('FeeService', () => {
+    const networkType = NetworkType.MIJIN_TEST;
+    const generationHash = '57F7DA205008026C776CB6AED843393F04CD458E0AA2D9F1D5F31A402072B2D6';
+    const transactionFees = new TransactionFees(150.5, 100, 1000, 10);
+    const account1 = Account.generateNewAccount(networkType);
+    const account2 = Account.generateNewAccount(networkType);
+    const account3 = Account.generateNewAccount(networkType);
+    const multisig1 = Account.generateNewAccount(networkType);
+    const multisig2 = Account.generateNewAccount(networkType);
+
+    let feeService: FeeService;
+
+    const transfer = (): TransferTransaction =>
+        TransferTransaction.create(Deadline.create(), account1.address, [], PlainMessage.create('fee'), networkType);
+
+    const aggregate = (signer: Account): AggregateTransaction =>
+        AggregateTransaction.createBonded(Deadline.create(), [transfer().toAggregate(signer.publicAccount)], networkType, []);
+
+    beforeEach(() => {
+        /**
+         * multisig2 (2/1): multisig1, account1
+         * multisig1 (2/2): account2, account3
+         */
+        const store = new InMemoryStore(networkType, generationHash).addMultisigAccounts(
+            new MultisigAccountInfo(multisig2.address, 2, 1, [multisig1.address, account1.address], []),
+            new MultisigAccountInfo(multisig1.address, 2, 2, [account2.address, account3.address], [multisig2.address]),
+        );
+        store.transactionFees = transactionFees;
+        feeService = new FeeService(new RepositoryFactoryInMemory(store));
+    });
+
+    it('should pick the fee multiplier of the strategy', () => {
+        expect(FeeService.getFeeMultiplier(transactionFees, FeeStrategy.Slowest)).to.be.equal(10);
+        expect(FeeService.getFeeMultiplier(transactionFees, FeeStrategy.Average)).to.be.equal(151);
+        expect(FeeService.getFeeMultiplier(transactionFees, FeeStrategy.Fast)).to.be.equal(1000);
+        expect(FeeService.getFeeMultiplier(transactionFees, FeeStrategy.Custom, 0)).to.be.equal(10);
+        expect(FeeService.getFeeMultiplier(transactionFees, FeeStrategy.Custom, 25)).to.be.equal(55);
+        expect(FeeService.getFeeMultiplier(transactionFees, FeeStrategy.Custom, 50)).to.be.equal(100);
+        expect(FeeService.getFeeMultiplier(transactionFees, FeeStrategy.Custom, 75)).to.be.equal(550);
+        expect(FeeService.getFeeMultiplier(transactionFees, FeeStrategy.Custom, 100)).to.be.equal(1000);
+    });
+
+    it('should require a percentile for the custom strategy', async () => {
+        for (const percentile of [undefined, -1, 101]) {
+            try {
+                await feeService.estimate(transfer(), FeeStrategy.Custom, percentile).toPromise();
+                expect.fail('Estimation should have failed');
+            } catch (e) {
+                expect(e.message).to.be.equal('Custom fee strategy requires a percentile between 0 and 100.');
+            }
+        }
+    });
+
+    it('should estimate the fee of a simple transaction', async () => {
+        const transaction = transfer();
+        const estimation = await feeService.estimate(transaction, FeeStrategy.Fast).toPromise();
+        expect(estimation.feeMultiplier).to.be.equal(1000);
+        expect(estimation.transactionSize).to.be.equal(transaction.size);
+        expect(estimation.cosignatures).to.be.equal(0);
+        expect(estimation.maxFee.compact()).to.be.equal(transaction.size * 1000);
+        expect(estimation.transactionFees).to.be.equal(transactionFees);
+    });
+
+    it('should add the cosignatures of a plain inner signer', async () => {
+        const transaction = AggregateTransaction.createBonded(
+            Deadline.create(),
+            [transfer().toAggregate(account2.publicAccount), transfer().toAggregate(account3.publicAccount)],
+            networkType,
+            [],
+        );
+        const estimation = await feeService.estimate(transaction, FeeStrategy.Slowest).toPromise();
+        // One of the inner signers signs the aggregate
+        expect(estimation.cosignatures).to.be.equal(1);
+        expect(estimation.cosignaturesSize).to.be.equal(FeeService.COSIGNATURE_SIZE);
+        expect(estimation.maxFee.compact()).to.be.equal((transaction.size + FeeService.COSIGNATURE_SIZE) * 10);
+    });
+
+    it('should not count the initiator of an unsigned aggregate', async () => {
+        const transaction = aggregate(account2);
+        const estimation = await feeService.estimate(transaction, FeeStrategy.Slowest).toPromise();
+        expect(estimation.cosignatures).to.be.equal(0);
+        expect(estimation.maxFee.compact()).to.be.equal(transaction.size * 10);
+    });
+
+    it('should add the cosignatures of a multilevel multisig inner signer', async () => {
+        const transaction = aggregate(multisig2);
+        const estimation = await feeService.estimate(transaction, FeeStrategy.Slowest).toPromise();
+        // multisig1 needs account2 and account3, multisig2 needs multisig1 and account1, one of them signs the aggregate
+        expect(estimation.cosignatures).to.be.equal(2);
+        expect(estimation.size).to.be.equal(transaction.size + 2 * FeeService.COSIGNATURE_SIZE);
+    });
+
+    it('should not count the aggregate signer', async () => {
+        const signed = account1.sign(aggregate(multisig2), generationHash);
+        const transaction = AggregateTransaction.createFromPayload(signed.payload);
+        const estimation = await feeService.estimate(transaction, FeeStrategy.Slowest).toPromise();
+        expect(estimation.cosignatures).to.be.equal(2);
+    });
+
+    it('should set the max fee', async () => {
+        const transaction = transfer();
+        const withFee = await feeService.setMaxFee(transaction, FeeStrategy.Slowest).toPromise();
+        expect(withFee).to.be.instanceOf(TransferTransaction);
+        expect(withFee.maxFee.compact()).to.be.equal(transaction.size * 10);
+    });
+});
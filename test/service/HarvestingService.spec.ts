@@ -0,0 +1,217 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { InMemoryStore } from '../../src/infrastructure/inMemory/InMemoryStore';
+import { RepositoryFactoryInMemory } from '../../src/infrastructure/inMemory/RepositoryFactoryInMemory';
+import { Account } from '../../src/model/account/Account';
+import { AccountInfo } from '../../src/model/account/AccountInfo';
+import { AccountLinkPublicKey } from '../../src/model/account/AccountLinkPublicKey';
+import { AccountType } from '../../src/model/account/AccountType';
+import { SupplementalPublicKeys } from '../../src/model/account/SupplementalPublicKeys';
+import { PersistentHarvestingDelegationMessage } from '../../src/model/message/PersistentHarvestingDelegationMessage';
+import { PlainMessage } from '../../src/model/message/PlainMessage';
+import { NetworkType } from '../../src/model/network/NetworkType';
+import { NodeInfo } from '../../src/model/node/NodeInfo';
+import { RoleType } from '../../src/model/node/RoleType';
+import { AccountKeyLinkTransaction } from '../../src/model/transaction/AccountKeyLinkTransaction';
+import { Deadline } from '../../src/model/transaction/Deadline';
+import { LinkAction } from '../../src/model/transaction/LinkAction';
+import { TransactionType } from '../../src/model/transaction/TransactionType';
+import { TransferTransaction } from '../../src/model/transaction/TransferTransaction';
+import { VrfKeyLinkTransaction } from '../../src/model/transaction/VrfKeyLinkTransaction';
+import { UInt64 } from '../../src/model/UInt64';
+import { HarvestingService } from '../../src/service/HarvestingService';
+import { HarvestingState } from '../../src/service/HarvestingState';
+
+describe('HarvestingService', () => {
+    const networkType = NetworkType.MIJIN_TEST;
+    const generationHash = '57F7DA205008026C776CB6AED843393F04CD458E0AA2D9F1D5F31A402072B2D6';
+    const account = Account.generateNewAccount(networkType);
+    const remoteAccount = Account.generateNewAccount(networkType);
+    const vrfAccount = Account.generateNewAccount(networkType);
+    const nodeAccount = Account.generateNewAccount(networkType);
+    const node = new NodeInfo(nodeAccount.publicKey, generationHash, 7900, networkType, 0, RoleType.DualNode, 'localhost', 'node');
+
+    let store: InMemoryStore;
+    let factory: RepositoryFactoryInMemory;
+    let service: HarvestingService;
+
+    const accountInfo = (keys: SupplementalPublicKeys): AccountInfo =>
+        new AccountInfo(
+            account.address,
+            UInt64.fromUint(1),
+            account.publicKey,
+            UInt64.fromUint(1),
+            AccountType.Main,
+            keys,
+            [],
+            [],
+            UInt64.fromUint(0),
+            UInt64.fromUint(0),
+        );
+
+    beforeEach(() => {
+        store = new InMemoryStore(networkType, generationHash);
+        store.nodePeers = [node];
+        factory = new RepositoryFactoryInMemory(store);
+        service = new HarvestingService(factory);
+    });
+
+    it('should report an unknown account as unlinked', async () => {
+        const status = await service.getHarvestingStatus(account.address).toPromise();
+        expect(status.state).to.be.equal(HarvestingState.Unlinked);
+        expect(status.linkedPublicKey).to.be.undefined;
+        expect(status.node).to.be.undefined;
+    });
+
+    it('should report the linked keys and the node', async () => {
+        store.addAccounts(accountInfo(new SupplementalPublicKeys(new AccountLinkPublicKey(remoteAccount.publicKey))));
+        expect((await service.getHarvestingStatus(account.address).toPromise()).state).to.be.equal(HarvestingState.PartiallyLinked);
+
+        store.addAccounts(
+            accountInfo(
+                new SupplementalPublicKeys(
+                    new AccountLinkPublicKey(remoteAccount.publicKey),
+                    new AccountLinkPublicKey(nodeAccount.publicKey),
+                    new AccountLinkPublicKey(vrfAccount.publicKey),
+                ),
+            ),
+        );
+        const status = await service.getHarvestingStatus(account.address).toPromise();
+        expect(status.state).to.be.equal(HarvestingState.Linked);
+        expect(status.linkedPublicKey).to.be.equal(remoteAccount.publicKey);
+        expect(status.vrfPublicKey).to.be.equal(vrfAccount.publicKey);
+        expect(status.nodePublicKey).to.be.equal(nodeAccount.publicKey);
+        expect(status.node).to.be.equal(node);
+    });
+
+    it('should link all the keys of an unlinked account', async () => {
+        const setup = await service
+            .createHarvestingSetup(account.publicAccount, remoteAccount, vrfAccount.publicKey, nodeAccount.publicKey)
+            .toPromise();
+        expect(setup.node).to.be.equal(node);
+        const innerTransactions = setup.linkAggregate!.innerTransactions;
+        expect(innerTransactions.map((t) => t.type)).to.be.eql([
+            TransactionType.ACCOUNT_KEY_LINK,
+            TransactionType.VRF_KEY_LINK,
+            TransactionType.NODE_KEY_LINK,
+        ]);
+        expect(innerTransactions.every((t) => t.signer!.publicKey === account.publicKey)).to.be.true;
+        expect(innerTransactions.every((t) => (t as any).linkAction === LinkAction.Link)).to.be.true;
+        expect(setup.delegationRequest.recipientAddress.equals(nodeAccount.address)).to.be.true;
+    });
+
+    it('should unlink the stale keys and link the missing ones', async () => {
+        const staleVrf = Account.generateNewAccount(networkType);
+        store.addAccounts(
+            accountInfo(
+                new SupplementalPublicKeys(
+                    new AccountLinkPublicKey(remoteAccount.publicKey),
+                    undefined,
+                    new AccountLinkPublicKey(staleVrf.publicKey),
+                ),
+            ),
+        );
+        const setup = await service
+            .createHarvestingSetup(account.publicAccount, remoteAccount, vrfAccount.publicKey, nodeAccount.publicKey)
+            .toPromise();
+        const innerTransactions = setup.linkAggregate!.innerTransactions;
+        expect(innerTransactions.map((t) => t.type)).to.be.eql([
+            TransactionType.VRF_KEY_LINK,
+            TransactionType.VRF_KEY_LINK,
+            TransactionType.NODE_KEY_LINK,
+        ]);
+        const unlink = innerTransactions[0] as VrfKeyLinkTransaction;
+        expect(unlink.linkAction).to.be.equal(LinkAction.Unlink);
+        expect(unlink.linkedPublicKey).to.be.equal(staleVrf.publicKey);
+        const link = innerTransactions[1] as VrfKeyLinkTransaction;
+        expect(link.linkAction).to.be.equal(LinkAction.Link);
+        expect(link.linkedPublicKey).to.be.equal(vrfAccount.publicKey);
+    });
+
+    it('should not create the link aggregate when all the keys are linked', async () => {
+        store.addAccounts(
+            accountInfo(
+                new SupplementalPublicKeys(
+                    new AccountLinkPublicKey(remoteAccount.publicKey),
+                    new AccountLinkPublicKey(nodeAccount.publicKey),
+                    new AccountLinkPublicKey(vrfAccount.publicKey),
+                ),
+            ),
+        );
+        const setup = await service
+            .createHarvestingSetup(account.publicAccount, remoteAccount, vrfAccount.publicKey, nodeAccount.publicKey)
+            .toPromise();
+        expect(setup.linkAggregate).to.be.undefined;
+    });
+
+    it('should fail when the node is not a known peer', async () => {
+        try {
+            await service.getNode(remoteAccount.publicKey).toPromise();
+            expect.fail('Should have failed');
+        } catch (e) {
+            expect(e.message).to.be.equal(`Node ${remoteAccount.publicKey} is not a known peer.`);
+        }
+    });
+
+    it('should decode the delegation requests received by the node', async () => {
+        const setup = await service
+            .createHarvestingSetup(account.publicAccount, remoteAccount, vrfAccount.publicKey, nodeAccount.publicKey)
+            .toPromise();
+        const transactionRepository = factory.createTransactionRepository();
+        await transactionRepository.announce(account.sign(setup.delegationRequest, generationHash)).toPromise();
+        const transfer = TransferTransaction.create(Deadline.create(), nodeAccount.address, [], PlainMessage.create('hi'), networkType);
+        await transactionRepository.announce(account.sign(transfer, generationHash)).toPromise();
+        store.confirmTransactions();
+
+        const delegations = await service.searchDelegations(nodeAccount).toPromise();
+        expect(delegations.length).to.be.equal(1);
+        expect(delegations[0].requester.publicKey).to.be.equal(account.publicKey);
+        expect(delegations[0].remoteAccount.privateKey).to.be.equal(remoteAccount.privateKey);
+        expect(delegations[0].transactionHash).not.to.be.undefined;
+    });
+
+    it('should skip the delegation requests that cannot be decrypted', async () => {
+        const transactionRepository = factory.createTransactionRepository();
+        const garbage = TransferTransaction.create(
+            Deadline.create(),
+            nodeAccount.address,
+            [],
+            new PersistentHarvestingDelegationMessage('FE2A8061577301E2' + 'AB'.repeat(96)),
+            networkType,
+        );
+        await transactionRepository.announce(account.sign(garbage, generationHash)).toPromise();
+        const otherNode = Account.generateNewAccount(networkType);
+        const forOtherNode = TransferTransaction.create(
+            Deadline.create(),
+            nodeAccount.address,
+            [],
+            PersistentHarvestingDelegationMessage.create(remoteAccount.privateKey, otherNode.publicKey, networkType),
+            networkType,
+        );
+        await transactionRepository.announce(account.sign(forOtherNode, generationHash)).toPromise();
+        store.confirmTransactions();
+
+        const delegations = await service.searchDelegations(nodeAccount).toPromise();
+        expect(delegations).to.be.empty;
+    });
+
+    it('should ignore the transactions not being delegation requests', () => {
+        const link = AccountKeyLinkTransaction.create(Deadline.create(), remoteAccount.publicKey, LinkAction.Link, networkType);
+        expect(HarvestingService.decodeDelegation(link, nodeAccount.privateKey)).to.be.undefined;
+    });
+});
@@ -0,0 +1,129 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { take } from 'rxjs/operators';
+import { InMemoryStore } from '../../src/infrastructure/inMemory/InMemoryStore';
+import { RepositoryFactoryInMemory } from '../../src/infrastructure/inMemory/RepositoryFactoryInMemory';
+import { Account } from '../../src/model/account/Account';
+import { Address } from '../../src/model/account/Address';
+import { PlainMessage } from '../../src/model/message/PlainMessage';
+import { MosaicId } from '../../src/model/mosaic/MosaicId';
+import { NetworkType } from '../../src/model/network/NetworkType';
+import { BalanceChangeReceipt } from '../../src/model/receipt/BalanceChangeReceipt';
+import { BalanceTransferReceipt } from '../../src/model/receipt/BalanceTransferReceipt';
+import { Receipt } from '../../src/model/receipt/Receipt';
+import { ReceiptSource } from '../../src/model/receipt/ReceiptSource';
+import { ReceiptType } from '../../src/model/receipt/ReceiptType';
+import { ReceiptVersion } from '../../src/model/receipt/ReceiptVersion';
+import { Statement } from '../../src/model/receipt/Statement';
+import { TransactionStatement } from '../../src/model/receipt/TransactionStatement';
+import { Deadline } from '../../src/model/transaction/Deadline';
+import { TransferTransaction } from '../../src/model/transaction/TransferTransaction';
+import { UInt64 } from '../../src/model/UInt64';
+import { IncomeCategory } from '../../src/service/IncomeCategory';
+import { IncomeReportService } from '../../src/service/IncomeReportService';
+import { IncomeTotal } from '../../src/service/IncomeTotal';
+
+describe('IncomeReportService', () => {
+    const networkType = NetworkType.MIJIN_TEST;
+    const generationHash = '57F7DA205008026C776CB6AED843393F04CD458E0AA2D9F1D5F31A402072B2D6';
+    const currency = new MosaicId('0DC67FBE1CAD29E3');
+    const harvester = Account.generateNewAccount(networkType);
+    const other = Account.generateNewAccount(networkType).address;
+    const sink = Account.generateNewAccount(networkType).address;
+
+    let store: InMemoryStore;
+    let service: IncomeReportService;
+
+    const balanceChange = (address: Address, amount: number, type: ReceiptType): BalanceChangeReceipt =>
+        new BalanceChangeReceipt(address, currency, UInt64.fromUint(amount), ReceiptVersion.BALANCE_CHANGE, type);
+
+    const balanceTransfer = (sender: Address, recipient: Address, amount: number, type: ReceiptType): BalanceTransferReceipt =>
+        new BalanceTransferReceipt(sender, recipient, currency, UInt64.fromUint(amount), ReceiptVersion.BALANCE_TRANSFER, type);
+
+    const addStatement = (height: number, ...receipts: Receipt[]): void => {
+        const blockHeight = UInt64.fromUint(height);
+        const statements = receipts.map((receipt, index) => new TransactionStatement(blockHeight, new ReceiptSource(index, 0), [receipt]));
+        store.addStatement(blockHeight, new Statement(statements, [], []));
+    };
+
+    const compact = (totals: IncomeTotal[]): any[] =>
+        totals.map((total) => [total.mosaicId.toHex(), total.incoming.compact(), total.outgoing.compact()]);
+
+    beforeEach(() => {
+        store = new InMemoryStore(networkType, generationHash);
+        addStatement(1, balanceChange(harvester.address, 100, ReceiptType.Harvest_Fee), balanceChange(other, 50, ReceiptType.Harvest_Fee));
+        addStatement(
+            2,
+            balanceTransfer(harvester.address, sink, 10, ReceiptType.Mosaic_Rental_Fee),
+            balanceTransfer(other, harvester.address, 5, ReceiptType.Namespace_Rental_Fee),
+        );
+        addStatement(
+            3,
+            balanceChange(harvester.address, 20, ReceiptType.LockHash_Created),
+            balanceChange(harvester.address, 20, ReceiptType.LockHash_Completed),
+            balanceChange(harvester.address, 7, ReceiptType.LockHash_Expired),
+        );
+        addStatement(5, balanceChange(harvester.address, 30, ReceiptType.Harvest_Fee));
+        service = new IncomeReportService(new RepositoryFactoryInMemory(store));
+    });
+
+    it('should report the balance changes of the height range', async () => {
+        const report = await service.createReport(harvester.address, UInt64.fromUint(1), UInt64.fromUint(4)).toPromise();
+        expect(report.entries.map((entry) => [entry.height.compact(), entry.category, entry.amount.compact(), entry.incoming])).to.be.eql([
+            [1, IncomeCategory.HarvestFee, 100, true],
+            [2, IncomeCategory.RentalFee, 10, false],
+            [2, IncomeCategory.RentalFee, 5, true],
+            [3, IncomeCategory.LockRefund, 20, true],
+            [3, IncomeCategory.LockExpiration, 7, true],
+        ]);
+        expect(compact(report.getMosaicTotals())).to.be.eql([[currency.toHex(), 132, 10]]);
+        expect(compact(report.getMosaicTotals(IncomeCategory.HarvestFee))).to.be.eql([[currency.toHex(), 100, 0]]);
+        expect(compact(report.getMosaicTotals(IncomeCategory.RentalFee))).to.be.eql([[currency.toHex(), 5, 10]]);
+        expect(report.getBlockTotals().map((block) => [block.height.compact(), compact(block.totals)])).to.be.eql([
+            [1, [[currency.toHex(), 100, 0]]],
+            [2, [[currency.toHex(), 5, 10]]],
+            [3, [[currency.toHex(), 27, 0]]],
+        ]);
+    });
+
+    it('should report the rental fees received by the sink', async () => {
+        const report = await service.createReport(sink, UInt64.fromUint(1), UInt64.fromUint(10)).toPromise();
+        expect(report.entries.length).to.be.equal(1);
+        expect(report.entries[0].incoming).to.be.true;
+        expect(report.entries[0].category).to.be.equal(IncomeCategory.RentalFee);
+    });
+
+    it('should emit the balance changes of the new blocks', async () => {
+        const listener = new RepositoryFactoryInMemory(store).createListener();
+        await listener.open();
+        store.chainHeight = UInt64.fromUint(5);
+        addStatement(6, balanceChange(harvester.address, 40, ReceiptType.Harvest_Fee));
+        const income = service.watchIncome(harvester.address, listener).pipe(take(1)).toPromise();
+        const transfer = TransferTransaction.create(Deadline.create(), other, [], PlainMessage.create(''), networkType);
+        await new RepositoryFactoryInMemory(store)
+            .createTransactionRepository()
+            .announce(harvester.sign(transfer, generationHash))
+            .toPromise();
+        store.confirmTransactions();
+        const entries = await income;
+        expect(entries.length).to.be.equal(1);
+        expect(entries[0].height.compact()).to.be.equal(6);
+        expect(entries[0].amount.compact()).to.be.equal(40);
+        listener.close();
+    });
+});
@@ -0,0 +1,173 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { KeyGenerator } from '../../src/core/format/KeyGenerator';
+import { InMemoryStore } from '../../src/infrastructure/inMemory/InMemoryStore';
+import { RepositoryFactoryInMemory } from '../../src/infrastructure/inMemory/RepositoryFactoryInMemory';
+import { Account } from '../../src/model/account/Account';
+import { Address } from '../../src/model/account/Address';
+import { MosaicFlags } from '../../src/model/mosaic/MosaicFlags';
+import { MosaicId } from '../../src/model/mosaic/MosaicId';
+import { Alias } from '../../src/model/namespace/Alias';
+import { EmptyAlias } from '../../src/model/namespace/EmptyAlias';
+import { MosaicAlias } from '../../src/model/namespace/MosaicAlias';
+import { NamespaceId } from '../../src/model/namespace/NamespaceId';
+import { NamespaceInfo } from '../../src/model/namespace/NamespaceInfo';
+import { NetworkType } from '../../src/model/network/NetworkType';
+import { RentalFees } from '../../src/model/network/RentalFees';
+import { Deadline } from '../../src/model/transaction/Deadline';
+import { MosaicAliasTransaction } from '../../src/model/transaction/MosaicAliasTransaction';
+import { MosaicDefinitionTransaction } from '../../src/model/transaction/MosaicDefinitionTransaction';
+import { MosaicMetadataTransaction } from '../../src/model/transaction/MosaicMetadataTransaction';
+import { MosaicSupplyChangeTransaction } from '../../src/model/transaction/MosaicSupplyChangeTransaction';
+import { NamespaceRegistrationTransaction } from '../../src/model/transaction/NamespaceRegistrationTransaction';
+import { TransactionType } from '../../src/model/transaction/TransactionType';
+import { UInt64 } from '../../src/model/UInt64';
+import { MosaicCreationService } from '../../src/service/MosaicCreationService';
+import { MosaicCreationSpec } from '../../src/service/MosaicCreationSpec';
+
+describe('MosaicCreationService', () => {
+    const networkType = NetworkType.MIJIN_TEST;
+    const generationHash = '57F7DA205008026C776CB6AED843393F04CD458E0AA2D9F1D5F31A402072B2D6';
+    const owner = Account.generateNewAccount(networkType);
+    const other = Account.generateNewAccount(networkType);
+
+    let store: InMemoryStore;
+    let service: MosaicCreationService;
+
+    const spec = (namespace?: string, namespaceDuration?: UInt64): MosaicCreationSpec => ({
+        name: 'Token',
+        divisibility: 2,
+        supply: UInt64.fromUint(1000000),
+        flags: MosaicFlags.create(true, true, false),
+        duration: UInt64.fromUint(0),
+        namespace,
+        namespaceDuration,
+        metadata: { description: 'A token' },
+    });
+
+    const namespaceInfo = (levels: string[], ownerAddress: Address, alias: Alias = new EmptyAlias()): NamespaceInfo =>
+        new NamespaceInfo(
+            true,
+            0,
+            '1',
+            levels.length === 1 ? 0 : 1,
+            levels.length,
+            levels.map((level) => new NamespaceId(level)),
+            levels.length === 1 ? new NamespaceId([0, 0]) : new NamespaceId(levels[levels.length - 2]),
+            ownerAddress,
+            UInt64.fromUint(1),
+            UInt64.fromUint(1000),
+            alias,
+        );
+
+    beforeEach(() => {
+        store = new InMemoryStore(networkType, generationHash);
+        store.rentalFees = new RentalFees(UInt64.fromUint(10), UInt64.fromUint(1000), UInt64.fromUint(5000));
+        service = new MosaicCreationService(new RepositoryFactoryInMemory(store));
+    });
+
+    it('should create the mosaic definition, supply and metadata', async () => {
+        const plan = await service.createMosaic(spec(), owner.publicAccount, Deadline.create()).toPromise();
+        const transactions = plan.aggregate.innerTransactions;
+        expect(plan.aggregate.type).to.be.equal(TransactionType.AGGREGATE_COMPLETE);
+        expect(plan.mosaicId.equals(MosaicId.createFromNonce(plan.nonce, owner.address))).to.be.true;
+        expect(plan.namespaceId).to.be.undefined;
+        expect(plan.rentalFee.compact()).to.be.equal(5000);
+        expect(transactions.map((t) => t.type)).to.be.deep.equal([
+            TransactionType.MOSAIC_DEFINITION,
+            TransactionType.MOSAIC_SUPPLY_CHANGE,
+            TransactionType.MOSAIC_METADATA,
+            TransactionType.MOSAIC_METADATA,
+        ]);
+        transactions.forEach((t) => expect(t.signer!.equals(owner.publicAccount)).to.be.true);
+        const definition = transactions[0] as MosaicDefinitionTransaction;
+        expect(definition.divisibility).to.be.equal(2);
+        expect(definition.flags.supplyMutable).to.be.true;
+        expect(definition.flags.transferable).to.be.true;
+        expect(definition.flags.restrictable).to.be.false;
+        expect((transactions[1] as MosaicSupplyChangeTransaction).delta.compact()).to.be.equal(1000000);
+        const name = transactions[2] as MosaicMetadataTransaction;
+        expect(name.scopedMetadataKey.equals(KeyGenerator.generateUInt64Key('name'))).to.be.true;
+        expect(name.value).to.be.equal('Token');
+        expect(name.valueSizeDelta).to.be.equal(5);
+        expect((transactions[3] as MosaicMetadataTransaction).value).to.be.equal('A token');
+    });
+
+    it('should register the missing namespace levels and link the alias', async () => {
+        const plan = await service
+            .createMosaic(spec('company.token', UInt64.fromUint(100)), owner.publicAccount, Deadline.create())
+            .toPromise();
+        const transactions = plan.aggregate.innerTransactions;
+        expect(plan.namespaceId!.equals(new NamespaceId('company.token'))).to.be.true;
+        expect(plan.rentalFee.compact()).to.be.equal(5000 + 10 * 100 + 1000);
+        const root = transactions[2] as NamespaceRegistrationTransaction;
+        const child = transactions[3] as NamespaceRegistrationTransaction;
+        const alias = transactions[4] as MosaicAliasTransaction;
+        expect(root.namespaceName).to.be.equal('company');
+        expect(root.duration!.compact()).to.be.equal(100);
+        expect(child.namespaceName).to.be.equal('token');
+        expect(child.parentId!.equals(new NamespaceId('company'))).to.be.true;
+        expect(alias.namespaceId.equals(new NamespaceId('company.token'))).to.be.true;
+        expect(alias.mosaicId.equals(plan.mosaicId)).to.be.true;
+    });
+
+    it('should reuse the namespaces of the owner', async () => {
+        store.addNamespace(namespaceInfo(['company'], owner.address), 'company');
+        const plan = await service.createMosaic(spec('company.token'), owner.publicAccount, Deadline.create()).toPromise();
+        const registrations = plan.aggregate.innerTransactions.filter((t) => t.type === TransactionType.NAMESPACE_REGISTRATION);
+        expect(registrations.length).to.be.equal(1);
+        expect((registrations[0] as NamespaceRegistrationTransaction).namespaceName).to.be.equal('token');
+        expect(plan.rentalFee.compact()).to.be.equal(6000);
+    });
+
+    it('should require the root namespace duration', async () => {
+        try {
+            await service.createMosaic(spec('company'), owner.publicAccount, Deadline.create()).toPromise();
+            expect.fail('should have failed');
+        } catch (e) {
+            expect(e.message).to.contain('namespaceDuration is required');
+        }
+    });
+
+    it('should fail when the namespace is owned by another account', async () => {
+        store.addNamespace(namespaceInfo(['company'], other.address), 'company');
+        try {
+            await service.createMosaic(spec('company.token'), owner.publicAccount, Deadline.create()).toPromise();
+            expect.fail('should have failed');
+        } catch (e) {
+            expect(e.message).to.be.equal('Namespace company is owned by another account');
+        }
+    });
+
+    it('should fail when the namespace is already linked', async () => {
+        store.addNamespace(namespaceInfo(['company'], owner.address, new MosaicAlias(new MosaicId([1, 0]))), 'company');
+        try {
+            await service.createMosaic(spec('company'), owner.publicAccount, Deadline.create()).toPromise();
+            expect.fail('should have failed');
+        } catch (e) {
+            expect(e.message).to.be.equal('Namespace company is already linked');
+        }
+    });
+
+    it('should create an aggregate the owner can sign', async () => {
+        const plan = await service.createMosaic(spec('company', UInt64.fromUint(100)), owner.publicAccount, Deadline.create()).toPromise();
+        const signed = owner.sign(plan.aggregate, generationHash);
+        expect(signed.signerPublicKey).to.be.equal(owner.publicKey);
+        expect(signed.type).to.be.equal(TransactionType.AGGREGATE_COMPLETE);
+    });
+});
@@ -0,0 +1,153 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { InMemoryStore } from '../../src/infrastructure/inMemory/InMemoryStore';
+import { RepositoryFactoryInMemory } from '../../src/infrastructure/inMemory/RepositoryFactoryInMemory';
+import { Account } from '../../src/model/account/Account';
+import { AccountInfo } from '../../src/model/account/AccountInfo';
+import { AccountType } from '../../src/model/account/AccountType';
+import { MultisigAccountInfo } from '../../src/model/account/MultisigAccountInfo';
+import { SupplementalPublicKeys } from '../../src/model/account/SupplementalPublicKeys';
+import { PlainMessage } from '../../src/model/message/PlainMessage';
+import { MosaicId } from '../../src/model/mosaic/MosaicId';
+import { ChainProperties } from '../../src/model/network/ChainProperties';
+import { HashLockNetworkProperties } from '../../src/model/network/HashLockNetworkProperties';
+import { NetworkConfiguration } from '../../src/model/network/NetworkConfiguration';
+import { NetworkProperties } from '../../src/model/network/NetworkProperties';
+import { NetworkType } from '../../src/model/network/NetworkType';
+import { PluginProperties } from '../../src/model/network/PluginProperties';
+import { Deadline } from '../../src/model/transaction/Deadline';
+import { MultisigAccountModificationTransaction } from '../../src/model/transaction/MultisigAccountModificationTransaction';
+import { TransactionType } from '../../src/model/transaction/TransactionType';
+import { TransferTransaction } from '../../src/model/transaction/TransferTransaction';
+import { UInt64 } from '../../src/model/UInt64';
+import { MultisigTransactionService } from '../../src/service/MultisigTransactionService';
+
+describe('MultisigTransactionService', () => {
+    const networkType = NetworkType.MIJIN_TEST;
+    const generationHash = '57F7DA205008026C776CB6AED843393F04CD458E0AA2D9F1D5F31A402072B2D6';
+
+    /**
+     * multisig2 (2/1): multisig1, account1
+     * multisig1 (1/1): account2, account3
+     */
+    const account1 = Account.generateNewAccount(networkType);
+    const account2 = Account.generateNewAccount(networkType);
+    const account3 = Account.generateNewAccount(networkType);
+    const multisig1 = Account.generateNewAccount(networkType);
+    const multisig2 = Account.generateNewAccount(networkType);
+
+    let store: InMemoryStore;
+    let service: MultisigTransactionService;
+
+    const accountInfo = (account: Account): AccountInfo =>
+        new AccountInfo(
+            account.address,
+            UInt64.fromUint(1),
+            account.publicKey,
+            UInt64.fromUint(1),
+            AccountType.Unlinked,
+            new SupplementalPublicKeys(),
+            [],
+            [],
+            UInt64.fromUint(0),
+            UInt64.fromUint(0),
+        );
+
+    const transfer = (): TransferTransaction =>
+        TransferTransaction.create(Deadline.create(), account1.address, [], PlainMessage.create('multisig'), networkType);
+
+    beforeEach(() => {
+        store = new InMemoryStore(networkType, generationHash)
+            .addAccounts(accountInfo(multisig1), accountInfo(multisig2), accountInfo(account3))
+            .addMultisigAccounts(
+                new MultisigAccountInfo(multisig2.address, 2, 1, [multisig1.address, account1.address], []),
+                new MultisigAccountInfo(multisig1.address, 1, 1, [account2.address, account3.address], [multisig2.address]),
+            );
+        store.networkProperties = new NetworkConfiguration(
+            new NetworkProperties(),
+            new ChainProperties(true, true, "0x6BED'913F'A202'23F8"),
+            new PluginProperties(undefined, undefined, new HashLockNetworkProperties("10'000'000", '2d')),
+        );
+        service = new MultisigTransactionService(new RepositoryFactoryInMemory(store));
+    });
+
+    it('should build a complete aggregate when the initiator is the signer', async () => {
+        const plan = await service.build([transfer()], account1.address, account1.publicAccount).toPromise();
+        expect(plan.isBonded()).to.be.false;
+        expect(plan.aggregate.type).to.be.equal(TransactionType.AGGREGATE_COMPLETE);
+        expect(plan.aggregate.innerTransactions[0].signer!.publicKey).to.be.equal(account1.publicKey);
+        expect(plan.cosignerLevels).to.be.empty;
+        expect(plan.getCosignatories().map((a) => a.plain())).to.deep.equal([account1.address.plain()]);
+    });
+
+    it('should build a bonded aggregate when the signer is another account', async () => {
+        const plan = await service.build([transfer()], account3.address, account1.publicAccount).toPromise();
+        expect(plan.isBonded()).to.be.true;
+        expect(plan.aggregate.innerTransactions[0].signer!.publicKey).to.be.equal(account3.publicKey);
+    });
+
+    it('should build a complete aggregate when the initiator satisfies the multisig', async () => {
+        const plan = await service.build([transfer()], multisig1.address, account2.publicAccount).toPromise();
+        expect(plan.isBonded()).to.be.false;
+        expect(plan.cosignerLevels.length).to.be.equal(1);
+        expect(plan.cosignerLevels[0].requiredCosignatures).to.be.equal(1);
+    });
+
+    it('should build a bonded aggregate and list the cosigners of every level', async () => {
+        const plan = await service.build([transfer()], multisig2.address, account2.publicAccount).toPromise();
+        expect(plan.isBonded()).to.be.true;
+        expect(plan.aggregate.innerTransactions[0].signer!.publicKey).to.be.equal(multisig2.publicKey);
+        expect(plan.cosignerLevels.map((l) => [l.level, l.multisigAddress.plain(), l.requiredCosignatures])).to.deep.equal([
+            [0, multisig2.address.plain(), 2],
+            [1, multisig1.address.plain(), 1],
+        ]);
+        expect(plan.getCosignatories().map((a) => a.plain())).to.have.members([
+            account1.address.plain(),
+            account2.address.plain(),
+            account3.address.plain(),
+        ]);
+    });
+
+    it('should use minRemoval when removing cosignatories', async () => {
+        const removal = MultisigAccountModificationTransaction.create(Deadline.create(), 0, 0, [], [account1.address], networkType);
+        const plan = await service.build([removal], multisig2.address, account1.publicAccount).toPromise();
+        expect(plan.isBonded()).to.be.false;
+        expect(plan.cosignerLevels[0].requiredCosignatures).to.be.equal(1);
+    });
+
+    it('should fail when the signer public key is unknown', async () => {
+        try {
+            await service.build([transfer()], account2.address, account1.publicAccount).toPromise();
+            expect.fail('Should have failed');
+        } catch (e) {
+            expect(JSON.parse(e.message).statusCode).to.be.equal(404);
+        }
+    });
+
+    it('should create the hash lock with the network currency', async () => {
+        const plan = await service.build([transfer()], multisig2.address, account2.publicAccount).toPromise();
+        const signedAggregate = account2.sign(plan.aggregate, generationHash);
+
+        const hashLock = await service.createHashLock(signedAggregate).toPromise();
+
+        expect(hashLock.hash).to.be.equal(signedAggregate.hash);
+        expect(hashLock.mosaic.id.equals(new MosaicId('6BED913FA20223F8'))).to.be.true;
+        expect(hashLock.mosaic.amount.compact()).to.be.equal(10000000);
+        expect(hashLock.duration.compact()).to.be.equal(480);
+    });
+});
@@ -0,0 +1,182 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { IListener } from '../../src/infrastructure/IListener';
+import { InMemoryStore } from '../../src/infrastructure/inMemory/InMemoryStore';
+import { RepositoryFactoryInMemory } from '../../src/infrastructure/inMemory/RepositoryFactoryInMemory';
+import { Account } from '../../src/model/account/Account';
+import { Address } from '../../src/model/account/Address';
+import { PlainMessage } from '../../src/model/message/PlainMessage';
+import { EmptyAlias } from '../../src/model/namespace/EmptyAlias';
+import { NamespaceId } from '../../src/model/namespace/NamespaceId';
+import { NamespaceInfo } from '../../src/model/namespace/NamespaceInfo';
+import { NetworkType } from '../../src/model/network/NetworkType';
+import { RentalFees } from '../../src/model/network/RentalFees';
+import { Deadline } from '../../src/model/transaction/Deadline';
+import { TransferTransaction } from '../../src/model/transaction/TransferTransaction';
+import { UInt64 } from '../../src/model/UInt64';
+import { NamespaceExpiryWarning } from '../../src/service/NamespaceExpiryWarning';
+import { NamespacePortfolioEntry } from '../../src/service/NamespacePortfolioEntry';
+import { NamespacePortfolioService } from '../../src/service/NamespacePortfolioService';
+
+describe('NamespacePortfolioService', () => {
+    const networkType = NetworkType.MIJIN_TEST;
+    const generationHash = '57F7DA205008026C776CB6AED843393F04CD458E0AA2D9F1D5F31A402072B2D6';
+    const owner = Account.generateNewAccount(networkType);
+    const other = Account.generateNewAccount(networkType);
+
+    let store: InMemoryStore;
+    let factory: RepositoryFactoryInMemory;
+    let listener: IListener;
+    let service: NamespacePortfolioService;
+
+    const namespaceInfo = (levels: string[], ownerAddress: Address, endHeight: UInt64): NamespaceInfo =>
+        new NamespaceInfo(
+            true,
+            0,
+            '1',
+            levels.length === 1 ? 0 : 1,
+            levels.length,
+            levels.map((level) => new NamespaceId(level)),
+            levels.length === 1 ? new NamespaceId([0, 0]) : new NamespaceId(levels[levels.length - 2]),
+            ownerAddress,
+            UInt64.fromUint(1),
+            endHeight,
+            new EmptyAlias(),
+        );
+
+    const addNamespace = (fullName: string, endHeight: number | UInt64, ownerAddress: Address = owner.address): void => {
+        const levels = fullName.split('.').map((_, index, parts) => parts.slice(0, index + 1).join('.'));
+        const height = typeof endHeight === 'number' ? UInt64.fromUint(endHeight) : endHeight;
+        store.addNamespace(namespaceInfo(levels, ownerAddress, height), fullName);
+    };
+
+    const tick = (): Promise<void> => new Promise((resolve) => setTimeout(resolve));
+
+    const nextBlock = async (): Promise<void> => {
+        const transaction = TransferTransaction.create(Deadline.create(), owner.address, [], PlainMessage.create(''), networkType);
+        await factory.createTransactionRepository().announce(owner.sign(transaction, generationHash)).toPromise();
+        store.confirmTransactions();
+        await tick();
+    };
+
+    beforeEach(async () => {
+        store = new InMemoryStore(networkType, generationHash);
+        store.autoConfirm = false;
+        store.chainHeight = UInt64.fromUint(100);
+        store.rentalFees = new RentalFees(UInt64.fromUint(10), UInt64.fromUint(1000), UInt64.fromUint(5000));
+        factory = new RepositoryFactoryInMemory(store);
+        listener = factory.createListener();
+        await listener.open();
+        service = new NamespacePortfolioService(factory);
+    });
+
+    afterEach(() => {
+        listener.close();
+    });
+
+    it('should list the namespaces of the owner with full names and expiry', async () => {
+        addNamespace('company', 150);
+        addNamespace('company.token', 150);
+        addNamespace('old', 90);
+        addNamespace('nemesis', NamespacePortfolioEntry.ETERNAL_END_HEIGHT);
+        addNamespace('others', 150, other.address);
+        const namespaces = await service.getNamespaces(owner.address).toPromise();
+        expect(namespaces.map((namespace) => [namespace.name, namespace.blocksToExpiry, namespace.isExpired()])).to.be.deep.equal([
+            ['company', 50, false],
+            ['company.token', 50, false],
+            ['old', -10, true],
+            ['nemesis', undefined, false],
+        ]);
+        expect(namespaces[3].isEternal()).to.be.true;
+    });
+
+    it('should return no namespace for an address without namespaces', async () => {
+        expect(await service.getNamespaces(other.address).toPromise()).to.be.deep.equal([]);
+    });
+
+    it('should create the renewal of the root namespace', async () => {
+        const renewal = await service
+            .createRenewal('company.token', UInt64.fromUint(200), Deadline.create(), UInt64.fromUint(7))
+            .toPromise();
+        expect(renewal.transaction.namespaceName).to.be.equal('company');
+        expect(renewal.transaction.namespaceId.equals(new NamespaceId('company'))).to.be.true;
+        expect(renewal.transaction.duration!.compact()).to.be.equal(200);
+        expect(renewal.transaction.maxFee.compact()).to.be.equal(7);
+        expect(renewal.transaction.networkType).to.be.equal(networkType);
+        expect(renewal.rentalFee.compact()).to.be.equal(2000);
+    });
+
+    it('should warn once per threshold as the expiry gets close', async () => {
+        addNamespace('company', 104);
+        addNamespace('company.token', 104);
+        addNamespace('later', 150);
+        const warnings: NamespaceExpiryWarning[] = [];
+        const subscription = service.watchExpiry(owner.address, listener, [0, 3]).subscribe((warning) => warnings.push(warning));
+        await tick();
+        expect(warnings).to.be.deep.equal([]);
+        await nextBlock();
+        expect(warnings.map((warning) => [warning.namespace.name, warning.threshold, warning.namespace.blocksToExpiry])).to.be.deep.equal([
+            ['company', 3, 3],
+        ]);
+        await nextBlock();
+        await nextBlock();
+        expect(warnings.length).to.be.equal(1);
+        await nextBlock();
+        expect(warnings.map((warning) => [warning.namespace.name, warning.threshold, warning.namespace.isExpired()])).to.be.deep.equal([
+            ['company', 3, false],
+            ['company', 0, true],
+        ]);
+        subscription.unsubscribe();
+    });
+
+    it('should warn every subscriber about the namespaces registered while watching', async () => {
+        addNamespace('later', 150);
+        const watch = service.watchExpiry(owner.address, listener, [3]);
+        const first: NamespaceExpiryWarning[] = [];
+        const second: NamespaceExpiryWarning[] = [];
+        const subscriptions = [watch.subscribe((warning) => first.push(warning))];
+        await tick();
+        addNamespace('fresh', 104);
+        await nextBlock();
+        expect(first.map((warning) => [warning.namespace.name, warning.threshold])).to.be.deep.equal([['fresh', 3]]);
+        subscriptions.push(watch.subscribe((warning) => second.push(warning)));
+        await tick();
+        expect(second.map((warning) => [warning.namespace.name, warning.threshold])).to.be.deep.equal([['fresh', 3]]);
+        subscriptions.forEach((subscription) => subscription.unsubscribe());
+    });
+
+    it('should warn again about renewed namespaces', async () => {
+        addNamespace('company', 103);
+        const warnings: NamespaceExpiryWarning[] = [];
+        const subscription = service.watchExpiry(owner.address, listener, [0, 3]).subscribe((warning) => warnings.push(warning));
+        await tick();
+        expect(warnings.map((warning) => warning.threshold)).to.be.deep.equal([3]);
+        addNamespace('company', 108);
+        await nextBlock();
+        await nextBlock();
+        await nextBlock();
+        await nextBlock();
+        expect(warnings.map((warning) => warning.threshold)).to.be.deep.equal([3]);
+        await nextBlock();
+        expect(warnings.map((warning) => [warning.threshold, warning.namespace.blocksToExpiry])).to.be.deep.equal([
+            [3, 3],
+            [3, 3],
+        ]);
+        subscription.unsubscribe();
+    });
+});
@@ -16,27 +16,40 @@
 
 import { expect } from 'chai';
 import { ChronoUnit } from 'js-joda';
-import { EMPTY, of as observableOf } from 'rxjs';
-import { deepEqual, instance, mock, when } from 'ts-mockito';
+import { EMPTY, NEVER, Observable, of as observableOf, throwError } from 'rxjs';
+import { toArray } from 'rxjs/operators';
+import { anything, deepEqual, instance, mock, when } from 'ts-mockito';
 import { IListener } from '../../src/infrastructure/IListener';
+import { InMemoryStore } from '../../src/infrastructure/inMemory/InMemoryStore';
+import { RepositoryFactoryInMemory } from '../../src/infrastructure/inMemory/RepositoryFactoryInMemory';
 import { ReceiptRepository } from '../../src/infrastructure/ReceiptRepository';
+import { RepositoryError } from '../../src/infrastructure/RepositoryError';
 import { TransactionRepository } from '../../src/infrastructure/TransactionRepository';
 
 import { Account } from '../../src/model/account/Account';
 import { Address } from '../../src/model/account/Address';
 import { PlainMessage } from '../../src/model/message/PlainMessage';
 import { Mosaic } from '../../src/model/mosaic/Mosaic';
+import { MosaicId } from '../../src/model/mosaic/MosaicId';
 import { NetworkCurrencyLocal } from '../../src/model/mosaic/NetworkCurrencyLocal';
 import { NamespaceId } from '../../src/model/namespace/NamespaceId';
 import { NetworkType } from '../../src/model/network/NetworkType';
 import { AggregateTransaction } from '../../src/model/transaction/AggregateTransaction';
 import { Deadline } from '../../src/model/transaction/Deadline';
 import { HashLockTransaction } from '../../src/model/transaction/HashLockTransaction';
+import { SignedTransaction } from '../../src/model/transaction/SignedTransaction';
+import { Transaction } from '../../src/model/transaction/Transaction';
 import { TransactionAnnounceResponse } from '../../src/model/transaction/TransactionAnnounceResponse';
+import { TransactionFailedError } from '../../src/model/transaction/TransactionFailedError';
+import { TransactionStatus } from '../../src/model/transaction/TransactionStatus';
 import { TransactionStatusError } from '../../src/model/transaction/TransactionStatusError';
+import { TransactionStatusGroup } from '../../src/model/transaction/TransactionStatusGroup';
 import { TransferTransaction } from '../../src/model/transaction/TransferTransaction';
+import { TransactionGroup } from '../../src/infrastructure/TransactionGroup';
 import { UInt64 } from '../../src/model/UInt64';
 import { TransactionService } from '../../src/service/TransactionService';
+import { TransactionTrackingEvent } from '../../src/service/TransactionTrackingEvent';
+import { TransactionTrackingState } from '../../src/service/TransactionTrackingState';
 
 /**
  * Unit test of TransactionService
@@ -122,8 +135,16 @@ describe('TransactionService', () => {
 
         try {
             await announcedTransaction.toPromise();
+            expect.fail('the transaction should fail');
         } catch (e) {
             expect(e.message).to.be.equal('Some Error');
+            expect(e).to.be.instanceOf(TransactionFailedError);
+            expect(e.code).to.be.equal('Some Error');
+            expect(e.hash).to.be.equal(signedTransaction.hash);
+            expect(e.address).to.be.equal(account.address);
+            expect(e.deadline).to.be.equal(statusError.deadline);
+            expect(e.group).to.be.equal(TransactionStatusGroup.Core);
+            expect(e.retryable).to.be.false;
         }
     });
 
@@ -168,8 +189,16 @@ describe('TransactionService', () => {
 
         try {
             await announcedTransaction.toPromise();
+            expect.fail('the transaction should fail');
         } catch (e) {
             expect(e.message).to.be.equal('Some Error');
+            expect(e).to.be.instanceOf(TransactionFailedError);
+            expect(e.code).to.be.equal('Some Error');
+            expect(e.hash).to.be.equal(signedTransaction.hash);
+            expect(e.address).to.be.equal(account.address);
+            expect(e.deadline).to.be.equal(statusError.deadline);
+            expect(e.group).to.be.equal(TransactionStatusGroup.Core);
+            expect(e.retryable).to.be.false;
         }
     });
 
@@ -209,4 +238,158 @@ describe('TransactionService', () => {
         const transaction = await announcedTransaction.toPromise();
         expect(transaction).to.be.equal(aggregateBondedTransaction);
     });
+
+    describe('announceAndTrack', () => {
+        let store: InMemoryStore;
+        let factory: RepositoryFactoryInMemory;
+        let service: TransactionService;
+
+        const serverError = new RepositoryError({ statusCode: 503, statusMessage: 'Service Unavailable', body: '' });
+
+        const states = (events: TransactionTrackingEvent[]): TransactionTrackingState[] => events.map((e) => e.state);
+
+        const deafListener = (): IListener => {
+            const deaf: IListener = mock();
+            when(deaf.unconfirmedAdded(anything(), anything())).thenReturn(NEVER);
+            when(deaf.confirmed(anything(), anything())).thenReturn(NEVER);
+            when(deaf.status(anything(), anything())).thenReturn(NEVER);
+            return instance(deaf);
+        };
+
+        beforeEach(() => {
+            store = new InMemoryStore(NetworkType.MIJIN_TEST, generationHash);
+            factory = new RepositoryFactoryInMemory(store);
+            service = new TransactionService(
+                factory.createTransactionRepository(),
+                factory.createReceiptRepository(),
+                factory.createTransactionStatusRepository(),
+            );
+        });
+
+        const pastDeadlineTransaction = (): SignedTransaction => {
+            const deadline = Deadline.createFromDTO(UInt64.fromUint(Date.now() + 50 - Deadline.timestampNemesisBlock * 1000).toString());
+            const transfer = TransferTransaction.create(deadline, account.address, [], PlainMessage.create(''), NetworkType.MIJIN_TEST);
+            return account.sign(transfer, generationHash);
+        };
+
+        const trackUntilError = (events: TransactionTrackingEvent[], tracking: Observable<TransactionTrackingEvent>): Promise<unknown> =>
+            new Promise((resolve, reject) =>
+                tracking.subscribe(
+                    (event) => events.push(event),
+                    resolve,
+                    () => reject(new Error('Tracking should have failed')),
+                ),
+            );
+
+        it('should emit the progress until confirmed', async () => {
+            const signedTransaction = account.sign(transferTransaction, generationHash);
+
+            const events = await service.announceAndTrack(signedTransaction, factory.createListener()).pipe(toArray()).toPromise();
+
+            expect(states(events)).to.deep.equal(['announced', 'unconfirmed', 'confirmed']);
+            expect(events[2].transaction!.transactionInfo!.hash).to.be.equal(signedTransaction.hash);
+            expect(events[2].announceCount).to.be.equal(1);
+        });
+
+        it('should emit failed with the status error code', async () => {
+            const transfer = TransferTransaction.create(
+                Deadline.create(),
+                account.address,
+                [new Mosaic(new MosaicId('0DC67FBE1CAD29E3'), UInt64.fromUint(10))],
+                PlainMessage.create('test-message'),
+                NetworkType.MIJIN_TEST,
+            );
+            const signedTransaction = account.sign(transfer, generationHash);
+
+            const events = await service.announceAndTrack(signedTransaction, factory.createListener()).pipe(toArray()).toPromise();
+
+            expect(states(events)).to.deep.equal(['announced', 'unconfirmed', 'failed']);
+            expect(events[2].error!.code).to.be.equal('Failure_Core_Insufficient_Balance');
+        });
+
+        it('should poll the status when the listener misses the events', async () => {
+            const signedTransaction = account.sign(transferTransaction, generationHash);
+
+            const events = await service
+                .announceAndTrack(signedTransaction, deafListener(), { pollingInterval: 10 })
+                .pipe(toArray())
+                .toPromise();
+
+            expect(states(events)).to.deep.equal(['announced', 'confirmed']);
+            expect(events[1].transaction!.transactionInfo!.hash).to.be.equal(signedTransaction.hash);
+        });
+
+        it('should fail when the deadline is reached', async () => {
+            store.autoConfirm = false;
+
+            const events = await service
+                .announceAndTrack(pastDeadlineTransaction(), deafListener(), { pollingInterval: 1000, deadlineGracePeriod: 0 })
+                .pipe(toArray())
+                .toPromise();
+
+            expect(states(events)).to.deep.equal(['announced', 'unconfirmed', 'failed']);
+            expect(events[2].error!.code).to.be.equal('Failure_Core_Past_Deadline');
+        });
+
+        it('should raise the error when the status cannot be checked at the deadline', async () => {
+            store.autoConfirm = false;
+            const statusRepository = factory.createTransactionStatusRepository();
+            statusRepository.getTransactionStatus = (): Observable<TransactionStatus> => throwError(serverError);
+            service = new TransactionService(factory.createTransactionRepository(), factory.createReceiptRepository(), statusRepository);
+            const events: TransactionTrackingEvent[] = [];
+
+            const error = await trackUntilError(
+                events,
+                service.announceAndTrack(pastDeadlineTransaction(), deafListener(), { pollingInterval: 10, deadlineGracePeriod: 0 }),
+            );
+
+            expect(error).to.be.equal(serverError);
+            expect(states(events)).to.deep.equal(['announced']);
+        });
+
+        it('should raise the error when the confirmed transaction cannot be loaded at the deadline', async () => {
+            const transactionRepository = factory.createTransactionRepository();
+            transactionRepository.getTransaction = (): Observable<Transaction> => throwError(serverError);
+            service = new TransactionService(
+                transactionRepository,
+                factory.createReceiptRepository(),
+                factory.createTransactionStatusRepository(),
+            );
+            const events: TransactionTrackingEvent[] = [];
+
+            const error = await trackUntilError(
+                events,
+                service.announceAndTrack(pastDeadlineTransaction(), deafListener(), { pollingInterval: 1000, deadlineGracePeriod: 0 }),
+            );
+
+            expect(error).to.be.equal(serverError);
+            expect(states(events)).to.deep.equal(['announced']);
+        });
+
+        it('should announce again when the transaction drops from the unconfirmed pool', async () => {
+            store.autoConfirm = false;
+            const signedTransaction = account.sign(transferTransaction, generationHash);
+            const events: TransactionTrackingEvent[] = [];
+
+            await new Promise((resolve, reject) =>
+                service.announceAndTrack(signedTransaction, factory.createListener(), { pollingInterval: 10, reannounce: true }).subscribe(
+                    (event) => {
+                        events.push(event);
+                        if (event.state === TransactionTrackingState.Unconfirmed && event.announceCount === 1) {
+                            // the node drops the transaction
+                            store.transactions.get(TransactionGroup.Unconfirmed)!.splice(0);
+                            store.transactionStatuses.clear();
+                        } else if (event.state === TransactionTrackingState.Unconfirmed) {
+                            store.confirmTransactions();
+                        }
+                    },
+                    reject,
+                    resolve,
+                ),
+            );
+
+            expect(states(events)).to.deep.equal(['announced', 'unconfirmed', 'announced', 'unconfirmed', 'confirmed']);
+            expect(events[4].announceCount).to.be.equal(2);
+        });
+    });
 });
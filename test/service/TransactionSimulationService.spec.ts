@@ -0,0 +1,336 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { Observable, throwError } from 'rxjs';
+import { InMemoryStore } from '../../src/infrastructure/inMemory/InMemoryStore';
+import { RepositoryFactoryInMemory } from '../../src/infrastructure/inMemory/RepositoryFactoryInMemory';
+import { NamespaceRepository } from '../../src/infrastructure/NamespaceRepository';
+import { RepositoryError } from '../../src/infrastructure/RepositoryError';
+import { Account } from '../../src/model/account/Account';
+import { AccountInfo } from '../../src/model/account/AccountInfo';
+import { AccountType } from '../../src/model/account/AccountType';
+import { Address } from '../../src/model/account/Address';
+import { SupplementalPublicKeys } from '../../src/model/account/SupplementalPublicKeys';
+import { UnresolvedAddress } from '../../src/model/account/UnresolvedAddress';
+import { PlainMessage } from '../../src/model/message/PlainMessage';
+import { Mosaic } from '../../src/model/mosaic/Mosaic';
+import { MosaicFlags } from '../../src/model/mosaic/MosaicFlags';
+import { MosaicId } from '../../src/model/mosaic/MosaicId';
+import { MosaicInfo } from '../../src/model/mosaic/MosaicInfo';
+import { MosaicSupplyChangeAction } from '../../src/model/mosaic/MosaicSupplyChangeAction';
+import { AddressAlias } from '../../src/model/namespace/AddressAlias';
+import { Alias } from '../../src/model/namespace/Alias';
+import { AliasAction } from '../../src/model/namespace/AliasAction';
+import { EmptyAlias } from '../../src/model/namespace/EmptyAlias';
+import { NamespaceId } from '../../src/model/namespace/NamespaceId';
+import { NamespaceInfo } from '../../src/model/namespace/NamespaceInfo';
+import { ChainProperties } from '../../src/model/network/ChainProperties';
+import { NetworkConfiguration } from '../../src/model/network/NetworkConfiguration';
+import { NetworkProperties } from '../../src/model/network/NetworkProperties';
+import { NetworkType } from '../../src/model/network/NetworkType';
+import { PluginProperties } from '../../src/model/network/PluginProperties';
+import { RentalFees } from '../../src/model/network/RentalFees';
+import { AccountRestriction } from '../../src/model/restriction/AccountRestriction';
+import { AccountRestrictions } from '../../src/model/restriction/AccountRestrictions';
+import { AddressRestrictionFlag } from '../../src/model/restriction/AddressRestrictionFlag';
+import { MosaicAddressRestriction } from '../../src/model/restriction/MosaicAddressRestriction';
+import { MosaicGlobalRestriction } from '../../src/model/restriction/MosaicGlobalRestriction';
+import { MosaicGlobalRestrictionItem } from '../../src/model/restriction/MosaicGlobalRestrictionItem';
+import { MosaicRestrictionEntryType } from '../../src/model/restriction/MosaicRestrictionEntryType';
+import { MosaicRestrictionFlag } from '../../src/model/restriction/MosaicRestrictionFlag';
+import { MosaicRestrictionType } from '../../src/model/restriction/MosaicRestrictionType';
+import { OperationRestrictionFlag } from '../../src/model/restriction/OperationRestrictionFlag';
+import { AddressAliasTransaction } from '../../src/model/transaction/AddressAliasTransaction';
+import { AggregateTransaction } from '../../src/model/transaction/AggregateTransaction';
+import { Deadline } from '../../src/model/transaction/Deadline';
+import { MosaicSupplyChangeTransaction } from '../../src/model/transaction/MosaicSupplyChangeTransaction';
+import { NamespaceRegistrationTransaction } from '../../src/model/transaction/NamespaceRegistrationTransaction';
+import { TransactionType } from '../../src/model/transaction/TransactionType';
+import { TransferTransaction } from '../../src/model/transaction/TransferTransaction';
+import { UInt64 } from '../../src/model/UInt64';
+import { TransactionSimulation } from '../../src/service/TransactionSimulation';
+import { TransactionSimulationService } from '../../src/service/TransactionSimulationService';
+
+describe('TransactionSimulationService', () => {
+    const networkType = NetworkType.MIJIN_TEST;
+    const generationHash = '57F7DA205008026C776CB6AED843393F04CD458E0AA2D9F1D5F31A402072B2D6';
+    const currency = new MosaicId('0DC67FBE1CAD29E3');
+    const token = new MosaicId('6BED913FA20223F8');
+    const alice = Account.generateNewAccount(networkType);
+    const bob = Account.generateNewAccount(networkType);
+    const carol = Account.generateNewAccount(networkType);
+
+    let store: InMemoryStore;
+    let service: TransactionSimulationService;
+
+    const accountInfo = (address: Address, ...mosaics: Mosaic[]): AccountInfo =>
+        new AccountInfo(
+            address,
+            UInt64.fromUint(1),
+            '0'.repeat(64),
+            UInt64.fromUint(0),
+            AccountType.Unlinked,
+            new SupplementalPublicKeys(),
+            [],
+            mosaics,
+            UInt64.fromUint(0),
+            UInt64.fromUint(0),
+        );
+
+    const mosaicInfo = (mosaicId: MosaicId, owner: Address, flags: number): MosaicInfo =>
+        new MosaicInfo('1', mosaicId, UInt64.fromUint(100000), UInt64.fromUint(1), owner, 1, new MosaicFlags(flags), 0, UInt64.fromUint(0));
+
+    const namespaceInfo = (name: string, owner: Address, alias: Alias = new EmptyAlias()): NamespaceInfo =>
+        new NamespaceInfo(
+            true,
+            0,
+            '1',
+            0,
+            1,
+            [new NamespaceId(name)],
+            new NamespaceId([0, 0]),
+            owner,
+            UInt64.fromUint(1),
+            UInt64.fromUint(1000),
+            alias,
+        );
+
+    const transfer = (recipient: UnresolvedAddress, mosaics: Mosaic[], maxFee = 0): TransferTransaction =>
+        TransferTransaction.create(Deadline.create(), recipient, mosaics, PlainMessage.create(''), networkType, UInt64.fromUint(maxFee));
+
+    const amount = (mosaicId: MosaicId, value: number): Mosaic => new Mosaic(mosaicId, UInt64.fromUint(value));
+
+    const codes = (simulation: TransactionSimulation): string[] => simulation.violations.map((violation) => violation.code);
+
+    const changes = (simulation: TransactionSimulation): any[] =>
+        simulation.balanceChanges.map((change) => [
+            change.address.plain(),
+            change.mosaicId.toHex(),
+            change.balance.compact(),
+            change.predictedBalance.compact(),
+        ]);
+
+    beforeEach(() => {
+        store = new InMemoryStore(networkType, generationHash);
+        store.networkProperties = new NetworkConfiguration(
+            new NetworkProperties(),
+            new ChainProperties(undefined, undefined, "0x0DC6'7FBE'1CAD'29E3"),
+            new PluginProperties(),
+        );
+        store.rentalFees = new RentalFees(UInt64.fromUint(2), UInt64.fromUint(50), UInt64.fromUint(500));
+        store.addAccounts(accountInfo(alice.address, amount(currency, 1000), amount(token, 100)), accountInfo(carol.address));
+        store.addMosaics(mosaicInfo(currency, carol.address, 2), mosaicInfo(token, carol.address, 2));
+        service = new TransactionSimulationService(new RepositoryFactoryInMemory(store));
+    });
+
+    it('should predict the balance changes of a valid transfer', async () => {
+        const simulation = await service
+            .simulate(transfer(bob.address, [amount(currency, 100), amount(token, 5)], 10), alice.publicAccount)
+            .toPromise();
+        expect(simulation.isValid()).to.be.true;
+        expect(changes(simulation)).to.be.deep.equal([
+            [alice.address.plain(), currency.toHex(), 1000, 890],
+            [bob.address.plain(), currency.toHex(), 0, 100],
+            [alice.address.plain(), token.toHex(), 100, 95],
+            [bob.address.plain(), token.toHex(), 0, 5],
+        ]);
+        expect(simulation.balanceChanges[0].isIncrease()).to.be.false;
+        expect(simulation.balanceChanges[0].amount.compact()).to.be.equal(110);
+        expect(simulation.balanceChanges[1].isIncrease()).to.be.true;
+        expect(simulation.balanceChanges[1].amount.compact()).to.be.equal(100);
+    });
+
+    it('should find the insufficient balances including the max fee', async () => {
+        const simulation = await service.simulate(transfer(bob.address, [amount(currency, 995)], 10), alice.publicAccount).toPromise();
+        expect(codes(simulation)).to.be.deep.equal(['Failure_Core_Insufficient_Balance']);
+        expect(simulation.violations[0].message).to.be.equal(
+            `Account ${alice.address.plain()} has 990 of mosaic ${currency.toHex()}, 995 is required`,
+        );
+    });
+
+    it('should apply the balances of the inner transactions in order', async () => {
+        const aggregate = (first: Account, second: Account): AggregateTransaction =>
+            AggregateTransaction.createComplete(
+                Deadline.create(),
+                [
+                    transfer(bob.address, [amount(currency, 600)]).toAggregate(first.publicAccount),
+                    transfer(carol.address, [amount(currency, 500)]).toAggregate(second.publicAccount),
+                ],
+                networkType,
+                [],
+            );
+        const valid = await service.simulate(aggregate(alice, bob), alice.publicAccount).toPromise();
+        expect(valid.isValid()).to.be.true;
+        expect(changes(valid)).to.be.deep.equal([
+            [alice.address.plain(), currency.toHex(), 1000, 400],
+            [bob.address.plain(), currency.toHex(), 0, 100],
+            [carol.address.plain(), currency.toHex(), 0, 500],
+        ]);
+
+        const invalid = await service.simulate(aggregate(bob, alice), alice.publicAccount).toPromise();
+        expect(codes(invalid)).to.be.deep.equal(['Failure_Core_Insufficient_Balance']);
+        expect(invalid.violations[0].innerTransactionIndex).to.be.equal(0);
+        expect(invalid.violations[0].transaction).to.be.equal((invalid.transaction as AggregateTransaction).innerTransactions[0]);
+    });
+
+    it('should check the mosaics are transferable', async () => {
+        store.addMosaics(mosaicInfo(token, carol.address, 0));
+        const toBob = await service.simulate(transfer(bob.address, [amount(token, 5)]), alice.publicAccount).toPromise();
+        expect(codes(toBob)).to.be.deep.equal(['Failure_Mosaic_Non_Transferable']);
+        const toOwner = await service.simulate(transfer(carol.address, [amount(token, 5)]), alice.publicAccount).toPromise();
+        expect(toOwner.isValid()).to.be.true;
+    });
+
+    it('should check the account restrictions', async () => {
+        store.addAccountRestrictions(
+            new AccountRestrictions(alice.address, [
+                new AccountRestriction(AddressRestrictionFlag.BlockOutgoingAddress, [bob.address]),
+                new AccountRestriction(OperationRestrictionFlag.AllowOutgoingTransactionType, [TransactionType.TRANSFER as any]),
+            ]),
+            new AccountRestrictions(carol.address, [new AccountRestriction(MosaicRestrictionFlag.AllowMosaic, [currency])]),
+        );
+        const toBob = await service.simulate(transfer(bob.address, [amount(currency, 1)]), alice.publicAccount).toPromise();
+        expect(codes(toBob)).to.be.deep.equal(['Failure_RestrictionAccount_Address_Interaction_Prohibited']);
+
+        const toCarol = await service
+            .simulate(transfer(carol.address, [amount(currency, 1), amount(token, 1)]), alice.publicAccount)
+            .toPromise();
+        expect(codes(toCarol)).to.be.deep.equal(['Failure_RestrictionAccount_Mosaic_Transfer_Prohibited']);
+
+        const registration = NamespaceRegistrationTransaction.createRootNamespace(
+            Deadline.create(),
+            'alice',
+            UInt64.fromUint(10),
+            networkType,
+        );
+        const operation = await service.simulate(registration, alice.publicAccount).toPromise();
+        expect(codes(operation)).to.be.deep.equal(['Failure_RestrictionAccount_Operation_Type_Prohibited']);
+    });
+
+    it('should check the mosaic restrictions of the sender and the recipient', async () => {
+        store.addMosaics(mosaicInfo(token, carol.address, 2 + 4));
+        store.addMosaicGlobalRestrictions(
+            new MosaicGlobalRestriction(
+                'hash',
+                MosaicRestrictionEntryType.GLOBAL,
+                token,
+                new Map([['1', new MosaicGlobalRestrictionItem(new MosaicId('0000000000000000'), '2', MosaicRestrictionType.GE)]]),
+            ),
+        );
+        const kyc = (address: Address, value: string): MosaicAddressRestriction =>
+            new MosaicAddressRestriction('hash', MosaicRestrictionEntryType.ADDRESS, token, address, new Map([['1', value]]));
+        store.addMosaicAddressRestrictions(kyc(alice.address, '3'), kyc(carol.address, '1'));
+
+        const toCarol = await service.simulate(transfer(carol.address, [amount(token, 1)]), alice.publicAccount).toPromise();
+        expect(codes(toCarol)).to.be.deep.equal(['Failure_RestrictionMosaic_Account_Unauthorized']);
+        expect(toCarol.violations[0].message).to.be.equal(
+            `Account ${carol.address.plain()} is not authorized to move mosaic ${token.toHex()}`,
+        );
+        const toBob = await service.simulate(transfer(bob.address, [amount(token, 1)]), alice.publicAccount).toPromise();
+        expect(codes(toBob)).to.be.deep.equal(['Failure_RestrictionMosaic_Account_Unauthorized']);
+
+        store.addMosaicAddressRestrictions(kyc(bob.address, '2'));
+        const authorized = await service.simulate(transfer(bob.address, [amount(token, 1)]), alice.publicAccount).toPromise();
+        expect(authorized.isValid()).to.be.true;
+    });
+
+    it('should resolve the aliases', async () => {
+        store.addNamespace(namespaceInfo('bob', bob.address, new AddressAlias(bob.address)), 'bob');
+        const linked = await service.simulate(transfer(new NamespaceId('bob'), [amount(currency, 1)]), alice.publicAccount).toPromise();
+        expect(linked.isValid()).to.be.true;
+        expect(changes(linked)[1]).to.be.deep.equal([bob.address.plain(), currency.toHex(), 0, 1]);
+
+        const unknown = await service
+            .simulate(transfer(new NamespaceId('nobody'), [amount(new NamespaceId('coin'), 1)]), alice.publicAccount)
+            .toPromise();
+        expect(codes(unknown)).to.be.deep.equal(['Failure_Namespace_Unknown_Alias']);
+        expect(unknown.violations[0].message).to.be.equal('Alias nobody is not linked');
+    });
+
+    it('should raise the errors resolving the aliases other than not found', async () => {
+        const factory = new RepositoryFactoryInMemory(store);
+        const namespaceRepository = factory.createNamespaceRepository();
+        namespaceRepository.getLinkedAddress = (): Observable<Address> =>
+            throwError(new RepositoryError({ statusCode: 500, statusMessage: 'Internal Server Error', body: '' }));
+        factory.createNamespaceRepository = (): NamespaceRepository => namespaceRepository;
+        try {
+            await new TransactionSimulationService(factory)
+                .simulate(transfer(new NamespaceId('bob'), [amount(currency, 1)]), alice.publicAccount)
+                .toPromise();
+            expect.fail('Should have failed');
+        } catch (e) {
+            expect(e).to.be.instanceOf(RepositoryError);
+            expect(e.statusCode).to.be.equal(500);
+        }
+    });
+
+    it('should check the namespaces being linked and unlinked', async () => {
+        store.addNamespace(namespaceInfo('alice', alice.address), 'alice');
+        store.addNamespace(namespaceInfo('bob', bob.address, new AddressAlias(bob.address)), 'bob');
+        const alias = (name: string, action: AliasAction, address: Address): AddressAliasTransaction =>
+            AddressAliasTransaction.create(Deadline.create(), action, new NamespaceId(name), address, networkType);
+        const simulate = async (transaction: AddressAliasTransaction, signer: Account): Promise<string[]> =>
+            codes(await service.simulate(transaction, signer.publicAccount).toPromise());
+
+        expect(await simulate(alias('alice', AliasAction.Link, alice.address), alice)).to.be.deep.equal([]);
+        expect(await simulate(alias('alice', AliasAction.Link, alice.address), bob)).to.be.deep.equal(['Failure_Namespace_Owner_Conflict']);
+        expect(await simulate(alias('alice', AliasAction.Unlink, alice.address), alice)).to.be.deep.equal([
+            'Failure_Namespace_Unknown_Alias',
+        ]);
+        expect(await simulate(alias('bob', AliasAction.Link, bob.address), bob)).to.be.deep.equal([
+            'Failure_Namespace_Alias_Already_Exists',
+        ]);
+        expect(await simulate(alias('bob', AliasAction.Unlink, alice.address), bob)).to.be.deep.equal([
+            'Failure_Namespace_Alias_Inconsistent_Unlink_Data',
+        ]);
+        expect(await simulate(alias('bob', AliasAction.Unlink, bob.address), bob)).to.be.deep.equal([]);
+        expect(await simulate(alias('carol', AliasAction.Link, carol.address), carol)).to.be.deep.equal(['Failure_Namespace_Unknown']);
+    });
+
+    it('should include the rental fees and the supply changes', async () => {
+        const aggregate = AggregateTransaction.createComplete(
+            Deadline.create(),
+            [
+                NamespaceRegistrationTransaction.createRootNamespace(Deadline.create(), 'alice', UInt64.fromUint(100), networkType),
+                NamespaceRegistrationTransaction.createSubNamespace(Deadline.create(), 'shop', 'alice', networkType),
+                MosaicSupplyChangeTransaction.create(
+                    Deadline.create(),
+                    token,
+                    MosaicSupplyChangeAction.Increase,
+                    UInt64.fromUint(50),
+                    networkType,
+                ),
+            ].map((transaction) => transaction.toAggregate(alice.publicAccount)),
+            networkType,
+            [],
+            UInt64.fromUint(30),
+        );
+        const simulation = await service.simulate(aggregate, alice.publicAccount).toPromise();
+        expect(simulation.isValid()).to.be.true;
+        expect(changes(simulation)).to.be.deep.equal([
+            [alice.address.plain(), currency.toHex(), 1000, 720],
+            [alice.address.plain(), token.toHex(), 100, 150],
+        ]);
+    });
+
+    it('should use the signer of a signed transaction', async () => {
+        const transaction = transfer(bob.address, [amount(currency, 1)]);
+        expect(() => service.simulate(transaction)).to.throw('The signer of the transaction is required to simulate it.');
+        const signed = await service.simulate(transaction, alice.publicAccount).toPromise();
+        expect(changes(signed)[0]).to.be.deep.equal([alice.address.plain(), currency.toHex(), 1000, 999]);
+    });
+});
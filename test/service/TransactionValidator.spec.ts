@@ -0,0 +1,192 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { ChronoUnit } from 'js-joda';
+import { Account } from '../../src/model/account/Account';
+import { PlainMessage } from '../../src/model/message/PlainMessage';
+import { Mosaic } from '../../src/model/mosaic/Mosaic';
+import { MosaicFlags } from '../../src/model/mosaic/MosaicFlags';
+import { MosaicId } from '../../src/model/mosaic/MosaicId';
+import { MosaicNonce } from '../../src/model/mosaic/MosaicNonce';
+import { AggregateNetworkProperties } from '../../src/model/network/AggregateNetworkProperties';
+import { ChainProperties } from '../../src/model/network/ChainProperties';
+import { MosaicNetworkProperties } from '../../src/model/network/MosaicNetworkProperties';
+import { MultisigNetworkProperties } from '../../src/model/network/MultisigNetworkProperties';
+import { NamespaceNetworkProperties } from '../../src/model/network/NamespaceNetworkProperties';
+import { NetworkConfiguration } from '../../src/model/network/NetworkConfiguration';
+import { NetworkProperties } from '../../src/model/network/NetworkProperties';
+import { NetworkType } from '../../src/model/network/NetworkType';
+import { PluginProperties } from '../../src/model/network/PluginProperties';
+import { TransferNetworkProperties } from '../../src/model/network/TransferNetworkProperties';
+import { AggregateTransaction } from '../../src/model/transaction/AggregateTransaction';
+import { Deadline } from '../../src/model/transaction/Deadline';
+import { MosaicDefinitionTransaction } from '../../src/model/transaction/MosaicDefinitionTransaction';
+import { MultisigAccountModificationTransaction } from '../../src/model/transaction/MultisigAccountModificationTransaction';
+import { NamespaceRegistrationTransaction } from '../../src/model/transaction/NamespaceRegistrationTransaction';
+import { TransferTransaction } from '../../src/model/transaction/TransferTransaction';
+import { UInt64 } from '../../src/model/UInt64';
+import { TransactionValidator } from '../../src/service/TransactionValidator';
+import { TransactionViolation } from '../../src/service/TransactionViolation';
+
+describe('TransactionValidator', () => {
+    const networkType = NetworkType.MIJIN_TEST;
+    const account = Account.generateNewAccount(networkType);
+    const mosaicId = new MosaicId([1, 0]);
+
+    const validator = new TransactionValidator(
+        new NetworkConfiguration(
+            new NetworkProperties(),
+            new ChainProperties(
+                undefined,
+                undefined,
+                undefined,
+                undefined,
+                '15s',
+                undefined,
+                undefined,
+                undefined,
+                undefined,
+                undefined,
+                undefined,
+                undefined,
+                '6h',
+            ),
+            new PluginProperties(
+                undefined,
+                new AggregateNetworkProperties('2', '3', true, true, '48h'),
+                undefined,
+                undefined,
+                undefined,
+                new MosaicNetworkProperties(undefined, '3650d', '6'),
+                new MultisigNetworkProperties('3', '2'),
+                new NamespaceNetworkProperties('10', undefined, undefined, '1m', '365d', undefined, 'xem, nem, symbol'),
+                undefined,
+                undefined,
+                new TransferNetworkProperties("1'024"),
+            ),
+        ),
+    );
+
+    const transfer = (message = '', mosaics: Mosaic[] = []): TransferTransaction =>
+        TransferTransaction.create(Deadline.create(), account.address, mosaics, PlainMessage.create(message), networkType);
+
+    const codes = (violations: TransactionViolation[]): string[] => violations.map((violation) => violation.code);
+
+    it('should accept a valid transaction', () => {
+        expect(validator.validate(transfer('hello', [new Mosaic(mosaicId, UInt64.fromUint(1))]))).to.be.deep.equal([]);
+    });
+
+    it('should check the transfer message size and mosaics', () => {
+        expect(validator.validate(transfer('a'.repeat(1023)))).to.be.deep.equal([]);
+        const tooLarge = transfer('a'.repeat(1024));
+        const violations = validator.validate(tooLarge);
+        expect(codes(violations)).to.be.deep.equal(['Failure_Transfer_Message_Too_Large']);
+        expect(violations[0].transaction).to.be.equal(tooLarge);
+        expect(violations[0].innerTransactionIndex).to.be.undefined;
+        expect(violations[0].message).to.be.equal('The message of 1025 bytes exceeds the maximum message size of 1024 bytes');
+
+        const mosaics = [new Mosaic(mosaicId, UInt64.fromUint(1)), new Mosaic(mosaicId, UInt64.fromUint(2))];
+        expect(codes(validator.validate(transfer('', mosaics)))).to.be.deep.equal(['Failure_Transfer_Out_Of_Order_Mosaics']);
+    });
+
+    it('should check the deadline bounds', () => {
+        const now = new Date();
+        expect(codes(validator.validate(transfer(), new Date(now.getTime() + 3 * 3600 * 1000)))).to.be.deep.equal([
+            'Failure_Core_Past_Deadline',
+        ]);
+        const tooLate = TransferTransaction.create(
+            Deadline.create(7, ChronoUnit.HOURS),
+            account.address,
+            [],
+            PlainMessage.create(''),
+            networkType,
+        );
+        expect(codes(validator.validate(tooLate))).to.be.deep.equal(['Failure_Core_Future_Deadline']);
+        const bonded = AggregateTransaction.createBonded(
+            Deadline.create(7, ChronoUnit.HOURS),
+            [transfer().toAggregate(account.publicAccount)],
+            networkType,
+        );
+        expect(validator.validate(bonded)).to.be.deep.equal([]);
+    });
+
+    it('should check the aggregate and its inner transactions', () => {
+        const inner = transfer().toAggregate(account.publicAccount);
+        const aggregate = AggregateTransaction.createComplete(
+            Deadline.create(),
+            [inner, transfer('a'.repeat(2000)).toAggregate(account.publicAccount), inner],
+            networkType,
+            [],
+        );
+        const violations = validator.validate(aggregate);
+        expect(codes(violations)).to.be.deep.equal(['Failure_Aggregate_Too_Many_Transactions', 'Failure_Transfer_Message_Too_Large']);
+        expect(violations[0].transaction).to.be.equal(aggregate);
+        expect(violations[1].transaction).to.be.equal(aggregate.innerTransactions[1]);
+        expect(violations[1].innerTransactionIndex).to.be.equal(1);
+
+        const empty = AggregateTransaction.createComplete(Deadline.create(), [], networkType, []);
+        expect(codes(validator.validate(empty))).to.be.deep.equal(['Failure_Aggregate_No_Transactions']);
+    });
+
+    it('should check the number of cosignatories', () => {
+        const addresses = [1, 2, 3].map(() => Account.generateNewAccount(networkType).address);
+        const modification = (additions: number): MultisigAccountModificationTransaction =>
+            MultisigAccountModificationTransaction.create(Deadline.create(), 1, 1, addresses.slice(0, additions), [], networkType);
+        expect(validator.validate(modification(2))).to.be.deep.equal([]);
+        expect(codes(validator.validate(modification(3)))).to.be.deep.equal(['Failure_Multisig_Max_Cosignatories']);
+    });
+
+    it('should check the namespace names and durations', () => {
+        const root = (name: string, duration: number): NamespaceRegistrationTransaction =>
+            NamespaceRegistrationTransaction.createRootNamespace(Deadline.create(), name, UInt64.fromUint(duration), networkType);
+        expect(validator.validate(root('company', 1000))).to.be.deep.equal([]);
+        expect(codes(validator.validate(root('companyname', 1000)))).to.be.deep.equal(['Failure_Namespace_Invalid_Name']);
+        expect(codes(validator.validate(root('symbol', 1000)))).to.be.deep.equal(['Failure_Namespace_Root_Name_Reserved']);
+        expect(codes(validator.validate(root('company', 3)))).to.be.deep.equal(['Failure_Namespace_Invalid_Duration']);
+        expect(validator.validate(root('company', 2102400))).to.be.deep.equal([]);
+        expect(codes(validator.validate(root('company', 2102401)))).to.be.deep.equal(['Failure_Namespace_Invalid_Duration']);
+
+        const child = NamespaceRegistrationTransaction.createSubNamespace(Deadline.create(), 'symbol', 'company', networkType);
+        expect(validator.validate(child)).to.be.deep.equal([]);
+    });
+
+    it('should check the mosaic divisibility and duration', () => {
+        const definition = (divisibility: number, duration: number): MosaicDefinitionTransaction =>
+            MosaicDefinitionTransaction.create(
+                Deadline.create(),
+                MosaicNonce.createRandom(),
+                mosaicId,
+                MosaicFlags.create(true, true),
+                divisibility,
+                UInt64.fromUint(duration),
+                networkType,
+            );
+        expect(validator.validate(definition(6, 0))).to.be.deep.equal([]);
+        expect(validator.validate(definition(6, 21024000))).to.be.deep.equal([]);
+        expect(codes(validator.validate(definition(7, 21024001)))).to.be.deep.equal([
+            'Failure_Mosaic_Invalid_Divisibility',
+            'Failure_Mosaic_Invalid_Duration',
+        ]);
+    });
+
+    it('should skip the limits the network does not define', () => {
+        const lenient = new TransactionValidator(
+            new NetworkConfiguration(new NetworkProperties(), new ChainProperties(), new PluginProperties()),
+        );
+        expect(lenient.validate(transfer('a'.repeat(2000)))).to.be.deep.equal([]);
+    });
+});